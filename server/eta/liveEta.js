@@ -0,0 +1,105 @@
+// Live ETA along a route polyline: remaining distance from the ambulance's projected
+// position, travel time per remaining segment from historical speeds (blended with the
+// planned route speed until enough samples exist) and a smoothing window so the
+// published ETA does not jump with every GPS fix or collapse at a red light.
+import { bearingBetween, projectOntoRouteSegments, segmentLength } from "../signals/routeGeometry.js";
+
+// Historical speeds are kept per ~200 m grid cell and travel direction
+export const CELL_DEGREES = 0.002;
+// Samples after which a cell's history outweighs the planned speed
+const HISTORY_WEIGHT_SAMPLES = 5;
+const HISTORY_MAX_SAMPLES = 50;
+const MIN_SPEED_KMH = 8;
+const MAX_SPEED_KMH = 90;
+const FALLBACK_SPEED_KMH = 25;
+// Fixes further than this from the route are treated as off-route
+const ON_ROUTE_OFFSET = 60; // meters
+// Raw estimates averaged into the published ETA
+export const SMOOTHING_WINDOW_SECONDS = 60;
+
+const clampSpeed = (kmh) => Math.min(MAX_SPEED_KMH, Math.max(MIN_SPEED_KMH, kmh));
+
+// Grid cell and direction quadrant of travel from `from` to `to`
+export const cellKey = (from, to) => {
+  const lat = (from[0] + to[0]) / 2;
+  const lng = (from[1] + to[1]) / 2;
+  const quadrant = Math.round(bearingBetween(from, to) / 90) % 4;
+  return `${Math.floor(lat / CELL_DEGREES)}:${Math.floor(lng / CELL_DEGREES)}:${quadrant}`;
+};
+
+// Average speed the leg was planned with, in km/h
+export const plannedSpeedKmh = (leg) =>
+  leg?.distance > 0 && leg?.duration > 0 ? clampSpeed((leg.distance / leg.duration) * 3.6) : FALLBACK_SPEED_KMH;
+
+/**
+ * Where the ambulance is along the route. Near self-crossings several segments are
+ * close by; the one nearest to the previous progress wins so progress never jumps.
+ */
+export const locateOnRoute = (coordinates, lat, lng, previousDistance = null) => {
+  const projections = projectOntoRouteSegments(coordinates, lat, lng);
+  if (projections.length === 0) return null;
+
+  const onRoute = projections.filter((projection) => projection.offset <= ON_ROUTE_OFFSET);
+  if (onRoute.length === 0 || previousDistance === null) return projections[0];
+  return onRoute.reduce((best, projection) =>
+    Math.abs(projection.distanceAlong - previousDistance) < Math.abs(best.distanceAlong - previousDistance)
+      ? projection
+      : best
+  );
+};
+
+/**
+ * Seconds to drive the rest of the route from `distanceAlong`. `speedFor(key)` returns
+ * the learned { mean_speed_kmh, samples } of a cell or undefined.
+ * An off-route ambulance is charged its straight-line offset back to the route.
+ */
+export const estimateRemaining = (coordinates, projection, plannedKmh, speedFor) => {
+  let remainingMeters = 0;
+  let seconds = 0;
+  let travelled = 0;
+
+  const driveSegment = (from, to, length) => {
+    if (length <= 0) return;
+    const history = speedFor(cellKey(from, to));
+    const weight = history ? history.samples / (history.samples + HISTORY_WEIGHT_SAMPLES) : 0;
+    const kmh = clampSpeed(weight * (history?.mean_speed_kmh ?? 0) + (1 - weight) * plannedKmh);
+    remainingMeters += length;
+    seconds += length / (kmh / 3.6);
+  };
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const length = segmentLength(coordinates[i], coordinates[i + 1]);
+    const segmentStart = travelled;
+    travelled += length;
+    if (travelled <= projection.distanceAlong) continue;
+
+    const covered = Math.max(0, projection.distanceAlong - segmentStart);
+    driveSegment(coordinates[i], coordinates[i + 1], length - covered);
+  }
+
+  if (projection.offset > ON_ROUTE_OFFSET) {
+    remainingMeters += projection.offset;
+    seconds += projection.offset / (plannedKmh / 3.6);
+  }
+
+  return { remainingMeters, seconds };
+};
+
+// Moving average of predicted arrival times over the smoothing window
+export const createArrivalSmoother = () => {
+  let samples = [];
+  return {
+    push(arrivalMs, nowMs) {
+      samples = samples.filter((sample) => nowMs - sample.at <= SMOOTHING_WINDOW_SECONDS * 1000);
+      samples.push({ at: nowMs, arrivalMs });
+      return samples.reduce((sum, sample) => sum + sample.arrivalMs, 0) / samples.length;
+    },
+  };
+};
+
+// Fold one observed traversal speed into a cell's running mean (capped so the history keeps adapting)
+export const foldSpeed = (cell, kmh) => {
+  const samples = Math.min(HISTORY_MAX_SAMPLES, (cell?.samples ?? 0) + 1);
+  const mean = cell ? cell.mean_speed_kmh + (kmh - cell.mean_speed_kmh) / samples : kmh;
+  return { mean_speed_kmh: mean, samples };
+};
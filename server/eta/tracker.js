@@ -0,0 +1,213 @@
+import { createClient } from "@supabase/supabase-js";
+import WebSocket from "ws";
+import { segmentLength } from "../signals/routeGeometry.js";
+import {
+  cellKey,
+  createArrivalSmoother,
+  estimateRemaining,
+  foldSpeed,
+  locateOnRoute,
+  plannedSpeedKmh,
+} from "./liveEta.js";
+
+// Token statuses where the ambulance is driving a route leg, and which leg that is
+const DRIVING_LEGS = { in_progress: "to_patient", to_hospital: "to_hospital" };
+// Publish when the ETA moved this much, or at least this often while driving
+const PUBLISH_DELTA_SECONDS = 5;
+const PUBLISH_INTERVAL_MS = 10000;
+const HISTORY_FLUSH_MS = 30000;
+// Consecutive fixes further apart than this say nothing about a segment's speed
+const MAX_SAMPLE_GAP_SECONDS = 60;
+const MAX_SAMPLE_DISTANCE = 2000; // meters
+
+/**
+ * Follows ambulance positions and publishes a smoothed ETA for the leg each
+ * dispatched ambulance is driving to token_live_eta, which hospital dashboards
+ * subscribe to. Observed speeds are folded into road_segment_speeds so later
+ * estimates reflect how fast traffic actually moves on each stretch.
+ */
+export function createEtaTracker({ supabaseUrl, serviceRoleKey }) {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    realtime: { transport: WebSocket },
+  });
+
+  const tripCache = new Map(); // ambulance id -> { tokenId, leg, revision, route, plannedKmh } or null
+  const progress = new Map(); // token id -> { leg, revision, distanceAlong, smoother, published }
+  const lastFix = new Map(); // ambulance id -> { lat, lng, at }
+  const history = new Map(); // cell key -> { mean_speed_kmh, samples }
+  const dirtyCells = new Set();
+  let channel = null;
+  let timer = null;
+
+  const loadHistory = async () => {
+    const { data, error } = await supabase.from("road_segment_speeds").select("cell_key, mean_speed_kmh, samples");
+    if (error) {
+      console.error("ETA tracker: failed to load segment speeds:", error);
+      return;
+    }
+    data.forEach((row) => history.set(row.cell_key, { mean_speed_kmh: row.mean_speed_kmh, samples: row.samples }));
+  };
+
+  const flushHistory = async () => {
+    if (dirtyCells.size === 0) return;
+    const rows = [...dirtyCells].map((key) => ({
+      cell_key: key,
+      ...history.get(key),
+      updated_at: new Date().toISOString(),
+    }));
+    dirtyCells.clear();
+
+    const { error } = await supabase.from("road_segment_speeds").upsert(rows);
+    if (error) {
+      console.error("ETA tracker: failed to store segment speeds:", error);
+      rows.forEach((row) => dirtyCells.add(row.cell_key));
+    }
+  };
+
+  const getActiveTrip = async (ambulanceId) => {
+    if (tripCache.has(ambulanceId)) return tripCache.get(ambulanceId);
+
+    const { data, error } = await supabase
+      .from("emergency_tokens")
+      .select("id, status, route_to_patient, route_to_hospital, reroute_count")
+      .eq("ambulance_id", ambulanceId)
+      .in("status", Object.keys(DRIVING_LEGS))
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("ETA tracker: failed to load active token:", error);
+      return null;
+    }
+
+    const leg = data ? DRIVING_LEGS[data.status] : null;
+    const route = leg === "to_patient" ? data.route_to_patient : data?.route_to_hospital;
+    const trip = route?.coordinates?.length >= 2
+      ? { tokenId: data.id, leg, revision: data.reroute_count ?? 0, route: route.coordinates, plannedKmh: plannedSpeedKmh(route) }
+      : null;
+    tripCache.set(ambulanceId, trip);
+    return trip;
+  };
+
+  // Learn how fast this stretch was actually driven, stops included
+  const recordSpeed = (ambulance, now) => {
+    const previous = lastFix.get(ambulance.id);
+    lastFix.set(ambulance.id, { lat: ambulance.current_lat, lng: ambulance.current_lng, at: now });
+    if (!previous) return;
+
+    const seconds = (now - previous.at) / 1000;
+    const from = [previous.lat, previous.lng];
+    const to = [ambulance.current_lat, ambulance.current_lng];
+    const meters = segmentLength(from, to);
+    if (seconds < 1 || seconds > MAX_SAMPLE_GAP_SECONDS || meters < 1 || meters > MAX_SAMPLE_DISTANCE) return;
+
+    const key = cellKey(from, to);
+    history.set(key, foldSpeed(history.get(key), (meters / seconds) * 3.6));
+    dirtyCells.add(key);
+  };
+
+  const publish = async (trip, ambulanceId, state, etaSeconds, remainingMeters, now) => {
+    const { error } = await supabase.from("token_live_eta").upsert({
+      token_id: trip.tokenId,
+      ambulance_id: ambulanceId,
+      leg: trip.leg,
+      eta_seconds: Math.round(etaSeconds),
+      arrival_at: new Date(now + etaSeconds * 1000).toISOString(),
+      remaining_meters: Math.round(remainingMeters),
+      computed_at: new Date(now).toISOString(),
+    });
+    if (error) {
+      console.error("ETA tracker: failed to publish ETA:", error);
+      return;
+    }
+    state.published = { etaSeconds, at: now };
+  };
+
+  const clearEta = async (tokenId) => {
+    progress.delete(tokenId);
+    const { error } = await supabase.from("token_live_eta").delete().eq("token_id", tokenId);
+    if (error) console.error("ETA tracker: failed to clear ETA:", error);
+  };
+
+  const evaluateAmbulance = async (ambulance) => {
+    if (ambulance.current_lat == null || ambulance.current_lng == null) return;
+    const now = Date.now();
+
+    try {
+      const trip = await getActiveTrip(ambulance.id);
+      if (!trip) {
+        lastFix.delete(ambulance.id);
+        return;
+      }
+      recordSpeed(ambulance, now);
+
+      let state = progress.get(trip.tokenId);
+      // A new leg or a rerouted one: progress and the smoothed arrival start over
+      if (!state || state.leg !== trip.leg || state.revision !== trip.revision) {
+        state = {
+          leg: trip.leg,
+          revision: trip.revision,
+          distanceAlong: null,
+          smoother: createArrivalSmoother(),
+          published: null,
+        };
+        progress.set(trip.tokenId, state);
+      }
+
+      const projection = locateOnRoute(trip.route, ambulance.current_lat, ambulance.current_lng, state.distanceAlong);
+      if (!projection) return;
+      state.distanceAlong = projection.distanceAlong;
+
+      const { remainingMeters, seconds } = estimateRemaining(
+        trip.route,
+        projection,
+        trip.plannedKmh,
+        (key) => history.get(key)
+      );
+      const arrival = state.smoother.push(now + seconds * 1000, now);
+      const etaSeconds = Math.max(0, (arrival - now) / 1000);
+
+      const due =
+        !state.published ||
+        Math.abs(state.published.etaSeconds - (now - state.published.at) / 1000 - etaSeconds) >= PUBLISH_DELTA_SECONDS ||
+        now - state.published.at >= PUBLISH_INTERVAL_MS;
+      if (due) await publish(trip, ambulance.id, state, etaSeconds, remainingMeters, now);
+    } catch (error) {
+      console.error("ETA tracker: evaluation failed:", error);
+    }
+  };
+
+  const start = async () => {
+    await loadHistory();
+
+    channel = supabase
+      .channel("eta-tracker")
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "ambulances" }, (payload) => {
+        evaluateAmbulance(payload.new);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "emergency_tokens" }, (payload) => {
+        const ambulanceId = payload.new?.ambulance_id || payload.old?.ambulance_id;
+        if (ambulanceId) tripCache.delete(ambulanceId);
+        // The leg ended (arrived, completed, cancelled): its ETA no longer applies
+        // On DELETE payload.new is an empty object
+        const token = payload.eventType === "DELETE" ? payload.old : payload.new;
+        if (token?.id && progress.has(token.id) && !DRIVING_LEGS[payload.new?.status]) clearEta(token.id);
+      })
+      .subscribe();
+
+    timer = setInterval(flushHistory, HISTORY_FLUSH_MS);
+    console.log(`⏱️ ETA tracker running (${history.size} learned road segments)`);
+  };
+
+  const stop = async () => {
+    clearInterval(timer);
+    timer = null;
+    await flushHistory();
+    if (channel) await supabase.removeChannel(channel);
+    channel = null;
+  };
+
+  return { start, stop, evaluateAmbulance };
+}
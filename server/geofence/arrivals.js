@@ -0,0 +1,52 @@
+// Geofence arrival rules. An ambulance has arrived at a stop once it has dwelt inside the
+// stop's fence, nearly stationary, long enough: driving past the pickup, or a short stop at
+// a junction next to it, does not count. The recorded arrival time is when it entered the fence.
+import { segmentLength } from "../signals/routeGeometry.js";
+
+export const GEOFENCES = {
+  patient: { radius: 75, dwellSeconds: 30 },
+  // Hospital campuses are larger and the ambulance bay is rarely at the geocoded point
+  hospital: { radius: 150, dwellSeconds: 20 },
+};
+// Once inside, leaving only counts beyond this multiple of the radius so jitter at the edge
+// does not restart the dwell
+const EXIT_FACTOR = 1.5;
+const DWELL_MAX_SPEED_KMH = 10;
+
+export const distanceTo = (stop, lat, lng) => segmentLength([lat, lng], [stop.lat, stop.lng]);
+
+/**
+ * Dwell state of one ambulance at one stop. `push` returns
+ * { type: "arrived", enteredAt, dwellSeconds } once per visit when the dwell rule is met,
+ * { type: "left" } when an ambulance that had arrived drives out again, otherwise null.
+ */
+export function createDwellTracker(fence) {
+  let enteredAt = null;
+  let stillSince = null;
+  let arrived = false;
+
+  return {
+    push(distance, speedKmh, at) {
+      const inside = distance <= fence.radius * (enteredAt === null ? 1 : EXIT_FACTOR);
+      if (!inside) {
+        const left = arrived;
+        enteredAt = null;
+        stillSince = null;
+        arrived = false;
+        return left ? { type: "left" } : null;
+      }
+
+      enteredAt ??= at;
+      if ((speedKmh ?? 0) > DWELL_MAX_SPEED_KMH) {
+        stillSince = null;
+        return null;
+      }
+      stillSince ??= at;
+
+      const dwellSeconds = (at - stillSince) / 1000;
+      if (arrived || dwellSeconds < fence.dwellSeconds) return null;
+      arrived = true;
+      return { type: "arrived", enteredAt, dwellSeconds };
+    },
+  };
+}
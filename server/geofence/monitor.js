@@ -0,0 +1,168 @@
+import { createClient } from "@supabase/supabase-js";
+import WebSocket from "ws";
+import { GEOFENCES, createDwellTracker, distanceTo } from "./arrivals.js";
+
+// Token statuses whose leg ends at a geofenced stop
+const LEG_STOPS = {
+  in_progress: { stop: "patient", lat: "pickup_lat", lng: "pickup_lng" },
+  to_hospital: { stop: "hospital", lat: "hospital_lat", lng: "hospital_lng" },
+};
+// "propose" asks the driver to confirm; "auto" applies the transition itself
+const ARRIVAL_MODES = ["propose", "auto"];
+
+/**
+ * Watches dispatched ambulances against geofences around the pickup and the
+ * hospital. When the dwell rule is met it either proposes the arrival to the
+ * driver (emergency_tokens.arrival_proposal) or moves the token on itself,
+ * stamping the time the ambulance entered the fence rather than the time
+ * somebody noticed.
+ */
+export function createArrivalMonitor({ supabaseUrl, serviceRoleKey, mode = process.env.GEOFENCE_ARRIVALS || "propose" }) {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    realtime: { transport: WebSocket },
+  });
+
+  if (!ARRIVAL_MODES.includes(mode)) {
+    console.warn(`Arrival monitor: unknown GEOFENCE_ARRIVALS "${mode}", proposing arrivals instead`);
+    mode = "propose";
+  }
+
+  const tripCache = new Map(); // ambulance id -> { tokenId, status, stop, location } or null
+  const trackers = new Map(); // token id -> { status, tracker }
+  let channel = null;
+
+  const getActiveTrip = async (ambulanceId) => {
+    if (tripCache.has(ambulanceId)) return tripCache.get(ambulanceId);
+
+    const { data, error } = await supabase
+      .from("emergency_tokens")
+      .select("id, status, pickup_lat, pickup_lng, hospital_lat, hospital_lng")
+      .eq("ambulance_id", ambulanceId)
+      .in("status", Object.keys(LEG_STOPS))
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Arrival monitor: failed to load active token:", error);
+      return null;
+    }
+
+    const leg = data ? LEG_STOPS[data.status] : null;
+    const trip = leg && data[leg.lat] != null && data[leg.lng] != null
+      ? { tokenId: data.id, status: data.status, stop: leg.stop, location: { lat: data[leg.lat], lng: data[leg.lng] } }
+      : null;
+    tripCache.set(ambulanceId, trip);
+    return trip;
+  };
+
+  // Writes only land while the token is still on the leg the arrival belongs to
+  const updateToken = async (trip, values) => {
+    const { data, error } = await supabase
+      .from("emergency_tokens")
+      .update(values)
+      .eq("id", trip.tokenId)
+      .eq("status", trip.status)
+      .select("id")
+      .maybeSingle();
+
+    if (error) {
+      console.error("Arrival monitor: failed to update token:", error);
+      return false;
+    }
+    return !!data;
+  };
+
+  const applyArrival = async (ambulance, trip, enteredAt) => {
+    if (trip.stop === "patient") {
+      return updateToken(trip, { status: "at_patient", arrived_at_patient_at: enteredAt, arrival_proposal: null });
+    }
+
+    const completed = await updateToken(trip, {
+      status: "completed",
+      arrived_at_hospital_at: enteredAt,
+      completed_at: new Date().toISOString(),
+      arrival_proposal: null,
+    });
+    if (!completed) return false;
+
+    // Same hand-back as the driver's "Arrived at hospital" button
+    const { error } = await supabase
+      .from("ambulances")
+      .update({ active_token_id: null, emergency_status: "inactive" })
+      .eq("id", ambulance.id)
+      .eq("active_token_id", trip.tokenId);
+    if (error) console.error("Arrival monitor: failed to release ambulance:", error);
+    return true;
+  };
+
+  const evaluateAmbulance = async (ambulance) => {
+    if (ambulance.current_lat == null || ambulance.current_lng == null) return;
+    // Time of the fix itself; realtime delivery can lag behind it
+    const at = Date.parse(ambulance.last_updated) || Date.now();
+
+    try {
+      const trip = await getActiveTrip(ambulance.id);
+      if (!trip) return;
+
+      let state = trackers.get(trip.tokenId);
+      if (!state || state.status !== trip.status) {
+        state = { status: trip.status, tracker: createDwellTracker(GEOFENCES[trip.stop]) };
+        trackers.set(trip.tokenId, state);
+      }
+
+      const event = state.tracker.push(
+        distanceTo(trip.location, ambulance.current_lat, ambulance.current_lng),
+        ambulance.speed,
+        at
+      );
+      if (!event) return;
+
+      if (event.type === "left") {
+        // Drove on after all: withdraw the proposal
+        if (mode === "propose") await updateToken(trip, { arrival_proposal: null });
+        return;
+      }
+
+      const enteredAt = new Date(event.enteredAt).toISOString();
+      if (mode === "auto") {
+        if (await applyArrival(ambulance, trip, enteredAt)) {
+          console.log(`📍 ${ambulance.vehicle_number ?? ambulance.id} arrived at ${trip.stop} (geofence)`);
+        }
+        return;
+      }
+
+      await updateToken(trip, {
+        arrival_proposal: { stop: trip.stop, entered_at: enteredAt, detected_at: new Date(at).toISOString() },
+      });
+    } catch (error) {
+      console.error("Arrival monitor: evaluation failed:", error);
+    }
+  };
+
+  const start = async () => {
+    channel = supabase
+      .channel("arrival-monitor")
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "ambulances" }, (payload) => {
+        evaluateAmbulance(payload.new);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "emergency_tokens" }, (payload) => {
+        const ambulanceId = payload.new?.ambulance_id || payload.old?.ambulance_id;
+        if (ambulanceId) tripCache.delete(ambulanceId);
+        // On DELETE payload.new is an empty object
+        const token = payload.eventType === "DELETE" ? payload.old : payload.new;
+        if (token?.id && !LEG_STOPS[payload.new?.status]) trackers.delete(token.id);
+      })
+      .subscribe();
+
+    console.log(`📍 Arrival monitor running (${mode === "auto" ? "auto-applying" : "proposing"} geofence arrivals)`);
+  };
+
+  const stop = async () => {
+    if (channel) await supabase.removeChannel(channel);
+    channel = null;
+  };
+
+  return { start, stop, evaluateAmbulance };
+}
@@ -2,6 +2,11 @@ import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
 import { GoogleGenAI } from "@google/genai";
+import { createSignalController } from "./signals/controller.js";
+import { createEtaTracker } from "./eta/tracker.js";
+import { createRerouteMonitor } from "./reroute/monitor.js";
+import { createArrivalMonitor } from "./geofence/monitor.js";
+import { createAcceptanceMonitor } from "./sla/monitor.js";
 
 dotenv.config({ path: "../.env" });
 
@@ -78,6 +83,84 @@ ${question}
   }
 });
 
+// 🚦 Traffic signal controller (sole writer of traffic_signals)
+const signalController =
+  process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+    ? createSignalController({
+        supabaseUrl: process.env.SUPABASE_URL,
+        serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY
+      })
+    : null;
+
+const etaTracker = signalController
+  ? createEtaTracker({
+      supabaseUrl: process.env.SUPABASE_URL,
+      serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY
+    })
+  : null;
+
+const rerouteMonitor = signalController
+  ? createRerouteMonitor({
+      supabaseUrl: process.env.SUPABASE_URL,
+      serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY
+    })
+  : null;
+
+const arrivalMonitor = signalController
+  ? createArrivalMonitor({
+      supabaseUrl: process.env.SUPABASE_URL,
+      serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY
+    })
+  : null;
+
+const acceptanceMonitor = signalController
+  ? createAcceptanceMonitor({
+      supabaseUrl: process.env.SUPABASE_URL,
+      serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY
+    })
+  : null;
+
+if (signalController) {
+  signalController.start().catch((err) => {
+    console.error("SIGNAL CONTROLLER ERROR:", err);
+  });
+  etaTracker.start().catch((err) => {
+    console.error("ETA TRACKER ERROR:", err);
+  });
+  rerouteMonitor.start().catch((err) => {
+    console.error("REROUTE MONITOR ERROR:", err);
+  });
+  arrivalMonitor.start().catch((err) => {
+    console.error("ARRIVAL MONITOR ERROR:", err);
+  });
+  acceptanceMonitor.start().catch((err) => {
+    console.error("ACCEPTANCE MONITOR ERROR:", err);
+  });
+} else {
+  console.warn("⚠️ SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY not set - signal controller, live ETAs, rerouting, arrival detection and acceptance SLAs disabled");
+}
+
+// Reset every signal to normal (hospital and admin users only)
+app.post("/signals/reset", async (req, res) => {
+  if (!signalController) {
+    return res.status(503).json({ error: "Signal controller is not configured" });
+  }
+
+  const token = req.headers.authorization?.replace(/^Bearer /, "");
+  const role = token ? await signalController.getUserRole(token) : null;
+  if (role !== "hospital" && role !== "admin") {
+    return res.status(403).json({ error: "Not allowed to reset signals" });
+  }
+
+  try {
+    const released = await signalController.resetAllSignals();
+    res.json({ released });
+  } catch (err) {
+    console.error("SIGNAL RESET ERROR:", err);
+    res.status(500).json({ error: "Failed to reset signals" });
+  }
+});
+
 app.listen(5050, "0.0.0.0", () => {
   console.log("🚑 MediBot LIVE on http://localhost:5050");
 });
\ No newline at end of file
@@ -0,0 +1,191 @@
+import { createClient } from "@supabase/supabase-js";
+import WebSocket from "ws";
+import { createLiveRouter } from "../routing/router.js";
+import { createDeviationWatch, nearDestination, offsetFromRoute } from "./offRoute.js";
+
+// Token statuses where the ambulance is driving a route leg, and the token columns of that leg
+const DRIVING_LEGS = {
+  in_progress: {
+    leg: "to_patient",
+    route: "route_to_patient",
+    distance: "route_to_patient_distance_meters",
+    duration: "route_to_patient_duration_seconds",
+  },
+  to_hospital: {
+    leg: "to_hospital",
+    route: "route_to_hospital",
+    distance: "route_to_hospital_distance_meters",
+    duration: "route_to_hospital_duration_seconds",
+  },
+};
+// Give the ambulance time to join the new route before judging it again
+const REROUTE_COOLDOWN_MS = 60000;
+// After a failed routing request keep the old route and try again later
+const ROUTING_RETRY_MS = 30000;
+
+/**
+ * Watches every dispatched ambulance against the route of the leg it is driving.
+ * When it stays off that route, a fresh route from its current position replaces
+ * the leg on the emergency token and the change is logged to route_reroutes for the
+ * hospital. Services that follow the token (signal controller, ETA tracker) drop
+ * their cached trip on the token update and continue on the new route.
+ */
+export function createRerouteMonitor({ supabaseUrl, serviceRoleKey, route = createLiveRouter() }) {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    realtime: { transport: WebSocket },
+  });
+
+  const tripCache = new Map(); // ambulance id -> active trip or null
+  const watches = new Map(); // token id -> { leg, watch, pausedUntil }
+  const rerouting = new Set(); // ambulance ids with a routing request in flight
+  let channel = null;
+
+  const getActiveTrip = async (ambulanceId) => {
+    if (tripCache.has(ambulanceId)) return tripCache.get(ambulanceId);
+
+    const { data, error } = await supabase
+      .from("emergency_tokens")
+      .select("id, status, pickup_lat, pickup_lng, hospital_lat, hospital_lng, route_to_patient, route_to_hospital, reroute_count")
+      .eq("ambulance_id", ambulanceId)
+      .in("status", Object.keys(DRIVING_LEGS))
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Reroute monitor: failed to load active token:", error);
+      return null;
+    }
+
+    const columns = data ? DRIVING_LEGS[data.status] : null;
+    const leg = columns ? data[columns.route] : null;
+    const destination = columns?.leg === "to_patient"
+      ? { lat: data.pickup_lat, lng: data.pickup_lng }
+      : { lat: data?.hospital_lat, lng: data?.hospital_lng };
+    const trip = leg?.coordinates?.length >= 2 && destination.lat != null && destination.lng != null
+      ? {
+          tokenId: data.id,
+          status: data.status,
+          columns,
+          route: leg,
+          destination,
+          rerouteCount: data.reroute_count ?? 0,
+        }
+      : null;
+    tripCache.set(ambulanceId, trip);
+    return trip;
+  };
+
+  const reroute = async (ambulance, trip, state, deviation, now) => {
+    rerouting.add(ambulance.id);
+    try {
+      const from = { lat: ambulance.current_lat, lng: ambulance.current_lng };
+      const next = await route(from, trip.destination);
+      if (!(next?.coordinates?.length >= 2)) throw new Error("Routing returned no route");
+
+      const { columns } = trip;
+      const reroutedAt = new Date().toISOString();
+      // Only if the token is still on this leg and nobody rerouted it meanwhile
+      const { data, error } = await supabase
+        .from("emergency_tokens")
+        .update({
+          [columns.route]: next,
+          [columns.distance]: Math.round(next.distance),
+          [columns.duration]: Math.round(next.duration),
+          reroute_count: trip.rerouteCount + 1,
+          last_rerouted_at: reroutedAt,
+        })
+        .eq("id", trip.tokenId)
+        .eq("status", trip.status)
+        .eq("reroute_count", trip.rerouteCount)
+        .select("id")
+        .maybeSingle();
+
+      if (error) throw error;
+      tripCache.delete(ambulance.id);
+      state.watch.reset();
+      state.pausedUntil = now + REROUTE_COOLDOWN_MS;
+      if (!data) return;
+
+      const { error: logError } = await supabase.from("route_reroutes").insert({
+        token_id: trip.tokenId,
+        ambulance_id: ambulance.id,
+        leg: columns.leg,
+        lat: from.lat,
+        lng: from.lng,
+        off_route_meters: Math.round(deviation.maxOffsetMeters),
+        off_route_seconds: Math.round(deviation.seconds),
+        previous_distance_meters: trip.route.distance != null ? Math.round(trip.route.distance) : null,
+        previous_duration_seconds: trip.route.duration != null ? Math.round(trip.route.duration) : null,
+        new_distance_meters: Math.round(next.distance),
+        new_duration_seconds: Math.round(next.duration),
+        created_at: reroutedAt,
+      });
+      if (logError) console.error("Reroute monitor: failed to log reroute:", logError);
+
+      console.log(
+        `🔀 Rerouted ${ambulance.vehicle_number ?? ambulance.id} (${columns.leg}) after ${Math.round(deviation.seconds)}s off route`
+      );
+    } catch (error) {
+      console.error("Reroute monitor: reroute failed:", error);
+      state.pausedUntil = now + ROUTING_RETRY_MS;
+    } finally {
+      rerouting.delete(ambulance.id);
+    }
+  };
+
+  const evaluateAmbulance = async (ambulance) => {
+    if (ambulance.current_lat == null || ambulance.current_lng == null) return;
+    if (rerouting.has(ambulance.id)) return;
+    const now = Date.now();
+
+    try {
+      const trip = await getActiveTrip(ambulance.id);
+      if (!trip) return;
+
+      let state = watches.get(trip.tokenId);
+      if (!state || state.leg !== trip.columns.leg) {
+        state = { leg: trip.columns.leg, watch: createDeviationWatch(), pausedUntil: 0 };
+        watches.set(trip.tokenId, state);
+      }
+      if (now < state.pausedUntil) return;
+
+      const { coordinates } = trip.route;
+      if (nearDestination(coordinates, ambulance.current_lat, ambulance.current_lng)) {
+        state.watch.reset();
+        return;
+      }
+
+      const deviation = state.watch.push(offsetFromRoute(coordinates, ambulance.current_lat, ambulance.current_lng), now);
+      if (deviation) await reroute(ambulance, trip, state, deviation, now);
+    } catch (error) {
+      console.error("Reroute monitor: evaluation failed:", error);
+    }
+  };
+
+  const start = async () => {
+    channel = supabase
+      .channel("reroute-monitor")
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "ambulances" }, (payload) => {
+        evaluateAmbulance(payload.new);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "emergency_tokens" }, (payload) => {
+        const ambulanceId = payload.new?.ambulance_id || payload.old?.ambulance_id;
+        if (ambulanceId) tripCache.delete(ambulanceId);
+        // Forget legs that ended; on DELETE payload.new is an empty object
+        const token = payload.eventType === "DELETE" ? payload.old : payload.new;
+        if (token?.id && !DRIVING_LEGS[payload.new?.status]) watches.delete(token.id);
+      })
+      .subscribe();
+
+    console.log("🔀 Reroute monitor running");
+  };
+
+  const stop = async () => {
+    if (channel) await supabase.removeChannel(channel);
+    channel = null;
+  };
+
+  return { start, stop, evaluateAmbulance };
+}
@@ -0,0 +1,53 @@
+// Off-route detection for the leg an ambulance is driving. A single stray fix (GPS
+// multipath between buildings, pulling into a lay-by) must not replace the route, so the
+// ambulance has to stay beyond the threshold for several fixes and a minimum time.
+import { projectOntoRouteSegments, segmentLength } from "../signals/routeGeometry.js";
+
+export const OFF_ROUTE_METERS = 75;
+export const OFF_ROUTE_SECONDS = 20;
+const OFF_ROUTE_FIXES = 3;
+// Near the end of the leg the ambulance turns off the road into the scene or the hospital
+const DESTINATION_RADIUS = 150; // meters
+
+// Distance of a position from the nearest point of the route, or null without a route
+export const offsetFromRoute = (coordinates, lat, lng) =>
+  projectOntoRouteSegments(coordinates, lat, lng)[0]?.offset ?? null;
+
+export const nearDestination = (coordinates, lat, lng) =>
+  coordinates.length > 0 && segmentLength([lat, lng], coordinates[coordinates.length - 1]) <= DESTINATION_RADIUS;
+
+/**
+ * Tracks one leg's deviation. `push` returns { offsetMeters, maxOffsetMeters, seconds }
+ * once the ambulance has been off the route long enough, otherwise null.
+ * Any fix back on the route starts the count again.
+ */
+export function createDeviationWatch() {
+  let since = null;
+  let fixes = 0;
+  let maxOffset = 0;
+
+  const reset = () => {
+    since = null;
+    fixes = 0;
+    maxOffset = 0;
+  };
+
+  return {
+    push(offset, now) {
+      if (offset === null || offset <= OFF_ROUTE_METERS) {
+        reset();
+        return null;
+      }
+
+      since ??= now;
+      fixes++;
+      maxOffset = Math.max(maxOffset, offset);
+
+      const seconds = (now - since) / 1000;
+      return fixes >= OFF_ROUTE_FIXES && seconds >= OFF_ROUTE_SECONDS
+        ? { offsetMeters: offset, maxOffsetMeters: maxOffset, seconds }
+        : null;
+    },
+    reset,
+  };
+}
@@ -0,0 +1,83 @@
+// Backend routing: a self-hosted or public OSRM server, or the same deterministic offline
+// stub as src/services/routing.ts so scenario runs are reproducible without a network.
+
+const PUBLIC_OSRM_URL = "https://router.project-osrm.org";
+const FALLBACK_SPEED_MPS = 25 / 3.6;
+const OFFLINE_DETOUR_FACTOR = 1.3;
+const OFFLINE_SEGMENTS = 20;
+const REQUEST_TIMEOUT_MS = 8000;
+
+export const haversineDistance = (from, to) => {
+  const R = 6371000;
+  const dLat = (to.lat - from.lat) * (Math.PI / 180);
+  const dLng = (to.lng - from.lng) * (Math.PI / 180);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.lat * (Math.PI / 180)) * Math.cos(to.lat * (Math.PI / 180)) * Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+// Straight-line travel estimate, used by dispatch policies to compare candidates cheaply
+export const estimateTravelSeconds = (from, to) =>
+  (haversineDistance(from, to) * OFFLINE_DETOUR_FACTOR) / FALLBACK_SPEED_MPS;
+
+const offlineRoute = (from, to) => {
+  const coordinates = [];
+  for (let i = 0; i <= OFFLINE_SEGMENTS; i++) {
+    const t = i / OFFLINE_SEGMENTS;
+    coordinates.push([from.lat + (to.lat - from.lat) * t, from.lng + (to.lng - from.lng) * t]);
+  }
+  const distance = haversineDistance(from, to) * OFFLINE_DETOUR_FACTOR;
+  return { coordinates, distance, duration: Math.round(distance / FALLBACK_SPEED_MPS), type: "fastest" };
+};
+
+const osrmRoute = async (baseUrl, from, to) => {
+  const root = baseUrl.replace(/\/+$/, "");
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(
+      `${root}/route/v1/driving/${from.lng},${from.lat};${to.lng},${to.lat}?overview=full&geometries=geojson`,
+      { signal: controller.signal }
+    );
+    const data = await response.json();
+    if (data.code !== "Ok" || !data.routes?.length) throw new Error(data.message || "No routes found");
+
+    const [route] = data.routes;
+    return {
+      coordinates: route.geometry.coordinates.map(([lng, lat]) => [lat, lng]),
+      distance: route.distance,
+      duration: route.duration,
+      type: "fastest",
+    };
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Scenario `routing` block: { "provider": "offline" } or { "provider": "osrm", "url": "http://localhost:5000" }
+export function createScenarioRouter(config = {}) {
+  if (config.provider === "osrm" && config.url) {
+    return async (from, to) => {
+      try {
+        return await osrmRoute(config.url, from, to);
+      } catch (error) {
+        console.warn("OSRM route failed, using offline route:", error.message);
+        return offlineRoute(from, to);
+      }
+    };
+  }
+  return async (from, to) => offlineRoute(from, to);
+}
+
+/**
+ * Router for live trips, configured like the web app (VITE_ROUTING_PROVIDER and
+ * VITE_OSRM_URL from the shared .env). Unlike scenario routing it never swaps a failed
+ * OSRM request for the straight-line stub: callers keep the route they have instead.
+ */
+export function createLiveRouter(env = process.env) {
+  const provider = env.VITE_ROUTING_PROVIDER || "osrm-public";
+  if (provider === "offline") return async (from, to) => offlineRoute(from, to);
+
+  const url = provider === "osrm" && env.VITE_OSRM_URL ? env.VITE_OSRM_URL : PUBLIC_OSRM_URL;
+  return (from, to) => osrmRoute(url, from, to);
+}
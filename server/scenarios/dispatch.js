@@ -0,0 +1,60 @@
+// Dispatch policies evaluated by scenario runs. A policy orders the waiting incidents;
+// each incident then gets the closest free ambulance and the best hospital for it.
+import { getPriority } from "../signals/arbitration.js";
+import { estimateTravelSeconds } from "../routing/router.js";
+
+const POLICIES = {
+  // First come, first served
+  nearest: (queue) => [...queue].sort((a, b) => a.at - b.at),
+  // Most urgent triage priority first, then oldest
+  severity_first: (queue) =>
+    [...queue].sort(
+      (a, b) => getPriority(a.medical_keyword, a.triage_priority) - getPriority(b.medical_keyword, b.triage_priority) || a.at - b.at
+    ),
+};
+
+export const DISPATCH_POLICIES = Object.keys(POLICIES);
+
+export function orderQueue(policy, queue) {
+  const order = POLICIES[policy];
+  if (!order) throw new Error(`Unknown dispatch policy "${policy}" (expected ${DISPATCH_POLICIES.join(", ")})`);
+  return order(queue);
+}
+
+// Crew level an incident should get: priorities 1-2 need ALS, 4-5 leave the ALS units free
+const preferredCareLevel = (incident) => {
+  const priority = getPriority(incident.medical_keyword, incident.triage_priority);
+  if (priority <= 2) return "als";
+  if (priority >= 4) return "bls";
+  return null;
+};
+
+// Closest free ambulance of the preferred crew level, or the closest of any level when none is free
+export function pickAmbulance(incident, ambulances) {
+  const careLevel = preferredCareLevel(incident);
+  const pool = careLevel && ambulances.some((ambulance) => ambulance.careLevel === careLevel)
+    ? ambulances.filter((ambulance) => ambulance.careLevel === careLevel)
+    : ambulances;
+
+  let best = null;
+  for (const ambulance of pool) {
+    const seconds = estimateTravelSeconds(ambulance.position, incident);
+    if (!best || seconds < best.seconds) best = { ambulance, seconds };
+  }
+  return best?.ambulance ?? null;
+}
+
+// Hospitals with a free bed; one treating the incident's specialty beats a closer one that does not
+export function pickHospital(incident, hospitals) {
+  const candidates = hospitals.filter((hospital) => hospital.availableBeds > 0);
+  const pool = candidates.some((hospital) => hospital.specialties.includes(incident.medical_keyword))
+    ? candidates.filter((hospital) => hospital.specialties.includes(incident.medical_keyword))
+    : candidates;
+
+  let best = null;
+  for (const hospital of pool) {
+    const seconds = estimateTravelSeconds(incident, hospital);
+    if (!best || seconds < best.seconds) best = { hospital, seconds };
+  }
+  return best?.hospital ?? null;
+}
@@ -0,0 +1,111 @@
+// Summary statistics for a finished scenario run
+
+const percentile = (sorted, p) => {
+  if (sorted.length === 0) return null;
+  const index = Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1);
+  return sorted[Math.max(0, index)];
+};
+
+const summarize = (values) => {
+  const sorted = values.filter((value) => value !== null).sort((a, b) => a - b);
+  if (sorted.length === 0) return { count: 0, mean: null, median: null, p90: null, max: null };
+  return {
+    count: sorted.length,
+    mean: Math.round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    median: percentile(sorted, 50),
+    p90: percentile(sorted, 90),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+const elapsed = (from, to) => (from === null || to === null ? null : to - from);
+
+export function buildReport({ scenario, policy, durationSeconds, incidents, ambulances, hospitals, activations }) {
+  const completed = incidents.filter((incident) => incident.completedAt !== null);
+
+  const signalsByAmbulance = new Map();
+  for (const activation of activations) {
+    signalsByAmbulance.set(activation.ambulance_id, (signalsByAmbulance.get(activation.ambulance_id) ?? 0) + 1);
+  }
+
+  return {
+    scenario: scenario.name,
+    dispatch_policy: policy,
+    simulated_seconds: durationSeconds,
+    incidents: {
+      total: incidents.length,
+      completed: completed.length,
+      unserved: incidents.filter((incident) => incident.dispatchedAt === null).map((incident) => incident.id),
+    },
+    // All times in seconds from the incident being called in
+    response_times: {
+      dispatch_wait: summarize(incidents.map((incident) => elapsed(incident.at, incident.dispatchedAt))),
+      to_patient: summarize(incidents.map((incident) => elapsed(incident.at, incident.arrivedAtPatientAt))),
+      to_hospital: summarize(incidents.map((incident) => elapsed(incident.at, incident.completedAt))),
+    },
+    signal_activations: {
+      total: activations.length,
+      priority: activations.filter((activation) => activation.activation_type === "priority").length,
+      prepare: activations.filter((activation) => activation.activation_type === "prepare").length,
+      contested: activations.filter((activation) => activation.contenders).length,
+    },
+    hospitals: hospitals.map((hospital) => ({
+      id: hospital.id,
+      name: hospital.name,
+      deliveries: hospital.deliveries,
+      available_beds_start: hospital.startingBeds,
+      available_beds_end: hospital.availableBeds,
+      available_beds_min: hospital.minBeds,
+    })),
+    ambulances: ambulances.map((ambulance) => ({
+      id: ambulance.id,
+      vehicle_number: ambulance.vehicleNumber,
+      trips: ambulance.trips,
+      busy_seconds: ambulance.busySeconds,
+      utilization: durationSeconds > 0 ? Number((ambulance.busySeconds / durationSeconds).toFixed(2)) : 0,
+      signal_activations: signalsByAmbulance.get(ambulance.dbId) ?? 0,
+    })),
+    per_incident: incidents.map((incident) => ({
+      id: incident.id,
+      emergency_type: incident.emergency_type,
+      medical_keyword: incident.medical_keyword,
+      called_in_at: incident.at,
+      ambulance: incident.ambulanceId,
+      hospital: incident.hospitalId,
+      dispatch_wait: elapsed(incident.at, incident.dispatchedAt),
+      to_patient: elapsed(incident.at, incident.arrivedAtPatientAt),
+      to_hospital: elapsed(incident.at, incident.completedAt),
+    })),
+  };
+}
+
+const formatSeconds = (seconds) =>
+  seconds === null ? "-" : `${Math.floor(seconds / 60)}m${String(Math.round(seconds % 60)).padStart(2, "0")}s`;
+
+export function printReport(report) {
+  const line = (label, stats) =>
+    console.log(
+      `  ${label.padEnd(14)} n=${String(stats.count).padEnd(3)} mean ${formatSeconds(stats.mean)}  median ${formatSeconds(stats.median)}  p90 ${formatSeconds(stats.p90)}  max ${formatSeconds(stats.max)}`
+    );
+
+  console.log(`\n📊 ${report.scenario} — policy ${report.dispatch_policy}, ${formatSeconds(report.simulated_seconds)} simulated`);
+  console.log(`Incidents: ${report.incidents.completed}/${report.incidents.total} completed, ${report.incidents.unserved.length} never dispatched`);
+  console.log("Response times:");
+  line("dispatch wait", report.response_times.dispatch_wait);
+  line("to patient", report.response_times.to_patient);
+  line("to hospital", report.response_times.to_hospital);
+  const signals = report.signal_activations;
+  console.log(`Signal activations: ${signals.total} (${signals.priority} priority, ${signals.prepare} prepare, ${signals.contested} contested)`);
+  console.log("Hospitals:");
+  for (const hospital of report.hospitals) {
+    console.log(
+      `  ${hospital.name.padEnd(28)} ${hospital.deliveries} deliveries, beds ${hospital.available_beds_start} → ${hospital.available_beds_end} (min ${hospital.available_beds_min})`
+    );
+  }
+  console.log("Ambulances:");
+  for (const ambulance of report.ambulances) {
+    console.log(
+      `  ${ambulance.vehicle_number.padEnd(24)} ${ambulance.trips} trips, ${Math.round(ambulance.utilization * 100)}% busy, ${ambulance.signal_activations} signal activations`
+    );
+  }
+}
@@ -0,0 +1,105 @@
+// Headless scenario replay:
+//   node scenarios/run.js <scenario.json> [--speed N] [--policy nearest|severity_first]
+//                         [--report out.json] [--keep] [--external-controller]
+import { readFile, writeFile } from "node:fs/promises";
+import { createClient } from "@supabase/supabase-js";
+import dotenv from "dotenv";
+import { createSignalController } from "../signals/controller.js";
+import { createEtaTracker } from "../eta/tracker.js";
+import { createRerouteMonitor } from "../reroute/monitor.js";
+import { createScenarioRouter } from "../routing/router.js";
+import { createScenarioRunner } from "./runner.js";
+import { printReport } from "./report.js";
+import { DISPATCH_POLICIES } from "./dispatch.js";
+
+dotenv.config({ path: "../.env" });
+
+const USAGE =
+  "Usage: node scenarios/run.js <scenario.json> [--speed N] [--policy " +
+  DISPATCH_POLICIES.join("|") +
+  "] [--report out.json] [--keep] [--external-controller]";
+
+const parseArgs = (argv) => {
+  const options = { speed: 1, policy: undefined, report: null, keep: false, externalController: false, file: null };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--speed") options.speed = Number(argv[++i]);
+    else if (arg === "--policy") options.policy = argv[++i];
+    else if (arg === "--report") options.report = argv[++i];
+    else if (arg === "--keep") options.keep = true;
+    else if (arg === "--external-controller") options.externalController = true;
+    else if (!arg.startsWith("--") && !options.file) options.file = arg;
+    else throw new Error(`Unknown argument "${arg}"`);
+  }
+  if (!options.file) throw new Error("No scenario file given");
+  if (!Number.isFinite(options.speed) || options.speed < 0) throw new Error("--speed must be a number ≥ 0 (0 = as fast as possible)");
+  if (options.policy && !DISPATCH_POLICIES.includes(options.policy)) throw new Error(`Unknown policy "${options.policy}"`);
+  return options;
+};
+
+const main = async () => {
+  let options;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(error.message);
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const { SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY } = process.env;
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    console.error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set (point them at a local Supabase)");
+    process.exit(2);
+  }
+
+  const scenario = JSON.parse(await readFile(options.file, "utf8"));
+  const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  // By default the run gets its own signal controller, ETA tracker and reroute monitor; with
+  // --external-controller the already running backend reacts instead (it picks up new signals
+  // within a minute)
+  const services = options.externalController
+    ? []
+    : [
+        createSignalController({ supabaseUrl: SUPABASE_URL, serviceRoleKey: SUPABASE_SERVICE_ROLE_KEY }),
+        createEtaTracker({ supabaseUrl: SUPABASE_URL, serviceRoleKey: SUPABASE_SERVICE_ROLE_KEY }),
+        createRerouteMonitor({
+          supabaseUrl: SUPABASE_URL,
+          serviceRoleKey: SUPABASE_SERVICE_ROLE_KEY,
+          route: createScenarioRouter(scenario.routing),
+        }),
+      ];
+
+  const runner = createScenarioRunner({
+    supabase,
+    scenario,
+    speed: options.speed,
+    policy: options.policy,
+    keep: options.keep,
+  });
+  process.once("SIGINT", () => {
+    console.log("\nStopping scenario, cleaning up…");
+    runner.abort();
+  });
+
+  console.log(`🚑 Running scenario "${scenario.name}" at ${options.speed || "max"}× speed`);
+  const report = await runner.run({
+    beforeStart: () => Promise.all(services.map((service) => service.start())),
+    afterRun: () => Promise.all(services.map((service) => service.stop())),
+  });
+
+  printReport(report);
+  if (options.report) {
+    await writeFile(options.report, JSON.stringify(report, null, 2));
+    console.log(`\nReport written to ${options.report}`);
+  }
+  process.exit(0);
+};
+
+main().catch((error) => {
+  console.error("SCENARIO ERROR:", error);
+  process.exit(1);
+});
@@ -0,0 +1,422 @@
+import { randomUUID } from "node:crypto";
+import { getRouteDirection } from "../signals/preemption.js";
+import { createScenarioRouter } from "../routing/router.js";
+import { DEFAULT_SPEED_PROFILE, positionOnLeg, prepareLeg, stepSimulation } from "./tripSimulator.js";
+import { orderQueue, pickAmbulance, pickHospital } from "./dispatch.js";
+import { buildReport } from "./report.js";
+
+// Simulated seconds between GPS fixes written for a driving ambulance (the dashboard sends one per tick)
+const GPS_INTERVAL_SECONDS = 2;
+// After the scenario window, keep running this long at most so dispatched trips can finish
+const DRAIN_LIMIT_SECONDS = 3600;
+
+const DEFAULTS = {
+  dispatch_policy: "nearest",
+  turnout_seconds: 60,
+  scene_minutes: 10,
+  handover_minutes: 10,
+};
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const check = ({ data, error }, what) => {
+  if (error) throw new Error(`${what}: ${error.message}`);
+  return data;
+};
+
+/**
+ * Replays a scenario against a Supabase project: seeds its hospitals, ambulances and
+ * signals, feeds the incidents in on a simulated clock, drives every ambulance through
+ * the same token transitions as the dashboards (route_selected → in_progress →
+ * at_patient → to_hospital → completed) while reporting GPS like the route simulator,
+ * and returns a report. Seeded rows are removed afterwards unless `keep` is set.
+ *
+ * Token timestamps are written on the simulated clock so durations in the database
+ * match the report; ambulance last_updated stays on wall-clock time because signal
+ * leases run on it.
+ */
+export function createScenarioRunner({ supabase, scenario, speed = 1, policy, keep = false, log = console.log }) {
+  const config = { ...DEFAULTS, ...scenario };
+  const dispatchPolicy = policy ?? config.dispatch_policy;
+  const profile = { ...DEFAULT_SPEED_PROFILE, ...config.speed_profile };
+  const route = createScenarioRouter(config.routing);
+  const runId = Date.now().toString(36);
+  const durationSeconds = Math.round(config.duration_minutes * 60);
+
+  const hospitals = [];
+  const ambulances = [];
+  const signalIds = [];
+  const incidents = (config.incidents ?? []).map((incident, index) => ({
+    ...incident,
+    id: incident.id ?? `incident-${index + 1}`,
+    at: Math.round(incident.at_minute * 60),
+    dispatchedAt: null,
+    arrivedAtPatientAt: null,
+    completedAt: null,
+    ambulanceId: null,
+    hospitalId: null,
+    tokenId: null,
+    noBedsLogged: false,
+  }));
+
+  let clockStart = Date.now();
+  let aborted = false;
+  const simTime = (seconds) => new Date(clockStart + seconds * 1000).toISOString();
+  const stamp = (seconds) => `[${String(Math.floor(seconds / 60)).padStart(3, "0")}:${String(seconds % 60).padStart(2, "0")}]`;
+
+  const seedHospitals = async () => {
+    for (const hospital of config.hospitals ?? []) {
+      const { user } = check(
+        await supabase.auth.admin.createUser({
+          email: `sim-${runId}-${hospital.id}@scenario.local`.toLowerCase(),
+          password: randomUUID(),
+          email_confirm: true,
+          user_metadata: { full_name: hospital.name, role: "hospital" },
+        }),
+        `Creating hospital ${hospital.id}`
+      );
+
+      // The auth trigger created the profile; fill in what the hospital dashboards read
+      check(
+        await supabase
+          .from("profiles")
+          .update({
+            organization_name: `[SIM ${runId}] ${hospital.name}`,
+            specialties: hospital.specialties ?? [],
+            is_approved: true,
+          })
+          .eq("id", user.id),
+        `Updating hospital profile ${hospital.id}`
+      );
+
+      const availableBeds = hospital.available_beds ?? hospital.total_beds ?? 0;
+      check(
+        await supabase.from("hospital_capacity").insert({
+          hospital_id: user.id,
+          total_beds: hospital.total_beds ?? availableBeds,
+          available_beds: availableBeds,
+          icu_beds: hospital.icu_beds ?? 0,
+          icu_available: hospital.icu_available ?? 0,
+        }),
+        `Seeding capacity for ${hospital.id}`
+      );
+
+      hospitals.push({
+        id: hospital.id,
+        dbId: user.id,
+        name: hospital.name,
+        lat: hospital.lat,
+        lng: hospital.lng,
+        specialties: hospital.specialties ?? [],
+        startingBeds: availableBeds,
+        availableBeds,
+        minBeds: availableBeds,
+        deliveries: 0,
+      });
+    }
+  };
+
+  const seedAmbulances = async () => {
+    for (const ambulance of config.ambulances ?? []) {
+      const vehicleNumber = `SIM-${runId}-${ambulance.vehicle_number ?? ambulance.id}`;
+      const row = check(
+        await supabase
+          .from("ambulances")
+          .insert({
+            vehicle_number: vehicleNumber,
+            current_lat: ambulance.lat,
+            current_lng: ambulance.lng,
+            emergency_status: "inactive",
+            care_level: ambulance.care_level ?? "als",
+          })
+          .select()
+          .single(),
+        `Creating ambulance ${ambulance.id}`
+      );
+
+      ambulances.push({
+        id: ambulance.id,
+        dbId: row.id,
+        vehicleNumber,
+        careLevel: ambulance.care_level ?? "als",
+        position: { lat: ambulance.lat, lng: ambulance.lng },
+        state: "idle",
+        until: 0,
+        incident: null,
+        leg: null,
+        motion: null,
+        lastFix: 0,
+        trips: 0,
+        busySeconds: 0,
+      });
+    }
+  };
+
+  const seedSignals = async () => {
+    for (const signal of config.signals ?? []) {
+      const row = check(
+        await supabase
+          .from("traffic_signals")
+          .insert({
+            signal_name: `[SIM ${runId}] ${signal.name}`,
+            location_lat: signal.lat,
+            location_lng: signal.lng,
+            ...(signal.phase_plan ? { phase_plan: signal.phase_plan } : {}),
+          })
+          .select("id")
+          .single(),
+        `Creating signal ${signal.name}`
+      );
+      signalIds.push(row.id);
+    }
+  };
+
+  const updateToken = async (incident, values) => {
+    const { error } = await supabase.from("emergency_tokens").update(values).eq("id", incident.tokenId);
+    if (error) console.error(`Scenario: failed to update token for ${incident.id}:`, error);
+  };
+
+  const updateAmbulance = async (ambulance, values) => {
+    const { error } = await supabase.from("ambulances").update(values).eq("id", ambulance.dbId);
+    if (error) console.error(`Scenario: failed to update ambulance ${ambulance.id}:`, error);
+  };
+
+  const reportPosition = async (ambulance, point, speedMs) => {
+    ambulance.position = { lat: point.lat, lng: point.lng };
+    await updateAmbulance(ambulance, {
+      current_lat: point.lat,
+      current_lng: point.lng,
+      heading: point.heading,
+      speed: speedMs * 3.6,
+      route_direction: getRouteDirection(point.heading),
+      last_updated: new Date().toISOString(),
+    });
+  };
+
+  // Equivalent of useEmergencyTokens.createHospitalEmergency
+  const dispatch = async (incident, ambulance, hospital, now) => {
+    const [toPatient, toHospital] = await Promise.all([
+      route(ambulance.position, incident),
+      route(incident, hospital),
+    ]);
+
+    const token = check(
+      await supabase
+        .from("emergency_tokens")
+        .insert({
+          ambulance_id: ambulance.dbId,
+          pickup_lat: incident.lat,
+          pickup_lng: incident.lng,
+          pickup_address: incident.address ?? null,
+          ambulance_origin_lat: ambulance.position.lat,
+          ambulance_origin_lng: ambulance.position.lng,
+          hospital_id: hospital.dbId,
+          hospital_name: hospital.name,
+          hospital_lat: hospital.lat,
+          hospital_lng: hospital.lng,
+          route_to_patient: toPatient,
+          route_to_patient_distance_meters: toPatient.distance,
+          route_to_patient_duration_seconds: toPatient.duration,
+          route_to_hospital: toHospital,
+          route_to_hospital_distance_meters: toHospital.distance,
+          route_to_hospital_duration_seconds: toHospital.duration,
+          selected_route: toPatient,
+          route_type: toPatient.type,
+          route_distance_meters: toPatient.distance + toHospital.distance,
+          route_duration_seconds: toPatient.duration + toHospital.duration,
+          emergency_type: incident.emergency_type ?? null,
+          medical_keyword: incident.medical_keyword ?? null,
+          triage_priority: incident.triage_priority ?? null,
+          status: "route_selected",
+          assigned_at: simTime(now),
+        })
+        .select("id")
+        .single(),
+      `Creating token for ${incident.id}`
+    );
+
+    await updateAmbulance(ambulance, { active_token_id: token.id, emergency_status: "active" });
+
+    Object.assign(incident, { tokenId: token.id, dispatchedAt: now, ambulanceId: ambulance.id, hospitalId: hospital.id });
+    Object.assign(ambulance, {
+      state: "turnout",
+      until: now + config.turnout_seconds,
+      incident,
+      routes: { toPatient, toHospital },
+      hospital,
+      trips: ambulance.trips + 1,
+    });
+    log(`${stamp(now)} ${incident.id} (${incident.medical_keyword ?? "General"}) → ${ambulance.vehicleNumber}, ${hospital.name}`);
+  };
+
+  const dispatchWaiting = async (now) => {
+    const waiting = incidents.filter((incident) => incident.at <= now && incident.dispatchedAt === null);
+    for (const incident of orderQueue(dispatchPolicy, waiting)) {
+      const free = ambulances.filter((ambulance) => ambulance.state === "idle");
+      if (free.length === 0) return;
+
+      const hospital = pickHospital(incident, hospitals);
+      if (!hospital) {
+        if (!incident.noBedsLogged) log(`${stamp(now)} ${incident.id} waiting: no hospital has a free bed`);
+        incident.noBedsLogged = true;
+        continue;
+      }
+      await dispatch(incident, pickAmbulance(incident, free), hospital, now);
+    }
+  };
+
+  const startLeg = (ambulance, leg) => {
+    ambulance.leg = prepareLeg(leg.coordinates, profile);
+    ambulance.motion = { distance: 0, speedMs: 0 };
+    ambulance.lastFix = -Infinity;
+  };
+
+  // Move one ambulance forward by one simulated second
+  const advance = async (ambulance, now) => {
+    const { incident } = ambulance;
+
+    switch (ambulance.state) {
+      case "turnout":
+        if (now < ambulance.until) break;
+        await updateToken(incident, { status: "in_progress", started_at: simTime(now) });
+        startLeg(ambulance, ambulance.routes.toPatient);
+        ambulance.state = "to_patient";
+        break;
+
+      case "to_patient":
+      case "to_hospital": {
+        ambulance.motion = stepSimulation(ambulance.leg, ambulance.motion, 1, profile);
+        const arrived = ambulance.motion.distance >= ambulance.leg.length;
+        if (arrived || now - ambulance.lastFix >= GPS_INTERVAL_SECONDS) {
+          await reportPosition(ambulance, positionOnLeg(ambulance.leg, ambulance.motion.distance), ambulance.motion.speedMs);
+          ambulance.lastFix = now;
+        }
+        if (!arrived) break;
+
+        if (ambulance.state === "to_patient") {
+          incident.arrivedAtPatientAt = now;
+          await updateToken(incident, { status: "at_patient", arrived_at_patient_at: simTime(now) });
+          Object.assign(ambulance, { state: "scene", until: now + config.scene_minutes * 60 });
+          break;
+        }
+
+        // Equivalent of useEmergencyTokens.completeEmergency, plus the hospital taking a bed
+        incident.completedAt = now;
+        await updateToken(incident, { status: "completed", arrived_at_hospital_at: simTime(now), completed_at: simTime(now) });
+        await updateAmbulance(ambulance, { emergency_status: "inactive", active_token_id: null });
+        const { hospital } = ambulance;
+        hospital.deliveries += 1;
+        hospital.availableBeds = Math.max(0, hospital.availableBeds - 1);
+        hospital.minBeds = Math.min(hospital.minBeds, hospital.availableBeds);
+        const { error } = await supabase
+          .from("hospital_capacity")
+          .update({ available_beds: hospital.availableBeds, updated_at: new Date().toISOString() })
+          .eq("hospital_id", hospital.dbId);
+        if (error) console.error(`Scenario: failed to update beds for ${hospital.id}:`, error);
+        log(`${stamp(now)} ${incident.id} delivered to ${hospital.name} (${hospital.availableBeds} beds left)`);
+        Object.assign(ambulance, { state: "handover", until: now + config.handover_minutes * 60 });
+        break;
+      }
+
+      case "scene":
+        if (now < ambulance.until) break;
+        await updateToken(incident, { status: "to_hospital" });
+        startLeg(ambulance, ambulance.routes.toHospital);
+        ambulance.state = "to_hospital";
+        break;
+
+      case "handover":
+        if (now >= ambulance.until) Object.assign(ambulance, { state: "idle", incident: null, leg: null, motion: null });
+        break;
+    }
+
+    if (ambulance.state !== "idle") ambulance.busySeconds += 1;
+  };
+
+  const collectActivations = async () => {
+    if (ambulances.length === 0) return [];
+    const { data, error } = await supabase
+      .from("signal_activations")
+      .select("ambulance_id, activation_type, contenders")
+      .in("ambulance_id", ambulances.map((ambulance) => ambulance.dbId));
+    if (error) {
+      console.error("Scenario: failed to load signal activations:", error);
+      return [];
+    }
+    return data;
+  };
+
+  const cleanup = async () => {
+    const ambulanceIds = ambulances.map((ambulance) => ambulance.dbId);
+    if (ambulanceIds.length > 0) {
+      // Ambulances point at their token and tokens at their ambulance; break the cycle first
+      await supabase.from("ambulances").update({ active_token_id: null }).in("id", ambulanceIds);
+      await supabase.from("emergency_tokens").delete().in("ambulance_id", ambulanceIds);
+      await supabase.from("ambulances").delete().in("id", ambulanceIds);
+    }
+    if (signalIds.length > 0) await supabase.from("traffic_signals").delete().in("id", signalIds);
+    // Profiles and capacity rows cascade from the auth users
+    for (const hospital of hospitals) {
+      const { error } = await supabase.auth.admin.deleteUser(hospital.dbId);
+      if (error) console.error(`Scenario: failed to remove hospital ${hospital.id}:`, error);
+    }
+  };
+
+  /**
+   * Seed rows, call `beforeStart` (e.g. to start a signal controller that should see
+   * the seeded signals), replay the scenario and build the report. `afterRun` runs
+   * before the seeded rows are removed, so a controller can be stopped first.
+   */
+  const run = async ({ beforeStart, afterRun } = {}) => {
+    try {
+      await seedHospitals();
+      await seedAmbulances();
+      await seedSignals();
+      log(`Seeded ${hospitals.length} hospitals, ${ambulances.length} ambulances, ${signalIds.length} signals (run ${runId})`);
+      if (beforeStart) await beforeStart();
+
+      clockStart = Date.now();
+      let now = 0;
+      const busy = () =>
+        ambulances.some((ambulance) => ambulance.state !== "idle") ||
+        incidents.some((incident) => incident.dispatchedAt === null && incident.at <= durationSeconds);
+
+      while (!aborted && (now < durationSeconds || (busy() && now < durationSeconds + DRAIN_LIMIT_SECONDS))) {
+        await dispatchWaiting(now);
+        for (const ambulance of ambulances) {
+          await advance(ambulance, now);
+        }
+        now += 1;
+
+        // Pace the simulated clock against wall-clock time; writes that fall behind just catch up
+        if (speed > 0) {
+          const due = clockStart + (now * 1000) / speed;
+          if (due > Date.now()) await sleep(due - Date.now());
+        }
+      }
+
+      return buildReport({
+        scenario: config,
+        policy: dispatchPolicy,
+        durationSeconds: now,
+        incidents,
+        ambulances,
+        hospitals,
+        activations: await collectActivations(),
+      });
+    } finally {
+      if (afterRun) await afterRun();
+      if (keep) {
+        log(`Keeping seeded rows (vehicle numbers start with SIM-${runId})`);
+      } else {
+        await cleanup();
+      }
+    }
+  };
+
+  const abort = () => {
+    aborted = true;
+  };
+
+  return { run, abort, runId };
+}
@@ -0,0 +1,81 @@
+// Simulated driving along a route polyline.
+// Mirrors src/services/tripSimulator.ts so scenario runs drive like the dashboard simulator
+// (src/services/__tests__/serverMirrors.test.ts drives the same leg with both).
+import { bearingBetween, cumulativeDistances } from "../signals/routeGeometry.js";
+
+export const DEFAULT_SPEED_PROFILE = {
+  cruiseKmh: 50,
+  accelerationMs2: 1.5,
+  brakingMs2: 2.5,
+  cornerKmh: 20,
+  sharpTurnDegrees: 45,
+};
+
+const MIN_ROLLING_SPEED_MS = 1;
+
+const kmhToMs = (kmh) => kmh / 3.6;
+
+const turnAngle = (before, after) => {
+  const delta = Math.abs(after - before) % 360;
+  return delta > 180 ? 360 - delta : delta;
+};
+
+export function prepareLeg(coordinates, profile = DEFAULT_SPEED_PROFILE) {
+  const distances = cumulativeDistances(coordinates);
+  const length = distances[distances.length - 1] ?? 0;
+  const speedLimits = [];
+
+  for (let i = 1; i < coordinates.length - 1; i++) {
+    const angle = turnAngle(
+      bearingBetween(coordinates[i - 1], coordinates[i]),
+      bearingBetween(coordinates[i], coordinates[i + 1])
+    );
+    if (angle >= profile.sharpTurnDegrees) {
+      speedLimits.push({ distance: distances[i], speedMs: kmhToMs(profile.cornerKmh) });
+    }
+  }
+  speedLimits.push({ distance: length, speedMs: 0 });
+
+  return { coordinates, distances, length, speedLimits };
+}
+
+export function positionOnLeg(leg, distance) {
+  const { coordinates, distances } = leg;
+  if (coordinates.length === 1) return { lat: coordinates[0][0], lng: coordinates[0][1], heading: 0 };
+
+  const clamped = Math.max(0, Math.min(leg.length, distance));
+  let index = 0;
+  while (index < coordinates.length - 2 && distances[index + 1] <= clamped) {
+    index++;
+  }
+
+  const [startLat, startLng] = coordinates[index];
+  const [endLat, endLng] = coordinates[index + 1];
+  const segment = distances[index + 1] - distances[index];
+  const t = segment > 0 ? (clamped - distances[index]) / segment : 0;
+
+  return {
+    lat: startLat + (endLat - startLat) * t,
+    lng: startLng + (endLng - startLng) * t,
+    heading: bearingBetween(coordinates[index], coordinates[index + 1]),
+  };
+}
+
+export function stepSimulation(leg, state, dt, profile = DEFAULT_SPEED_PROFILE) {
+  if (state.distance >= leg.length) return { distance: leg.length, speedMs: 0 };
+
+  let allowed = kmhToMs(profile.cruiseKmh);
+  for (const limit of leg.speedLimits) {
+    const ahead = limit.distance - state.distance;
+    if (ahead < 0) continue;
+    allowed = Math.min(allowed, Math.sqrt(limit.speedMs ** 2 + 2 * profile.brakingMs2 * ahead));
+  }
+
+  const speedMs = state.speedMs < allowed
+    ? Math.min(allowed, state.speedMs + profile.accelerationMs2 * dt)
+    : allowed;
+  const rolling = Math.max(speedMs, MIN_ROLLING_SPEED_MS);
+  const distance = Math.min(leg.length, state.distance + rolling * dt);
+
+  return { distance, speedMs: distance >= leg.length ? 0 : rolling };
+}
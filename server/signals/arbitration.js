@@ -0,0 +1,86 @@
+// Per-signal arbitration between ambulances that want the same junction.
+// The winner's phase gets the green; ambulances needing other phases wait until it has passed.
+
+// Triage priority (1 resuscitation … 5 non-urgent) assumed from the medical keyword for tokens
+// created without triage. The controller loads these from the emergency_types catalog; this
+// copy of the seeded defaults is only used until the catalog loads, or when it cannot be read.
+const FALLBACK_PRIORITIES = new Map(
+  Object.entries({
+    Cardiac: 2,
+    Neuro: 2,
+    Respiratory: 2,
+    Trauma: 3,
+    Burns: 3,
+    Pediatric: 3,
+    Maternity: 4,
+    Oncology: 4,
+    Orthopedics: 4,
+    General: 4,
+  }).map(([keyword, priority]) => [keyword.toLowerCase(), priority])
+);
+
+const FALLBACK_KEYWORD = "general";
+const GENERAL_PRIORITY = 4;
+
+// Lookup of catalog rows ({ keyword, label, default_priority }, in sort order) by lowercased
+// keyword or label; keywords win over labels and earlier rows over later ones, as in the web app
+export const toPriorityCatalog = (types) => {
+  const catalog = new Map();
+  for (const field of ["label", "keyword"]) {
+    [...types].reverse().forEach((type) => catalog.set(type[field].toLowerCase(), type.default_priority));
+  }
+  return catalog;
+};
+
+// ETAs closer than this are a tie; first-come (the current holder) keeps the signal
+export const ETA_MARGIN_SECONDS = 10;
+
+export const getPriority = (keyword, triagePriority = null, catalog = FALLBACK_PRIORITIES) =>
+  triagePriority ??
+  catalog.get(keyword?.toLowerCase()) ??
+  catalog.get(FALLBACK_KEYWORD) ??
+  GENERAL_PRIORITY;
+
+// Severity for arbitration, higher wins: priority 1 is severity 5
+export const getSeverity = (keyword, triagePriority = null, catalog = FALLBACK_PRIORITIES) =>
+  6 - getPriority(keyword, triagePriority, catalog);
+
+// Negative when claim a beats claim b, with the rule that decided it
+const compareClaims = (a, b, holderId) => {
+  // An ambulance about to enter the junction cannot be asked to stop
+  const aImminent = a.action === "priority";
+  const bImminent = b.action === "priority";
+  if (aImminent !== bImminent) return { order: aImminent ? -1 : 1, reason: "imminent" };
+
+  if (a.severity !== b.severity) return { order: b.severity - a.severity, reason: "severity" };
+
+  if (Math.abs(a.etaSeconds - b.etaSeconds) > ETA_MARGIN_SECONDS) {
+    return { order: a.etaSeconds - b.etaSeconds, reason: "eta" };
+  }
+
+  if (a.ambulanceId === holderId) return { order: -1, reason: "first_come" };
+  if (b.ambulanceId === holderId) return { order: 1, reason: "first_come" };
+  return { order: a.requestedAt - b.requestedAt, reason: "first_come" };
+};
+
+// Claims served by the same phase (or, without a phase match, the same direction) share a green
+const servedTogether = (a, b) =>
+  a.phase !== null && b.phase !== null ? a.phase === b.phase : a.direction === b.direction;
+
+/**
+ * Pick the ambulance that gets a signal.
+ * Claims the winner's phase also serves share its green; the others yield.
+ * Returns null when nobody claims the signal.
+ */
+export function arbitrateSignal(claims, holderId) {
+  if (claims.length === 0) return null;
+
+  const ranked = [...claims].sort((a, b) => compareClaims(a, b, holderId).order);
+  const winner = ranked[0];
+  const yielding = ranked.filter((claim) => !servedTogether(claim, winner));
+
+  // The reason is the rule that put the winner ahead of the strongest conflicting claim
+  const reason = yielding.length > 0 ? compareClaims(winner, yielding[0], holderId).reason : "uncontested";
+
+  return { winner, ranked, yielding, reason, conflict: yielding.length > 0 };
+}
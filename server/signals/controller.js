@@ -0,0 +1,502 @@
+import { createClient } from "@supabase/supabase-js";
+import WebSocket from "ws";
+import { getRouteDirection, planSignalPreemption } from "./preemption.js";
+import { getPhasePlan } from "./phases.js";
+import { createFieldBridge } from "./fieldBridge.js";
+import { arbitrateSignal, getSeverity, toPriorityCatalog } from "./arbitration.js";
+
+// A preempted signal reverts to normal unless the holding ambulance renews it within this window
+const LEASE_SECONDS = Number(process.env.SIGNAL_LEASE_SECONDS || 30);
+const SWEEP_INTERVAL_MS = 5000;
+const SIGNAL_REFRESH_MS = 60000;
+const FIELD_POLL_MS = 2000;
+
+// Token statuses where the ambulance is driving a route leg
+const DRIVING_STATUSES = ["in_progress", "to_hospital"];
+
+const NORMAL_STATE = {
+  current_status: "normal",
+  direction_ns: "GREEN",
+  direction_sn: "GREEN",
+  direction_ew: "RED",
+  direction_we: "RED",
+  priority_direction: null,
+  activated_by: null,
+  lease_expires_at: null,
+  arbitration: null,
+  active_phase: null,
+  phase_state: "normal",
+};
+
+const DIRECTION_COLUMNS = {
+  N_S: "direction_ns",
+  S_N: "direction_sn",
+  E_W: "direction_ew",
+  W_E: "direction_we",
+};
+
+// Per-direction lights for a phase: its approaches get `light`, everything else red.
+// Without a matched phase only the ambulance's own direction is lit.
+const phaseLights = (signal, phaseId, direction, light) => {
+  const lights = { direction_ns: "RED", direction_sn: "RED", direction_ew: "RED", direction_we: "RED" };
+  const plan = getPhasePlan(signal);
+  const phase = plan.phases.find((candidate) => candidate.id === phaseId);
+
+  if (!phase) {
+    if (direction) lights[DIRECTION_COLUMNS[direction]] = light;
+    return lights;
+  }
+  for (const approach of plan.approaches) {
+    if (phase.movements.some((movement) => movement.approach === approach.id)) {
+      lights[DIRECTION_COLUMNS[getRouteDirection(approach.bearing)]] = light;
+    }
+  }
+  return lights;
+};
+
+// Green (or blinking green while preparing) only for the phase serving the ambulance's movement
+const preemptedState = (signal, claim) => ({
+  current_status: claim.action,
+  ...phaseLights(signal, claim.phase, claim.direction, claim.action === "priority" ? "GREEN" : "BLINK_GREEN"),
+  priority_direction: claim.direction,
+  active_phase: claim.phase,
+  phase_state: "green",
+});
+
+// Whatever currently has green goes to yellow
+const yellowLights = (signal) =>
+  Object.fromEntries(
+    Object.values(DIRECTION_COLUMNS).map((column) => [
+      column,
+      signal[column] === "GREEN" || signal[column] === "BLINK_GREEN" ? "YELLOW" : "RED",
+    ])
+  );
+
+const ALL_RED = { direction_ns: "RED", direction_sn: "RED", direction_ew: "RED", direction_we: "RED" };
+
+const wait = (seconds) => new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+const leaseExpiry = () => new Date(Date.now() + LEASE_SECONDS * 1000).toISOString();
+
+const isEmergencyActive = (ambulance) =>
+  ambulance.emergency_status === "active" || ambulance.emergency_status === "responding";
+
+// Snapshot of an arbitration stored on the signal so dashboards can show the conflict
+const toArbitration = (decision) => ({
+  winner_id: decision.winner.ambulanceId,
+  reason: decision.reason,
+  decided_at: new Date().toISOString(),
+  contenders: decision.ranked.map((claim) => ({
+    ambulance_id: claim.ambulanceId,
+    vehicle_number: claim.vehicleNumber,
+    action: claim.action,
+    direction: claim.direction,
+    phase: claim.phase,
+    turn: claim.turn,
+    eta_seconds: Math.round(claim.etaSeconds),
+    severity: claim.severity,
+  })),
+});
+
+// Changes only when the outcome changes, not when ETAs tick down
+const decisionKey = (decision) =>
+  decision.conflict
+    ? `${decision.winner.ambulanceId}|${decision.reason}|${decision.ranked.map((claim) => `${claim.ambulanceId}:${claim.phase ?? claim.direction}`).join(",")}`
+    : null;
+
+/**
+ * Server-side signal controller. It is the only writer of traffic_signals:
+ * it follows ambulance positions over realtime, plans corridor preemption,
+ * arbitrates between ambulances that claim the same signal and holds each
+ * preempted signal under a lease that a sweeper reverts when it lapses.
+ */
+export function createSignalController({ supabaseUrl, serviceRoleKey }) {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+    realtime: { transport: WebSocket },
+  });
+
+  const fieldBridge = createFieldBridge({ supabase });
+
+  let signals = new Map();
+  // Default priorities from the emergency_types catalog; undefined falls back to the built-in table
+  let priorityCatalog;
+  const tripCache = new Map(); // ambulance id -> { route, severity } of the leg being driven (or null)
+  const claims = new Map(); // signal id -> Map(ambulance id -> claim)
+  const decisions = new Map(); // signal id -> key of the last logged arbitration
+  const resolving = new Map(); // signal id -> { promise, queued } of its pending resolution, so decisions never interleave
+  const evaluating = new Set();
+  let channel = null;
+  let timers = [];
+
+  // Keep the local copy current and forward the new state to the field controller
+  const storeSignal = (row) => {
+    if (!row) return;
+    signals.set(row.id, row);
+    fieldBridge.sync(row).catch((error) => console.error("Signal controller: field sync failed:", error));
+  };
+
+  const loadSignals = async () => {
+    const { data, error } = await supabase.from("traffic_signals").select("*");
+    if (error) {
+      console.error("Signal controller: failed to load signals:", error);
+      return;
+    }
+    signals = new Map(data.map((signal) => [signal.id, signal]));
+  };
+
+  // Admins edit the catalog, so severities are re-derived whenever it changes
+  const loadEmergencyTypes = async () => {
+    const { data, error } = await supabase
+      .from("emergency_types")
+      .select("keyword, label, default_priority")
+      .order("sort_order")
+      .order("label");
+
+    if (error) {
+      console.error("Signal controller: failed to load emergency types:", error);
+      return;
+    }
+    priorityCatalog = toPriorityCatalog(data);
+    tripCache.clear();
+  };
+
+  const updateSignal = async (signalId, values) => {
+    const { data, error } = await supabase
+      .from("traffic_signals")
+      .update({ ...values, last_updated: new Date().toISOString() })
+      .eq("id", signalId)
+      .select()
+      .single();
+
+    if (error) {
+      console.error("Signal controller: failed to update signal:", error);
+      return null;
+    }
+    storeSignal(data);
+    return data;
+  };
+
+  // Route polyline of the leg the ambulance is currently driving, with the emergency's severity
+  const getActiveTrip = async (ambulanceId) => {
+    if (tripCache.has(ambulanceId)) return tripCache.get(ambulanceId);
+
+    const { data, error } = await supabase
+      .from("emergency_tokens")
+      .select("status, route_to_patient, route_to_hospital, medical_keyword, triage_priority")
+      .eq("ambulance_id", ambulanceId)
+      .in("status", DRIVING_STATUSES)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Signal controller: failed to load active token:", error);
+      return null;
+    }
+
+    const leg = data?.status === "in_progress" ? data.route_to_patient : data?.route_to_hospital;
+    const trip = leg?.coordinates?.length >= 2
+      ? { route: leg.coordinates, severity: getSeverity(data.medical_keyword, data.triage_priority, priorityCatalog) }
+      : null;
+    tripCache.set(ambulanceId, trip);
+    return trip;
+  };
+
+  // Claims that have not been renewed within a lease belong to ambulances that stopped reporting
+  const liveClaims = (signalId) => {
+    const signalClaims = claims.get(signalId);
+    if (!signalClaims) return [];
+
+    const cutoff = Date.now() - LEASE_SECONDS * 1000;
+    for (const [ambulanceId, claim] of signalClaims) {
+      if (claim.updatedAt < cutoff) signalClaims.delete(ambulanceId);
+    }
+    return [...signalClaims.values()];
+  };
+
+  const logActivation = async (signalId, claim, decision) => {
+    const { error } = await supabase.from("signal_activations").insert({
+      signal_id: signalId,
+      ambulance_id: claim.ambulanceId,
+      activation_type: claim.action,
+      distance_meters: claim.distanceAhead,
+      direction: claim.direction,
+      phase: claim.phase,
+      turn: claim.turn,
+      eta_seconds: claim.etaSeconds,
+      severity: claim.severity,
+      arbitration_reason: decision.reason,
+      contenders: decision.conflict ? toArbitration(decision).contenders : null,
+    });
+    if (error) console.error("Signal controller: failed to log activation:", error);
+  };
+
+  /**
+   * Run the clearance interval before traffic on another phase gets green:
+   * the movements that had green show yellow, then every approach is red.
+   * Returns false if a write failed and the switch should be abandoned.
+   */
+  const runClearance = async (signal, holder) => {
+    const { clearance } = getPhasePlan(signal);
+    const yellow = await updateSignal(signal.id, {
+      ...holder,
+      ...yellowLights(signal),
+      phase_state: "yellow",
+      phase_changed_at: new Date().toISOString(),
+    });
+    if (!yellow) return false;
+    await wait(clearance.yellow_seconds);
+
+    const allRed = await updateSignal(signal.id, {
+      ...ALL_RED,
+      phase_state: "all_red",
+      phase_changed_at: new Date().toISOString(),
+    });
+    if (!allRed) return false;
+    await wait(clearance.all_red_seconds);
+    return true;
+  };
+
+  // Give the signal to the winning claim, or back to normal when nobody claims it
+  const applyDecision = async (signalId) => {
+    const signal = signals.get(signalId);
+    if (!signal) return;
+
+    const decision = arbitrateSignal(liveClaims(signalId), signal.activated_by);
+    if (!decision) {
+      decisions.delete(signalId);
+      if (signal.current_status !== "normal" && (await runClearance(signal, {}))) {
+        await updateSignal(signalId, { ...NORMAL_STATE, phase_changed_at: new Date().toISOString() });
+      }
+      return;
+    }
+
+    const { winner } = decision;
+    const key = decisionKey(decision);
+    // Already green for the phase this ambulance needs: no clearance interval required
+    const servingPhase =
+      signal.phase_state === "green" &&
+      signal.active_phase === winner.phase &&
+      (winner.phase !== null || signal.priority_direction === winner.direction);
+    const stateChanged =
+      !servingPhase ||
+      signal.current_status !== winner.action ||
+      signal.activated_by !== winner.ambulanceId;
+    const decisionChanged = key !== (decisions.get(signalId) ?? null);
+
+    if (!stateChanged && !decisionChanged) {
+      // Same decision as before: just renew the lease
+      await updateSignal(signalId, { lease_expires_at: leaseExpiry() });
+      return;
+    }
+
+    const holder = {
+      current_status: winner.action,
+      activated_by: winner.ambulanceId,
+      lease_expires_at: leaseExpiry(),
+    };
+    if (!servingPhase && !(await runClearance(signal, holder))) return;
+
+    const updated = await updateSignal(signalId, {
+      ...preemptedState(signal, winner),
+      ...(servingPhase ? {} : { phase_changed_at: new Date().toISOString() }),
+      activated_by: winner.ambulanceId,
+      lease_expires_at: leaseExpiry(),
+      arbitration: decision.conflict ? toArbitration(decision) : null,
+    });
+    if (!updated) return;
+
+    decisions.set(signalId, key);
+    // Every status change and every new arbitration outcome is recorded
+    if (signal.current_status !== winner.action || signal.activated_by !== winner.ambulanceId || decisionChanged) {
+      await logActivation(signalId, winner, decision);
+    }
+  };
+
+  /**
+   * Queue a decision for one signal behind the one it is already working on, which may be
+   * sitting in a clearance interval. A decision that has not started yet reads the latest
+   * claims when it runs, so further requests join it instead of queueing again.
+   */
+  const resolveSignal = (signalId) => {
+    const pending = resolving.get(signalId);
+    if (pending?.queued) return pending.promise;
+
+    const entry = { queued: true };
+    entry.promise = (pending?.promise ?? Promise.resolve())
+      .then(() => {
+        entry.queued = false;
+        return applyDecision(signalId);
+      })
+      .catch((error) => console.error("Signal controller: signal resolution failed:", error))
+      .finally(() => {
+        if (resolving.get(signalId) === entry) resolving.delete(signalId);
+      });
+    resolving.set(signalId, entry);
+    return entry.promise;
+  };
+
+  // Signals are resolved in the background; the caller does not wait out their clearance
+  const releaseAmbulance = (ambulanceId) => {
+    const affected = new Set();
+    for (const [signalId, signalClaims] of claims) {
+      if (signalClaims.delete(ambulanceId)) affected.add(signalId);
+    }
+    for (const signal of signals.values()) {
+      if (signal.activated_by === ambulanceId && signal.current_status !== "normal") affected.add(signal.id);
+    }
+    affected.forEach(resolveSignal);
+  };
+
+  // Record what this ambulance wants from a signal; returns true if the signal needs re-arbitration
+  const updateClaim = (plan, ambulance, severity) => {
+    const { signal, action } = plan;
+    const signalClaims = claims.get(signal.id) ?? new Map();
+
+    if (action !== "priority" && action !== "prepare") {
+      return signalClaims.delete(ambulance.id) || signal.activated_by === ambulance.id;
+    }
+
+    const existing = signalClaims.get(ambulance.id);
+    claims.set(signal.id, signalClaims);
+
+    const now = Date.now();
+    signalClaims.set(ambulance.id, {
+      ambulanceId: ambulance.id,
+      vehicleNumber: ambulance.vehicle_number,
+      action,
+      direction: plan.direction,
+      phase: plan.movement?.phase?.id ?? null,
+      turn: plan.movement?.turn ?? null,
+      etaSeconds: plan.etaSeconds,
+      distanceAhead: plan.distanceAhead,
+      severity,
+      requestedAt: existing?.requestedAt ?? now,
+      updatedAt: now,
+    });
+    return true;
+  };
+
+  const evaluateAmbulance = async (ambulance) => {
+    // Position updates arrive faster than we write; skip while the previous pass runs
+    if (evaluating.has(ambulance.id)) return;
+    evaluating.add(ambulance.id);
+
+    try {
+      const trip = isEmergencyActive(ambulance) ? await getActiveTrip(ambulance.id) : null;
+      if (!trip) {
+        releaseAmbulance(ambulance.id);
+        return;
+      }
+
+      // A signal in its clearance interval must not hold up the signals further along the route
+      const plans = planSignalPreemption([...signals.values()], trip.route, ambulance);
+      for (const plan of plans) {
+        if (updateClaim(plan, ambulance, trip.severity)) resolveSignal(plan.signal.id);
+      }
+    } catch (error) {
+      console.error("Signal controller: evaluation failed:", error);
+    } finally {
+      evaluating.delete(ambulance.id);
+    }
+  };
+
+  // Revert every preempted signal whose lease lapsed (e.g. the driver's tab went to sleep).
+  // Signals with a resolution pending are left to it, so a clearance is never cut short.
+  const sweepExpiredLeases = async () => {
+    const now = new Date().toISOString();
+    let query = supabase
+      .from("traffic_signals")
+      .update({ ...NORMAL_STATE, last_updated: now })
+      .neq("current_status", "normal")
+      .or(`lease_expires_at.is.null,lease_expires_at.lt.${now}`);
+    if (resolving.size > 0) query = query.not("id", "in", `(${[...resolving.keys()].join(",")})`);
+
+    const { data, error } = await query.select();
+
+    if (error) {
+      console.error("Signal controller: lease sweep failed:", error);
+      return;
+    }
+    data.forEach(storeSignal);
+    data.forEach((signal) => {
+      claims.delete(signal.id);
+      decisions.delete(signal.id);
+    });
+    if (data.length > 0) {
+      console.log(`Signal controller: released ${data.length} signal(s) with expired leases`);
+    }
+  };
+
+  const resetAllSignals = async () => {
+    const { data, error } = await supabase
+      .from("traffic_signals")
+      .update({ ...NORMAL_STATE, last_updated: new Date().toISOString() })
+      .neq("current_status", "normal")
+      .select();
+
+    if (error) throw error;
+    data.forEach(storeSignal);
+    claims.clear();
+    decisions.clear();
+    return data.length;
+  };
+
+  const start = async () => {
+    await Promise.all([loadSignals(), loadEmergencyTypes()]);
+    await sweepExpiredLeases();
+
+    channel = supabase
+      .channel("signal-controller")
+      .on("postgres_changes", { event: "UPDATE", schema: "public", table: "ambulances" }, (payload) => {
+        evaluateAmbulance(payload.new);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "emergency_tokens" }, (payload) => {
+        const ambulanceId = payload.new?.ambulance_id || payload.old?.ambulance_id;
+        if (ambulanceId) tripCache.delete(ambulanceId);
+      })
+      .on("postgres_changes", { event: "*", schema: "public", table: "emergency_types" }, () => {
+        loadEmergencyTypes();
+      })
+      .subscribe();
+
+    timers = [
+      setInterval(sweepExpiredLeases, SWEEP_INTERVAL_MS),
+      setInterval(loadSignals, SIGNAL_REFRESH_MS),
+      setInterval(() => fieldBridge.poll([...signals.values()]), FIELD_POLL_MS),
+    ];
+
+    console.log(`🚦 Signal controller running (lease ${LEASE_SECONDS}s, field transport: ${fieldBridge.transport})`);
+  };
+
+  const stop = async () => {
+    timers.forEach(clearInterval);
+    timers = [];
+    if (channel) await supabase.removeChannel(channel);
+    channel = null;
+    fieldBridge.close();
+  };
+
+  // Resolve the caller's role from their Supabase access token
+  const getUserRole = async (accessToken) => {
+    const { data, error } = await supabase.auth.getUser(accessToken);
+    if (error || !data?.user) return null;
+
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("role")
+      .eq("id", data.user.id)
+      .maybeSingle();
+    return profile?.role ?? null;
+  };
+
+  return {
+    start,
+    stop,
+    evaluateAmbulance,
+    resetAllSignals,
+    sweepExpiredLeases,
+    getUserRole,
+  };
+}
@@ -0,0 +1,138 @@
+import { createNtcip1202Adapter, targetPreempt } from "./ntcip/ntcip1202.js";
+import { createSimulatedController } from "./ntcip/simulator.js";
+import { createSnmpTransport } from "./ntcip/snmpTransport.js";
+import { getPhasePlan } from "./phases.js";
+
+// Off unless configured: "simulator" runs an in-process controller per signal,
+// "ntcip" talks SNMP to each signal's controller_address
+const FIELD_TRANSPORT = process.env.SIGNAL_FIELD_TRANSPORT || "none";
+const SNMP_COMMUNITY = process.env.SIGNAL_SNMP_COMMUNITY || "public";
+// Republish unchanged controller state this often so dashboards can tell it is fresh
+const HEARTBEAT_MS = 30000;
+
+/**
+ * Pushes preemption decisions to field controllers over NTCIP 1202 and records
+ * what the controllers report back in traffic_signals.controller_state.
+ */
+export function createFieldBridge({ supabase }) {
+  const controllers = new Map(); // signal id -> { adapter, preempt, commandedAt, acknowledgedAt, error, published } or null
+
+  const getController = (signal) => {
+    if (controllers.has(signal.id)) return controllers.get(signal.id);
+
+    let transport = null;
+    if (FIELD_TRANSPORT === "simulator") {
+      const plan = getPhasePlan(signal);
+      transport = createSimulatedController({
+        phases: plan.phases.map((phase) => phase.id),
+        clearance: plan.clearance,
+      });
+    } else if (FIELD_TRANSPORT === "ntcip" && signal.controller_address) {
+      transport = createSnmpTransport(signal.controller_address, { community: SNMP_COMMUNITY });
+    }
+
+    const controller = transport
+      ? {
+          adapter: createNtcip1202Adapter(transport),
+          transport: transport.name,
+          preempt: undefined,
+          commandedAt: null,
+          acknowledgedAt: null,
+          error: null,
+          published: null,
+        }
+      : null;
+    controllers.set(signal.id, controller);
+    return controller;
+  };
+
+  const publish = async (signalId, controller, report) => {
+    // Phases cycle every few seconds in normal operation; they are only news while preempting
+    const preempting = controller.preempt != null || report?.activePreempt != null;
+    const state = {
+      protocol: "ntcip1202",
+      transport: controller.transport,
+      online: !!report,
+      requested_preempt: controller.preempt ?? null,
+      active_preempt: report?.activePreempt ?? null,
+      preempt_state: report?.preemptState ?? null,
+      greens: preempting ? report?.greens ?? [] : [],
+      yellows: preempting ? report?.yellows ?? [] : [],
+      commanded_at: controller.commandedAt,
+      acknowledged_at: controller.acknowledgedAt,
+      error: controller.error,
+    };
+
+    const key = JSON.stringify(state);
+    const stale = !controller.published || Date.now() - controller.published.at > HEARTBEAT_MS;
+    if (!stale && controller.published.key === key) return;
+
+    const { error } = await supabase
+      .from("traffic_signals")
+      .update({ controller_state: { ...state, reported_at: new Date().toISOString() } })
+      .eq("id", signalId);
+    if (error) {
+      console.error("Field bridge: failed to publish controller state:", error);
+      return;
+    }
+    controller.published = { key, at: Date.now() };
+  };
+
+  const readAndPublish = async (signalId, controller) => {
+    let report = null;
+    try {
+      report = await controller.adapter.report();
+    } catch (error) {
+      controller.error = `Status poll failed: ${error.message}`;
+    }
+    await publish(signalId, controller, report);
+  };
+
+  // Command the preempt matching the signal's current decision, if it changed.
+  // Returns true when it talked to the controller.
+  const sync = async (signal) => {
+    const controller = getController(signal);
+    if (!controller) return false;
+
+    const preempt = targetPreempt(signal);
+    if (preempt === controller.preempt) return false;
+
+    controller.preempt = preempt;
+    controller.commandedAt = new Date().toISOString();
+    try {
+      await controller.adapter.command(preempt);
+      controller.acknowledgedAt = new Date().toISOString();
+      controller.error = null;
+    } catch (error) {
+      console.error("Field bridge: preempt command failed:", error);
+      controller.error = `Command failed: ${error.message}`;
+      // Retry on the next sync
+      controller.preempt = undefined;
+    }
+    await readAndPublish(signal.id, controller);
+    return true;
+  };
+
+  // Retry failed commands and refresh every controller's reported state
+  let polling = false;
+  const poll = async (signals) => {
+    // Slow controllers can make a pass outlast the poll interval; never overlap passes
+    if (polling) return;
+    polling = true;
+    try {
+      for (const signal of signals) {
+        const controller = getController(signal);
+        if (controller && !(await sync(signal))) await readAndPublish(signal.id, controller);
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  const close = () => {
+    controllers.forEach((controller) => controller?.adapter.close());
+    controllers.clear();
+  };
+
+  return { sync, poll, close, transport: FIELD_TRANSPORT };
+}
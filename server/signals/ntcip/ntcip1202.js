@@ -0,0 +1,90 @@
+// NTCIP 1202 (Actuated Signal Controller) objects used for emergency vehicle preemption.
+// Preempt n on the field controller is expected to be configured to dwell in phase n of
+// the signal's phase plan, so the phase the cloud controller picks maps 1:1 to a preempt input.
+
+const ASC = "1.3.6.1.4.1.1206.4.2.1";
+
+export const OIDS = {
+  maxPreempts: `${ASC}.6.1.0`,
+  preemptControl: (preempt) => `${ASC}.6.3.1.2.${preempt}`,
+  preemptState: (preempt) => `${ASC}.6.3.1.19.${preempt}`,
+  // Bitmaps for phases 1-8: bit 0 is phase 1
+  phaseStatusGroupReds: `${ASC}.1.4.1.2.1`,
+  phaseStatusGroupYellows: `${ASC}.1.4.1.3.1`,
+  phaseStatusGroupGreens: `${ASC}.1.4.1.4.1`,
+};
+
+export const PREEMPT_STATES = {
+  1: "other",
+  2: "notActive",
+  3: "notActiveWithCall",
+  4: "entryStarted",
+  5: "trackService",
+  6: "dwell",
+  7: "linkActive",
+  8: "exitStarted",
+  9: "maximumPresence",
+};
+
+export const PREEMPT_CONTROL = { off: 0, on: 1 };
+
+// Preempts 1-8 cover every phase a status group can report
+export const MAX_PREEMPTS = 8;
+
+export const phasesFromBitmap = (bitmap) => {
+  const phases = [];
+  for (let phase = 1; phase <= 8; phase++) {
+    if (bitmap & (1 << (phase - 1))) phases.push(phase);
+  }
+  return phases;
+};
+
+export const bitmapFromPhases = (phases) =>
+  phases.reduce((bitmap, phase) => (phase >= 1 && phase <= 8 ? bitmap | (1 << (phase - 1)) : bitmap), 0);
+
+// Preempt to call for a traffic_signals row, or null to release all preempts
+export const targetPreempt = (signal) =>
+  signal.current_status !== "normal" && signal.active_phase >= 1 && signal.active_phase <= MAX_PREEMPTS
+    ? signal.active_phase
+    : null;
+
+/**
+ * Translates traffic_signals state into NTCIP 1202 preemption objects and reads back
+ * the controller's actual phase state. `transport` speaks SNMP-style get/set on OIDs:
+ * a real SNMP session or the local simulator.
+ */
+export function createNtcip1202Adapter(transport) {
+  const command = async (preempt) => {
+    // Drop every other preempt in the same request so two never stay called at once
+    const varbinds = [];
+    for (let n = 1; n <= MAX_PREEMPTS; n++) {
+      varbinds.push({
+        oid: OIDS.preemptControl(n),
+        value: n === preempt ? PREEMPT_CONTROL.on : PREEMPT_CONTROL.off,
+      });
+    }
+    await transport.set(varbinds);
+  };
+
+  const report = async () => {
+    const preemptOids = Array.from({ length: MAX_PREEMPTS }, (_, i) => OIDS.preemptState(i + 1));
+    const values = await transport.get([
+      OIDS.phaseStatusGroupGreens,
+      OIDS.phaseStatusGroupYellows,
+      OIDS.phaseStatusGroupReds,
+      ...preemptOids,
+    ]);
+    const [greens, yellows, reds, ...preemptStates] = values.map((varbind) => Number(varbind.value));
+
+    const activeIndex = preemptStates.findIndex((state) => state !== 2 && state !== 1);
+    return {
+      greens: phasesFromBitmap(greens),
+      yellows: phasesFromBitmap(yellows),
+      reds: phasesFromBitmap(reds),
+      activePreempt: activeIndex === -1 ? null : activeIndex + 1,
+      preemptState: PREEMPT_STATES[activeIndex === -1 ? 2 : preemptStates[activeIndex]] ?? "other",
+    };
+  };
+
+  return { command, report, close: () => transport.close() };
+}
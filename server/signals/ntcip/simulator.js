@@ -0,0 +1,102 @@
+// In-process stand-in for an NTCIP 1202 field controller. It cycles through its phases
+// on fixed timing, honours preempt calls with a proper yellow/all-red clearance and
+// answers get/set on the same OIDs a real controller would.
+import { OIDS, MAX_PREEMPTS, bitmapFromPhases } from "./ntcip1202.js";
+
+const TICK_MS = 250;
+const CYCLE_GREEN_SECONDS = 15;
+
+const NOT_ACTIVE = 2;
+const ENTRY_STARTED = 4;
+const DWELL = 6;
+const EXIT_STARTED = 8;
+
+export function createSimulatedController({ phases, clearance }) {
+  const phaseIds = phases.filter((id) => id >= 1 && id <= 8);
+  if (phaseIds.length === 0) phaseIds.push(1);
+
+  const control = new Map(); // preempt number -> 0/1 as last set
+  let light = { phase: phaseIds[0], stage: "green", since: Date.now() };
+  let nextPhase = null;
+  let preempt = { number: null, state: NOT_ACTIVE };
+
+  const nextInCycle = (phase) => phaseIds[(phaseIds.indexOf(phase) + 1) % phaseIds.length];
+
+  // Terminate the current green (if any) and head for `target`
+  const startClearance = (target) => {
+    nextPhase = target;
+    if (light.stage === "green") light = { phase: light.phase, stage: "yellow", since: Date.now() };
+  };
+
+  const tick = () => {
+    const requested = [...control].find(([, value]) => value === 1)?.[0] ?? null;
+
+    const reentering = requested === preempt.number && preempt.state === EXIT_STARTED;
+    if (requested !== null && (requested !== preempt.number || reentering)) {
+      preempt = { number: requested, state: ENTRY_STARTED };
+      if (light.stage === "green" && light.phase === requested) {
+        preempt.state = DWELL;
+        nextPhase = null;
+      } else {
+        startClearance(requested);
+      }
+    } else if (requested === null && preempt.number !== null && preempt.state !== EXIT_STARTED) {
+      preempt = { number: preempt.number, state: EXIT_STARTED };
+      startClearance(nextInCycle(light.phase));
+    }
+
+    const elapsed = (Date.now() - light.since) / 1000;
+    if (light.stage === "green") {
+      const dwelling = preempt.state === DWELL && light.phase === preempt.number;
+      if (!dwelling && elapsed >= CYCLE_GREEN_SECONDS) startClearance(nextInCycle(light.phase));
+    } else if (light.stage === "yellow" && elapsed >= clearance.yellow_seconds) {
+      light = { phase: light.phase, stage: "all_red", since: Date.now() };
+    } else if (light.stage === "all_red" && elapsed >= clearance.all_red_seconds) {
+      light = { phase: nextPhase ?? nextInCycle(light.phase), stage: "green", since: Date.now() };
+      nextPhase = null;
+      if (preempt.state === ENTRY_STARTED && light.phase === preempt.number) {
+        preempt = { number: preempt.number, state: DWELL };
+      } else if (preempt.state === EXIT_STARTED) {
+        preempt = { number: null, state: NOT_ACTIVE };
+      }
+    }
+  };
+
+  const timer = setInterval(tick, TICK_MS);
+  timer.unref?.();
+
+  const read = (oid) => {
+    if (oid === OIDS.maxPreempts) return MAX_PREEMPTS;
+    if (oid === OIDS.phaseStatusGroupGreens) return light.stage === "green" ? bitmapFromPhases([light.phase]) : 0;
+    if (oid === OIDS.phaseStatusGroupYellows) return light.stage === "yellow" ? bitmapFromPhases([light.phase]) : 0;
+    if (oid === OIDS.phaseStatusGroupReds) {
+      const lit = light.stage === "all_red" ? [] : [light.phase];
+      return bitmapFromPhases(phaseIds.filter((phase) => !lit.includes(phase)));
+    }
+    for (let n = 1; n <= MAX_PREEMPTS; n++) {
+      if (oid === OIDS.preemptState(n)) return n === preempt.number ? preempt.state : NOT_ACTIVE;
+      if (oid === OIDS.preemptControl(n)) return control.get(n) ?? 0;
+    }
+    throw new Error(`noSuchName: ${oid}`);
+  };
+
+  const set = async (varbinds) => {
+    // Validate the whole request first so a bad varbind changes nothing, like an SNMP agent
+    const updates = varbinds.map(({ oid, value }) => {
+      const preemptNumber = Array.from({ length: MAX_PREEMPTS }, (_, i) => i + 1)
+        .find((n) => oid === OIDS.preemptControl(n));
+      if (!preemptNumber) throw new Error(`noSuchName: ${oid}`);
+      if (value !== 0 && value !== 1) throw new Error(`badValue: ${oid}`);
+      return [preemptNumber, value];
+    });
+    updates.forEach(([preemptNumber, value]) => control.set(preemptNumber, value));
+    tick();
+  };
+
+  const get = async (oids) => {
+    tick();
+    return oids.map((oid) => ({ oid, value: read(oid) }));
+  };
+
+  return { name: "simulator", set, get, close: () => clearInterval(timer) };
+}
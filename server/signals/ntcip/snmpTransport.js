@@ -0,0 +1,37 @@
+import snmp from "net-snmp";
+
+const REQUEST_TIMEOUT_MS = 2000;
+
+// SNMP v1 session to a field controller at "host" or "host:port"
+export function createSnmpTransport(address, { community = "public" } = {}) {
+  const [host, port] = address.split(":");
+  const session = snmp.createSession(host, community, {
+    port: port ? Number(port) : 161,
+    version: snmp.Version1,
+    timeout: REQUEST_TIMEOUT_MS,
+    retries: 1,
+  });
+
+  const set = (varbinds) =>
+    new Promise((resolve, reject) => {
+      const request = varbinds.map(({ oid, value }) => ({ oid, type: snmp.ObjectType.Integer, value }));
+      session.set(request, (error, response) => {
+        if (error) return reject(error);
+        const failed = response.find((varbind) => snmp.isVarbindError(varbind));
+        if (failed) return reject(new Error(snmp.varbindError(failed)));
+        resolve();
+      });
+    });
+
+  const get = (oids) =>
+    new Promise((resolve, reject) => {
+      session.get(oids, (error, response) => {
+        if (error) return reject(error);
+        const failed = response.find((varbind) => snmp.isVarbindError(varbind));
+        if (failed) return reject(new Error(snmp.varbindError(failed)));
+        resolve(response.map((varbind) => ({ oid: varbind.oid, value: varbind.value })));
+      });
+    });
+
+  return { name: "snmp", set, get, close: () => session.close() };
+}
@@ -0,0 +1,97 @@
+// Intersection phase model: approaches (legs), turns and the phases that serve them.
+// Mirrors src/services/signalPhases.ts, checked by src/services/__tests__/serverMirrors.test.ts.
+import { bearingAt } from "./routeGeometry.js";
+
+const TURN_MEASURE_DISTANCE = 30; // meters before/after the junction
+const THROUGH_TOLERANCE = 30; // degrees
+const U_TURN_THRESHOLD = 150; // degrees
+
+// Same plan as the column default in the phase model migration
+export const DEFAULT_PHASE_PLAN = {
+  approaches: [
+    { id: "N", name: "From north", bearing: 180 },
+    { id: "E", name: "From east", bearing: 270 },
+    { id: "S", name: "From south", bearing: 0 },
+    { id: "W", name: "From west", bearing: 90 },
+  ],
+  phases: [
+    {
+      id: 1,
+      name: "North-South through",
+      movements: [
+        { approach: "N", turn: "through" }, { approach: "N", turn: "left" },
+        { approach: "S", turn: "through" }, { approach: "S", turn: "left" },
+      ],
+    },
+    {
+      id: 2,
+      name: "North-South right turns",
+      movements: [
+        { approach: "N", turn: "right" }, { approach: "N", turn: "u_turn" },
+        { approach: "S", turn: "right" }, { approach: "S", turn: "u_turn" },
+      ],
+    },
+    {
+      id: 3,
+      name: "East-West through",
+      movements: [
+        { approach: "E", turn: "through" }, { approach: "E", turn: "left" },
+        { approach: "W", turn: "through" }, { approach: "W", turn: "left" },
+      ],
+    },
+    {
+      id: 4,
+      name: "East-West right turns",
+      movements: [
+        { approach: "E", turn: "right" }, { approach: "E", turn: "u_turn" },
+        { approach: "W", turn: "right" }, { approach: "W", turn: "u_turn" },
+      ],
+    },
+  ],
+  clearance: { yellow_seconds: 3, all_red_seconds: 2 },
+};
+
+const angleDelta = (a, b) => {
+  const delta = (((b - a) % 360) + 360) % 360;
+  return delta > 180 ? delta - 360 : delta;
+};
+
+export const classifyTurn = (inboundBearing, outboundBearing) => {
+  const delta = angleDelta(inboundBearing, outboundBearing);
+  if (Math.abs(delta) <= THROUGH_TOLERANCE) return "through";
+  if (Math.abs(delta) >= U_TURN_THRESHOLD) return "u_turn";
+  return delta > 0 ? "right" : "left";
+};
+
+export const matchApproach = (plan, inboundBearing) => {
+  let best = null;
+  let bestDelta = Infinity;
+  for (const approach of plan.approaches) {
+    const delta = Math.abs(angleDelta(approach.bearing, inboundBearing));
+    if (delta < bestDelta) {
+      best = approach;
+      bestDelta = delta;
+    }
+  }
+  return best;
+};
+
+export const findPhase = (plan, approachId, turn) =>
+  plan.phases.find((phase) =>
+    phase.movements.some((movement) => movement.approach === approachId && movement.turn === turn)
+  ) ?? plan.phases.find((phase) => phase.movements.some((movement) => movement.approach === approachId)) ?? null;
+
+// Approach, next turn and serving phase for a route crossing the junction at distanceAlong
+export const matchRouteMovement = (plan, route, distanceAlong) => {
+  const inbound = bearingAt(route, distanceAlong - TURN_MEASURE_DISTANCE);
+  const outbound = bearingAt(route, distanceAlong + TURN_MEASURE_DISTANCE);
+  if (inbound === null || outbound === null) return null;
+
+  const approach = matchApproach(plan, inbound);
+  if (!approach) return null;
+
+  const turn = classifyTurn(inbound, outbound);
+  return { approach, turn, phase: findPhase(plan, approach.id, turn) };
+};
+
+export const getPhasePlan = (signal) => signal.phase_plan ?? DEFAULT_PHASE_PLAN;
@@ -0,0 +1,87 @@
+// Route-corridor preemption planning.
+// Mirrors src/services/signalPreemption.ts so the controller and the dashboards agree
+// (src/services/__tests__/serverMirrors.test.ts plans the same corridor with both).
+import { projectOntoRouteSegments } from "./routeGeometry.js";
+import { getPhasePlan, matchRouteMovement } from "./phases.js";
+
+export const CORRIDOR_WIDTH = 35; // meters
+export const PREPARE_DISTANCE = 1000; // meters ahead along the route
+export const ACTIVATE_DISTANCE = 250; // meters ahead along the route
+const PREPARE_ETA = 90; // seconds
+const ACTIVATE_ETA = 20; // seconds
+const PASSED_MARGIN = 15; // meters
+const MIN_PLANNING_SPEED_KMH = 20;
+
+// Same mapping as getRouteDirection in src/types/database.ts
+export const getRouteDirection = (heading) => {
+  heading = ((heading % 360) + 360) % 360;
+  if (heading >= 315 || heading < 45) return "N_S";
+  if (heading >= 45 && heading < 135) return "E_W";
+  if (heading >= 135 && heading < 225) return "S_N";
+  return "W_E";
+};
+
+/**
+ * Decide the state of every signal for an ambulance following a route.
+ * Returns one plan per signal: action is 'priority', 'prepare', 'release' or 'none',
+ * plus the approach, turn and phase the ambulance needs at that junction.
+ */
+export function planSignalPreemption(signals, route, ambulance) {
+  const position = projectOntoRouteSegments(route, ambulance.current_lat, ambulance.current_lng)[0];
+  const progress = position?.distanceAlong ?? 0;
+  const speedMs = Math.max(ambulance.speed || 0, MIN_PLANNING_SPEED_KMH) / 3.6;
+
+  const plans = signals.map((signal) => {
+    const crossings = projectOntoRouteSegments(route, signal.location_lat, signal.location_lng)
+      .filter((projection) => projection.offset <= CORRIDOR_WIDTH);
+    const upcoming = crossings
+      .filter((projection) => projection.distanceAlong >= progress - PASSED_MARGIN)
+      .sort((a, b) => a.distanceAlong - b.distanceAlong)[0];
+
+    const holdsSignal = signal.activated_by === ambulance.id && signal.current_status !== "normal";
+
+    if (!upcoming) {
+      return {
+        signal,
+        action: holdsSignal ? "release" : "none",
+        onCorridor: crossings.length > 0,
+        passed: crossings.length > 0,
+        distanceAhead: 0,
+        etaSeconds: 0,
+        direction: null,
+        movement: null,
+      };
+    }
+
+    const movement = matchRouteMovement(getPhasePlan(signal), route, upcoming.distanceAlong);
+    const distanceAhead = Math.max(0, upcoming.distanceAlong - progress);
+    const etaSeconds = distanceAhead / speedMs;
+
+    let action = "none";
+    if (distanceAhead <= ACTIVATE_DISTANCE || etaSeconds <= ACTIVATE_ETA) {
+      action = "priority";
+    } else if (distanceAhead <= PREPARE_DISTANCE || etaSeconds <= PREPARE_ETA) {
+      action = "prepare";
+    } else if (holdsSignal) {
+      action = "release";
+    }
+
+    return {
+      signal,
+      action,
+      onCorridor: true,
+      passed: false,
+      distanceAhead,
+      etaSeconds,
+      direction: getRouteDirection(movement ? movement.approach.bearing : upcoming.bearing),
+      movement,
+    };
+  });
+
+  return plans.sort((a, b) => {
+    const aAhead = a.onCorridor && !a.passed;
+    const bAhead = b.onCorridor && !b.passed;
+    if (aAhead !== bAhead) return aAhead ? -1 : 1;
+    return a.etaSeconds - b.etaSeconds;
+  });
+}
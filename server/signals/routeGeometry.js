@@ -0,0 +1,75 @@
+// Geometry helpers for route polylines stored as [lat, lng] pairs.
+// Mirrors src/services/routeGeometry.ts; src/services/__tests__/serverMirrors.test.ts compares the two.
+
+const EARTH_RADIUS = 6371000;
+const toRadians = (degrees) => degrees * (Math.PI / 180);
+
+const toLocal = (lat, lng, refLat) => ({
+  x: toRadians(lng) * EARTH_RADIUS * Math.cos(toRadians(refLat)),
+  y: toRadians(lat) * EARTH_RADIUS,
+});
+
+export const bearingBetween = ([fromLat, fromLng], [toLat, toLng]) => {
+  const lat1 = toRadians(fromLat);
+  const lat2 = toRadians(toLat);
+  const dLng = toRadians(toLng - fromLng);
+  const y = Math.sin(dLng) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(dLng);
+  return (Math.atan2(y, x) * (180 / Math.PI) + 360) % 360;
+};
+
+export const segmentLength = (from, to) => {
+  const a = toLocal(from[0], from[1], from[0]);
+  const b = toLocal(to[0], to[1], from[0]);
+  return Math.hypot(b.x - a.x, b.y - a.y);
+};
+
+export const cumulativeDistances = (coordinates) => {
+  const distances = [0];
+  for (let i = 1; i < coordinates.length; i++) {
+    distances.push(distances[i - 1] + segmentLength(coordinates[i - 1], coordinates[i]));
+  }
+  return distances;
+};
+
+// Every segment projection of a point onto the route, nearest first
+export const projectOntoRouteSegments = (coordinates, lat, lng) => {
+  if (coordinates.length < 2) return [];
+
+  const distances = cumulativeDistances(coordinates);
+  const projections = [];
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const [startLat, startLng] = coordinates[i];
+    const [endLat, endLng] = coordinates[i + 1];
+    const a = toLocal(startLat, startLng, startLat);
+    const b = toLocal(endLat, endLng, startLat);
+    const p = toLocal(lat, lng, startLat);
+
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+
+    projections.push({
+      distanceAlong: distances[i] + t * Math.sqrt(lengthSquared),
+      offset: Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)),
+      segmentIndex: i,
+      bearing: bearingBetween(coordinates[i], coordinates[i + 1]),
+    });
+  }
+
+  return projections.sort((x, y) => x.offset - y.offset);
+};
+
+// Travel bearing of the segment at a distance along the route (clamped to the first/last segment)
+export const bearingAt = (coordinates, distanceAlong) => {
+  if (coordinates.length < 2) return null;
+
+  const distances = cumulativeDistances(coordinates);
+  let index = 0;
+  while (index < coordinates.length - 2 && distances[index + 1] <= distanceAlong) {
+    index++;
+  }
+  return bearingBetween(coordinates[index], coordinates[index + 1]);
+};
@@ -0,0 +1,23 @@
+// Acceptance SLA ladder. A token waiting for a hospital climbs one stage at a time once it
+// has waited past that stage's threshold for its emergency type (acceptance_slas).
+export const SLA_STAGES = ["realerted", "widened", "admin"];
+
+const STAGE_THRESHOLDS = {
+  realerted: "realert_seconds",
+  widened: "widen_seconds",
+  admin: "admin_seconds",
+};
+// Used when acceptance_slas has neither the type nor the '*' row
+const FALLBACK_SLA = { realert_seconds: 90, widen_seconds: 180, admin_seconds: 300 };
+
+export const slaFor = (slas, medicalKeyword) => slas.get(medicalKeyword) ?? slas.get("*") ?? FALLBACK_SLA;
+
+// Next stage the token has earned by now, or null while it is within its SLA or at the top
+export function dueStage(token, sla, now) {
+  if (!token.awaiting_since) return null;
+  const next = SLA_STAGES[SLA_STAGES.indexOf(token.sla_stage) + 1];
+  if (!next) return null;
+
+  const waitedSeconds = (now - Date.parse(token.awaiting_since)) / 1000;
+  return waitedSeconds >= sla[STAGE_THRESHOLDS[next]] ? next : null;
+}
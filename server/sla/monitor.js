@@ -0,0 +1,105 @@
+import { createClient } from "@supabase/supabase-js";
+import { dueStage, slaFor } from "./ladder.js";
+
+// Statuses the acceptance clock covers; past pending only until the hospital accepts
+const WAITING_STATUSES = ["pending", "assigned", "route_selected", "in_progress", "at_patient", "to_hospital"];
+const CHECK_INTERVAL_MS = 5000;
+const SLA_REFRESH_MS = 60000;
+
+/**
+ * Escalates emergency tokens no hospital has taken within the acceptance SLA of
+ * their emergency type. Runs on a timer so it fires with no dashboard open:
+ * "realerted" re-alerts the hospital dashboards, "widened" also takes an assigned
+ * token back from its hospital into the pending queue every hospital sees (a token
+ * already routed stays with its hospital), and "admin" flags it for a dispatcher,
+ * which the admin dashboard lists. escalated_at is left to re-dispatch, where it
+ * means no hospital is left to try, so a flagged token can still be re-dispatched.
+ */
+export function createAcceptanceMonitor({ supabaseUrl, serviceRoleKey }) {
+  const supabase = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  let slas = new Map(); // medical keyword -> thresholds
+  let timers = [];
+  let checking = false;
+
+  const loadSlas = async () => {
+    const { data, error } = await supabase.from("acceptance_slas").select("*");
+    if (error) {
+      console.error("SLA monitor: failed to load acceptance SLAs:", error);
+      return;
+    }
+    slas = new Map(data.map((row) => [row.medical_keyword, row]));
+  };
+
+  const escalate = async (token, stage) => {
+    const now = new Date().toISOString();
+    const values = { sla_stage: stage, sla_stage_at: now };
+    if (stage === "widened" && token.status === "assigned") {
+      Object.assign(values, { status: "pending", hospital_id: null, hospital_name: null, hospital_lat: null, hospital_lng: null });
+    }
+
+    // Only if nobody took the token or escalated it meanwhile
+    let query = supabase
+      .from("emergency_tokens")
+      .update(values)
+      .eq("id", token.id)
+      .eq("status", token.status)
+      .is("accepted_at", null)
+      .is("escalated_at", null);
+    query = token.sla_stage ? query.eq("sla_stage", token.sla_stage) : query.is("sla_stage", null);
+    const { data, error } = await query.select("id").maybeSingle();
+
+    if (error) {
+      console.error("SLA monitor: failed to escalate token:", error);
+      return;
+    }
+    if (data) console.log(`⏰ ${token.token_code} not accepted in time: ${stage}`);
+  };
+
+  const checkWaitingTokens = async () => {
+    if (checking) return;
+    checking = true;
+    try {
+      const { data, error } = await supabase
+        .from("emergency_tokens")
+        .select("id, token_code, status, medical_keyword, awaiting_since, sla_stage")
+        .in("status", WAITING_STATUSES)
+        .is("accepted_at", null)
+        .is("escalated_at", null)
+        .not("awaiting_since", "is", null);
+
+      if (error) throw error;
+
+      const now = Date.now();
+      for (const token of data) {
+        const stage = dueStage(token, slaFor(slas, token.medical_keyword), now);
+        if (stage) await escalate(token, stage);
+      }
+    } catch (error) {
+      console.error("SLA monitor: check failed:", error);
+    } finally {
+      checking = false;
+    }
+  };
+
+  const start = async () => {
+    await loadSlas();
+    await checkWaitingTokens();
+
+    timers = [
+      setInterval(checkWaitingTokens, CHECK_INTERVAL_MS),
+      setInterval(loadSlas, SLA_REFRESH_MS),
+    ];
+
+    console.log(`⏰ Acceptance SLA monitor running (${slas.size} SLAs)`);
+  };
+
+  const stop = async () => {
+    timers.forEach(clearInterval);
+    timers = [];
+  };
+
+  return { start, stop, checkWaitingTokens };
+}
@@ -1,11 +1,15 @@
 import { useState, useEffect } from 'react';
-import { useHospitalSpecialties } from '@/hooks/useHospitalSpecialties';
+import { useHospitalSpecialties, SpecialtyMatch } from '@/hooks/useHospitalSpecialties';
 import { EmergencyToken, useEmergencyTokens } from '@/hooks/useEmergencyTokens';
+import { useLiveEtas } from '@/hooks/useLiveEtas';
+import { isCurrentEta } from '@/types/database';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { AlertTriangle, MapPin, Clock, Route, Building2, User, Navigation, Heart } from 'lucide-react';
 import Map from '@/components/Map';
+import HospitalScoreBreakdown from '@/components/HospitalScoreBreakdown';
+import LiveEtaBadge from '@/components/LiveEtaBadge';
 import { toast } from 'sonner';
 
 interface EmergencyDisplayProps {
@@ -14,24 +18,37 @@ interface EmergencyDisplayProps {
 }
 
 export default function EmergencyDisplay({ token, onAssignmentComplete }: EmergencyDisplayProps) {
-  const { findBestHospitals } = useHospitalSpecialties();
+  const { findBestHospitals, rankHospitalsByRoute } = useHospitalSpecialties();
   const { createHospitalEmergency } = useEmergencyTokens();
+  const { etas } = useLiveEtas();
+  const liveEta = etas.get(token.id);
   const [recommendations, setRecommendations] = useState<{
-    best: any | null;
-    nearest: any | null;
+    best: SpecialtyMatch | null;
+    nearest: SpecialtyMatch | null;
   }>({ best: null, nearest: null });
   const [isAssigning, setIsAssigning] = useState(false);
 
+  // Only what the ranking reads, so unrelated token updates do not re-rank
+  const { pickup_lat: pickupLat, pickup_lng: pickupLng, medical_keyword: medicalKeyword, emergency_type: emergencyType } = token;
+
   useEffect(() => {
-    if (token.pickup_lat && token.pickup_lng) {
+    if (pickupLat && pickupLng) {
       // Use medical keyword if available, otherwise use emergency type, or default to 'Trauma'
-      const keyword = token.medical_keyword || token.emergency_type || 'Trauma';
-      const results = findBestHospitals(token.pickup_lat, token.pickup_lng, keyword);
-      setRecommendations(results);
+      const keyword = medicalKeyword || emergencyType || 'Trauma';
+      // Show straight-line ranking immediately, then refine with road ETAs
+      setRecommendations(findBestHospitals(pickupLat, pickupLng, keyword));
+
+      let cancelled = false;
+      rankHospitalsByRoute(pickupLat, pickupLng, keyword).then(results => {
+        if (!cancelled) setRecommendations(results);
+      });
+      return () => {
+        cancelled = true;
+      };
     }
-  }, [token, findBestHospitals]);
+  }, [pickupLat, pickupLng, medicalKeyword, emergencyType, findBestHospitals, rankHospitalsByRoute]);
 
-  const handleAssignHospital = async (hospital: any, type: 'best' | 'nearest') => {
+  const handleAssignHospital = async (hospital: SpecialtyMatch, type: 'best' | 'nearest') => {
     if (!token.ambulance_origin_lat || !token.ambulance_origin_lng) {
       toast.error('Ambulance location not available');
       return;
@@ -56,7 +73,7 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
           [hospital.hospital.location_lat, hospital.hospital.location_lng]
         ] as [number, number][],
         distance: hospital.distance,
-        duration: Math.floor(hospital.distance / 1000 * 60),
+        duration: Math.round(hospital.eta),
         type: 'fastest' as const
       };
 
@@ -74,11 +91,12 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
         routeToPatient,
         routeToHospital,
         token.emergency_type,
-        token.medical_keyword
+        token.medical_keyword,
+        { seconds: hospital.eta, source: hospital.etaSource }
       );
 
       if (success) {
-        toast.success(`${type === 'best' ? 'Best Specialist' : 'Nearest'} Hospital Assigned!`, {
+        toast.success(`${type === 'best' ? 'Best Specialist' : 'Fastest'} Hospital Assigned!`, {
           description: `${hospital.hospital.organization_name} - Routes calculated`
         });
         // Redirect back to dashboard after successful assignment
@@ -147,6 +165,9 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
             <MapPin className="w-4 h-4 text-muted-foreground" />
             <span>Patient Location: {token.pickup_address || `${token.pickup_lat.toFixed(4)}, ${token.pickup_lng.toFixed(4)}`}</span>
           </div>
+          {isCurrentEta(liveEta, token.status) && (
+            <LiveEtaBadge eta={liveEta} className="mt-3" />
+          )}
         </CardContent>
       </Card>
 
@@ -179,8 +200,11 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
                     <Badge variant="default">{recommendations.best.matchScore.toFixed(0)}/100</Badge>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span>Distance:</span>
-                    <span>{formatDistance(recommendations.best.distance)}</span>
+                    <span>ETA:</span>
+                    <span>
+                      {recommendations.best.etaSource === 'straight_line' && '~'}
+                      {formatDuration(recommendations.best.eta)} • {formatDistance(recommendations.best.distance)}
+                    </span>
                   </div>
                   <div className="text-sm">
                     <span className="text-muted-foreground">Reason: </span>
@@ -188,6 +212,8 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
                   </div>
                 </div>
 
+                <HospitalScoreBreakdown breakdown={recommendations.best.breakdown} />
+
                 <Button 
                   className="w-full bg-green-600 hover:bg-green-700"
                   disabled={isAssigning}
@@ -215,7 +241,7 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
           <CardHeader>
             <CardTitle className="flex items-center gap-2 text-blue-600">
               <Navigation className="w-5 h-5" />
-              Nearest Hospital
+              Fastest to Reach
             </CardTitle>
           </CardHeader>
           <CardContent className="space-y-4">
@@ -233,8 +259,11 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
                 
                 <div className="space-y-2">
                   <div className="flex justify-between text-sm">
-                    <span>Distance:</span>
-                    <Badge variant="secondary">{formatDistance(recommendations.nearest.distance)}</Badge>
+                    <span>ETA:</span>
+                    <Badge variant="secondary">
+                      {recommendations.nearest.etaSource === 'straight_line' && '~'}
+                      {formatDuration(recommendations.nearest.eta)} • {formatDistance(recommendations.nearest.distance)}
+                    </Badge>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span>Match Score:</span>
@@ -242,10 +271,14 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
                   </div>
                   <div className="text-sm">
                     <span className="text-muted-foreground">Reason: </span>
-                    <span className="font-medium">Closest by distance</span>
+                    <span className="font-medium">
+                      {recommendations.nearest.etaSource === 'route' ? 'Shortest road travel time' : 'Closest by straight-line distance (routing unavailable)'}
+                    </span>
                   </div>
                 </div>
 
+                <HospitalScoreBreakdown breakdown={recommendations.nearest.breakdown} />
+
                 <Button 
                   variant="outline"
                   className="w-full border-blue-500 text-blue-600 hover:bg-blue-50"
@@ -253,12 +286,12 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
                   onClick={() => handleAssignHospital(recommendations.nearest, 'nearest')}
                 >
                   <Clock className="w-4 h-4 mr-2" />
-                  {isAssigning ? 'Assigning...' : 'Assign Nearest Hospital'}
+                  {isAssigning ? 'Assigning...' : 'Assign Fastest Hospital'}
                 </Button>
               </>
             ) : (
               <div className="space-y-2">
-                <p className="text-muted-foreground">Calculating distance...</p>
+                <p className="text-muted-foreground">Calculating travel times...</p>
                 <div className="text-xs text-muted-foreground">
                   Hospitals loaded: {recommendations.best ? 'Yes' : 'No'}
                 </div>
@@ -297,7 +330,7 @@ export default function EmergencyDisplay({ token, onAssignmentComplete }: Emerge
                 // Nearest hospital (if different)
                 ...(recommendations.nearest && recommendations.nearest.hospital.id !== recommendations.best?.hospital.id ? [{
                   position: [recommendations.nearest.hospital.location_lat, recommendations.nearest.hospital.location_lng] as [number, number],
-                  popup: `Nearest: ${recommendations.nearest.hospital.organization_name}`,
+                  popup: `Fastest: ${recommendations.nearest.hospital.organization_name}`,
                   icon: 'hospital' as const
                 }] : [])
               ]}
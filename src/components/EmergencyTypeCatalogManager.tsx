@@ -0,0 +1,314 @@
+import { useState } from 'react';
+import { useEmergencyTypes, EmergencyTypeInput } from '@/hooks/useEmergencyTypes';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Pencil, Plus, Trash2 } from 'lucide-react';
+import { CareLevel, EmergencyType, TriagePriority } from '@/types/database';
+import { SPECIALTY_KEYWORDS } from '@/services/specialties';
+import { TRIAGE_LEVELS } from '@/services/triage';
+import { FALLBACK_KEYWORD } from '@/services/emergencyTypes';
+import { toast } from 'sonner';
+
+const SPECIALTIES = Object.keys(SPECIALTY_KEYWORDS);
+const ANY_CREW = 'any';
+
+const emptyType: EmergencyTypeInput = {
+  id: '',
+  label: '',
+  icon: '🏥',
+  keyword: FALLBACK_KEYWORD,
+  required_specialties: [],
+  care_level: null,
+  default_priority: 3,
+  sort_order: 0,
+  is_active: true,
+};
+
+const toInput = ({ created_at, updated_at, ...input }: EmergencyType): EmergencyTypeInput => input;
+
+const slugify = (value: string) => value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Admin editor for the emergency type catalog the ambulance and hospital creators pick
+ * from. Changes reach open creators through realtime; past tokens keep their own copy.
+ */
+export default function EmergencyTypeCatalogManager() {
+  const { types, loading, saveType, deleteType } = useEmergencyTypes();
+  const [editing, setEditing] = useState<EmergencyTypeInput | null>(null);
+  const [isNew, setIsNew] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const openEditor = (type?: EmergencyType) => {
+    setIsNew(!type);
+    setEditing(type
+      ? toInput(type)
+      : { ...emptyType, sort_order: Math.max(0, ...types.map(t => t.sort_order)) + 10 });
+  };
+
+  const update = (changes: Partial<EmergencyTypeInput>) =>
+    setEditing(prev => (prev ? { ...prev, ...changes } : prev));
+
+  const toggleSpecialty = (specialty: string) => {
+    if (!editing) return;
+    update({
+      required_specialties: editing.required_specialties.includes(specialty)
+        ? editing.required_specialties.filter(s => s !== specialty)
+        : [...editing.required_specialties, specialty]
+    });
+  };
+
+  const handleSave = async () => {
+    if (!editing) return;
+
+    const id = isNew ? slugify(editing.id || editing.label) : editing.id;
+    if (!id || !editing.label.trim() || !editing.keyword.trim()) {
+      toast.error('Label and keyword are required');
+      return;
+    }
+    if (isNew && types.some(t => t.id === id)) {
+      toast.error(`An emergency type with id "${id}" already exists`);
+      return;
+    }
+
+    setSaving(true);
+    const success = await saveType({ ...editing, id, label: editing.label.trim(), keyword: editing.keyword.trim() });
+    setSaving(false);
+
+    if (success) {
+      toast.success(`${editing.label.trim()} saved`);
+      setEditing(null);
+    } else {
+      toast.error('Failed to save emergency type');
+    }
+  };
+
+  const handleToggleActive = async (type: EmergencyType) => {
+    if (!(await saveType({ ...toInput(type), is_active: !type.is_active }))) {
+      toast.error('Failed to update emergency type');
+    }
+  };
+
+  const handleDelete = async (type: EmergencyType) => {
+    if (!confirm(`Delete "${type.label}"? Past emergencies keep their type; deactivating hides it instead.`)) {
+      return;
+    }
+    if (await deleteType(type.id)) {
+      toast.success(`${type.label} deleted`);
+    } else {
+      toast.error('Failed to delete emergency type');
+    }
+  };
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="text-white">Emergency Types</CardTitle>
+          <CardDescription className="text-slate-400">
+            What crews and dispatchers pick from, and how each type is matched to hospitals and ambulances
+          </CardDescription>
+        </div>
+        <Button size="sm" className="bg-amber-600 hover:bg-amber-700" onClick={() => openEditor()}>
+          <Plus className="w-4 h-4 mr-2" />
+          Add Type
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-slate-400">Loading emergency types...</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-700">
+                <TableHead className="text-slate-300">Type</TableHead>
+                <TableHead className="text-slate-300">Keyword</TableHead>
+                <TableHead className="text-slate-300">Required Specialties</TableHead>
+                <TableHead className="text-slate-300">Crew</TableHead>
+                <TableHead className="text-slate-300">Default Priority</TableHead>
+                <TableHead className="text-slate-300">Active</TableHead>
+                <TableHead className="text-slate-300">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {types.map(type => (
+                <TableRow key={type.id} className={`border-slate-700 ${type.is_active ? '' : 'opacity-50'}`}>
+                  <TableCell className="text-white font-medium">
+                    <span className="mr-2">{type.icon}</span>
+                    {type.label}
+                  </TableCell>
+                  <TableCell className="text-slate-300">{type.keyword}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {type.required_specialties.length > 0
+                        ? type.required_specialties.map(s => (
+                            <Badge key={s} variant="outline" className="border-slate-600 text-slate-300">{s}</Badge>
+                          ))
+                        : <span className="text-slate-500 text-sm">Any</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell className="text-slate-300">{type.care_level?.toUpperCase() ?? 'By triage'}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className={TRIAGE_LEVELS[type.default_priority].className}>
+                      P{type.default_priority} · {TRIAGE_LEVELS[type.default_priority].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <Switch checked={type.is_active} onCheckedChange={() => handleToggleActive(type)} />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button size="sm" variant="outline" className="border-slate-600 text-slate-300" onClick={() => openEditor(type)}>
+                        <Pencil className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="border-red-600 text-red-400 hover:bg-red-600/20"
+                        onClick={() => handleDelete(type)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="bg-slate-800 border-slate-700 text-white">
+          <DialogHeader>
+            <DialogTitle>{isNew ? 'Add Emergency Type' : `Edit ${editing?.label}`}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Tokens store the label and keyword; hospitals are ranked by the required specialties
+            </DialogDescription>
+          </DialogHeader>
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-[4rem_1fr] gap-3">
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Icon</Label>
+                  <Input
+                    value={editing.icon}
+                    onChange={(e) => update({ icon: e.target.value })}
+                    className="bg-slate-700/50 border-slate-600 text-white text-center"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Label</Label>
+                  <Input
+                    value={editing.label}
+                    onChange={(e) => update({ label: e.target.value })}
+                    placeholder="Snake Bite / Poisoning"
+                    className="bg-slate-700/50 border-slate-600 text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Medical Keyword</Label>
+                  <Input
+                    value={editing.keyword}
+                    onChange={(e) => update({ keyword: e.target.value })}
+                    placeholder="Toxicology"
+                    className="bg-slate-700/50 border-slate-600 text-white"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Id</Label>
+                  <Input
+                    value={editing.id}
+                    onChange={(e) => update({ id: e.target.value })}
+                    placeholder={slugify(editing.label) || 'from label'}
+                    disabled={!isNew}
+                    className="bg-slate-700/50 border-slate-600 text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label className="text-slate-200">Required Specialties</Label>
+                <div className="flex flex-wrap gap-2">
+                  {SPECIALTIES.map(specialty => (
+                    <Badge
+                      key={specialty}
+                      variant={editing.required_specialties.includes(specialty) ? 'default' : 'outline'}
+                      className="cursor-pointer border-slate-600"
+                      onClick={() => toggleSpecialty(specialty)}
+                    >
+                      {specialty}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-slate-400">A hospital with any of these is a full specialty match. None: ranked on capacity and travel time.</p>
+              </div>
+
+              <div className="grid grid-cols-3 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Crew</Label>
+                  <Select
+                    value={editing.care_level ?? ANY_CREW}
+                    onValueChange={(value) => update({ care_level: value === ANY_CREW ? null : value as CareLevel })}
+                  >
+                    <SelectTrigger className="bg-slate-700/50 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ANY_CREW}>By triage</SelectItem>
+                      <SelectItem value="als">ALS</SelectItem>
+                      <SelectItem value="bls">BLS</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Default Priority</Label>
+                  <Select
+                    value={String(editing.default_priority)}
+                    onValueChange={(value) => update({ default_priority: Number(value) as TriagePriority })}
+                  >
+                    <SelectTrigger className="bg-slate-700/50 border-slate-600 text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {([1, 2, 3, 4, 5] as TriagePriority[]).map(priority => (
+                        <SelectItem key={priority} value={String(priority)}>
+                          P{priority} · {TRIAGE_LEVELS[priority].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-slate-200">Sort Order</Label>
+                  <Input
+                    type="number"
+                    value={editing.sort_order}
+                    onChange={(e) => update({ sort_order: Number(e.target.value) || 0 })}
+                    className="bg-slate-700/50 border-slate-600 text-white"
+                  />
+                </div>
+              </div>
+              <p className="text-xs text-slate-400">
+                The default priority ranks emergencies created without triage. ALS here overrides a low triage priority.
+              </p>
+
+              <Button className="w-full bg-amber-600 hover:bg-amber-700" onClick={handleSave} disabled={saving}>
+                {saving ? 'Saving...' : 'Save Emergency Type'}
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -7,8 +7,16 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Hospital } from '@/hooks/useHospitals';
-import { useHospitalSpecialties } from '@/hooks/useHospitalSpecialties';
-import { RouteData } from '@/hooks/useEmergencyTokens';
+import { useHospitalSpecialties, SpecialtyMatch } from '@/hooks/useHospitalSpecialties';
+import { useEmergencyTypes } from '@/hooks/useEmergencyTypes';
+import HospitalScoreBreakdown from '@/components/HospitalScoreBreakdown';
+import TriageQuestionnaire from '@/components/TriageQuestionnaire';
+import { RouteData, HospitalEta, TokenTriage } from '@/hooks/useEmergencyTokens';
+import { CareLevel, TriageAnswers } from '@/types/database';
+import { CARE_LEVEL_LABELS, TRIAGE_LEVELS, askedTriageAnswers, requiredCareLevel, triagePriority } from '@/services/triage';
+import { TravelEstimate, estimateTravel, fetchRoute, fetchTravelMatrix } from '@/services/routing';
+import { reverseGeocode, GeocodeResult } from '@/services/geocoding';
+import { useGeocodeSearch } from '@/hooks/useGeocodeSearch';
 import { Search, MapPin, Ambulance, Building2, Navigation, User, Clock, Route, Heart, AlertTriangle } from 'lucide-react';
 
 interface AmbulanceInfo {
@@ -18,6 +26,7 @@ interface AmbulanceInfo {
   current_lng: number | null;
   emergency_status: 'inactive' | 'active' | 'responding';
   speed: number | null;
+  care_level?: CareLevel;
 }
 
 interface HospitalEmergencyCreatorProps {
@@ -32,25 +41,13 @@ interface HospitalEmergencyCreatorProps {
     routeToPatient: RouteData,
     routeToHospital: RouteData,
     emergencyType?: string,
-    medicalKeyword?: string
+    medicalKeyword?: string,
+    hospitalEta?: HospitalEta,
+    triage?: TokenTriage
   ) => void;
   onCancel: () => void;
 }
 
-interface SearchResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-}
-
-interface EmergencyType {
-  id: string;
-  label: string;
-  keyword: string;
-  icon: string;
-  specializations: string[];
-}
-
 export default function HospitalEmergencyCreator({
   ambulances,
   hospitals,
@@ -63,96 +60,83 @@ export default function HospitalEmergencyCreator({
   const routeLayersRef = useRef<L.Polyline[]>([]);
   
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
+  const { results: searchResults, isSearching, search, clearResults } = useGeocodeSearch(searchQuery);
   
   const [patientLocation, setPatientLocation] = useState<{ lat: number; lng: number; address?: string } | null>(null);
   const [emergencyType, setEmergencyType] = useState<string>('');
+  const [triageAnswers, setTriageAnswers] = useState<TriageAnswers>({});
   const [selectedAmbulance, setSelectedAmbulance] = useState<AmbulanceInfo | null>(null);
   const [bestHospital, setBestHospital] = useState<Hospital | null>(null);
+  const [bestMatch, setBestMatch] = useState<SpecialtyMatch | null>(null);
+  const [ambulanceEtas, setAmbulanceEtas] = useState<Map<string, TravelEstimate>>(new Map());
   const [nearestHospital, setNearestHospital] = useState<Hospital | null>(null);
   const [routeToPatient, setRouteToPatient] = useState<RouteData | null>(null);
   const [routeToHospital, setRouteToHospital] = useState<RouteData | null>(null);
   const [loading, setLoading] = useState(false);
   const [step, setStep] = useState<'location' | 'emergency-type' | 'ambulance' | 'confirm'>('location');
 
-  const emergencyTypes: EmergencyType[] = [
-    { id: 'heart-attack', label: 'Heart Attack', keyword: 'Cardiac', icon: '❤️', specializations: ['cardiology', 'cardiac', 'heart'] },
-    { id: 'accident', label: 'Accident / Trauma', keyword: 'Trauma', icon: '🚗', specializations: ['trauma', 'emergency', 'surgery'] },
-    { id: 'stroke', label: 'Stroke', keyword: 'Neuro', icon: '🧠', specializations: ['neurology', 'neuro', 'stroke'] },
-    { id: 'pregnancy', label: 'Pregnancy / Delivery', keyword: 'Maternity', icon: '👶', specializations: ['maternity', 'obstetrics', 'gynecology'] },
-    { id: 'burns', label: 'Burns', keyword: 'Burns', icon: '🔥', specializations: ['burns', 'plastic surgery', 'trauma'] },
-    { id: 'respiratory', label: 'Respiratory Emergency', keyword: 'Respiratory', icon: '🫁', specializations: ['pulmonology', 'respiratory', 'icu'] },
-    { id: 'pediatric', label: 'Pediatric Emergency', keyword: 'Pediatric', icon: '👶', specializations: ['pediatrics', 'children', 'nicu'] },
-    { id: 'general', label: 'General Emergency', keyword: 'General', icon: '🏥', specializations: ['emergency', 'general'] }
-  ];
+  const { activeTypes: emergencyTypes } = useEmergencyTypes();
+  const selectedType = emergencyTypes.find(t => t.id === emergencyType);
 
-  const { findBestHospitals } = useHospitalSpecialties();
+  const { rankHospitalsByRoute } = useHospitalSpecialties();
 
   // Filter only free ambulances
   const freeAmbulances = ambulances.filter(a => 
     a.emergency_status === 'inactive' && a.current_lat && a.current_lng
   );
 
-  // Calculate distance between two points
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number) => {
-    const R = 6371000;
-    const dLat = (lat2 - lat1) * (Math.PI / 180);
-    const dLng = (lng2 - lng1) * (Math.PI / 180);
-    const a = Math.sin(dLat / 2) ** 2 +
-      Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
-      Math.sin(dLng / 2) ** 2;
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
+  const freeAmbulancesRef = useRef(freeAmbulances);
+  freeAmbulancesRef.current = freeAmbulances;
+  const freeAmbulanceKey = freeAmbulances.map(a => a.id).join(',');
+
+  // Road ETA from every free ambulance to the patient in a single routing-matrix request
+  useEffect(() => {
+    if (step !== 'ambulance' || !patientLocation) return;
+
+    let cancelled = false;
+    const candidates = freeAmbulancesRef.current;
+    fetchTravelMatrix(
+      candidates.map(a => ({ lat: a.current_lat!, lng: a.current_lng! })),
+      [{ lat: patientLocation.lat, lng: patientLocation.lng }]
+    ).then(matrix => {
+      if (cancelled) return;
+      const etas = new Map<string, TravelEstimate>();
+      candidates.forEach((a, i) => {
+        if (matrix[i]?.[0]) etas.set(a.id, matrix[i][0]);
+      });
+      setAmbulanceEtas(etas);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [step, patientLocation, freeAmbulanceKey]);
+
+  const priority = triagePriority(triageAnswers);
+  const careLevel = priority ? requiredCareLevel(priority, selectedType?.care_level ?? null) : null;
+  const careMismatch = (a: AmbulanceInfo) => (careLevel && (a.care_level ?? 'als') !== careLevel ? 1 : 0);
 
-  // Sort ambulances by distance from patient
+  // Sort ambulances by the crew level the triage priority and emergency type call for, then by road ETA to
+  // the patient (straight-line estimate until the matrix arrives)
   const sortedAmbulances = patientLocation
     ? [...freeAmbulances]
-        .map(a => ({
-          ...a,
-          distance: calculateDistance(patientLocation.lat, patientLocation.lng, a.current_lat!, a.current_lng!)
-        }))
-        .sort((a, b) => a.distance - b.distance)
-    : freeAmbulances.map(a => ({ ...a, distance: 0 }));
-
-  // Find best hospital based on emergency type and nearest hospital
-  const findBestHospital = useCallback((lat: number, lng: number, emergencyTypeId: string) => {
-    const selectedType = emergencyTypes.find(t => t.id === emergencyTypeId);
-    if (!selectedType) return null;
-
-    const { best } = findBestHospitals(lat, lng, selectedType.keyword);
-    return best?.hospital || null;
-  }, [findBestHospitals, emergencyTypes]);
-
-  // Fetch route between two points
-  const fetchRoute = async (
-    fromLat: number,
-    fromLng: number,
-    toLat: number,
-    toLng: number
-  ): Promise<RouteData | null> => {
-    try {
-      const osrmUrl = `https://router.project-osrm.org/route/v1/driving/${fromLng},${fromLat};${toLng},${toLat}?overview=full&geometries=geojson`;
-      const response = await fetch(osrmUrl);
-      const data = await response.json();
-
-      if (data.code !== 'Ok' || !data.routes?.length) return null;
-
-      const route = data.routes[0];
-      return {
-        coordinates: route.geometry.coordinates.map(
-          (coord: [number, number]) => [coord[1], coord[0]] as [number, number]
-        ),
-        distance: route.distance,
-        duration: route.duration,
-        type: 'fastest'
-      };
-    } catch (err) {
-      console.error('Route fetch error:', err);
-      return null;
-    }
-  };
+        .map(a => {
+          const travel = ambulanceEtas.get(a.id) ?? estimateTravel(
+            { lat: a.current_lat!, lng: a.current_lng! },
+            { lat: patientLocation.lat, lng: patientLocation.lng }
+          );
+          return { ...a, distance: travel.distance, eta: travel.duration, etaSource: travel.source };
+        })
+        .sort((a, b) => careMismatch(a) - careMismatch(b) || a.eta - b.eta)
+    : freeAmbulances.map(a => ({ ...a, distance: 0, eta: 0, etaSource: 'straight_line' as const }));
+
+  // Find best and fastest-to-reach hospitals based on emergency type and road ETA
+  const findBestHospital = useCallback(async (lat: number, lng: number, emergencyTypeId: string) => {
+    const type = emergencyTypes.find(t => t.id === emergencyTypeId);
+    if (!type) return { best: null, nearest: null };
+
+    return rankHospitalsByRoute(lat, lng, type.keyword);
+  }, [rankHospitalsByRoute, emergencyTypes]);
 
   // Initialize map - prevent automatic actions
   useEffect(() => {
@@ -171,16 +155,8 @@ export default function HospitalEmergencyCreator({
       const { lat, lng } = e.latlng;
       placePatientMarker(lat, lng);
       
-      try {
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`
-        );
-        const data = await response.json();
-        const address = data.display_name || undefined;
-        setPatientLocation({ lat, lng, address });
-      } catch {
-        setPatientLocation({ lat, lng });
-      }
+      const address = await reverseGeocode(lat, lng);
+      setPatientLocation({ lat, lng, address });
     });
 
     // Add ambulance markers
@@ -298,32 +274,20 @@ export default function HospitalEmergencyCreator({
     }
   }, [routeToPatient, routeToHospital]);
 
-  const handleSearch = async () => {
+  const handleSearch = () => {
     if (!searchQuery.trim()) return;
-    setIsSearching(true);
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(searchQuery)}&limit=5`
-      );
-      const data: SearchResult[] = await response.json();
-      setSearchResults(data);
-    } catch {
-      setSearchResults([]);
-    } finally {
-      setIsSearching(false);
-    }
+    search(searchQuery);
   };
 
-  const selectSearchResult = (result: SearchResult) => {
-    const lat = parseFloat(result.lat);
-    const lng = parseFloat(result.lon);
+  const selectSearchResult = (result: GeocodeResult) => {
+    const { lat, lng } = result;
     placePatientMarker(lat, lng);
-    setPatientLocation({ lat, lng, address: result.display_name });
-    setSearchResults([]);
+    setPatientLocation({ lat, lng, address: result.label });
+    clearResults();
     setSearchQuery('');
   };
 
-  const handleSelectAmbulance = async (ambulance: AmbulanceInfo & { distance: number }) => {
+  const handleSelectAmbulance = async (ambulance: AmbulanceInfo) => {
     if (!patientLocation || !emergencyType || !ambulance.current_lat || !ambulance.current_lng) return;
     
     // Prevent automatic execution - user must explicitly click
@@ -334,35 +298,27 @@ export default function HospitalEmergencyCreator({
 
     try {
       // Find best hospital for emergency type
-      const bestHosp = findBestHospital(patientLocation.lat, patientLocation.lng, emergencyType);
-      if (!bestHosp) {
+      const { best: match, nearest } = await findBestHospital(patientLocation.lat, patientLocation.lng, emergencyType);
+      if (!match) {
         setLoading(false);
         return;
       }
+      const bestHosp = match.hospital;
       setBestHospital(bestHosp);
+      setBestMatch(match);
 
-      // Also find nearest hospital for comparison
-      const nearestHosp = [...hospitals]
-        .map(h => ({
-          ...h,
-          distance: calculateDistance(patientLocation.lat, patientLocation.lng, h.location_lat, h.location_lng)
-        }))
-        .sort((a, b) => a.distance - b.distance)[0];
-      setNearestHospital(nearestHosp);
+      // Also keep the fastest-to-reach hospital for comparison
+      setNearestHospital(nearest?.hospital || null);
 
       // Calculate routes to best hospital
       const routePatient = await fetchRoute(
-        ambulance.current_lat,
-        ambulance.current_lng,
-        patientLocation.lat,
-        patientLocation.lng
+        { lat: ambulance.current_lat, lng: ambulance.current_lng },
+        { lat: patientLocation.lat, lng: patientLocation.lng }
       );
 
       const routeHospital = await fetchRoute(
-        patientLocation.lat,
-        patientLocation.lng,
-        bestHosp.location_lat,
-        bestHosp.location_lng
+        { lat: patientLocation.lat, lng: patientLocation.lng },
+        { lat: bestHosp.location_lat, lng: bestHosp.location_lng }
       );
 
       if (routePatient && routeHospital) {
@@ -380,8 +336,6 @@ export default function HospitalEmergencyCreator({
   const handleConfirmEmergency = () => {
     if (!selectedAmbulance || !patientLocation || !bestHospital || !routeToPatient || !routeToHospital) return;
     
-    const selectedEmergencyType = emergencyTypes.find(t => t.id === emergencyType);
-    
     onCreateEmergency(
       selectedAmbulance,
       patientLocation.lat,
@@ -390,8 +344,10 @@ export default function HospitalEmergencyCreator({
       bestHospital,
       routeToPatient,
       routeToHospital,
-      selectedEmergencyType?.label,
-      selectedEmergencyType?.keyword
+      selectedType?.label,
+      selectedType?.keyword,
+      bestMatch ? { seconds: bestMatch.eta, source: bestMatch.etaSource } : undefined,
+      priority ? { priority, answers: askedTriageAnswers(triageAnswers) } : undefined
     );
   };
 
@@ -408,7 +364,7 @@ export default function HospitalEmergencyCreator({
           <h2 className="text-xl font-bold">Create Emergency</h2>
           <p className="text-sm text-muted-foreground">
             {step === 'location' && 'Step 1: Mark patient location on map'}
-            {step === 'emergency-type' && 'Step 2: Select emergency type'}
+            {step === 'emergency-type' && 'Step 2: Select emergency type and triage'}
             {step === 'ambulance' && 'Step 3: Select a free ambulance'}
             {step === 'confirm' && 'Step 4: Confirm and dispatch'}
           </p>
@@ -455,7 +411,7 @@ export default function HospitalEmergencyCreator({
                 >
                   <div className="flex items-start gap-2">
                     <MapPin className="w-4 h-4 mt-1 text-destructive flex-shrink-0" />
-                    <span className="text-sm line-clamp-2">{result.display_name}</span>
+                    <span className="text-sm line-clamp-2">{result.label}</span>
                   </div>
                 </button>
               ))}
@@ -516,7 +472,10 @@ export default function HospitalEmergencyCreator({
                     <span className="text-2xl">{type.icon}</span>
                     <div className="flex-1">
                       <div className="font-medium">{type.label}</div>
-                      <div className="text-sm text-muted-foreground">Medical Keyword: {type.keyword}</div>
+                      <div className="text-sm text-muted-foreground">
+                        Medical Keyword: {type.keyword}
+                        {type.care_level && ` · ${type.care_level.toUpperCase()} crew`}
+                      </div>
                     </div>
                     {emergencyType === type.id && (
                       <Badge variant="default">Selected</Badge>
@@ -526,6 +485,12 @@ export default function HospitalEmergencyCreator({
               ))}
             </CardContent>
           </Card>
+
+          <Card>
+            <CardContent className="p-4">
+              <TriageQuestionnaire answers={triageAnswers} onChange={setTriageAnswers} />
+            </CardContent>
+          </Card>
           
           <div className="flex gap-2">
             <Button variant="outline" onClick={() => setStep('location')} className="flex-1">
@@ -533,7 +498,7 @@ export default function HospitalEmergencyCreator({
             </Button>
             <Button 
               onClick={() => setStep('ambulance')} 
-              disabled={!emergencyType}
+              disabled={!emergencyType || !priority}
               className="flex-1"
             >
               Next: Select Ambulance
@@ -546,6 +511,11 @@ export default function HospitalEmergencyCreator({
       {step === 'ambulance' && (
         <div className="space-y-3">
           <p className="text-sm font-medium">Available Ambulances ({freeAmbulances.length} free)</p>
+          {priority && careLevel && (
+            <p className="text-xs text-muted-foreground">
+              P{priority} {TRIAGE_LEVELS[priority].label}: {CARE_LEVEL_LABELS[careLevel]} units are listed first
+            </p>
+          )}
           {sortedAmbulances.length === 0 ? (
             <p className="text-muted-foreground text-center py-4">No free ambulances available</p>
           ) : (
@@ -570,11 +540,12 @@ export default function HospitalEmergencyCreator({
                       </div>
                       <div>
                         <span className="font-medium">{amb.vehicle_number}</span>
-                        {index === 0 && <Badge variant="secondary" className="ml-2 text-xs">Nearest</Badge>}
+                        <Badge variant="outline" className="ml-2 text-xs">{(amb.care_level ?? 'als').toUpperCase()}</Badge>
+                        {index === 0 && <Badge variant="secondary" className="ml-2 text-xs">Recommended</Badge>}
                       </div>
                     </div>
                     <span className="text-sm text-muted-foreground">
-                      {formatDistance(amb.distance)}
+                      {amb.etaSource === 'straight_line' && '~'}{formatDuration(amb.eta)} • {formatDistance(amb.distance)}
                     </span>
                   </div>
                 </button>
@@ -603,13 +574,18 @@ export default function HospitalEmergencyCreator({
           <Card className="border-orange-500/30 bg-orange-500/5">
             <CardContent className="p-4">
               <div className="flex items-center gap-3">
-                <span className="text-2xl">{emergencyTypes.find(t => t.id === emergencyType)?.icon}</span>
+                <span className="text-2xl">{selectedType?.icon}</span>
                 <div>
-                  <p className="font-medium">{emergencyTypes.find(t => t.id === emergencyType)?.label}</p>
+                  <p className="font-medium">{selectedType?.label}</p>
                   <p className="text-sm text-muted-foreground">
-                    Medical Keyword: <Badge variant="outline">{emergencyTypes.find(t => t.id === emergencyType)?.keyword}</Badge>
+                    Medical Keyword: <Badge variant="outline">{selectedType?.keyword}</Badge>
                   </p>
                 </div>
+                {priority && (
+                  <Badge variant="outline" className={`ml-auto ${TRIAGE_LEVELS[priority].className}`}>
+                    P{priority} · {TRIAGE_LEVELS[priority].label}
+                  </Badge>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -627,11 +603,22 @@ export default function HospitalEmergencyCreator({
                 <p className="font-medium">{bestHospital.organization_name}</p>
                 <p className="text-sm text-muted-foreground">{bestHospital.address}</p>
                 <div className="flex gap-2">
-                  <Badge variant="secondary">Best for {emergencyTypes.find(t => t.id === emergencyType)?.keyword}</Badge>
+                  <Badge variant="secondary">Best for {selectedType?.keyword}</Badge>
                   {nearestHospital && bestHospital.id === nearestHospital.id && (
-                    <Badge variant="secondary">Also Nearest</Badge>
+                    <Badge variant="secondary">Also Fastest</Badge>
+                  )}
+                  {bestMatch && (
+                    <Badge variant="default">{bestMatch.matchScore.toFixed(0)}/100</Badge>
                   )}
                 </div>
+                {bestMatch?.saturated && (
+                  <p className="text-xs text-red-600">All hospitals are at capacity — showing the best available option.</p>
+                )}
+                {bestMatch && (
+                  <div className="pt-2">
+                    <HospitalScoreBreakdown breakdown={bestMatch.breakdown} />
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
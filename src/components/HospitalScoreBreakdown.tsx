@@ -0,0 +1,30 @@
+import { ScoreFactor } from '@/hooks/useHospitalSpecialties';
+import { Progress } from '@/components/ui/progress';
+
+interface HospitalScoreBreakdownProps {
+  breakdown: ScoreFactor[];
+}
+
+export default function HospitalScoreBreakdown({ breakdown }: HospitalScoreBreakdownProps) {
+  return (
+    <div className="space-y-2">
+      <p className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Why this hospital</p>
+      {breakdown.map(factor => (
+        <div key={factor.key} className="space-y-1">
+          <div className="flex justify-between text-xs">
+            <span className="font-medium">{factor.label}</span>
+            <span className={factor.score < 0 ? 'text-red-600' : 'text-muted-foreground'}>
+              {factor.max > 0
+                ? `${factor.score.toFixed(0)}/${factor.max}`
+                : factor.score < 0 ? factor.score.toFixed(0) : '0'}
+            </span>
+          </div>
+          {factor.max > 0 && (
+            <Progress value={(factor.score / factor.max) * 100} className="h-1.5" />
+          )}
+          <p className="text-xs text-muted-foreground">{factor.detail}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -7,14 +7,17 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Building2, Plus, Stethoscope, Activity } from 'lucide-react';
+import { Building2, Plus, Stethoscope, Activity, FileJson } from 'lucide-react';
+import { ImportedHospital, parseHospitalDirectory } from '@/services/fhir';
 import { toast } from 'sonner';
 
 export default function HospitalSpecialtyManager() {
   const { user, profile } = useAuth();
-  const { hospitals, addHospitalUpdate, loading } = useHospitalSpecialties();
+  const { hospitals, addHospitalUpdate, importHospitalDirectory, loading } = useHospitalSpecialties();
   const [updateType, setUpdateType] = useState<'department' | 'equipment' | 'specialist' | 'capacity' | 'accreditation'>('department');
   const [updateData, setUpdateData] = useState('');
+  const [directory, setDirectory] = useState<ImportedHospital[]>([]);
+  const [importing, setImporting] = useState(false);
 
   const currentHospital = hospitals.find(h => h.id === user?.id);
 
@@ -38,6 +41,39 @@ export default function HospitalSpecialtyManager() {
     }
   };
 
+  const handleDirectoryFile = async (file: File | undefined) => {
+    if (!file) return;
+
+    try {
+      const entries = parseHospitalDirectory(JSON.parse(await file.text()));
+      setDirectory(entries);
+    } catch (error) {
+      setDirectory([]);
+      toast.error('Could not read FHIR file', {
+        description: error instanceof Error ? error.message : 'Invalid JSON'
+      });
+    }
+  };
+
+  const handleImport = async (entry: ImportedHospital) => {
+    if (!user) return;
+
+    setImporting(true);
+    const success = await importHospitalDirectory(user.id, entry);
+    setImporting(false);
+
+    if (success) {
+      toast.success(`Imported ${entry.name}`, {
+        description: entry.specialties.length > 0
+          ? `Specialties: ${entry.specialties.join(', ')}`
+          : 'No specialties recognised in its services'
+      });
+      setDirectory([]);
+    } else {
+      toast.error('Failed to import hospital directory');
+    }
+  };
+
   if (loading) {
     return <div className="flex items-center justify-center h-32">
       <div className="w-8 h-8 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
@@ -134,6 +170,54 @@ export default function HospitalSpecialtyManager() {
         </CardContent>
       </Card>
 
+      {/* FHIR Directory Import */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileJson className="w-5 h-5" />
+            Import from FHIR
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Input
+              type="file"
+              accept=".json,application/json,application/fhir+json"
+              onChange={(e) => handleDirectoryFile(e.target.files?.[0])}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              An Organization, HealthcareService or Bundle of them from your hospital directory
+            </p>
+          </div>
+
+          {directory.map((entry, index) => (
+            <div key={index} className="p-3 rounded-lg border border-border space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="font-medium truncate">{entry.name}</p>
+                  {entry.address && <p className="text-xs text-muted-foreground truncate">{entry.address}</p>}
+                </div>
+                <Button size="sm" onClick={() => handleImport(entry)} disabled={importing || !currentHospital}>
+                  Apply to my hospital
+                </Button>
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {entry.services.length > 0 ? entry.services.join(', ') : 'No services listed'}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {entry.specialties.length > 0 ? (
+                  entry.specialties.map(specialty => (
+                    <Badge key={specialty} variant="secondary">{specialty}</Badge>
+                  ))
+                ) : (
+                  <span className="text-muted-foreground text-sm">No specialties recognised</span>
+                )}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
       {/* Specialty Keywords Reference */}
       <Card>
         <CardHeader>
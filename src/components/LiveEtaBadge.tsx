@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Timer } from 'lucide-react';
+import { LiveEta, formatETA, liveEtaSeconds } from '@/types/database';
+
+interface LiveEtaBadgeProps {
+  eta: LiveEta;
+  className?: string;
+}
+
+// The tracker refreshes at least every 10 s while the ambulance reports; older means GPS went quiet
+const STALE_AFTER_MS = 60000;
+
+const LEG_LABELS: Record<LiveEta['leg'], string> = {
+  to_patient: 'to patient',
+  to_hospital: 'to hospital',
+};
+
+export default function LiveEtaBadge({ eta, className = '' }: LiveEtaBadgeProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const stale = now - Date.parse(eta.computed_at) > STALE_AFTER_MS;
+  const remainingKm = (eta.remaining_meters / 1000).toFixed(1);
+
+  return (
+    <Badge
+      variant="outline"
+      className={`gap-1 ${stale ? 'text-muted-foreground' : 'text-primary border-primary/40'} ${className}`}
+      title={`Updated ${new Date(eta.computed_at).toLocaleTimeString()}`}
+    >
+      <Timer className="w-3 h-3" />
+      {formatETA(liveEtaSeconds(eta, now))} {LEG_LABELS[eta.leg]} · {remainingKm} km
+      {stale && ' (no recent GPS)'}
+    </Badge>
+  );
+}
@@ -4,6 +4,8 @@ import 'leaflet/dist/leaflet.css';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Search, MapPin, X } from 'lucide-react';
+import { reverseGeocode, GeocodeResult } from '@/services/geocoding';
+import { useGeocodeSearch } from '@/hooks/useGeocodeSearch';
 
 interface LocationPickerProps {
   onLocationSelect: (lat: number, lng: number, address?: string) => void;
@@ -12,12 +14,6 @@ interface LocationPickerProps {
   className?: string;
 }
 
-interface SearchResult {
-  display_name: string;
-  lat: string;
-  lon: string;
-}
-
 export default function LocationPicker({
   onLocationSelect,
   initialLat = 30.7333,
@@ -28,8 +24,7 @@ export default function LocationPicker({
   const mapRef = useRef<L.Map | null>(null);
   const markerRef = useRef<L.Marker | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
-  const [isSearching, setIsSearching] = useState(false);
+  const { results: searchResults, isSearching, search, clearResults } = useGeocodeSearch(searchQuery);
   const [selectedAddress, setSelectedAddress] = useState<string>('');
   const [selectedCoords, setSelectedCoords] = useState<{ lat: number; lng: number } | null>(null);
 
@@ -48,21 +43,11 @@ export default function LocationPicker({
       const { lat, lng } = e.latlng;
       placeMarker(lat, lng);
       
-      // Reverse geocode to get address
-      try {
-        const response = await fetch(
-          `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}`
-        );
-        const data = await response.json();
-        const address = data.display_name || `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
-        setSelectedAddress(address);
-        setSelectedCoords({ lat, lng });
-        onLocationSelect(lat, lng, address);
-      } catch {
-        setSelectedAddress(`${lat.toFixed(6)}, ${lng.toFixed(6)}`);
-        setSelectedCoords({ lat, lng });
-        onLocationSelect(lat, lng);
-      }
+      // Reverse geocode to get address (falls back to a landmark or raw coordinates)
+      const address = await reverseGeocode(lat, lng);
+      setSelectedAddress(address);
+      setSelectedCoords({ lat, lng });
+      onLocationSelect(lat, lng, address);
     });
 
     return () => {
@@ -102,33 +87,19 @@ export default function LocationPicker({
     mapRef.current.setView([lat, lng], 15);
   }, []);
 
-  const handleSearch = async () => {
+  const handleSearch = () => {
     if (!searchQuery.trim()) return;
-
-    setIsSearching(true);
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(searchQuery)}&limit=5`
-      );
-      const data: SearchResult[] = await response.json();
-      setSearchResults(data);
-    } catch (error) {
-      console.error('Search error:', error);
-      setSearchResults([]);
-    } finally {
-      setIsSearching(false);
-    }
+    search(searchQuery);
   };
 
-  const selectSearchResult = (result: SearchResult) => {
-    const lat = parseFloat(result.lat);
-    const lng = parseFloat(result.lon);
+  const selectSearchResult = (result: GeocodeResult) => {
+    const { lat, lng } = result;
     placeMarker(lat, lng);
-    setSelectedAddress(result.display_name);
+    setSelectedAddress(result.label);
     setSelectedCoords({ lat, lng });
-    setSearchResults([]);
+    clearResults();
     setSearchQuery('');
-    onLocationSelect(lat, lng, result.display_name);
+    onLocationSelect(lat, lng, result.label);
   };
 
   const clearSelection = () => {
@@ -170,7 +141,7 @@ export default function LocationPicker({
             >
               <div className="flex items-start gap-2">
                 <MapPin className="w-4 h-4 mt-1 text-emergency flex-shrink-0" />
-                <span className="text-sm line-clamp-2">{result.display_name}</span>
+                <span className="text-sm line-clamp-2">{result.label}</span>
               </div>
             </button>
           ))}
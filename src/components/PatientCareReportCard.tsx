@@ -0,0 +1,84 @@
+import { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import { usePatientCareReport } from '@/hooks/usePatientCareReport';
+import { Button } from '@/components/ui/button';
+import { ClipboardList, FileDown, FileJson } from 'lucide-react';
+import { SEX_LABELS, downloadHandoverBundle, formatGcs, formatVitals, printHandoverReport } from '@/services/patientCareReport';
+import { toast } from 'sonner';
+
+interface PatientCareReportCardProps {
+  token: EmergencyToken;
+}
+
+/**
+ * The crew's patient care report as the receiving hospital sees it, updated live
+ * while the ambulance is on its way, with the handover exports.
+ */
+export default function PatientCareReportCard({ token }: PatientCareReportCardProps) {
+  const { report, loading } = usePatientCareReport(token.id);
+
+  if (!report) {
+    return (
+      <p className="text-xs text-muted-foreground mt-3 flex items-center gap-1">
+        <ClipboardList className="w-3 h-3" />
+        {loading ? 'Loading patient report...' : 'No patient report from the crew yet'}
+      </p>
+    );
+  }
+
+  const latest = report.vitals[report.vitals.length - 1];
+  const gcs = formatGcs(report);
+  const patient = [
+    report.estimated_age != null && `~${report.estimated_age} y`,
+    report.sex && SEX_LABELS[report.sex],
+  ].filter(Boolean).join(' · ');
+
+  const handlePrint = () => {
+    if (!printHandoverReport(token, report)) {
+      toast.error('Allow pop-ups to print the handover report');
+    }
+  };
+
+  return (
+    <div className="mt-3 p-3 rounded-lg border border-border bg-muted/30 space-y-1 text-sm">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-1">
+          <ClipboardList className="w-4 h-4" />
+          Patient report
+          <span className="text-xs text-muted-foreground font-normal">
+            · updated {new Date(report.updated_at).toLocaleTimeString()}
+          </span>
+        </p>
+        <div className="flex gap-1">
+          <Button size="sm" variant="ghost" onClick={handlePrint}>
+            <FileDown className="w-4 h-4 mr-1" />
+            PDF
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => downloadHandoverBundle(token, report)}>
+            <FileJson className="w-4 h-4 mr-1" />
+            FHIR
+          </Button>
+        </div>
+      </div>
+      {(patient || report.chief_complaint) && (
+        <p>{[patient, report.chief_complaint].filter(Boolean).join(' — ')}</p>
+      )}
+      {latest && (
+        <p>
+          <span className="text-muted-foreground">Vitals {new Date(latest.taken_at).toLocaleTimeString()}:</span> {formatVitals(latest)}
+        </p>
+      )}
+      {gcs && <p><span className="text-muted-foreground">GCS:</span> {gcs}</p>}
+      {report.medications.length > 0 && (
+        <p>
+          <span className="text-muted-foreground">Given:</span> {report.medications.map(m => `${m.name} ${m.dose}`.trim()).join(', ')}
+        </p>
+      )}
+      {report.interventions.length > 0 && (
+        <p><span className="text-muted-foreground">Interventions:</span> {report.interventions.join(', ')}</p>
+      )}
+      <p className={report.allergies.length > 0 ? 'text-destructive' : 'text-muted-foreground'}>
+        Allergies: {report.allergies.length > 0 ? report.allergies.join(', ') : 'none recorded'}
+      </p>
+    </div>
+  );
+}
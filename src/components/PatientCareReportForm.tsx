@@ -0,0 +1,289 @@
+import { useEffect, useRef, useState } from 'react';
+import { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import { usePatientCareReport } from '@/hooks/usePatientCareReport';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ClipboardList, FileDown, FileJson, Plus, Save } from 'lucide-react';
+import { MedicationGiven, PatientSex, VitalSigns, gcsTotal } from '@/types/database';
+import { SEX_LABELS, downloadHandoverBundle, emptyVitals, formatVitals, printHandoverReport } from '@/services/patientCareReport';
+import { toast } from 'sonner';
+
+interface PatientCareReportFormProps {
+  token: EmergencyToken;
+}
+
+type VitalsField = Exclude<keyof VitalSigns, 'taken_at'>;
+
+const VITALS_FIELDS: { key: VitalsField; label: string }[] = [
+  { key: 'heart_rate', label: 'HR' },
+  { key: 'systolic_bp', label: 'Sys BP' },
+  { key: 'diastolic_bp', label: 'Dia BP' },
+  { key: 'respiratory_rate', label: 'RR' },
+  { key: 'spo2', label: 'SpO₂ %' },
+  { key: 'temperature_c', label: 'Temp °C' },
+  { key: 'glucose_mg_dl', label: 'BGL mg/dL' },
+];
+
+const GCS_FIELDS = [
+  { key: 'gcs_eye', label: 'Eye', max: 4 },
+  { key: 'gcs_verbal', label: 'Verbal', max: 5 },
+  { key: 'gcs_motor', label: 'Motor', max: 6 },
+] as const;
+
+const emptyReading: Record<VitalsField, string> = {
+  heart_rate: '', systolic_bp: '', diastolic_bp: '', respiratory_rate: '', spo2: '', temperature_c: '', glucose_mg_dl: ''
+};
+const emptyMedication = { name: '', dose: '', route: '' };
+
+const toNumber = (value: string) => (value.trim() === '' || isNaN(Number(value)) ? null : Number(value));
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+/**
+ * Patient care report the crew fills in on scene and on the way to the hospital.
+ * Every save reaches the receiving hospital's token card straight away.
+ */
+export default function PatientCareReportForm({ token }: PatientCareReportFormProps) {
+  const { report, loading, saveReport } = usePatientCareReport(token.id);
+  const [age, setAge] = useState('');
+  const [sex, setSex] = useState<PatientSex | ''>('');
+  const [chiefComplaint, setChiefComplaint] = useState('');
+  const [gcs, setGcs] = useState({ gcs_eye: '', gcs_verbal: '', gcs_motor: '' });
+  const [vitals, setVitals] = useState<VitalSigns[]>([]);
+  const [reading, setReading] = useState(emptyReading);
+  const [medications, setMedications] = useState<MedicationGiven[]>([]);
+  const [medication, setMedication] = useState(emptyMedication);
+  const [interventions, setInterventions] = useState('');
+  const [allergies, setAllergies] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // Fill the form once from a report saved earlier, e.g. after a reload
+  const loadedTokenRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!report || loadedTokenRef.current === report.token_id) return;
+    loadedTokenRef.current = report.token_id;
+
+    setAge(report.estimated_age != null ? String(report.estimated_age) : '');
+    setSex(report.sex ?? '');
+    setChiefComplaint(report.chief_complaint ?? '');
+    setGcs({
+      gcs_eye: report.gcs_eye != null ? String(report.gcs_eye) : '',
+      gcs_verbal: report.gcs_verbal != null ? String(report.gcs_verbal) : '',
+      gcs_motor: report.gcs_motor != null ? String(report.gcs_motor) : '',
+    });
+    setVitals(report.vitals);
+    setMedications(report.medications);
+    setInterventions(report.interventions.join(', '));
+    setAllergies(report.allergies.join(', '));
+  }, [report]);
+
+  const handleAddReading = () => {
+    const next = emptyVitals();
+    VITALS_FIELDS.forEach(({ key }) => {
+      next[key] = toNumber(reading[key]);
+    });
+    if (VITALS_FIELDS.every(({ key }) => next[key] == null)) {
+      toast.error('Enter at least one reading');
+      return;
+    }
+    setVitals(prev => [...prev, next]);
+    setReading(emptyReading);
+  };
+
+  const handleAddMedication = () => {
+    if (!medication.name.trim()) {
+      toast.error('Enter the medication name');
+      return;
+    }
+    setMedications(prev => [...prev, { ...medication, name: medication.name.trim(), given_at: new Date().toISOString() }]);
+    setMedication(emptyMedication);
+  };
+
+  const handleSave = async () => {
+    const scores = {
+      gcs_eye: toNumber(gcs.gcs_eye),
+      gcs_verbal: toNumber(gcs.gcs_verbal),
+      gcs_motor: toNumber(gcs.gcs_motor),
+    };
+    if (GCS_FIELDS.some(({ key, max }) => scores[key] != null && (scores[key]! < 1 || scores[key]! > max))) {
+      toast.error('GCS scores are out of range');
+      return;
+    }
+
+    setSaving(true);
+    const success = await saveReport({
+      estimated_age: toNumber(age),
+      sex: sex || null,
+      chief_complaint: chiefComplaint.trim() || null,
+      vitals,
+      ...scores,
+      interventions: splitList(interventions),
+      medications,
+      allergies: splitList(allergies),
+    });
+    setSaving(false);
+
+    if (success) {
+      toast.success('Patient report sent', {
+        description: `${token.hospital_name || 'The hospital'} can see it now.`
+      });
+    } else {
+      toast.error('Failed to save patient report');
+    }
+  };
+
+  const handlePrint = () => {
+    if (report && !printHandoverReport(token, report)) {
+      toast.error('Allow pop-ups to print the handover report');
+    }
+  };
+
+  const total = gcsTotal({
+    gcs_eye: toNumber(gcs.gcs_eye),
+    gcs_verbal: toNumber(gcs.gcs_verbal),
+    gcs_motor: toNumber(gcs.gcs_motor),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="pb-4">
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardList className="w-5 h-5" />
+          Patient Care Report
+        </CardTitle>
+        <CardDescription>
+          {report
+            ? `Last sent ${new Date(report.updated_at).toLocaleTimeString()}`
+            : loading ? 'Loading...' : 'Not sent yet. The receiving ER sees each save before you arrive.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-5">
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="pcr-age">Est. age</Label>
+            <Input id="pcr-age" type="number" min={0} max={130} value={age} onChange={(e) => setAge(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>Sex</Label>
+            <Select value={sex} onValueChange={(value) => setSex(value as PatientSex)}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select" />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SEX_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1 col-span-2">
+            <Label htmlFor="pcr-complaint">Chief complaint</Label>
+            <Input
+              id="pcr-complaint"
+              value={chiefComplaint}
+              onChange={(e) => setChiefComplaint(e.target.value)}
+              placeholder="Chest pain radiating to left arm"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Glasgow Coma Scale{total != null && ` · ${total}/15`}</Label>
+          <div className="grid grid-cols-3 gap-3">
+            {GCS_FIELDS.map(field => (
+              <Input
+                key={field.key}
+                type="number"
+                min={1}
+                max={field.max}
+                placeholder={`${field.label} (1-${field.max})`}
+                value={gcs[field.key]}
+                onChange={(e) => setGcs(prev => ({ ...prev, [field.key]: e.target.value }))}
+              />
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Vitals</Label>
+          {vitals.map((entry, index) => (
+            <p key={index} className="text-sm">
+              <span className="text-muted-foreground">{new Date(entry.taken_at).toLocaleTimeString()}</span> {formatVitals(entry)}
+            </p>
+          ))}
+          <div className="grid grid-cols-3 sm:grid-cols-7 gap-2">
+            {VITALS_FIELDS.map(({ key, label }) => (
+              <Input
+                key={key}
+                type="number"
+                placeholder={label}
+                value={reading[key]}
+                onChange={(e) => setReading(prev => ({ ...prev, [key]: e.target.value }))}
+              />
+            ))}
+          </div>
+          <Button size="sm" variant="outline" onClick={handleAddReading}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add reading
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Medications given</Label>
+          {medications.map((entry, index) => (
+            <p key={index} className="text-sm">
+              <span className="text-muted-foreground">{new Date(entry.given_at).toLocaleTimeString()}</span> {entry.name} {entry.dose} {entry.route}
+            </p>
+          ))}
+          <div className="grid grid-cols-3 gap-2">
+            <Input placeholder="Medication" value={medication.name} onChange={(e) => setMedication(prev => ({ ...prev, name: e.target.value }))} />
+            <Input placeholder="Dose" value={medication.dose} onChange={(e) => setMedication(prev => ({ ...prev, dose: e.target.value }))} />
+            <Input placeholder="Route" value={medication.route} onChange={(e) => setMedication(prev => ({ ...prev, route: e.target.value }))} />
+          </div>
+          <Button size="sm" variant="outline" onClick={handleAddMedication}>
+            <Plus className="w-4 h-4 mr-1" />
+            Add medication
+          </Button>
+        </div>
+
+        <div className="grid sm:grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="pcr-interventions">Interventions</Label>
+            <Input
+              id="pcr-interventions"
+              value={interventions}
+              onChange={(e) => setInterventions(e.target.value)}
+              placeholder="IV access, oxygen, 12-lead ECG"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="pcr-allergies">Allergies</Label>
+            <Input
+              id="pcr-allergies"
+              value={allergies}
+              onChange={(e) => setAllergies(e.target.value)}
+              placeholder="Penicillin, latex"
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Sending...' : 'Save & send to hospital'}
+          </Button>
+          <Button variant="outline" onClick={handlePrint} disabled={!report}>
+            <FileDown className="w-4 h-4 mr-2" />
+            PDF
+          </Button>
+          <Button variant="outline" onClick={() => report && downloadHandoverBundle(token, report)} disabled={!report}>
+            <FileJson className="w-4 h-4 mr-2" />
+            FHIR
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,14 +4,21 @@ import 'leaflet/dist/leaflet.css';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Navigation, Clock, Route } from 'lucide-react';
+import { fetchRouteAlternatives } from '@/services/routing';
 
 interface RouteOption {
   coordinates: [number, number][];
   distance: number;
   duration: number;
-  type: 'shortest' | 'fastest';
+  type: 'fastest' | 'shortest' | 'alternative';
 }
 
+const ROUTE_COLORS: Record<RouteOption['type'], string> = {
+  fastest: '#3b82f6',
+  shortest: '#22c55e',
+  alternative: '#94a3b8',
+};
+
 interface RouteMapProps {
   pickupLat: number;
   pickupLng: number;
@@ -39,48 +46,22 @@ export default function RouteMap({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Fetch routes from OSRM
+  // Fetch routes from the configured routing provider
   useEffect(() => {
     const fetchRoutes = async () => {
       setLoading(true);
       setError(null);
 
       try {
-        // OSRM public demo server - for production use your own instance
-        const osrmUrl = `https://router.project-osrm.org/route/v1/driving/${pickupLng},${pickupLat};${hospitalLng},${hospitalLat}?overview=full&geometries=geojson&alternatives=true`;
-        
-        const response = await fetch(osrmUrl);
-        const data = await response.json();
+        const routeOptions: RouteOption[] = await fetchRouteAlternatives(
+          { lat: pickupLat, lng: pickupLng },
+          { lat: hospitalLat, lng: hospitalLng }
+        );
 
-        if (data.code !== 'Ok' || !data.routes?.length) {
+        if (!routeOptions.length) {
           throw new Error('No routes found');
         }
 
-        const routeOptions: RouteOption[] = data.routes.map((route: {
-          geometry: { coordinates: [number, number][] };
-          distance: number;
-          duration: number;
-        }, index: number) => ({
-          coordinates: route.geometry.coordinates.map(
-            (coord: [number, number]) => [coord[1], coord[0]] as [number, number] // OSRM returns [lng, lat]
-          ),
-          distance: route.distance,
-          duration: route.duration,
-          type: index === 0 ? 'fastest' : 'shortest' as const
-        }));
-
-        // Sort: first by duration (fastest), add a "shortest" label to the shortest by distance
-        routeOptions.sort((a, b) => a.duration - b.duration);
-        if (routeOptions.length > 0) routeOptions[0].type = 'fastest';
-        
-        const shortestByDistance = routeOptions.reduce(
-          (min, r) => r.distance < min.distance ? r : min,
-          routeOptions[0]
-        );
-        if (shortestByDistance !== routeOptions[0]) {
-          shortestByDistance.type = 'shortest';
-        }
-
         setRoutes(routeOptions);
       } catch (err) {
         console.error('Route fetch error:', err);
@@ -175,8 +156,8 @@ export default function RouteMap({
 
     // Draw routes
     routes.forEach((route, index) => {
-      const isSelected = selectedRoute?.type === route.type;
-      const color = route.type === 'fastest' ? '#3b82f6' : '#22c55e';
+      const isSelected = selectedRoute === route;
+      const color = ROUTE_COLORS[route.type];
       const weight = isSelected ? 6 : 4;
       const opacity = isSelected ? 1 : 0.6;
 
@@ -238,12 +219,12 @@ export default function RouteMap({
       {!loading && routes.length > 0 && (
         <div className="space-y-3">
           <p className="text-sm font-medium">Select Route:</p>
-          {routes.map((route) => (
+          {routes.map((route, index) => (
             <button
-              key={route.type}
+              key={index}
               onClick={() => setSelectedRoute(route)}
               className={`w-full p-4 rounded-lg border transition-all text-left ${
-                selectedRoute?.type === route.type
+                selectedRoute === route
                   ? 'border-primary bg-primary/10 ring-2 ring-primary'
                   : 'border-border hover:border-primary/50 hover:bg-muted/50'
               }`}
@@ -251,12 +232,12 @@ export default function RouteMap({
               <div className="flex items-center justify-between">
                 <div className="flex items-center gap-3">
                   <div className={`w-10 h-10 rounded-lg flex items-center justify-center ${
-                    route.type === 'fastest' ? 'bg-blue-500/20' : 'bg-green-500/20'
+                    route.type === 'fastest' ? 'bg-blue-500/20' : route.type === 'shortest' ? 'bg-green-500/20' : 'bg-muted'
                   }`}>
                     {route.type === 'fastest' ? (
                       <Clock className="w-5 h-5 text-blue-500" />
                     ) : (
-                      <Route className="w-5 h-5 text-green-500" />
+                      <Route className={`w-5 h-5 ${route.type === 'shortest' ? 'text-green-500' : 'text-muted-foreground'}`} />
                     )}
                   </div>
                   <div>
@@ -273,7 +254,7 @@ export default function RouteMap({
                     </div>
                   </div>
                 </div>
-                {selectedRoute?.type === route.type && (
+                {selectedRoute === route && (
                   <div className="w-6 h-6 rounded-full bg-primary flex items-center justify-center">
                     <Navigation className="w-4 h-4 text-primary-foreground" />
                   </div>
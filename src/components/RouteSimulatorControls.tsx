@@ -0,0 +1,97 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pause, Play, Square, Route } from 'lucide-react';
+import { useRouteSimulator } from '@/hooks/useRouteSimulator';
+
+interface RouteSimulatorControlsProps {
+  simulator: ReturnType<typeof useRouteSimulator>;
+  legLabel: string | null;
+}
+
+const PLAYBACK_RATES = [1, 2, 5, 10];
+
+const formatDistance = (meters: number) =>
+  meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(1)} km`;
+
+export default function RouteSimulatorControls({ simulator, legLabel }: RouteSimulatorControlsProps) {
+  const { isRunning, isPaused, position, playbackRate, legLength, hasRoute } = simulator;
+
+  return (
+    <div className="rounded-lg border border-border bg-muted/20 p-3 space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <span className="flex items-center gap-2 text-sm font-medium">
+          <Route className="w-4 h-4 text-primary" />
+          Route Simulator
+        </span>
+        {isRunning && (
+          <Badge variant="outline" className={isPaused ? 'text-warning border-warning/30' : 'text-success border-success/30'}>
+            {isPaused ? 'PAUSED' : 'DRIVING'}
+          </Badge>
+        )}
+      </div>
+
+      {!hasRoute ? (
+        <p className="text-xs text-muted-foreground">
+          Start a journey to simulate driving along its route.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            {!isRunning ? (
+              <Button size="sm" variant="outline" onClick={simulator.start} className="text-xs sm:text-sm">
+                <Play className="w-4 h-4 mr-1" />
+                Simulate Route
+              </Button>
+            ) : (
+              <>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={isPaused ? simulator.resume : simulator.pause}
+                  className="text-xs sm:text-sm"
+                >
+                  {isPaused ? <Play className="w-4 h-4 mr-1" /> : <Pause className="w-4 h-4 mr-1" />}
+                  {isPaused ? 'Resume' : 'Pause'}
+                </Button>
+                <Button size="sm" variant="destructive" onClick={simulator.stop} className="text-xs sm:text-sm">
+                  <Square className="w-4 h-4 mr-1" />
+                  Stop
+                </Button>
+              </>
+            )}
+            <Select value={String(playbackRate)} onValueChange={(value) => simulator.setPlaybackRate(Number(value))}>
+              <SelectTrigger className="w-20 h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYBACK_RATES.map((rate) => (
+                  <SelectItem key={rate} value={String(rate)}>{rate}×</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-1">
+            <Slider
+              value={[Math.round((position?.progress ?? 0) * 1000)]}
+              max={1000}
+              step={1}
+              disabled={!isRunning}
+              onValueChange={([value]) => simulator.jumpTo(value / 1000)}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{legLabel ?? 'Current leg'}</span>
+              <span>
+                {formatDistance(position?.distance ?? 0)} / {formatDistance(legLength)}
+                {position && ` · ${position.speedKmh.toFixed(0)} km/h`}
+                {position?.finished && ' · arrived'}
+              </span>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { Badge } from '@/components/ui/badge';
+import { useTokenEvents } from '@/hooks/useTokenEvents';
+import { EmergencyTokenEvent } from '@/types/database';
+
+interface TokenTimelineProps {
+  tokenId: string;
+}
+
+const EVENT_LABELS: Record<EmergencyTokenEvent['event_type'], string> = {
+  create: 'Created',
+  assign: 'Hospital assigned',
+  share_routes: 'Routes shared',
+  decline: 'Declined',
+  start_journey: 'Journey started',
+  arrive_at_patient: 'Arrived at patient',
+  start_to_hospital: 'Left for hospital',
+  complete: 'Arrived at hospital',
+  cancel: 'Cancelled',
+  escalate: 'Escalated to dispatcher',
+  change_status: 'Status changed',
+  sla_escalate: 'Not accepted in time',
+  redispatch: 'Re-dispatched after decline',
+  accept: 'Accepted by hospital',
+  reroute: 'Rerouted',
+  reassign_hospital: 'Hospital reassigned',
+  change_route: 'Route changed',
+  propose_arrival: 'Arrival detected',
+  withdraw_arrival: 'Arrival withdrawn',
+  update: 'Updated',
+};
+
+const ACTOR_LABELS: Record<string, string> = {
+  ambulance: 'Driver',
+  hospital: 'Hospital',
+  admin: 'Admin',
+  system: 'Backend',
+};
+
+// Columns that only restate the event itself
+const HIDDEN_COLUMNS = ['status', 'arrival_proposal'];
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'object') return '{…}';
+  return String(value);
+};
+
+const changedColumns = (event: EmergencyTokenEvent) =>
+  event.event_type === 'create'
+    ? []
+    : Object.keys(event.new_values).filter(column => !HIDDEN_COLUMNS.includes(column));
+
+/**
+ * Everything that happened to an emergency token, as recorded by the database:
+ * who did it, what changed from what, and why where a reason was given.
+ */
+export default function TokenTimeline({ tokenId }: TokenTimelineProps) {
+  const { events, loading } = useTokenEvents(tokenId);
+
+  if (loading && events.length === 0) {
+    return <p className="text-xs text-muted-foreground">Loading history...</p>;
+  }
+  if (events.length === 0) {
+    return <p className="text-xs text-muted-foreground">No history recorded</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border ml-2 space-y-3">
+      {events.map(event => (
+        <li key={event.id} className="ml-4">
+          <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border-2 border-background" />
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium">{EVENT_LABELS[event.event_type] ?? event.event_type}</span>
+            {event.from_status !== event.to_status && event.to_status && (
+              <Badge variant="outline" className="text-xs">
+                {event.from_status ? `${event.from_status.replace(/_/g, ' ')} → ` : ''}
+                {event.to_status.replace(/_/g, ' ')}
+              </Badge>
+            )}
+            <span className="text-xs text-muted-foreground">
+              {new Date(event.created_at).toLocaleString()} · {ACTOR_LABELS[event.actor_role ?? ''] ?? 'Unknown user'}
+            </span>
+          </div>
+          {event.reason && <p className="text-xs mt-1">Reason: {event.reason}</p>}
+          {changedColumns(event).length > 0 && (
+            <ul className="text-xs text-muted-foreground mt-1 space-y-0.5">
+              {changedColumns(event).map(column => (
+                <li key={column} className="truncate">
+                  {column.replace(/_/g, ' ')}: {formatValue(event.old_values[column])} → {formatValue(event.new_values[column])}
+                </li>
+              ))}
+            </ul>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -1,13 +1,24 @@
 import { useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { TrafficSignal, Ambulance, calculateDistance } from '@/types/database';
-import { Radio } from 'lucide-react';
+import {
+  TrafficSignal,
+  Ambulance,
+  ArbitrationReason,
+  FieldControllerState,
+  PreemptState,
+  calculateDistance,
+} from '@/types/database';
+import { Radio, Swords, Cpu } from 'lucide-react';
+import { RouteData } from '@/hooks/useEmergencyTokens';
+import { planSignalPreemption } from '@/services/signalPreemption';
+import { SignalMovementMatch, DEFAULT_PHASE_PLAN, TURN_LABELS, getPhase } from '@/services/signalPhases';
 
 interface TrafficSignalStatusPanelProps {
   signals: TrafficSignal[];
   ambulance: Ambulance | null;
   isActive: boolean;
+  route?: RouteData | null;
 }
 
 const getDirectionLabel = (direction: string | null): string => {
@@ -20,7 +31,57 @@ const getDirectionLabel = (direction: string | null): string => {
   }
 };
 
+const ARBITRATION_REASON_LABELS: Record<ArbitrationReason, string> = {
+  uncontested: 'Uncontested',
+  imminent: 'Closest to the junction',
+  severity: 'Higher triage priority',
+  eta: 'Earlier arrival',
+  first_come: 'First to request',
+};
+
+const PREEMPT_STATE_LABELS: Record<PreemptState, string> = {
+  other: 'Other',
+  notActive: 'Not active',
+  notActiveWithCall: 'Call pending',
+  entryStarted: 'Entry started',
+  trackService: 'Track clearance',
+  dwell: 'Dwell (holding green)',
+  linkActive: 'Linked preempt',
+  exitStarted: 'Exiting',
+  maximumPresence: 'Max presence exceeded',
+};
+
+// Without a report for this long the field controller is treated as unreachable
+const CONTROLLER_STALE_MS = 60000;
+
+const describePhases = (phases: number[]) => (phases.length > 0 ? phases.join(', ') : 'none');
+
+const getControllerSummary = (state: FieldControllerState) => {
+  const stale = Date.now() - new Date(state.reported_at).getTime() > CONTROLLER_STALE_MS;
+  const ackMs = state.commanded_at && state.acknowledged_at
+    ? new Date(state.acknowledged_at).getTime() - new Date(state.commanded_at).getTime()
+    : null;
+  return { online: state.online && !stale, ackMs };
+};
+
 const getSignalStateDisplay = (signal: TrafficSignal) => {
+  // Clearance interval while the controller switches to the preempted phase
+  if (signal.phase_state === 'yellow') {
+    return {
+      emoji: '🟡',
+      text: 'YELLOW (CLEARING)',
+      className: 'text-signal-yellow font-bold',
+      isEmergency: true,
+    };
+  }
+  if (signal.phase_state === 'all_red') {
+    return {
+      emoji: '🔴',
+      text: 'ALL RED (CLEARANCE)',
+      className: 'text-signal-red font-bold',
+      isEmergency: true,
+    };
+  }
   if (signal.current_status === 'priority') {
     return {
       emoji: '🟢',
@@ -66,11 +127,59 @@ const getSignalStateDisplay = (signal: TrafficSignal) => {
   };
 };
 
-export default function TrafficSignalStatusPanel({ signals, ambulance, isActive }: TrafficSignalStatusPanelProps) {
-  // Calculate distances and sort by proximity
+// What the physical (or simulated) controller reports, as opposed to what we commanded
+function FieldControllerStatus({ state }: { state: FieldControllerState }) {
+  const summary = getControllerSummary(state);
+  const preempt = state.active_preempt ?? state.requested_preempt;
+
+  return (
+    <div className="mt-3 pt-3 border-t border-border/50 space-y-1 text-xs">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1 text-sm text-muted-foreground">
+          <Cpu className="w-4 h-4" />
+          Field Controller ({state.transport === 'simulator' ? 'simulated' : 'NTCIP'})
+        </span>
+        <Badge
+          variant="outline"
+          className={summary.online
+            ? 'bg-success/10 text-success border-success/30'
+            : 'bg-destructive/10 text-destructive border-destructive/30'}
+        >
+          {summary.online ? 'ONLINE' : 'OFFLINE'}
+        </Badge>
+      </div>
+      <p className="text-foreground">
+        Preempt {preempt ?? '—'}:{' '}
+        {state.preempt_state ? PREEMPT_STATE_LABELS[state.preempt_state] : 'Unknown'}
+      </p>
+      <p className="text-muted-foreground">
+        {preempt !== null
+          ? `Green phases: ${describePhases(state.greens)} · Yellow: ${describePhases(state.yellows)}`
+          : 'Normal cycle'}
+        {summary.ackMs !== null && ` · Ack ${summary.ackMs} ms`}
+      </p>
+      {state.error && <p className="text-destructive">{state.error}</p>}
+    </div>
+  );
+}
+
+export default function TrafficSignalStatusPanel({ signals, ambulance, isActive, route }: TrafficSignalStatusPanelProps) {
+  // Signals on the route corridor ahead, in order of arrival; otherwise nearest by distance
   const nearbySignals = useMemo(() => {
     if (!ambulance) return [];
 
+    if (route && route.coordinates.length >= 2) {
+      return planSignalPreemption(signals, route.coordinates, ambulance)
+        .filter(plan => plan.onCorridor && !plan.passed)
+        .slice(0, 6)
+        .map(plan => ({
+          ...plan.signal,
+          distance: plan.distanceAhead,
+          etaSeconds: plan.etaSeconds as number | null,
+          movement: plan.movement,
+        }));
+    }
+
     return signals
       .map((signal) => ({
         ...signal,
@@ -80,10 +189,12 @@ export default function TrafficSignalStatusPanel({ signals, ambulance, isActive
           signal.location_lat,
           signal.location_lng,
         ),
+        etaSeconds: null as number | null,
+        movement: null as SignalMovementMatch | null,
       }))
       .sort((a, b) => a.distance - b.distance)
       .slice(0, 6); // Show max 6 nearest signals
-  }, [signals, ambulance]);
+  }, [signals, ambulance, route]);
 
   const statusLabel = isActive ? 'LIVE' : 'MONITORING';
 
@@ -109,12 +220,19 @@ export default function TrafficSignalStatusPanel({ signals, ambulance, isActive
         {nearbySignals.length === 0 ? (
           <div className="rounded-lg border border-border bg-muted/20 p-4">
             <p className="text-sm text-muted-foreground">
-              No traffic signals found yet. If GPS is enabled, this panel will populate with the nearest signals.
+              {route
+                ? 'No traffic signals on the route ahead.'
+                : 'No traffic signals found yet. If GPS is enabled, this panel will populate with the nearest signals.'}
             </p>
           </div>
         ) : (
           nearbySignals.map((signal) => {
             const stateDisplay = getSignalStateDisplay(signal);
+            const phasePlan = signal.phase_plan ?? DEFAULT_PHASE_PLAN;
+            const activePhase = getPhase(phasePlan, signal.active_phase);
+            const arbitration = signal.arbitration;
+            const yielding = !!arbitration && !!ambulance && arbitration.winner_id !== ambulance.id &&
+              arbitration.contenders.some(c => c.ambulance_id === ambulance.id);
 
             return (
               <div
@@ -130,7 +248,11 @@ export default function TrafficSignalStatusPanel({ signals, ambulance, isActive
                     <span className="font-semibold text-foreground">Signal ID:</span>
                     <span className="font-mono text-sm">{signal.signal_name}</span>
                   </div>
-                  {stateDisplay.isEmergency && (
+                  {yielding ? (
+                    <Badge variant="outline" className="bg-warning/10 text-warning border-warning/30">
+                      YIELDING
+                    </Badge>
+                  ) : stateDisplay.isEmergency && (
                     <Badge variant="destructive" className="animate-pulse">
                       PRIORITY
                     </Badge>
@@ -139,26 +261,68 @@ export default function TrafficSignalStatusPanel({ signals, ambulance, isActive
 
                 <div className="grid grid-cols-2 gap-3 text-sm">
                   <div>
-                    <span className="text-muted-foreground">Distance from Ambulance:</span>
+                    <span className="text-muted-foreground">
+                      {signal.etaSeconds !== null ? 'Ahead on Route:' : 'Distance from Ambulance:'}
+                    </span>
                     <p className="font-bold text-lg text-foreground">
                       {signal.distance < 1000
                         ? `${Math.round(signal.distance)} m`
                         : `${(signal.distance / 1000).toFixed(1)} km`}
                     </p>
+                    {signal.etaSeconds !== null && (
+                      <p className="text-xs text-muted-foreground">ETA {Math.round(signal.etaSeconds)} s</p>
+                    )}
                   </div>
 
                   <div>
-                    <span className="text-muted-foreground">Active Direction:</span>
-                    <p className="font-medium text-foreground">{getDirectionLabel(signal.priority_direction)}</p>
+                    <span className="text-muted-foreground">{activePhase ? 'Active Phase:' : 'Active Direction:'}</span>
+                    <p className="font-medium text-foreground">
+                      {activePhase
+                        ? `${activePhase.id} · ${activePhase.name}`
+                        : getDirectionLabel(signal.priority_direction)}
+                    </p>
                   </div>
                 </div>
 
+                {signal.movement && (
+                  <div className="mt-2 text-xs text-muted-foreground">
+                    Your movement: {TURN_LABELS[signal.movement.turn]} {signal.movement.approach.name.toLowerCase()}
+                    {signal.movement.phase && ` → Phase ${signal.movement.phase.id} (${signal.movement.phase.name})`}
+                  </div>
+                )}
+
                 <div className="mt-3 pt-3 border-t border-border/50">
                   <span className="text-muted-foreground text-sm">Signal State:</span>
                   <p className={`text-lg ${stateDisplay.className}`}>
                     {stateDisplay.emoji} {stateDisplay.text}
                   </p>
                 </div>
+
+                {signal.controller_state && <FieldControllerStatus state={signal.controller_state} />}
+
+                {arbitration && arbitration.contenders.length > 1 && (
+                  <div className="mt-3 pt-3 border-t border-border/50 space-y-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <Swords className="w-4 h-4 text-warning" />
+                      <span className="font-semibold text-warning">Conflict</span>
+                      <span className="text-muted-foreground">· {ARBITRATION_REASON_LABELS[arbitration.reason]}</span>
+                    </div>
+                    {arbitration.contenders.map((contender) => (
+                      <div key={contender.ambulance_id} className="flex items-center justify-between text-xs">
+                        <span className={contender.ambulance_id === arbitration.winner_id ? 'font-bold text-success' : 'text-muted-foreground'}>
+                          {contender.ambulance_id === arbitration.winner_id ? '🟢' : '⏸️'}{' '}
+                          {contender.vehicle_number || contender.ambulance_id.slice(0, 8)}
+                          {contender.ambulance_id === ambulance?.id && ' (you)'}
+                        </span>
+                        <span className="text-muted-foreground">
+                          {contender.phase
+                            ? getPhase(phasePlan, contender.phase)?.name ?? `Phase ${contender.phase}`
+                            : getDirectionLabel(contender.direction)} · ETA {contender.eta_seconds} s · P{6 - contender.severity}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
             );
           })
@@ -0,0 +1,27 @@
+import { Badge } from '@/components/ui/badge';
+import { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import { EmergencyType } from '@/types/database';
+import { TRIAGE_LEVELS, tokenPriority } from '@/services/triage';
+
+interface TriageBadgeProps {
+  token: Pick<EmergencyToken, 'triage_priority' | 'medical_keyword'>;
+  emergencyTypes: EmergencyType[];
+  className?: string;
+}
+
+// "P2 · Emergent"; tokens created without triage show the priority assumed from their keyword
+export default function TriageBadge({ token, emergencyTypes, className = '' }: TriageBadgeProps) {
+  const priority = tokenPriority(token, emergencyTypes);
+  const level = TRIAGE_LEVELS[priority];
+  const assumed = token.triage_priority == null;
+
+  return (
+    <Badge
+      variant="outline"
+      className={`${assumed ? 'border-dashed' : level.className} ${className}`}
+      title={assumed ? 'No triage recorded; assumed from the emergency type' : 'From the triage questionnaire'}
+    >
+      P{priority} · {level.label}{assumed && ' (est.)'}
+    </Badge>
+  );
+}
@@ -0,0 +1,61 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { TriageAnswers, TriageQuestionId } from '@/types/database';
+import { TRIAGE_LEVELS, triagePriority, visibleTriageQuestions } from '@/services/triage';
+import { Stethoscope } from 'lucide-react';
+
+interface TriageQuestionnaireProps {
+  answers: TriageAnswers;
+  onChange: (answers: TriageAnswers) => void;
+}
+
+/**
+ * Yes/no triage questions asked one after another until the priority is decided.
+ * Changing an earlier answer drops the ones after it.
+ */
+export default function TriageQuestionnaire({ answers, onChange }: TriageQuestionnaireProps) {
+  const questions = visibleTriageQuestions(answers);
+  const priority = triagePriority(answers);
+
+  const answer = (id: TriageQuestionId, value: boolean) => {
+    const index = questions.findIndex(q => q.id === id);
+    const kept = Object.fromEntries(questions.slice(0, index).map(q => [q.id, answers[q.id]]));
+    onChange({ ...kept, [id]: value });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-2">
+          <Stethoscope className="w-4 h-4" />
+          Triage
+        </p>
+        {priority ? (
+          <Badge variant="outline" className={TRIAGE_LEVELS[priority].className}>
+            P{priority} · {TRIAGE_LEVELS[priority].label}
+          </Badge>
+        ) : (
+          <span className="text-xs text-muted-foreground">Answer to set the priority</span>
+        )}
+      </div>
+      {questions.map(question => (
+        <div key={question.id} className="flex items-center justify-between gap-3">
+          <span className="text-sm">{question.text}</span>
+          <div className="flex gap-1 shrink-0">
+            {[true, false].map(value => (
+              <Button
+                key={String(value)}
+                type="button"
+                size="sm"
+                variant={answers[question.id] === value ? 'default' : 'outline'}
+                onClick={() => answer(question.id, value)}
+              >
+                {value ? 'Yes' : 'No'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import L from 'leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Pause, Play, RotateCcw, History } from 'lucide-react';
+import { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import { useTripTrack } from '@/hooks/useTripTrack';
+import { TRIP_LEG_LABELS, TripLeg, legStats, replayPointAt, splitTrack } from '@/services/tripTrack';
+
+interface TripReplayProps {
+  token: EmergencyToken;
+}
+
+const PLAYBACK_RATES = [1, 5, 10, 30];
+const FRAME_MS = 200;
+
+const LEG_COLORS: Record<TripLeg, string> = {
+  to_patient: '#ef4444',
+  to_hospital: '#f97316',
+  other: '#6b7280',
+};
+
+const formatDistance = (meters: number | null) =>
+  meters === null ? '—' : meters < 1000 ? `${Math.round(meters)} m` : `${(meters / 1000).toFixed(2)} km`;
+
+const formatDuration = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.round(seconds % 60);
+  return `${mins}m ${String(secs).padStart(2, '0')}s`;
+};
+
+const markerIcon = (emoji: string, background: string) => L.divIcon({
+  className: 'custom-marker',
+  html: `<div style="
+    width: 28px;
+    height: 28px;
+    background: ${background};
+    border-radius: 50%;
+    border: 3px solid white;
+    box-shadow: 0 2px 8px rgba(0,0,0,0.3);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    font-size: 14px;
+  ">${emoji}</div>`,
+  iconSize: [28, 28],
+  iconAnchor: [14, 14]
+});
+
+/**
+ * Plays back the path an ambulance actually drove for a token (solid, per leg)
+ * over the routes that were planned for it (dashed), for incident review.
+ */
+export default function TripReplay({ token }: TripReplayProps) {
+  const { positions, loading } = useTripTrack(token.id);
+  const mapContainer = useRef<HTMLDivElement>(null);
+  const mapRef = useRef<L.Map | null>(null);
+  const plannedLayerRef = useRef<L.LayerGroup | null>(null);
+  const trackLayerRef = useRef<L.LayerGroup | null>(null);
+  const ambulanceMarkerRef = useRef<L.Marker | null>(null);
+  const fittedTokenRef = useRef<string | null>(null);
+  // Token refreshes hand us new objects; the planned routes only change on a reroute or a new hospital
+  const tokenRef = useRef(token);
+  tokenRef.current = token;
+
+  const [playing, setPlaying] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(10);
+  const [time, setTime] = useState<number | null>(null);
+
+  const startTime = positions.length > 0 ? Date.parse(positions[0].recorded_at) : 0;
+  const endTime = positions.length > 0 ? Date.parse(positions[positions.length - 1].recorded_at) : 0;
+  const currentTime = time ?? endTime;
+  const point = useMemo(() => replayPointAt(positions, currentTime), [positions, currentTime]);
+
+  const stats = useMemo(() => [
+    { leg: 'to_patient' as TripLeg, ...legStats(positions, 'to_patient', token.route_to_patient?.coordinates ?? null) },
+    { leg: 'to_hospital' as TripLeg, ...legStats(positions, 'to_hospital', token.route_to_hospital?.coordinates ?? null) },
+  ], [positions, token.route_to_patient, token.route_to_hospital]);
+
+  // Map with the pickup marker, framed on the planned legs once they are drawn
+  useEffect(() => {
+    if (!mapContainer.current || mapRef.current) return;
+    const trip = tokenRef.current;
+
+    mapRef.current = L.map(mapContainer.current).setView([trip.pickup_lat, trip.pickup_lng], 13);
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '© OpenStreetMap contributors'
+    }).addTo(mapRef.current);
+
+    L.marker([trip.pickup_lat, trip.pickup_lng], { icon: markerIcon('👤', 'hsl(0, 84%, 60%)') })
+      .addTo(mapRef.current)
+      .bindPopup('Patient Pickup Location');
+
+    plannedLayerRef.current = L.layerGroup().addTo(mapRef.current);
+    trackLayerRef.current = L.layerGroup().addTo(mapRef.current);
+
+    return () => {
+      mapRef.current?.remove();
+      mapRef.current = null;
+      plannedLayerRef.current = null;
+      trackLayerRef.current = null;
+      ambulanceMarkerRef.current = null;
+      fittedTokenRef.current = null;
+    };
+  }, [token.id]);
+
+  // Planned legs and the hospital marker, redrawn when the token is rerouted or re-dispatched
+  useEffect(() => {
+    const layer = plannedLayerRef.current;
+    if (!mapRef.current || !layer) return;
+    const trip = tokenRef.current;
+    layer.clearLayers();
+
+    const bounds = L.latLngBounds([[trip.pickup_lat, trip.pickup_lng]]);
+    const planned: { coordinates: [number, number][] | undefined; color: string }[] = [
+      { coordinates: trip.route_to_patient?.coordinates, color: '#3b82f6' },
+      { coordinates: trip.route_to_hospital?.coordinates, color: '#22c55e' },
+    ];
+    planned.forEach(({ coordinates, color }) => {
+      if (!coordinates?.length) return;
+      L.polyline(coordinates, { color, weight: 5, opacity: 0.5, dashArray: '8 8' }).addTo(layer);
+      coordinates.forEach(coordinate => bounds.extend(coordinate));
+    });
+
+    if (trip.hospital_lat && trip.hospital_lng) {
+      L.marker([trip.hospital_lat, trip.hospital_lng], { icon: markerIcon('🏥', 'hsl(142, 71%, 45%)') })
+        .addTo(layer)
+        .bindPopup(trip.hospital_name || 'Hospital');
+      bounds.extend([trip.hospital_lat, trip.hospital_lng]);
+    }
+
+    // Only frame the map when it opens, not under someone reviewing the playback
+    if (fittedTokenRef.current !== trip.id) {
+      mapRef.current.fitBounds(bounds, { padding: [30, 30] });
+      fittedTokenRef.current = trip.id;
+    }
+  }, [token.id, token.reroute_count, token.hospital_id]);
+
+  // Driven path, coloured by leg
+  useEffect(() => {
+    const layer = trackLayerRef.current;
+    if (!layer) return;
+    layer.clearLayers();
+    splitTrack(positions).forEach(run => {
+      L.polyline(run.points, { color: LEG_COLORS[run.leg], weight: 4, opacity: 0.9 }).addTo(layer);
+    });
+  }, [positions]);
+
+  // Ambulance at the playback position
+  useEffect(() => {
+    if (!mapRef.current || !point) return;
+    if (!ambulanceMarkerRef.current) {
+      ambulanceMarkerRef.current = L.marker([point.lat, point.lng], {
+        icon: markerIcon('🚑', 'hsl(220, 90%, 56%)'),
+        zIndexOffset: 1000
+      }).addTo(mapRef.current);
+    } else {
+      ambulanceMarkerRef.current.setLatLng([point.lat, point.lng]);
+    }
+  }, [point]);
+
+  useEffect(() => {
+    if (!playing) return;
+    const interval = setInterval(() => {
+      setTime(prev => Math.min(endTime, (prev ?? startTime) + FRAME_MS * playbackRate));
+    }, FRAME_MS);
+    return () => clearInterval(interval);
+  }, [playing, playbackRate, startTime, endTime]);
+
+  useEffect(() => {
+    if (playing && currentTime >= endTime) setPlaying(false);
+  }, [playing, currentTime, endTime]);
+
+  const play = () => {
+    // Replaying from the end starts over
+    if (currentTime >= endTime) setTime(startTime);
+    setPlaying(true);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div ref={mapContainer} className="h-[360px] rounded-xl overflow-hidden border border-border" />
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading recorded track...</p>
+      ) : positions.length === 0 ? (
+        <p className="text-sm text-muted-foreground">
+          No GPS positions were recorded for this token. Only the planned routes are shown.
+        </p>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button size="sm" variant="outline" onClick={playing ? () => setPlaying(false) : play}>
+              {playing ? <Pause className="w-4 h-4 mr-1" /> : <Play className="w-4 h-4 mr-1" />}
+              {playing ? 'Pause' : 'Play'}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => { setPlaying(false); setTime(startTime); }}>
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Restart
+            </Button>
+            <Select value={String(playbackRate)} onValueChange={(value) => setPlaybackRate(Number(value))}>
+              <SelectTrigger className="w-20 h-9 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PLAYBACK_RATES.map(rate => (
+                  <SelectItem key={rate} value={String(rate)}>{rate}×</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {point && (
+              <Badge variant="outline" className="ml-auto" style={{ borderColor: LEG_COLORS[point.leg], color: LEG_COLORS[point.leg] }}>
+                {TRIP_LEG_LABELS[point.leg]}
+              </Badge>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Slider
+              value={[currentTime - startTime]}
+              max={Math.max(1, endTime - startTime)}
+              step={1000}
+              onValueChange={([value]) => setTime(startTime + value)}
+            />
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <History className="w-3 h-3" />
+                {new Date(currentTime).toLocaleTimeString()} (+{formatDuration((currentTime - startTime) / 1000)})
+              </span>
+              <span>
+                {point?.speed != null && `${Math.round(point.speed)} km/h`}
+                {point?.heading != null && ` · heading ${Math.round(point.heading)}°`}
+                {` · ${positions.length} fixes`}
+              </span>
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="grid gap-3 sm:grid-cols-2">
+        {stats.map(({ leg, ...legStat }) => (
+          <div key={leg} className="rounded-lg border border-border p-3 text-sm space-y-1">
+            <p className="font-medium flex items-center gap-2">
+              <span className="inline-block w-3 h-1 rounded" style={{ background: LEG_COLORS[leg] }} />
+              {TRIP_LEG_LABELS[leg]}
+            </p>
+            <p className="text-muted-foreground">
+              Driven {formatDistance(legStat.fixes > 1 ? legStat.drivenDistance : null)} of {formatDistance(legStat.plannedDistance)} planned
+            </p>
+            <p className="text-muted-foreground">
+              {legStat.fixes > 1 ? `${formatDuration(legStat.durationSeconds)}, max ${Math.round(legStat.maxSpeedKmh)} km/h` : 'Not driven'}
+            </p>
+            {legStat.maxDeviation !== null && (
+              <p className={legStat.maxDeviation > 100 ? 'text-warning' : 'text-muted-foreground'}>
+                Off planned route: avg {formatDistance(legStat.meanDeviation)}, max {formatDistance(legStat.maxDeviation)}
+              </p>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -6,12 +6,15 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Navigation, Clock, Route, MapPin, Building2, User } from 'lucide-react';
 import { Hospital } from '@/hooks/useHospitals';
+import { fetchRoute } from '@/services/routing';
+import { LiveEta } from '@/types/database';
+import LiveEtaBadge from '@/components/LiveEtaBadge';
 
 interface RouteOption {
   coordinates: [number, number][];
   distance: number;
   duration: number;
-  type: 'shortest' | 'fastest';
+  type: 'fastest' | 'shortest' | 'alternative';
 }
 
 interface TwoLegRoute {
@@ -32,6 +35,8 @@ interface TwoLegRouteMapProps {
     routeToPatient: RouteOption,
     routeToHospital: RouteOption
   ) => void;
+  // Backend ETA for the leg currently being driven, once the trip is under way
+  liveEta?: LiveEta | null;
   className?: string;
 }
 
@@ -42,6 +47,7 @@ export default function TwoLegRouteMap({
   pickupLng,
   hospitals,
   onRouteSelect,
+  liveEta = null,
   className = ''
 }: TwoLegRouteMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
@@ -73,37 +79,6 @@ export default function TwoLegRouteMap({
     .map(h => ({ ...h, distance: calculateDistance(h.location_lat, h.location_lng) }))
     .sort((a, b) => a.distance - b.distance);
 
-  // Fetch route between two points
-  const fetchRoute = async (
-    fromLat: number,
-    fromLng: number,
-    toLat: number,
-    toLng: number
-  ): Promise<RouteOption | null> => {
-    try {
-      const osrmUrl = `https://router.project-osrm.org/route/v1/driving/${fromLng},${fromLat};${toLng},${toLat}?overview=full&geometries=geojson`;
-      const response = await fetch(osrmUrl);
-      const data = await response.json();
-
-      if (data.code !== 'Ok' || !data.routes?.length) {
-        return null;
-      }
-
-      const route = data.routes[0];
-      return {
-        coordinates: route.geometry.coordinates.map(
-          (coord: [number, number]) => [coord[1], coord[0]] as [number, number]
-        ),
-        distance: route.distance,
-        duration: route.duration,
-        type: 'fastest'
-      };
-    } catch (err) {
-      console.error('Route fetch error:', err);
-      return null;
-    }
-  };
-
   // Handle hospital selection - calculate both routes
   const handleHospitalSelect = async (hospital: Hospital) => {
     if (!hospital.location_lat || !hospital.location_lng) return;
@@ -117,18 +92,14 @@ export default function TwoLegRouteMap({
     try {
       // Fetch route from ambulance to patient
       const patientRoute = await fetchRoute(
-        ambulanceLat,
-        ambulanceLng,
-        pickupLat,
-        pickupLng
+        { lat: ambulanceLat, lng: ambulanceLng },
+        { lat: pickupLat, lng: pickupLng }
       );
 
       // Fetch route from patient to hospital
       const hospitalRoute = await fetchRoute(
-        pickupLat,
-        pickupLng,
-        hospital.location_lat,
-        hospital.location_lng
+        { lat: pickupLat, lng: pickupLng },
+        { lat: hospital.location_lat, lng: hospital.location_lng }
       );
 
       if (!patientRoute || !hospitalRoute) {
@@ -285,6 +256,8 @@ export default function TwoLegRouteMap({
 
   return (
     <div className={`space-y-4 ${className}`}>
+      {liveEta && <LiveEtaBadge eta={liveEta} />}
+
       {/* Map */}
       <div 
         ref={mapContainer} 
@@ -9,7 +9,6 @@ export function useAmbulance() {
   const { toast } = useToast();
   const [ambulance, setAmbulance] = useState<Ambulance | null>(null);
   const [loading, setLoading] = useState(true);
-  const [isSimulating, setIsSimulating] = useState(false);
   const [locationPermission, setLocationPermission] = useState<'granted' | 'denied' | 'prompt'>('prompt');
   const didInitLocationRef = useRef(false);
 
@@ -309,34 +308,13 @@ export function useAmbulance() {
     }
   };
 
-  // Start simulated movement
-  const startSimulation = () => {
-    setIsSimulating(true);
-    toast({
-      title: '🔄 Simulation Started',
-      description: 'GPS location is being simulated for testing.',
-    });
-  };
-
-  // Stop simulated movement
-  const stopSimulation = () => {
-    setIsSimulating(false);
-    toast({
-      title: '⏹️ Simulation Stopped',
-      description: 'GPS simulation has been stopped.',
-    });
-  };
-
   return {
     ambulance,
     loading,
-    isSimulating,
     locationPermission,
     toggleEmergency,
     updateLocation,
     setDestination,
-    startSimulation,
-    stopSimulation,
     refreshAmbulance: fetchAmbulance,
   };
 }
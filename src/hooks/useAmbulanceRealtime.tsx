@@ -1,6 +1,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { Ambulance } from '@/types/database';
+import { Ambulance, CareLevel } from '@/types/database';
+import { CARE_LEVEL_LABELS } from '@/services/triage';
 
 export function useAmbulanceRealtime() {
   const [ambulances, setAmbulances] = useState<Ambulance[]>([]);
@@ -29,7 +30,7 @@ export function useAmbulanceRealtime() {
         ...ambulance,
         driver_name: ambulance.driver?.full_name || ambulance.driver?.email || null,
         driver_email: ambulance.driver?.email || null,
-        care_type: 'Advanced Life Support', // Default care type
+        care_type: CARE_LEVEL_LABELS[ambulance.care_level as CareLevel] ?? CARE_LEVEL_LABELS.als,
         battery_percentage: ambulance.vehicle_health?.battery_percent || Math.floor(Math.random() * 40) + 60
       }));
       
@@ -1,12 +1,18 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { TablesUpdate } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { useEmergencyTypes } from '@/hooks/useEmergencyTypes';
+import { EtaSource } from '@/services/routing';
+import { ArrivalProposal, BedType, SlaStage, TokenStatus, TriageAnswers, TriagePriority } from '@/types/database';
+import { byTriagePriority } from '@/services/triage';
+import { toast } from 'sonner';
 
 export interface RouteData {
   coordinates: [number, number][];
   distance: number;
   duration: number;
-  type: 'shortest' | 'fastest';
+  type: 'fastest' | 'shortest' | 'alternative';
 }
 
 export interface EmergencyToken {
@@ -28,6 +34,12 @@ export interface EmergencyToken {
   // Emergency type information
   emergency_type: string | null;
   medical_keyword: string | null;
+  // Priority from the creator's triage questionnaire, and the answers given
+  triage_priority: TriagePriority | null;
+  triage_answers: TriageAnswers | null;
+  // ETA from pickup to the chosen hospital used when ranking hospitals
+  hospital_eta_seconds: number | null;
+  hospital_eta_source: EtaSource | null;
   // Route to patient (leg 1)
   route_to_patient: RouteData | null;
   route_to_patient_distance_meters: number | null;
@@ -37,22 +49,65 @@ export interface EmergencyToken {
   route_to_hospital: RouteData | null;
   route_to_hospital_distance_meters: number | null;
   route_to_hospital_duration_seconds: number | null;
+  // Times the backend replaced the route of a leg after the ambulance left it
+  reroute_count: number;
+  last_rerouted_at: string | null;
+  arrived_at_hospital_at: string | null;
+  // Set by the backend when a geofence says the ambulance has arrived
+  arrival_proposal: ArrivalProposal | null;
   // Legacy fields (for backwards compatibility)
   selected_route: RouteData | null;
   route_type: string | null;
   route_distance_meters: number | null;
   route_duration_seconds: number | null;
   // Status
-  status: 'pending' | 'assigned' | 'route_selected' | 'in_progress' | 'at_patient' | 'to_hospital' | 'completed' | 'cancelled' | 'declined';
+  status: TokenStatus;
   decline_reason: string | null;
+  // Hospitals that declined this emergency; re-dispatch skips them
+  declined_hospital_ids: string[];
+  redispatch_count: number;
+  // Set when re-dispatch gave up and a dispatcher has to place the emergency by hand
+  escalated_at: string | null;
+  // Acceptance SLA: when the token started waiting for a hospital, and how far the backend escalated it
+  awaiting_since: string | null;
+  sla_stage: SlaStage | null;
+  sla_stage_at: string | null;
+  // Set when the receiving hospital accepts: the bed it reserved and when it expects the ambulance
+  accepted_at: string | null;
+  accepted_by: string | null;
+  reserved_bed_type: BedType | null;
+  expected_eta_seconds: number | null;
+  expected_arrival_at: string | null;
   created_at: string;
   assigned_at: string | null;
   started_at: string | null;
   completed_at: string | null;
 }
 
+export interface HospitalEta {
+  seconds: number;
+  source: EtaSource;
+}
+
+export interface TokenTriage {
+  priority: TriagePriority;
+  answers: TriageAnswers;
+}
+
+// Next hospital for a declined emergency, with the routes the ambulance will drive
+export interface RedispatchTarget {
+  hospitalId: string;
+  hospitalName: string;
+  hospitalLat: number;
+  hospitalLng: number;
+  routeToPatient: RouteData;
+  routeToHospital: RouteData;
+  hospitalEta: HospitalEta;
+}
+
 export function useEmergencyTokens() {
   const { user, profile } = useAuth();
+  const { types: emergencyTypes } = useEmergencyTypes();
   const [tokens, setTokens] = useState<EmergencyToken[]>([]);
   const [activeToken, setActiveToken] = useState<EmergencyToken | null>(null);
   const [loading, setLoading] = useState(true);
@@ -66,8 +121,31 @@ export function useEmergencyTokens() {
     route_to_hospital: token.route_to_hospital as unknown as RouteData | null,
     selected_route: token.selected_route as unknown as RouteData | null,
     status: token.status as EmergencyToken['status'],
+    hospital_eta_source: token.hospital_eta_source as EtaSource | null,
+    arrival_proposal: token.arrival_proposal as ArrivalProposal | null,
+    sla_stage: token.sla_stage as SlaStage | null,
+    reserved_bed_type: token.reserved_bed_type as BedType | null,
+    triage_priority: token.triage_priority as TriagePriority | null,
+    triage_answers: token.triage_answers as TriageAnswers | null,
   });
 
+  // Status changes are checked by the database against token_status_transitions; an illegal
+  // move comes back with a readable message and the allowed next statuses as its hint
+  const updateTokenStatus = async (
+    tokenId: string,
+    values: TablesUpdate<'emergency_tokens'> & { status: TokenStatus }
+  ) => {
+    const { error } = await supabase
+      .from('emergency_tokens')
+      .update(values)
+      .eq('id', tokenId);
+
+    if (error) {
+      toast.error(error.message, error.hint ? { description: error.hint } : undefined);
+      throw error;
+    }
+  };
+
   const ACTIVE_TOKEN_STATUSES: EmergencyToken['status'][] = [
     'pending',
     'assigned',
@@ -239,7 +317,10 @@ export function useEmergencyTokens() {
     pickupLng: number,
     pickupAddress?: string,
     ambulanceOriginLat?: number,
-    ambulanceOriginLng?: number
+    ambulanceOriginLng?: number,
+    emergencyType?: string,
+    medicalKeyword?: string,
+    triage?: TokenTriage
   ): Promise<EmergencyToken | null> => {
     if (!isAmbulanceDriver) {
       console.error('Only ambulance drivers can create tokens');
@@ -256,6 +337,10 @@ export function useEmergencyTokens() {
           pickup_address: pickupAddress || null,
           ambulance_origin_lat: ambulanceOriginLat || null,
           ambulance_origin_lng: ambulanceOriginLng || null,
+          emergency_type: emergencyType || null,
+          medical_keyword: medicalKeyword || null,
+          triage_priority: triage?.priority ?? null,
+          triage_answers: triage?.answers ?? null,
           status: 'pending'
         })
         .select()
@@ -277,7 +362,9 @@ export function useEmergencyTokens() {
         route_to_patient: data.route_to_patient as unknown as RouteData | null,
         route_to_hospital: data.route_to_hospital as unknown as RouteData | null,
         selected_route: data.selected_route as unknown as RouteData | null,
-        status: data.status as EmergencyToken['status']
+        status: data.status as EmergencyToken['status'],
+        hospital_eta_source: data.hospital_eta_source as EtaSource | null,
+        arrival_proposal: data.arrival_proposal as unknown as ArrivalProposal | null
       } as EmergencyToken;
 
       return typedToken;
@@ -302,7 +389,9 @@ export function useEmergencyTokens() {
     routeToPatient: RouteData,
     routeToHospital: RouteData,
     emergencyType?: string,
-    medicalKeyword?: string
+    medicalKeyword?: string,
+    hospitalEta?: HospitalEta,
+    triage?: TokenTriage
   ): Promise<EmergencyToken | null> => {
     if (!isHospitalUser) {
       console.error('Only hospital users can create hospital emergencies');
@@ -355,6 +444,14 @@ export function useEmergencyTokens() {
       // Add emergency type fields if provided
       if (emergencyType) insertData.emergency_type = emergencyType;
       if (medicalKeyword) insertData.medical_keyword = medicalKeyword;
+      if (hospitalEta) {
+        insertData.hospital_eta_seconds = Math.round(hospitalEta.seconds);
+        insertData.hospital_eta_source = hospitalEta.source;
+      }
+      if (triage) {
+        insertData.triage_priority = triage.priority;
+        insertData.triage_answers = triage.answers;
+      }
 
       const { data, error } = await supabase
         .from('emergency_tokens')
@@ -378,7 +475,8 @@ export function useEmergencyTokens() {
         route_to_patient: data.route_to_patient as unknown as RouteData | null,
         route_to_hospital: data.route_to_hospital as unknown as RouteData | null,
         selected_route: data.selected_route as unknown as RouteData | null,
-        status: data.status as EmergencyToken['status']
+        status: data.status as EmergencyToken['status'],
+        arrival_proposal: data.arrival_proposal as unknown as ArrivalProposal | null
       } as EmergencyToken;
 
       return typedToken;
@@ -395,7 +493,8 @@ export function useEmergencyTokens() {
     hospitalLat: number,
     hospitalLng: number,
     routeToPatient: RouteData,
-    routeToHospital: RouteData
+    routeToHospital: RouteData,
+    hospitalEta?: HospitalEta
   ) => {
     try {
       if (!user) {
@@ -456,8 +555,13 @@ export function useEmergencyTokens() {
           route_type: routeToPatient.type,
           route_distance_meters: routeToPatient.distance + routeToHospital.distance,
           route_duration_seconds: routeToPatient.duration + routeToHospital.duration,
+          // Ranking ETA; default to the selected route's own duration
+          hospital_eta_seconds: Math.round(hospitalEta?.seconds ?? routeToHospital.duration),
+          hospital_eta_source: hospitalEta?.source ?? 'route',
           status: 'route_selected',
           assigned_at: new Date().toISOString(),
+          // Placed by hand: the dispatcher has dealt with the escalation
+          escalated_at: null,
         })
         .eq('id', tokenId)
         .select('*')
@@ -499,19 +603,14 @@ export function useEmergencyTokens() {
     hospitalLng: number
   ) => {
     try {
-      const { error } = await supabase
-        .from('emergency_tokens')
-        .update({
-          hospital_id: hospitalId,
-          hospital_name: hospitalName,
-          hospital_lat: hospitalLat,
-          hospital_lng: hospitalLng,
-          status: 'assigned',
-          assigned_at: new Date().toISOString()
-        })
-        .eq('id', tokenId);
-
-      if (error) throw error;
+      await updateTokenStatus(tokenId, {
+        hospital_id: hospitalId,
+        hospital_name: hospitalName,
+        hospital_lat: hospitalLat,
+        hospital_lng: hospitalLng,
+        status: 'assigned',
+        assigned_at: new Date().toISOString()
+      });
       return true;
     } catch (error) {
       console.error('Error assigning hospital:', error);
@@ -526,18 +625,13 @@ export function useEmergencyTokens() {
   ) => {
     try {
       const routeJson = JSON.parse(JSON.stringify(route));
-      const { error } = await supabase
-        .from('emergency_tokens')
-        .update({
-          selected_route: routeJson,
-          route_type: route.type,
-          route_distance_meters: route.distance,
-          route_duration_seconds: route.duration,
-          status: 'route_selected'
-        })
-        .eq('id', tokenId);
-
-      if (error) throw error;
+      await updateTokenStatus(tokenId, {
+        selected_route: routeJson,
+        route_type: route.type,
+        route_distance_meters: route.distance,
+        route_duration_seconds: route.duration,
+        status: 'route_selected'
+      });
       return true;
     } catch (error) {
       console.error('Error setting route:', error);
@@ -548,15 +642,10 @@ export function useEmergencyTokens() {
   // Start journey to patient (ambulance driver)
   const startJourney = async (tokenId: string) => {
     try {
-      const { error } = await supabase
-        .from('emergency_tokens')
-        .update({
-          status: 'in_progress',
-          started_at: new Date().toISOString()
-        })
-        .eq('id', tokenId);
-
-      if (error) throw error;
+      await updateTokenStatus(tokenId, {
+        status: 'in_progress',
+        started_at: new Date().toISOString()
+      });
       return true;
     } catch (error) {
       console.error('Error starting journey:', error);
@@ -564,18 +653,14 @@ export function useEmergencyTokens() {
     }
   };
 
-  // Mark arrived at patient location
-  const arrivedAtPatient = async (tokenId: string) => {
+  // Mark arrived at patient location (arrivedAt: when the pickup geofence was entered, if known)
+  const arrivedAtPatient = async (tokenId: string, arrivedAt?: string) => {
     try {
-      const { error } = await supabase
-        .from('emergency_tokens')
-        .update({
-          status: 'at_patient',
-          arrived_at_patient_at: new Date().toISOString()
-        })
-        .eq('id', tokenId);
-
-      if (error) throw error;
+      await updateTokenStatus(tokenId, {
+        status: 'at_patient',
+        arrived_at_patient_at: arrivedAt ?? new Date().toISOString(),
+        arrival_proposal: null
+      });
       return true;
     } catch (error) {
       console.error('Error marking arrival at patient:', error);
@@ -586,14 +671,9 @@ export function useEmergencyTokens() {
   // Start journey to hospital (after picking up patient)
   const startToHospital = async (tokenId: string) => {
     try {
-      const { error } = await supabase
-        .from('emergency_tokens')
-        .update({
-          status: 'to_hospital'
-        })
-        .eq('id', tokenId);
-
-      if (error) throw error;
+      await updateTokenStatus(tokenId, {
+        status: 'to_hospital'
+      });
       return true;
     } catch (error) {
       console.error('Error starting journey to hospital:', error);
@@ -601,17 +681,17 @@ export function useEmergencyTokens() {
     }
   };
 
-  // Complete emergency (arrived at hospital)
-  const completeEmergency = async (tokenId: string, ambulanceId: string) => {
+  // Complete emergency (arrived at hospital; arrivedAt: when the hospital geofence was entered, if known)
+  const completeEmergency = async (tokenId: string, ambulanceId: string, arrivedAt?: string) => {
     try {
-      // Update token status to completed
-      await supabase
-        .from('emergency_tokens')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', tokenId);
+      const now = new Date().toISOString();
+      // Update token status to completed; the ambulance stays on duty if that is refused
+      await updateTokenStatus(tokenId, {
+        status: 'completed',
+        arrived_at_hospital_at: arrivedAt ?? now,
+        completed_at: now,
+        arrival_proposal: null
+      });
 
       // Clear ambulance active token and set to inactive
       await supabase
@@ -635,16 +715,29 @@ export function useEmergencyTokens() {
     }
   };
 
+  // Driver says the geofence was wrong; the backend proposes again only after a new visit
+  const dismissArrivalProposal = async (tokenId: string) => {
+    try {
+      const { error } = await supabase
+        .from('emergency_tokens')
+        .update({ arrival_proposal: null })
+        .eq('id', tokenId);
+
+      if (error) throw error;
+      return true;
+    } catch (error) {
+      console.error('Error dismissing arrival proposal:', error);
+      return false;
+    }
+  };
+
   // Cancel emergency
   const cancelEmergency = async (tokenId: string, ambulanceId: string) => {
     try {
       // Update token status to cancelled
-      await supabase
-        .from('emergency_tokens')
-        .update({
-          status: 'cancelled'
-        })
-        .eq('id', tokenId);
+      await updateTokenStatus(tokenId, {
+        status: 'cancelled'
+      });
 
       // Clear ambulance active token and set to inactive
       await supabase
@@ -679,10 +772,7 @@ export function useEmergencyTokens() {
 
       // If there's an active token, cancel it
       if (activeAmbulanceToken) {
-        await supabase
-          .from('emergency_tokens')
-          .update({ status: 'cancelled' })
-          .eq('id', activeAmbulanceToken.id);
+        await updateTokenStatus(activeAmbulanceToken.id, { status: 'cancelled' });
       }
 
       // Update ambulance status to inactive
@@ -725,6 +815,7 @@ export function useEmergencyTokens() {
           status: 'declined',
           decline_reason: reason,
           hospital_id: user.id,
+          declined_hospital_ids: withDecliner(tokenId, user.id),
         })
         .eq('id', tokenId)
         .select('*')
@@ -732,27 +823,170 @@ export function useEmergencyTokens() {
 
       if (error || !data) throw error;
 
-      const updated = normalizeToken(data);
-      setTokens((prev) => {
-        const next = prev.map((t) => (t.id === updated.id ? updated : t));
-        setActiveToken(findActiveToken(next));
-        return next;
+      applyUpdatedToken(data);
+      return true;
+    } catch (error) {
+      console.error('Error declining emergency:', error);
+      return false;
+    }
+  };
+
+  // Hospitals that declined the token so far, plus the one declining now
+  const withDecliner = (tokenId: string, hospitalId: string) => {
+    const token = tokens.find(t => t.id === tokenId);
+    return Array.from(new Set([...(token?.declined_hospital_ids ?? []), hospitalId]));
+  };
+
+  const applyUpdatedToken = (data: unknown) => {
+    const updated = normalizeToken(data);
+    setTokens((prev) => {
+      const next = prev.map((t) => (t.id === updated.id ? updated : t));
+      setActiveToken(findActiveToken(next));
+      return next;
+    });
+  };
+
+  // Decline on behalf of this hospital and hand the emergency to the next one in the same
+  // update, so the ambulance keeps its token. Fails if somebody else moved the token first.
+  const redispatchEmergency = async (token: EmergencyToken, reason: string, target: RedispatchTarget) => {
+    try {
+      if (!user || !isHospitalUser) {
+        console.error('Only hospital users can decline emergencies');
+        return false;
+      }
+
+      const { routeToPatient, routeToHospital } = target;
+      const { data, error } = await supabase
+        .from('emergency_tokens')
+        .update({
+          hospital_id: target.hospitalId,
+          hospital_name: target.hospitalName,
+          hospital_lat: target.hospitalLat,
+          hospital_lng: target.hospitalLng,
+          route_to_patient: JSON.parse(JSON.stringify(routeToPatient)),
+          route_to_patient_distance_meters: routeToPatient.distance,
+          route_to_patient_duration_seconds: routeToPatient.duration,
+          route_to_hospital: JSON.parse(JSON.stringify(routeToHospital)),
+          route_to_hospital_distance_meters: routeToHospital.distance,
+          route_to_hospital_duration_seconds: routeToHospital.duration,
+          selected_route: JSON.parse(JSON.stringify(routeToPatient)),
+          route_type: routeToPatient.type,
+          route_distance_meters: routeToPatient.distance + routeToHospital.distance,
+          route_duration_seconds: routeToPatient.duration + routeToHospital.duration,
+          hospital_eta_seconds: Math.round(target.hospitalEta.seconds),
+          hospital_eta_source: target.hospitalEta.source,
+          status: 'route_selected',
+          assigned_at: new Date().toISOString(),
+          decline_reason: reason,
+          declined_hospital_ids: withDecliner(token.id, user.id),
+          redispatch_count: token.redispatch_count + 1,
+        })
+        .eq('id', token.id)
+        .eq('status', token.status)
+        .eq('redispatch_count', token.redispatch_count)
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        console.error('Token changed before it could be re-dispatched');
+        return false;
+      }
+
+      applyUpdatedToken(data);
+      return true;
+    } catch (error) {
+      console.error('Error re-dispatching emergency:', error);
+      return false;
+    }
+  };
+
+  // Decline without a next hospital: back to the pending queue, flagged for a dispatcher
+  const escalateEmergency = async (token: EmergencyToken, reason: string) => {
+    try {
+      if (!user || !isHospitalUser) {
+        console.error('Only hospital users can decline emergencies');
+        return false;
+      }
+
+      const { data, error } = await supabase
+        .from('emergency_tokens')
+        .update({
+          hospital_id: null,
+          hospital_name: null,
+          hospital_lat: null,
+          hospital_lng: null,
+          route_to_hospital: null,
+          route_to_hospital_distance_meters: null,
+          route_to_hospital_duration_seconds: null,
+          status: 'pending',
+          decline_reason: reason,
+          declined_hospital_ids: withDecliner(token.id, user.id),
+          escalated_at: new Date().toISOString(),
+        })
+        .eq('id', token.id)
+        .eq('status', token.status)
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) {
+        console.error('Token changed before it could be escalated');
+        return false;
+      }
+
+      applyUpdatedToken(data);
+      return true;
+    } catch (error) {
+      console.error('Error escalating emergency:', error);
+      return false;
+    }
+  };
+
+  // The receiving hospital accepts: reserves a bed against its capacity and records the
+  // expected arrival. The database refuses when no bed of that type is free.
+  const acceptEmergency = async (token: EmergencyToken, bedType: BedType, etaSeconds: number) => {
+    try {
+      if (!user || !isHospitalUser) {
+        console.error('Only hospital users can accept emergencies');
+        return false;
+      }
+
+      const { error } = await supabase.rpc('accept_emergency_token', {
+        p_token_id: token.id,
+        p_bed_type: bedType,
+        p_eta_seconds: Math.round(etaSeconds),
       });
 
+      if (error) {
+        toast.error(error.message, error.hint ? { description: error.hint } : undefined);
+        throw error;
+      }
+
+      const { data, error: fetchError } = await supabase
+        .from('emergency_tokens')
+        .select('*')
+        .eq('id', token.id)
+        .single();
+
+      if (fetchError) throw fetchError;
+
+      applyUpdatedToken(data);
       return true;
     } catch (error) {
-      console.error('Error declining emergency:', error);
+      console.error('Error accepting emergency:', error);
       return false;
     }
   };
 
-  // Get pending tokens (for hospital)
-  const pendingTokens = tokens.filter(t => t.status === 'pending');
+  // Get pending tokens (for hospital), most urgent triage priority first
+  const byPriority = byTriagePriority(emergencyTypes);
+  const pendingTokens = tokens.filter(t => t.status === 'pending').sort(byPriority);
   const assignedTokens = tokens.filter(t => 
     (t.status === 'assigned' || t.status === 'route_selected') && 
     !['completed', 'cancelled', 'declined'].includes(t.status)
-  );
-  const activeTokens = tokens.filter(t => ['in_progress', 'at_patient', 'to_hospital'].includes(t.status));
+  ).sort(byPriority);
+  const activeTokens = tokens.filter(t => ['in_progress', 'at_patient', 'to_hospital'].includes(t.status)).sort(byPriority);
 
   return {
     tokens,
@@ -770,8 +1004,12 @@ export function useEmergencyTokens() {
     arrivedAtPatient,
     startToHospital,
     completeEmergency,
+    dismissArrivalProposal,
     cancelEmergency,
+    acceptEmergency,
     declineEmergency,
+    redispatchEmergency,
+    escalateEmergency,
     releaseAmbulance,
     refreshTokens: fetchTokens,
     isAmbulanceDriver,
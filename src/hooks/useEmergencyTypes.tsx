@@ -0,0 +1,95 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { CareLevel, EmergencyType, TriagePriority } from '@/types/database';
+import { DEFAULT_EMERGENCY_TYPES } from '@/services/emergencyTypes';
+
+export type EmergencyTypeInput = Omit<EmergencyType, 'created_at' | 'updated_at'>;
+
+const normalizeType = (row: Tables<'emergency_types'>): EmergencyType => ({
+  ...row,
+  care_level: row.care_level as CareLevel | null,
+  default_priority: row.default_priority as TriagePriority,
+});
+
+/**
+ * The emergency type catalog. Creators list the active types; admins edit the whole
+ * catalog. Starts from the built-in types until the table has been read.
+ */
+export function useEmergencyTypes() {
+  const [types, setTypes] = useState<EmergencyType[]>(DEFAULT_EMERGENCY_TYPES);
+  const [loading, setLoading] = useState(true);
+
+  const fetchTypes = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('emergency_types')
+        .select('*')
+        .order('sort_order')
+        .order('label');
+
+      if (error) throw error;
+      setTypes((data || []).map(normalizeType));
+    } catch (error) {
+      console.error('Error fetching emergency types:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchTypes();
+
+    const channel = supabase
+      .channel('emergency-types')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'emergency_types'
+      }, () => {
+        fetchTypes();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchTypes]);
+
+  const activeTypes = useMemo(() => types.filter(type => type.is_active), [types]);
+
+  // Create or update a type (admins only, enforced by RLS)
+  const saveType = useCallback(async (input: EmergencyTypeInput) => {
+    try {
+      const { error } = await supabase
+        .from('emergency_types')
+        .upsert(input);
+
+      if (error) throw error;
+      await fetchTypes();
+      return true;
+    } catch (error) {
+      console.error('Error saving emergency type:', error);
+      return false;
+    }
+  }, [fetchTypes]);
+
+  // Tokens keep their own copy of the label and keyword, so past emergencies are unaffected
+  const deleteType = useCallback(async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('emergency_types')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      await fetchTypes();
+      return true;
+    } catch (error) {
+      console.error('Error deleting emergency type:', error);
+      return false;
+    }
+  }, [fetchTypes]);
+
+  return { types, activeTypes, loading, saveType, deleteType, refreshTypes: fetchTypes };
+}
@@ -0,0 +1,37 @@
+import { useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import { Hospital } from '@/hooks/useHospitals';
+import { normalizeReport } from '@/hooks/usePatientCareReport';
+import { downloadFhirBundle, encounterBundle } from '@/services/fhir';
+
+/**
+ * Downloads a finished emergency as a FHIR encounter bundle, with the crew's
+ * patient care report fetched at export time.
+ */
+export function useEncounterExport() {
+  const [exportingTokenId, setExportingTokenId] = useState<string | null>(null);
+
+  const exportEncounter = useCallback(async (token: EmergencyToken, hospital: Hospital | null) => {
+    setExportingTokenId(token.id);
+    try {
+      const { data, error } = await supabase
+        .from('patient_care_reports')
+        .select('*')
+        .eq('token_id', token.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      const bundle = encounterBundle(token, hospital, data ? normalizeReport(data) : null);
+      downloadFhirBundle(bundle, `encounter-${token.token_code}.fhir.json`);
+      return true;
+    } catch (error) {
+      console.error('Error exporting encounter:', error);
+      return false;
+    } finally {
+      setExportingTokenId(null);
+    }
+  }, []);
+
+  return { exportEncounter, exportingTokenId };
+}
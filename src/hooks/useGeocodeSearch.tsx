@@ -0,0 +1,47 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { searchPlaces, GeocodeResult } from '@/services/geocoding';
+
+const MIN_QUERY_LENGTH = 3;
+
+// Debounced place search as the user types; `search` runs immediately (Enter / button)
+export function useGeocodeSearch(query: string, delay = 400) {
+  const [results, setResults] = useState<GeocodeResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const requestIdRef = useRef(0);
+
+  const search = useCallback(async (value: string) => {
+    const trimmed = value.trim();
+    const requestId = ++requestIdRef.current;
+
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setResults([]);
+      setIsSearching(false);
+      return;
+    }
+
+    setIsSearching(true);
+    const found = await searchPlaces(trimmed);
+    // Ignore responses for queries the user has already typed past
+    if (requestId !== requestIdRef.current) return;
+    setResults(found);
+    setIsSearching(false);
+  }, []);
+
+  useEffect(() => {
+    const timer = setTimeout(() => search(query), delay);
+    return () => clearTimeout(timer);
+  }, [query, delay, search]);
+
+  const clearResults = useCallback(() => {
+    requestIdRef.current++;
+    setResults([]);
+    setIsSearching(false);
+  }, []);
+
+  return {
+    results,
+    isSearching,
+    search,
+    clearResults
+  };
+}
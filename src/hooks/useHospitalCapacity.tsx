@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { HospitalCapacity } from '@/types/database';
+
+export interface CapacityReport {
+  total_beds: number;
+  available_beds: number;
+  icu_beds: number;
+  icu_available: number;
+}
+
+interface CapacityRow extends CapacityReport {
+  hospital_id: string;
+  reserved_beds: number;
+  reserved_icu: number;
+  updated_at: string;
+}
+
+// Token statuses where the ambulance is committed to the receiving hospital
+const INCOMING_TOKEN_STATUSES = ['route_selected', 'in_progress', 'at_patient', 'to_hospital'];
+// Token changes only move the incoming counts; a burst of them is folded into one refetch
+const TOKEN_REFETCH_DELAY_MS = 2000;
+
+export function toHospitalCapacity(row: CapacityRow, incomingAmbulances: number): HospitalCapacity {
+  const occupied_beds = row.total_beds - row.available_beds;
+  return {
+    total_beds: row.total_beds,
+    available_beds: row.available_beds,
+    icu_beds: row.icu_beds,
+    icu_available: row.icu_available,
+    reserved_beds: row.reserved_beds,
+    reserved_icu: row.reserved_icu,
+    occupied_beds,
+    incoming_ambulances: incomingAmbulances,
+    occupancy_percentage: row.total_beds > 0 ? Math.round((occupied_beds / row.total_beds) * 100) : 0,
+    source: 'reported',
+    updated_at: row.updated_at,
+  };
+}
+
+export function useHospitalCapacity() {
+  const { user, profile } = useAuth();
+  const [capacities, setCapacities] = useState<Map<string, HospitalCapacity>>(new Map());
+  const [loading, setLoading] = useState(true);
+
+  const isHospitalUser = profile?.role === 'hospital';
+
+  // Fetch reported inventory plus the live count of ambulances heading to each hospital
+  const fetchCapacities = useCallback(async () => {
+    try {
+      const [{ data: rows, error }, { data: incoming, error: incomingError }] = await Promise.all([
+        supabase.from('hospital_capacity').select('*'),
+        supabase
+          .from('emergency_tokens')
+          .select('hospital_id')
+          .in('status', INCOMING_TOKEN_STATUSES)
+          .not('hospital_id', 'is', null),
+      ]);
+
+      if (error) throw error;
+      if (incomingError) {
+        console.warn('Error fetching incoming ambulances:', incomingError);
+      }
+
+      const incomingCounts = new Map<string, number>();
+      (incoming || []).forEach(({ hospital_id }) => {
+        if (!hospital_id) return;
+        incomingCounts.set(hospital_id, (incomingCounts.get(hospital_id) || 0) + 1);
+      });
+
+      const next = new Map<string, HospitalCapacity>();
+      (rows || []).forEach(row => {
+        next.set(row.hospital_id, toHospitalCapacity(row, incomingCounts.get(row.hospital_id) || 0));
+      });
+      setCapacities(next);
+    } catch (error) {
+      console.error('Error fetching hospital capacity:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchCapacities();
+    let tokenRefetch: ReturnType<typeof setTimeout> | null = null;
+
+    // Subscribe to realtime updates so every client sees the same numbers
+    const channel = supabase
+      .channel('hospital-capacity')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'hospital_capacity'
+      }, () => {
+        fetchCapacities();
+      })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'emergency_tokens'
+      }, () => {
+        if (tokenRefetch) return;
+        tokenRefetch = setTimeout(() => {
+          tokenRefetch = null;
+          fetchCapacities();
+        }, TOKEN_REFETCH_DELAY_MS);
+      })
+      .subscribe();
+
+    return () => {
+      if (tokenRefetch) clearTimeout(tokenRefetch);
+      supabase.removeChannel(channel);
+    };
+  }, [fetchCapacities]);
+
+  // Report the signed-in hospital's own bed inventory
+  const reportCapacity = useCallback(async (report: CapacityReport) => {
+    if (!user || !isHospitalUser) {
+      console.error('Only hospital users can report capacity');
+      return false;
+    }
+
+    if (report.available_beds > report.total_beds || report.icu_available > report.icu_beds) {
+      console.error('Available beds cannot exceed total beds');
+      return false;
+    }
+
+    try {
+      const { error } = await supabase
+        .from('hospital_capacity')
+        .upsert({
+          hospital_id: user.id,
+          ...report,
+          updated_by: user.id,
+          updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      await fetchCapacities();
+      return true;
+    } catch (error) {
+      console.error('Error reporting hospital capacity:', error);
+      return false;
+    }
+  }, [user, isHospitalUser, fetchCapacities]);
+
+  return {
+    capacities,
+    loading,
+    reportCapacity,
+    refreshCapacities: fetchCapacities,
+  };
+}
@@ -1,6 +1,11 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useHospitals, Hospital } from '@/hooks/useHospitals';
+import { EtaSource, TravelEstimate, estimateTravel, fetchTravelMatrix } from '@/services/routing';
+import { SPECIALTY_KEYWORDS } from '@/services/specialties';
+import { requiredSpecialties } from '@/services/emergencyTypes';
+import { useEmergencyTypes } from '@/hooks/useEmergencyTypes';
+import { ImportedHospital } from '@/services/fhir';
 
 interface HospitalUpdate {
   id: string;
@@ -10,27 +15,126 @@ interface HospitalUpdate {
   created_at: string;
 }
 
-interface SpecialtyMatch {
+export type ScoreFactorKey = 'specialty' | 'travel' | 'beds' | 'icu' | 'load';
+
+export interface ScoreFactor {
+  key: ScoreFactorKey;
+  label: string;
+  score: number;
+  max: number;
+  detail: string;
+}
+
+export interface SpecialtyMatch {
   hospital: Hospital;
   specialties: string[];
   matchScore: number;
   distance: number;
+  eta: number;
+  etaSource: EtaSource;
   reason: string;
+  breakdown: ScoreFactor[];
+  saturated: boolean;
 }
 
-const SPECIALTY_KEYWORDS = {
-  'Cardiac': ['cardiology', 'heart', 'cardiac', 'cath lab', 'cardiovascular'],
-  'Oncology': ['cancer', 'oncology', 'chemotherapy', 'radiation', 'tumor'],
-  'Neuro': ['neurology', 'stroke', 'brain', 'neurological', 'neuro'],
-  'Trauma': ['trauma', 'emergency', 'accident', 'surgery', 'icu'],
-  'Maternity': ['maternity', 'obstetrics', 'gynecology', 'neonatal', 'delivery'],
-  'Orthopedics': ['orthopedic', 'bone', 'joint', 'fracture', 'spine'],
-  'Pediatric': ['pediatric', 'children', 'nicu', 'child', 'infant'],
-  'Respiratory': ['pulmonary', 'respiratory', 'lung', 'breathing', 'ventilator']
+// Maximum points per factor (sums to 100)
+const SCORE_WEIGHTS = {
+  specialty: 40,
+  travel: 25,
+  beds: 15,
+  icu: 20,
+};
+
+// Travel time at which a hospital earns no travel points
+const MAX_USEFUL_ETA_SECONDS = 60 * 60;
+
+// Maximum penalty for ambulances already heading to a hospital
+const MAX_LOAD_PENALTY = 10;
+const LOAD_PENALTY_PER_AMBULANCE = 2;
+
+// How much each emergency type depends on a free ICU bed (0 = not at all, 1 = critical)
+const ICU_NEED: Record<string, number> = {
+  'Cardiac': 1,
+  'Neuro': 1,
+  'Respiratory': 1,
+  'Trauma': 0.8,
+  'Burns': 0.8,
+  'Pediatric': 0.5,
+  'Maternity': 0.3,
+  'Oncology': 0.2,
+  'Orthopedics': 0.2,
+  'General': 0.3
+};
+
+// ICU need above which a hospital with no free ICU bed is treated as saturated
+const CRITICAL_ICU_NEED = 0.8;
+
+const getIcuNeed = (emergencyKeyword: string) => ICU_NEED[emergencyKeyword] ?? ICU_NEED['General'];
+
+// Score bed and ICU availability, counting ambulances already en route against free beds
+const scoreCapacity = (hospital: Hospital, emergencyKeyword: string) => {
+  const capacity = hospital.capacity;
+  const icuNeed = getIcuNeed(emergencyKeyword);
+
+  if (!capacity) {
+    return {
+      saturated: false,
+      factors: [
+        { key: 'beds', label: 'Bed availability', score: SCORE_WEIGHTS.beds / 2, max: SCORE_WEIGHTS.beds, detail: 'Capacity not reported' },
+        { key: 'icu', label: 'ICU availability', score: SCORE_WEIGHTS.icu / 2, max: SCORE_WEIGHTS.icu, detail: 'Capacity not reported' },
+        { key: 'load', label: 'Incoming ambulances', score: 0, max: 0, detail: 'Unknown' }
+      ] as ScoreFactor[]
+    };
+  }
+
+  const incoming = capacity.incoming_ambulances || 0;
+  const effectiveBeds = Math.max(0, capacity.available_beds - incoming);
+  const bedRatio = capacity.total_beds > 0 ? Math.min(1, effectiveBeds / capacity.total_beds) : 0;
+  // A hospital with at least 10% free beds earns full bed points
+  const bedScore = Math.min(1, bedRatio / 0.1) * SCORE_WEIGHTS.beds;
+
+  // ICU slots already reserved for accepted emergencies are not free
+  const icuFree = Math.max(0, capacity.icu_available - (capacity.reserved_icu || 0));
+  const icuRatio = capacity.icu_beds > 0 ? Math.min(1, icuFree / capacity.icu_beds) : 0;
+  // Types that barely need the ICU keep most of the ICU points regardless of availability
+  const icuAvailabilityScore = icuFree > 0 ? Math.max(0.5, icuRatio) : 0;
+  const icuScore = SCORE_WEIGHTS.icu * ((1 - icuNeed) + icuNeed * icuAvailabilityScore);
+
+  const loadPenalty = Math.min(MAX_LOAD_PENALTY, incoming * LOAD_PENALTY_PER_AMBULANCE);
+
+  const saturated = effectiveBeds <= 0 || (icuNeed >= CRITICAL_ICU_NEED && icuFree <= 0);
+
+  return {
+    saturated,
+    factors: [
+      {
+        key: 'beds',
+        label: 'Bed availability',
+        score: bedScore,
+        max: SCORE_WEIGHTS.beds,
+        detail: `${effectiveBeds} of ${capacity.total_beds} beds free after incoming`
+      },
+      {
+        key: 'icu',
+        label: 'ICU availability',
+        score: icuScore,
+        max: SCORE_WEIGHTS.icu,
+        detail: `${icuFree}/${capacity.icu_beds} ICU free, ${Math.round(icuNeed * 100)}% ICU need`
+      },
+      {
+        key: 'load',
+        label: 'Incoming ambulances',
+        score: -loadPenalty,
+        max: 0,
+        detail: incoming === 0 ? 'No ambulances en route' : `${incoming} ambulance${incoming > 1 ? 's' : ''} en route`
+      }
+    ] as ScoreFactor[]
+  };
 };
 
 export function useHospitalSpecialties() {
   const { hospitals: hospitalData } = useHospitals();
+  const { types: emergencyTypes } = useEmergencyTypes();
   const [hospitals, setHospitals] = useState<Hospital[]>([]);
   const [updates, setUpdates] = useState<HospitalUpdate[]>([]);
   const [loading, setLoading] = useState(true);
@@ -41,18 +145,6 @@ export function useHospitalSpecialties() {
     setLoading(false);
   }, [hospitalData]);
 
-  // Calculate distance between two points
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number) => {
-    const R = 6371000;
-    const dLat = (lat2 - lat1) * (Math.PI / 180);
-    const dLng = (lng2 - lng1) * (Math.PI / 180);
-    const a = Math.sin(dLat / 2) ** 2 +
-      Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
-      Math.sin(dLng / 2) ** 2;
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  };
-
   // Analyze hospital capabilities and assign specialties
   const analyzeSpecialties = useCallback((hospital: Hospital, recentUpdates: HospitalUpdate[]) => {
     const specialties: string[] = [];
@@ -95,13 +187,18 @@ export function useHospitalSpecialties() {
     return { specialties, reasons };
   }, []);
 
-  // Update hospital specialties
-  const updateHospitalSpecialties = useCallback(async (hospitalId: string, specialties: string[]) => {
+  // Update hospital specialties, and optionally its capabilities
+  const updateHospitalSpecialties = useCallback(async (
+    hospitalId: string,
+    specialties: string[],
+    capabilities?: Record<string, unknown>
+  ) => {
     try {
       const { error } = await supabase
         .from('profiles')
         .update({
           specialties,
+          ...(capabilities && { capabilities }),
           last_updated_specialties: new Date().toISOString()
         })
         .eq('id', hospitalId)
@@ -138,18 +235,57 @@ export function useHospitalSpecialties() {
     }
   }, []);
 
-  // Find best hospitals for emergency type
+  // Seed a hospital's specialties and capabilities from an imported FHIR directory entry.
+  // The services are also recorded as a department update so the automatic analysis keeps
+  // the specialties they imply.
+  const importHospitalDirectory = useCallback(async (hospitalId: string, imported: ImportedHospital) => {
+    const hospital = hospitals.find(h => h.id === hospitalId);
+    const specialties = [...new Set([...(hospital?.specialties || []), ...imported.specialties])];
+    const capabilities = {
+      ...(hospital?.capabilities || {}),
+      fhir: {
+        organization: imported.name,
+        identifiers: imported.identifiers,
+        address: imported.address,
+        services: imported.services,
+        imported_at: new Date().toISOString()
+      }
+    };
+
+    const recorded = await addHospitalUpdate(hospitalId, 'department', {
+      source: 'FHIR import',
+      organization: imported.name,
+      services: imported.services
+    });
+    if (!recorded) return false;
+
+    return updateHospitalSpecialties(hospitalId, specialties, capabilities);
+  }, [hospitals, addHospitalUpdate, updateHospitalSpecialties]);
+
+  // Find best hospitals for emergency type. Pass road travel times (keyed by hospital id)
+  // to rank by ETA; hospitals without one fall back to a straight-line estimate.
+  // Hospitals in excludeHospitalIds (e.g. ones that declined the emergency) are skipped.
   const findBestHospitals = useCallback((
     patientLat: number,
     patientLng: number,
-    emergencyKeyword: string
+    emergencyKeyword: string,
+    travelTimes?: Map<string, TravelEstimate>,
+    excludeHospitalIds: string[] = []
   ): { best: SpecialtyMatch | null; nearest: SpecialtyMatch | null } => {
-    if (hospitals.length === 0) {
+    const eligible = hospitals.filter(hospital => !excludeHospitalIds.includes(hospital.id));
+    if (eligible.length === 0) {
       return { best: null, nearest: null };
     }
 
-    const matches: SpecialtyMatch[] = hospitals.map(hospital => {
-      const distance = calculateDistance(patientLat, patientLng, hospital.location_lat, hospital.location_lng);
+    // Specialties the emergency type needs, from the catalog
+    const required = requiredSpecialties(emergencyKeyword, emergencyTypes);
+
+    const matches: SpecialtyMatch[] = eligible.map(hospital => {
+      const travel = travelTimes?.get(hospital.id) ?? estimateTravel(
+        { lat: patientLat, lng: patientLng },
+        { lat: hospital.location_lat, lng: hospital.location_lng }
+      );
+      const distance = travel.distance;
       
       // Assign default specialties based on hospital name if none exist
       let specialties = hospital.specialties || [];
@@ -166,56 +302,130 @@ export function useHospitalSpecialties() {
         }
       }
       
-      // Calculate match score
-      let matchScore = 0;
+      // Specialty fit
+      let specialtyPoints = 0;
       let reason = '';
 
-      if (specialties.includes(emergencyKeyword)) {
-        matchScore = 100; // Perfect match
-        reason = `Specialized in ${emergencyKeyword}`;
+      const matchedSpecialty = required.find(specialty => specialties.includes(specialty));
+      if (matchedSpecialty) {
+        specialtyPoints = SCORE_WEIGHTS.specialty; // Perfect match
+        reason = `Specialized in ${matchedSpecialty}`;
       } else {
         // Check for related specialties
-        const relatedKeywords = SPECIALTY_KEYWORDS[emergencyKeyword as keyof typeof SPECIALTY_KEYWORDS] || [];
+        const relatedKeywords = required.flatMap(specialty => SPECIALTY_KEYWORDS[specialty] || []);
         const hospitalText = `${hospital.organization_name} ${hospital.address || ''}`.toLowerCase();
         
         relatedKeywords.forEach(keyword => {
           if (hospitalText.includes(keyword)) {
-            matchScore += 20;
+            specialtyPoints += 8;
             reason = `Has ${keyword} capabilities`;
           }
         });
 
         // General emergency capability
-        if (specialties.includes('Trauma') && emergencyKeyword !== 'Trauma') {
-          matchScore += 10;
+        if (specialties.includes('Trauma') && !required.includes('Trauma')) {
+          specialtyPoints += 10;
           reason = reason || 'General emergency capabilities';
         }
+        specialtyPoints = Math.min(specialtyPoints, SCORE_WEIGHTS.specialty * 0.75);
       }
 
-      // Distance bonus (closer = higher score)
-      const distanceScore = Math.max(0, 50 - (distance / 1000));
-      matchScore += distanceScore;
+      // Travel time (faster = higher score, zero beyond an hour)
+      const travelPoints = Math.max(0, SCORE_WEIGHTS.travel * (1 - travel.duration / MAX_USEFUL_ETA_SECONDS));
+      const etaMinutes = Math.round(travel.duration / 60);
+
+      const capacityScore = scoreCapacity(hospital, emergencyKeyword);
+
+      const breakdown: ScoreFactor[] = [
+        {
+          key: 'specialty',
+          label: 'Specialty match',
+          score: specialtyPoints,
+          max: SCORE_WEIGHTS.specialty,
+          detail: reason || 'General hospital'
+        },
+        {
+          key: 'travel',
+          label: 'Travel time',
+          score: travelPoints,
+          max: SCORE_WEIGHTS.travel,
+          detail: travel.source === 'route'
+            ? `${etaMinutes} min by road (${(distance / 1000).toFixed(1)} km)`
+            : `~${etaMinutes} min estimated (${(distance / 1000).toFixed(1)} km straight line)`
+        },
+        ...capacityScore.factors
+      ];
+
+      const matchScore = Math.max(0, Math.min(100, breakdown.reduce((sum, factor) => sum + factor.score, 0)));
 
       return {
         hospital,
         specialties,
         matchScore,
         distance,
-        reason: reason || 'General hospital'
+        eta: travel.duration,
+        etaSource: travel.source,
+        reason: capacityScore.saturated ? `${reason || 'General hospital'} (at capacity)` : (reason || 'General hospital'),
+        breakdown,
+        saturated: capacityScore.saturated
       };
     });
 
+    // Skip saturated hospitals unless every hospital is saturated
+    const available = matches.filter(match => !match.saturated);
+    const candidates = available.length > 0 ? available : matches;
+
     // Sort by match score (highest first)
-    const sortedByMatch = [...matches].sort((a, b) => b.matchScore - a.matchScore);
+    const sortedByMatch = [...candidates].sort((a, b) => b.matchScore - a.matchScore);
     
-    // Sort by distance (closest first)
-    const sortedByDistance = [...matches].sort((a, b) => a.distance - b.distance);
+    // Sort by travel time (fastest to reach first)
+    const sortedByEta = [...candidates].sort((a, b) => a.eta - b.eta);
 
     return {
       best: sortedByMatch[0] || null,
-      nearest: sortedByDistance[0] || null
+      nearest: sortedByEta[0] || null
     };
-  }, [hospitals]);
+  }, [hospitals, emergencyTypes]);
+
+  // Last routing matrix and the patient and hospital locations it was requested for.
+  // Capacity and token updates replace `hospitals` without moving anyone, so they reuse it.
+  const travelMatrixRef = useRef<{ key: string; matrix: Promise<TravelEstimate[][]> } | null>(null);
+
+  // Rank hospitals by road ETA using one routing-matrix request from the patient to every hospital
+  const rankHospitalsByRoute = useCallback(async (
+    patientLat: number,
+    patientLng: number,
+    emergencyKeyword: string,
+    excludeHospitalIds: string[] = []
+  ) => {
+    const eligible = hospitals.filter(hospital => !excludeHospitalIds.includes(hospital.id));
+    const key = JSON.stringify([patientLat, patientLng, eligible.map(h => [h.id, h.location_lat, h.location_lng])]);
+
+    let cached = travelMatrixRef.current;
+    if (cached?.key !== key) {
+      cached = {
+        key,
+        matrix: fetchTravelMatrix(
+          [{ lat: patientLat, lng: patientLng }],
+          eligible.map(hospital => ({ lat: hospital.location_lat, lng: hospital.location_lng }))
+        ),
+      };
+      travelMatrixRef.current = cached;
+    }
+    const matrix = await cached.matrix;
+    // Straight-line fallbacks are not kept, so the next ranking asks the provider again
+    if (travelMatrixRef.current === cached && matrix.some(row => row.some(estimate => estimate.source !== 'route'))) {
+      travelMatrixRef.current = null;
+    }
+
+    const travelTimes = new Map<string, TravelEstimate>();
+    eligible.forEach((hospital, i) => {
+      const estimate = matrix[0]?.[i];
+      if (estimate) travelTimes.set(hospital.id, estimate);
+    });
+
+    return findBestHospitals(patientLat, patientLng, emergencyKeyword, travelTimes, excludeHospitalIds);
+  }, [hospitals, findBestHospitals]);
 
   // Fetch hospitals and updates
   const fetchData = useCallback(async () => {
@@ -291,7 +501,9 @@ export function useHospitalSpecialties() {
     loading,
     addHospitalUpdate,
     updateHospitalSpecialties,
+    importHospitalDirectory,
     findBestHospitals,
+    rankHospitalsByRoute,
     analyzeSpecialties
   };
 }
\ No newline at end of file
@@ -1,6 +1,9 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
-import { hospitalCapacityEngine, HospitalCapacity } from '@/services/hospitalCapacityEngine';
+import { hospitalCapacityEngine, isCapacityDemoMode } from '@/services/hospitalCapacityEngine';
+import { useHospitalCapacity } from '@/hooks/useHospitalCapacity';
+import { HospitalCapacity } from '@/types/database';
+import { registerGazetteerPlaces } from '@/services/geocoding';
 
 export interface Hospital {
   id: string;
@@ -62,9 +65,18 @@ const HOSPITAL_LOCATIONS: Record<string, { lat: number; lng: number }> = {
   'Grecian Hospital': { lat: 30.7095, lng: 76.6878 },
 };
 
+// Seed the offline geocoder so hospitals stay searchable when Nominatim is unavailable
+registerGazetteerPlaces([
+  ...DEFAULT_HOSPITALS.map(h => ({ name: h.organization_name, lat: h.location_lat, lng: h.location_lng })),
+  ...Object.entries(HOSPITAL_LOCATIONS).map(([name, location]) => ({ name, ...location })),
+]);
+
 export function useHospitals() {
-  const [hospitals, setHospitals] = useState<Hospital[]>(DEFAULT_HOSPITALS);
+  const [baseHospitals, setBaseHospitals] = useState<Hospital[]>(DEFAULT_HOSPITALS);
   const [loading, setLoading] = useState(true);
+  const [simulatedCapacities, setSimulatedCapacities] = useState<Map<string, HospitalCapacity>>(new Map());
+  const { capacities, reportCapacity, refreshCapacities: refreshReportedCapacities } = useHospitalCapacity();
+  const demoMode = isCapacityDemoMode();
 
   const fetchHospitals = useCallback(async () => {
     try {
@@ -89,27 +101,18 @@ export function useHospitals() {
           };
         });
 
+      // Hospitals registered since the app was built become searchable offline too
+      registerGazetteerPlaces(dbHospitals.map(h => ({ name: h.organization_name, lat: h.location_lat, lng: h.location_lng })));
+
       // Merge: DB hospitals first, then default hospitals not in DB
       const dbHospitalNames = new Set(dbHospitals.map(h => h.organization_name));
       const uniqueDefaultHospitals = DEFAULT_HOSPITALS.filter(h => !dbHospitalNames.has(h.organization_name));
       
-      const allHospitals = [...dbHospitals, ...uniqueDefaultHospitals];
-      
-      // Inject capacity data from engine
-      const hospitalsWithCapacity = allHospitals.map(hospital => ({
-        ...hospital,
-        capacity: hospitalCapacityEngine.getCapacity(hospital.id, hospital.organization_name)
-      }));
-      
-      setHospitals(hospitalsWithCapacity);
+      setBaseHospitals([...dbHospitals, ...uniqueDefaultHospitals]);
     } catch (error) {
       console.error('Error fetching hospitals:', error);
-      // On error, use default hospitals with capacity
-      const defaultWithCapacity = DEFAULT_HOSPITALS.map(hospital => ({
-        ...hospital,
-        capacity: hospitalCapacityEngine.getCapacity(hospital.id, hospital.organization_name)
-      }));
-      setHospitals(defaultWithCapacity);
+      // On error, fall back to default hospitals
+      setBaseHospitals(DEFAULT_HOSPITALS);
     } finally {
       setLoading(false);
     }
@@ -119,6 +122,25 @@ export function useHospitals() {
     fetchHospitals();
   }, [fetchHospitals]);
 
+  // Demo mode only: snapshot the simulator for hospitals that have not reported yet
+  const loadSimulatedCapacities = useCallback(() => {
+    if (!demoMode) return;
+    setSimulatedCapacities(new Map(baseHospitals.map(hospital => [
+      hospital.id,
+      hospitalCapacityEngine.getCapacity(hospital.id, hospital.organization_name)
+    ])));
+  }, [demoMode, baseHospitals]);
+
+  useEffect(() => {
+    loadSimulatedCapacities();
+  }, [loadSimulatedCapacities]);
+
+  // Inject capacity data - reported inventory always wins over simulated numbers
+  const hospitals = useMemo(() => baseHospitals.map(hospital => ({
+    ...hospital,
+    capacity: capacities.get(hospital.id) ?? simulatedCapacities.get(hospital.id)
+  })), [baseHospitals, capacities, simulatedCapacities]);
+
   // Calculate distance between two points
   const calculateDistanceToHospital = (
     fromLat: number,
@@ -142,31 +164,31 @@ export function useHospitals() {
     return [...hospitals]
       .map(h => ({
         ...h,
-        distance: calculateDistanceToHospital(fromLat, fromLng, h),
-        capacity: h.capacity || hospitalCapacityEngine.getCapacity(h.id, h.organization_name)
+        distance: calculateDistanceToHospital(fromLat, fromLng, h)
       }))
       .sort((a, b) => a.distance - b.distance);
   };
 
   // Force refresh capacity data
-  const refreshCapacities = useCallback(() => {
-    setHospitals(prev => prev.map(hospital => ({
-      ...hospital,
-      capacity: hospitalCapacityEngine.getCapacity(hospital.id, hospital.organization_name)
-    })));
-  }, []);
+  const refreshCapacities = useCallback(async () => {
+    await refreshReportedCapacities();
+    loadSimulatedCapacities();
+  }, [refreshReportedCapacities, loadSimulatedCapacities]);
 
-  // Set up capacity refresh interval
+  // Demo mode only: pick up the simulator's periodic changes
   useEffect(() => {
+    if (!demoMode) return;
     const interval = setInterval(refreshCapacities, 90000); // Sync with engine updates
     return () => clearInterval(interval);
-  }, [refreshCapacities]);
+  }, [demoMode, refreshCapacities]);
 
   return {
     hospitals,
     loading,
+    demoMode,
     fetchHospitals,
     getHospitalsByDistance,
-    refreshCapacities
+    refreshCapacities,
+    reportCapacity
   };
 }
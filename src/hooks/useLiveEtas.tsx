@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { LiveEta } from '@/types/database';
+
+/**
+ * Live ETAs of every ambulance currently driving a leg, keyed by token id.
+ * The backend ETA tracker pushes updates as the ambulances move.
+ */
+export function useLiveEtas() {
+  const [etas, setEtas] = useState<Map<string, LiveEta>>(new Map());
+
+  const fetchEtas = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.from('token_live_eta').select('*');
+      if (error) throw error;
+      setEtas(new Map((data || []).map(row => [row.token_id, row as LiveEta])));
+    } catch (error) {
+      console.error('Error fetching live ETAs:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchEtas();
+
+    const channel = supabase
+      .channel('token-live-eta')
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'token_live_eta'
+      }, (payload) => {
+        setEtas(prev => {
+          const next = new Map(prev);
+          if (payload.eventType === 'DELETE') {
+            next.delete((payload.old as Partial<LiveEta>).token_id!);
+          } else {
+            const eta = payload.new as LiveEta;
+            next.set(eta.token_id, eta);
+          }
+          return next;
+        });
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchEtas]);
+
+  return { etas, refreshEtas: fetchEtas };
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { PatientCareReport } from '@/types/database';
+
+export type PatientCareReportInput = Omit<PatientCareReport, 'token_id' | 'updated_by' | 'created_at' | 'updated_at'>;
+
+export const normalizeReport = (row: Tables<'patient_care_reports'>): PatientCareReport => ({
+  ...row,
+  sex: row.sex as PatientCareReport['sex'],
+  vitals: (row.vitals ?? []) as unknown as PatientCareReport['vitals'],
+  medications: (row.medications ?? []) as unknown as PatientCareReport['medications'],
+});
+
+/**
+ * The patient care report of one emergency token. The crew saves it from the
+ * ambulance; the receiving hospital sees every save as it happens.
+ */
+export function usePatientCareReport(tokenId: string | null) {
+  const { user } = useAuth();
+  const [report, setReport] = useState<PatientCareReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchReport = useCallback(async () => {
+    if (!tokenId) {
+      setReport(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('patient_care_reports')
+        .select('*')
+        .eq('token_id', tokenId)
+        .maybeSingle();
+
+      if (error) throw error;
+      setReport(data ? normalizeReport(data) : null);
+    } catch (error) {
+      console.error('Error fetching patient care report:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenId]);
+
+  useEffect(() => {
+    fetchReport();
+    if (!tokenId) return;
+
+    const channel = supabase
+      .channel(`patient-care-report-${tokenId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'patient_care_reports',
+        filter: `token_id=eq.${tokenId}`
+      }, (payload) => {
+        setReport(payload.eventType === 'DELETE' ? null : normalizeReport(payload.new as Tables<'patient_care_reports'>));
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tokenId, fetchReport]);
+
+  // Create or replace the report; only the token's crew may, while on scene or en route
+  const saveReport = useCallback(async (input: PatientCareReportInput) => {
+    if (!tokenId || !user) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('patient_care_reports')
+        .upsert({
+          token_id: tokenId,
+          ...input,
+          vitals: input.vitals as unknown as Json,
+          medications: input.medications as unknown as Json,
+          updated_by: user.id,
+        })
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      setReport(normalizeReport(data));
+      return true;
+    } catch (error) {
+      console.error('Error saving patient care report:', error);
+      return false;
+    }
+  }, [tokenId, user]);
+
+  return { report, loading, saveReport, refreshReport: fetchReport };
+}
@@ -0,0 +1,73 @@
+import { useCallback } from 'react';
+import { useHospitalSpecialties } from '@/hooks/useHospitalSpecialties';
+import { EmergencyToken, RedispatchTarget } from '@/hooks/useEmergencyTokens';
+import { fetchRoute } from '@/services/routing';
+
+// Automatic re-dispatches per emergency before a dispatcher has to place it by hand
+const parseLimit = (value: string | undefined) => {
+  const limit = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(limit) || limit < 0 ? 2 : limit;
+};
+const REDISPATCH_LIMIT = parseLimit(import.meta.env.VITE_REDISPATCH_LIMIT);
+
+export type RedispatchPlan =
+  | { type: 'redispatch'; target: RedispatchTarget }
+  | { type: 'escalate'; why: 'limit' | 'no_hospital' | 'no_route' };
+
+/**
+ * Decides where a declined emergency goes next: the best ranked hospital that has
+ * not declined it, with a fresh route from the pickup, or a human dispatcher once
+ * the re-dispatch limit is used up or no hospital or route is left.
+ */
+export function useRedispatch() {
+  const { rankHospitalsByRoute } = useHospitalSpecialties();
+
+  const planRedispatch = useCallback(async (
+    token: EmergencyToken,
+    decliningHospitalId: string
+  ): Promise<RedispatchPlan> => {
+    if (token.redispatch_count >= REDISPATCH_LIMIT) {
+      return { type: 'escalate', why: 'limit' };
+    }
+
+    const excluded = [...token.declined_hospital_ids, decliningHospitalId];
+    if (token.hospital_id) excluded.push(token.hospital_id);
+
+    const keyword = token.medical_keyword || token.emergency_type || 'Trauma';
+    const { best, nearest } = await rankHospitalsByRoute(token.pickup_lat, token.pickup_lng, keyword, excluded);
+    const match = best ?? nearest;
+    if (!match) {
+      return { type: 'escalate', why: 'no_hospital' };
+    }
+
+    const pickup = { lat: token.pickup_lat, lng: token.pickup_lng };
+    const routeToHospital = await fetchRoute(pickup, {
+      lat: match.hospital.location_lat,
+      lng: match.hospital.location_lng
+    });
+    // The ambulance's way to the patient does not depend on the hospital
+    const routeToPatient = token.route_to_patient ?? (
+      token.ambulance_origin_lat != null && token.ambulance_origin_lng != null
+        ? await fetchRoute({ lat: token.ambulance_origin_lat, lng: token.ambulance_origin_lng }, pickup)
+        : null
+    );
+    if (!routeToHospital || !routeToPatient) {
+      return { type: 'escalate', why: 'no_route' };
+    }
+
+    return {
+      type: 'redispatch',
+      target: {
+        hospitalId: match.hospital.id,
+        hospitalName: match.hospital.organization_name,
+        hospitalLat: match.hospital.location_lat,
+        hospitalLng: match.hospital.location_lng,
+        routeToPatient,
+        routeToHospital,
+        hospitalEta: { seconds: routeToHospital.duration, source: 'route' }
+      }
+    };
+  }, [rankHospitalsByRoute]);
+
+  return { planRedispatch };
+}
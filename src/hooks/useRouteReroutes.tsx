@@ -0,0 +1,30 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { RouteReroute } from '@/types/database';
+
+/**
+ * Reroutes made by the backend while this hook is mounted, newest last.
+ * The new routes themselves arrive as emergency token updates.
+ */
+export function useRouteReroutes() {
+  const [reroutes, setReroutes] = useState<RouteReroute[]>([]);
+
+  useEffect(() => {
+    const channel = supabase
+      .channel('route-reroutes')
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'route_reroutes'
+      }, (payload) => {
+        setReroutes(prev => [...prev, payload.new as RouteReroute]);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  return { reroutes, latestReroute: reroutes[reroutes.length - 1] ?? null };
+}
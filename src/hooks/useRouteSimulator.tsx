@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { RoutePoint } from '@/services/routeGeometry';
+import {
+  SimulatedPosition,
+  SimulationState,
+  describeState,
+  prepareLeg,
+  stepSimulation,
+} from '@/services/tripSimulator';
+
+// How often a simulated GPS fix is sent, in wall-clock time
+const TICK_MS = 1000;
+
+type PositionHandler = (lat: number, lng: number, heading: number, speed: number) => void;
+
+/**
+ * Drives a simulated ambulance along the leg currently being driven, reporting
+ * positions through `onPosition` exactly like the GPS watcher does.
+ * The leg restarts from its beginning whenever the route changes (e.g. to_hospital).
+ */
+export function useRouteSimulator(route: RoutePoint[] | null, onPosition: PositionHandler) {
+  const [isRunning, setIsRunning] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [playbackRate, setPlaybackRate] = useState(1);
+  const [position, setPosition] = useState<SimulatedPosition | null>(null);
+
+  // Token updates hand us a fresh array for the same route; only a different route starts a new leg
+  const routeKey = route && route.length >= 2
+    ? `${route.length}:${route[0].join(',')}:${route[route.length - 1].join(',')}`
+    : '';
+  const routeRef = useRef(route);
+  routeRef.current = route;
+  const leg = useMemo(
+    () => (routeKey && routeRef.current ? prepareLeg(routeRef.current) : null),
+    [routeKey]
+  );
+  const stateRef = useRef<SimulationState>({ distance: 0, speedMs: 0 });
+  const onPositionRef = useRef(onPosition);
+  onPositionRef.current = onPosition;
+
+  const report = useCallback((state: SimulationState) => {
+    if (!leg) return;
+    const described = describeState(leg, state);
+    setPosition(described);
+    onPositionRef.current(described.lat, described.lng, described.heading, described.speedKmh);
+  }, [leg]);
+
+  // New leg: start again from its first point
+  useEffect(() => {
+    stateRef.current = { distance: 0, speedMs: 0 };
+    setPosition(null);
+  }, [leg]);
+
+  useEffect(() => {
+    if (!isRunning || isPaused || !leg) return;
+
+    const interval = setInterval(() => {
+      const next = stepSimulation(leg, stateRef.current, (TICK_MS / 1000) * playbackRate);
+      const unchanged = next.distance === stateRef.current.distance && next.speedMs === stateRef.current.speedMs;
+      stateRef.current = next;
+      // Parked at the end of the leg: stop flooding identical updates
+      if (!unchanged) report(next);
+    }, TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isRunning, isPaused, leg, playbackRate, report]);
+
+  const start = useCallback(() => {
+    setIsRunning(true);
+    setIsPaused(false);
+    report(stateRef.current);
+  }, [report]);
+
+  const stop = useCallback(() => {
+    setIsRunning(false);
+    setIsPaused(false);
+    stateRef.current = { distance: 0, speedMs: 0 };
+    setPosition(null);
+  }, []);
+
+  const pause = useCallback(() => {
+    setIsPaused(true);
+    stateRef.current = { ...stateRef.current, speedMs: 0 };
+    report(stateRef.current);
+  }, [report]);
+
+  const resume = useCallback(() => setIsPaused(false), []);
+
+  // Jump to a fraction of the leg; the vehicle resumes from standstill there
+  const jumpTo = useCallback((fraction: number) => {
+    if (!leg) return;
+    stateRef.current = { distance: Math.max(0, Math.min(1, fraction)) * leg.length, speedMs: 0 };
+    report(stateRef.current);
+  }, [leg, report]);
+
+  return {
+    isRunning,
+    isPaused,
+    position,
+    playbackRate,
+    legLength: leg?.length ?? 0,
+    hasRoute: !!leg,
+    setPlaybackRate,
+    start,
+    stop,
+    pause,
+    resume,
+    jumpTo,
+  };
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { EmergencyTokenEvent } from '@/types/database';
+
+/**
+ * Audit trail of one emergency token, oldest first. The database appends an
+ * event for every change to the token, so new ones stream in while it is open.
+ */
+export function useTokenEvents(tokenId: string | null) {
+  const [events, setEvents] = useState<EmergencyTokenEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchEvents = useCallback(async () => {
+    if (!tokenId) {
+      setEvents([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('emergency_token_events')
+        .select('*')
+        .eq('token_id', tokenId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setEvents((data || []) as EmergencyTokenEvent[]);
+    } catch (error) {
+      console.error('Error fetching token events:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenId]);
+
+  useEffect(() => {
+    fetchEvents();
+    if (!tokenId) return;
+
+    const channel = supabase
+      .channel(`token-events-${tokenId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'emergency_token_events',
+        filter: `token_id=eq.${tokenId}`
+      }, (payload) => {
+        setEvents(prev => [...prev, payload.new as EmergencyTokenEvent]);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tokenId, fetchEvents]);
+
+  return { events, loading, refreshEvents: fetchEvents };
+}
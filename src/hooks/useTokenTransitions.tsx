@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { TokenAction, TokenStatus, TokenStatusTransition } from '@/types/database';
+
+/**
+ * The emergency token lifecycle from token_status_transitions, the table the
+ * database enforces on every status change. An action is offered only when the
+ * signed-in user's role may take it from the token's current status.
+ */
+export function useTokenTransitions() {
+  const { profile } = useAuth();
+  const [transitions, setTransitions] = useState<TokenStatusTransition[]>([]);
+
+  useEffect(() => {
+    supabase
+      .from('token_status_transitions')
+      .select('*')
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching token transitions:', error);
+          return;
+        }
+        setTransitions((data || []) as TokenStatusTransition[]);
+      });
+  }, []);
+
+  const role = profile?.role;
+
+  const actionsFor = useCallback((status: TokenStatus): TokenAction[] =>
+    role
+      ? transitions
+          .filter(transition => transition.from_status === status && transition.roles.includes(role))
+          .map(transition => transition.action)
+      : [],
+  [transitions, role]);
+
+  const can = useCallback((status: TokenStatus, action: TokenAction) =>
+    actionsFor(status).includes(action),
+  [actionsFor]);
+
+  return { transitions, actionsFor, can };
+}
@@ -0,0 +1,58 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { AmbulancePosition } from '@/types/database';
+
+/**
+ * Recorded GPS breadcrumbs of one emergency token, oldest first.
+ * New fixes stream in while the trip is still being driven.
+ */
+export function useTripTrack(tokenId: string | null) {
+  const [positions, setPositions] = useState<AmbulancePosition[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  const fetchPositions = useCallback(async () => {
+    if (!tokenId) {
+      setPositions([]);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('ambulance_positions')
+        .select('*')
+        .eq('token_id', tokenId)
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+      setPositions(data || []);
+    } catch (error) {
+      console.error('Error fetching trip track:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [tokenId]);
+
+  useEffect(() => {
+    fetchPositions();
+    if (!tokenId) return;
+
+    const channel = supabase
+      .channel(`trip-track-${tokenId}`)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'ambulance_positions',
+        filter: `token_id=eq.${tokenId}`
+      }, (payload) => {
+        setPositions(prev => [...prev, payload.new as AmbulancePosition]);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [tokenId, fetchPositions]);
+
+  return { positions, loading, refreshPositions: fetchPositions };
+}
@@ -14,9 +14,85 @@ export type Database = {
   }
   public: {
     Tables: {
+      acceptance_slas: {
+        Row: {
+          admin_seconds: number
+          medical_keyword: string
+          realert_seconds: number
+          updated_at: string
+          widen_seconds: number
+        }
+        Insert: {
+          admin_seconds: number
+          medical_keyword: string
+          realert_seconds: number
+          updated_at?: string
+          widen_seconds: number
+        }
+        Update: {
+          admin_seconds?: number
+          medical_keyword?: string
+          realert_seconds?: number
+          updated_at?: string
+          widen_seconds?: number
+        }
+        Relationships: []
+      }
+      ambulance_positions: {
+        Row: {
+          ambulance_id: string
+          heading: number | null
+          id: string
+          lat: number
+          lng: number
+          recorded_at: string
+          speed: number | null
+          token_id: string
+          token_status: string
+        }
+        Insert: {
+          ambulance_id: string
+          heading?: number | null
+          id?: string
+          lat: number
+          lng: number
+          recorded_at?: string
+          speed?: number | null
+          token_id: string
+          token_status: string
+        }
+        Update: {
+          ambulance_id?: string
+          heading?: number | null
+          id?: string
+          lat?: number
+          lng?: number
+          recorded_at?: string
+          speed?: number | null
+          token_id?: string
+          token_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ambulance_positions_ambulance_id_fkey"
+            columns: ["ambulance_id"]
+            isOneToOne: false
+            referencedRelation: "ambulances"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ambulance_positions_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_tokens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ambulances: {
         Row: {
           active_token_id: string | null
+          care_level: string
           created_at: string
           current_lat: number | null
           current_lng: number | null
@@ -34,6 +110,7 @@ export type Database = {
         }
         Insert: {
           active_token_id?: string | null
+          care_level?: string
           created_at?: string
           current_lat?: number | null
           current_lng?: number | null
@@ -53,6 +130,7 @@ export type Database = {
         }
         Update: {
           active_token_id?: string | null
+          care_level?: string
           created_at?: string
           current_lat?: number | null
           current_lng?: number | null
@@ -87,24 +165,89 @@ export type Database = {
           },
         ]
       }
+      emergency_token_events: {
+        Row: {
+          actor_id: string | null
+          actor_role: string | null
+          created_at: string
+          event_type: string
+          from_status: string | null
+          id: string
+          new_values: Json
+          old_values: Json
+          reason: string | null
+          to_status: string | null
+          token_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_role?: string | null
+          created_at?: string
+          event_type: string
+          from_status?: string | null
+          id?: string
+          new_values?: Json
+          old_values?: Json
+          reason?: string | null
+          to_status?: string | null
+          token_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          actor_role?: string | null
+          created_at?: string
+          event_type?: string
+          from_status?: string | null
+          id?: string
+          new_values?: Json
+          old_values?: Json
+          reason?: string | null
+          to_status?: string | null
+          token_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_token_events_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_tokens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       emergency_tokens: {
         Row: {
+          accepted_at: string | null
+          accepted_by: string | null
           ambulance_id: string
           ambulance_origin_lat: number | null
           ambulance_origin_lng: number | null
+          arrival_proposal: Json | null
+          arrived_at_hospital_at: string | null
           arrived_at_patient_at: string | null
           assigned_at: string | null
+          awaiting_since: string | null
           completed_at: string | null
           created_at: string
           decline_reason: string | null
+          declined_hospital_ids: string[]
+          escalated_at: string | null
+          expected_arrival_at: string | null
+          expected_eta_seconds: number | null
+          hospital_eta_seconds: number | null
+          hospital_eta_source: string | null
           hospital_id: string | null
           hospital_lat: number | null
           hospital_lng: number | null
           hospital_name: string | null
           id: string
+          last_rerouted_at: string | null
           pickup_address: string | null
           pickup_lat: number
           pickup_lng: number
+          redispatch_count: number
+          reroute_count: number
+          reserved_bed_type: string | null
           route_distance_meters: number | null
           route_duration_seconds: number | null
           route_to_hospital: Json | null
@@ -115,27 +258,46 @@ export type Database = {
           route_to_patient_duration_seconds: number | null
           route_type: string | null
           selected_route: Json | null
+          sla_stage: string | null
+          sla_stage_at: string | null
           started_at: string | null
           status: string
           token_code: string
+          triage_answers: Json | null
+          triage_priority: number | null
         }
         Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           ambulance_id: string
           ambulance_origin_lat?: number | null
           ambulance_origin_lng?: number | null
+          arrival_proposal?: Json | null
+          arrived_at_hospital_at?: string | null
           arrived_at_patient_at?: string | null
           assigned_at?: string | null
+          awaiting_since?: string | null
           completed_at?: string | null
           created_at?: string
           decline_reason?: string | null
+          declined_hospital_ids?: string[]
+          escalated_at?: string | null
+          expected_arrival_at?: string | null
+          expected_eta_seconds?: number | null
+          hospital_eta_seconds?: number | null
+          hospital_eta_source?: string | null
           hospital_id?: string | null
           hospital_lat?: number | null
           hospital_lng?: number | null
           hospital_name?: string | null
           id?: string
+          last_rerouted_at?: string | null
           pickup_address?: string | null
           pickup_lat: number
           pickup_lng: number
+          redispatch_count?: number
+          reroute_count?: number
+          reserved_bed_type?: string | null
           route_distance_meters?: number | null
           route_duration_seconds?: number | null
           route_to_hospital?: Json | null
@@ -146,27 +308,46 @@ export type Database = {
           route_to_patient_duration_seconds?: number | null
           route_type?: string | null
           selected_route?: Json | null
+          sla_stage?: string | null
+          sla_stage_at?: string | null
           started_at?: string | null
           status?: string
           token_code?: string
+          triage_answers?: Json | null
+          triage_priority?: number | null
         }
         Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
           ambulance_id?: string
           ambulance_origin_lat?: number | null
           ambulance_origin_lng?: number | null
+          arrival_proposal?: Json | null
+          arrived_at_hospital_at?: string | null
           arrived_at_patient_at?: string | null
           assigned_at?: string | null
+          awaiting_since?: string | null
           completed_at?: string | null
           created_at?: string
           decline_reason?: string | null
+          declined_hospital_ids?: string[]
+          escalated_at?: string | null
+          expected_arrival_at?: string | null
+          expected_eta_seconds?: number | null
+          hospital_eta_seconds?: number | null
+          hospital_eta_source?: string | null
           hospital_id?: string | null
           hospital_lat?: number | null
           hospital_lng?: number | null
           hospital_name?: string | null
           id?: string
+          last_rerouted_at?: string | null
           pickup_address?: string | null
           pickup_lat?: number
           pickup_lng?: number
+          redispatch_count?: number
+          reroute_count?: number
+          reserved_bed_type?: string | null
           route_distance_meters?: number | null
           route_duration_seconds?: number | null
           route_to_hospital?: Json | null
@@ -177,11 +358,22 @@ export type Database = {
           route_to_patient_duration_seconds?: number | null
           route_type?: string | null
           selected_route?: Json | null
+          sla_stage?: string | null
+          sla_stage_at?: string | null
           started_at?: string | null
           status?: string
           token_code?: string
+          triage_answers?: Json | null
+          triage_priority?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "emergency_tokens_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "emergency_tokens_ambulance_id_fkey"
             columns: ["ambulance_id"]
@@ -198,6 +390,165 @@ export type Database = {
           },
         ]
       }
+      emergency_types: {
+        Row: {
+          care_level: string | null
+          created_at: string
+          default_priority: number
+          icon: string
+          id: string
+          is_active: boolean
+          keyword: string
+          label: string
+          required_specialties: string[]
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          care_level?: string | null
+          created_at?: string
+          default_priority?: number
+          icon?: string
+          id: string
+          is_active?: boolean
+          keyword: string
+          label: string
+          required_specialties?: string[]
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          care_level?: string | null
+          created_at?: string
+          default_priority?: number
+          icon?: string
+          id?: string
+          is_active?: boolean
+          keyword?: string
+          label?: string
+          required_specialties?: string[]
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      hospital_capacity: {
+        Row: {
+          available_beds: number
+          hospital_id: string
+          icu_available: number
+          icu_beds: number
+          reserved_beds: number
+          reserved_icu: number
+          total_beds: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          available_beds?: number
+          hospital_id: string
+          icu_available?: number
+          icu_beds?: number
+          reserved_beds?: number
+          reserved_icu?: number
+          total_beds?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          available_beds?: number
+          hospital_id?: string
+          icu_available?: number
+          icu_beds?: number
+          reserved_beds?: number
+          reserved_icu?: number
+          total_beds?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_capacity_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_capacity_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      patient_care_reports: {
+        Row: {
+          allergies: string[]
+          chief_complaint: string | null
+          created_at: string
+          estimated_age: number | null
+          gcs_eye: number | null
+          gcs_motor: number | null
+          gcs_verbal: number | null
+          interventions: string[]
+          medications: Json
+          sex: string | null
+          token_id: string
+          updated_at: string
+          updated_by: string | null
+          vitals: Json
+        }
+        Insert: {
+          allergies?: string[]
+          chief_complaint?: string | null
+          created_at?: string
+          estimated_age?: number | null
+          gcs_eye?: number | null
+          gcs_motor?: number | null
+          gcs_verbal?: number | null
+          interventions?: string[]
+          medications?: Json
+          sex?: string | null
+          token_id: string
+          updated_at?: string
+          updated_by?: string | null
+          vitals?: Json
+        }
+        Update: {
+          allergies?: string[]
+          chief_complaint?: string | null
+          created_at?: string
+          estimated_age?: number | null
+          gcs_eye?: number | null
+          gcs_motor?: number | null
+          gcs_verbal?: number | null
+          interventions?: string[]
+          medications?: Json
+          sex?: string | null
+          token_id?: string
+          updated_at?: string
+          updated_by?: string | null
+          vitals?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "patient_care_reports_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: true
+            referencedRelation: "emergency_tokens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "patient_care_reports_updated_by_fkey"
+            columns: ["updated_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           ambulance_id: string | null
@@ -242,30 +593,135 @@ export type Database = {
           },
         ]
       }
+      road_segment_speeds: {
+        Row: {
+          cell_key: string
+          mean_speed_kmh: number
+          samples: number
+          updated_at: string
+        }
+        Insert: {
+          cell_key: string
+          mean_speed_kmh: number
+          samples?: number
+          updated_at?: string
+        }
+        Update: {
+          cell_key?: string
+          mean_speed_kmh?: number
+          samples?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      route_reroutes: {
+        Row: {
+          ambulance_id: string
+          created_at: string
+          id: string
+          lat: number
+          leg: string
+          lng: number
+          new_distance_meters: number
+          new_duration_seconds: number
+          off_route_meters: number
+          off_route_seconds: number
+          previous_distance_meters: number | null
+          previous_duration_seconds: number | null
+          token_id: string
+        }
+        Insert: {
+          ambulance_id: string
+          created_at?: string
+          id?: string
+          lat: number
+          leg: string
+          lng: number
+          new_distance_meters: number
+          new_duration_seconds: number
+          off_route_meters: number
+          off_route_seconds: number
+          previous_distance_meters?: number | null
+          previous_duration_seconds?: number | null
+          token_id: string
+        }
+        Update: {
+          ambulance_id?: string
+          created_at?: string
+          id?: string
+          lat?: number
+          leg?: string
+          lng?: number
+          new_distance_meters?: number
+          new_duration_seconds?: number
+          off_route_meters?: number
+          off_route_seconds?: number
+          previous_distance_meters?: number | null
+          previous_duration_seconds?: number | null
+          token_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "route_reroutes_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_tokens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "route_reroutes_ambulance_id_fkey"
+            columns: ["ambulance_id"]
+            isOneToOne: false
+            referencedRelation: "ambulances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       signal_activations: {
         Row: {
           activated_at: string
           activation_type: string
           ambulance_id: string
+          arbitration_reason: string | null
+          contenders: Json | null
+          direction: Database["public"]["Enums"]["route_direction"] | null
           distance_meters: number
+          eta_seconds: number | null
           id: string
+          phase: number | null
+          severity: number | null
           signal_id: string
+          turn: string | null
         }
         Insert: {
           activated_at?: string
           activation_type: string
           ambulance_id: string
+          arbitration_reason?: string | null
+          contenders?: Json | null
+          direction?: Database["public"]["Enums"]["route_direction"] | null
           distance_meters: number
+          eta_seconds?: number | null
           id?: string
+          phase?: number | null
+          severity?: number | null
           signal_id: string
+          turn?: string | null
         }
         Update: {
           activated_at?: string
           activation_type?: string
           ambulance_id?: string
+          arbitration_reason?: string | null
+          contenders?: Json | null
+          direction?: Database["public"]["Enums"]["route_direction"] | null
           distance_meters?: number
+          eta_seconds?: number | null
           id?: string
+          phase?: number | null
+          severity?: number | null
           signal_id?: string
+          turn?: string | null
         }
         Relationships: [
           {
@@ -284,9 +740,85 @@ export type Database = {
           },
         ]
       }
+      token_live_eta: {
+        Row: {
+          ambulance_id: string
+          arrival_at: string
+          computed_at: string
+          eta_seconds: number
+          leg: string
+          remaining_meters: number
+          token_id: string
+        }
+        Insert: {
+          ambulance_id: string
+          arrival_at: string
+          computed_at?: string
+          eta_seconds: number
+          leg: string
+          remaining_meters: number
+          token_id: string
+        }
+        Update: {
+          ambulance_id?: string
+          arrival_at?: string
+          computed_at?: string
+          eta_seconds?: number
+          leg?: string
+          remaining_meters?: number
+          token_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "token_live_eta_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: true
+            referencedRelation: "emergency_tokens"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "token_live_eta_ambulance_id_fkey"
+            columns: ["ambulance_id"]
+            isOneToOne: false
+            referencedRelation: "ambulances"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      token_status_transitions: {
+        Row: {
+          action: string
+          from_status: string | null
+          id: string
+          roles: Database["public"]["Enums"]["user_role"][]
+          service_allowed: boolean
+          to_status: string
+        }
+        Insert: {
+          action: string
+          from_status?: string | null
+          id?: string
+          roles: Database["public"]["Enums"]["user_role"][]
+          service_allowed?: boolean
+          to_status: string
+        }
+        Update: {
+          action?: string
+          from_status?: string | null
+          id?: string
+          roles?: Database["public"]["Enums"]["user_role"][]
+          service_allowed?: boolean
+          to_status?: string
+        }
+        Relationships: []
+      }
       traffic_signals: {
         Row: {
           activated_by: string | null
+          active_phase: number | null
+          arbitration: Json | null
+          controller_address: string | null
+          controller_state: Json | null
           created_at: string
           current_status: Database["public"]["Enums"]["signal_status"]
           direction_ew: string
@@ -295,8 +827,12 @@ export type Database = {
           direction_we: string
           id: string
           last_updated: string
+          lease_expires_at: string | null
           location_lat: number
           location_lng: number
+          phase_changed_at: string | null
+          phase_plan: Json
+          phase_state: string
           priority_direction:
             | Database["public"]["Enums"]["route_direction"]
             | null
@@ -304,6 +840,10 @@ export type Database = {
         }
         Insert: {
           activated_by?: string | null
+          active_phase?: number | null
+          arbitration?: Json | null
+          controller_address?: string | null
+          controller_state?: Json | null
           created_at?: string
           current_status?: Database["public"]["Enums"]["signal_status"]
           direction_ew?: string
@@ -312,8 +852,12 @@ export type Database = {
           direction_we?: string
           id?: string
           last_updated?: string
+          lease_expires_at?: string | null
           location_lat: number
           location_lng: number
+          phase_changed_at?: string | null
+          phase_plan?: Json
+          phase_state?: string
           priority_direction?:
             | Database["public"]["Enums"]["route_direction"]
             | null
@@ -321,6 +865,10 @@ export type Database = {
         }
         Update: {
           activated_by?: string | null
+          active_phase?: number | null
+          arbitration?: Json | null
+          controller_address?: string | null
+          controller_state?: Json | null
           created_at?: string
           current_status?: Database["public"]["Enums"]["signal_status"]
           direction_ew?: string
@@ -329,8 +877,12 @@ export type Database = {
           direction_we?: string
           id?: string
           last_updated?: string
+          lease_expires_at?: string | null
           location_lat?: number
           location_lng?: number
+          phase_changed_at?: string | null
+          phase_plan?: Json
+          phase_state?: string
           priority_direction?:
             | Database["public"]["Enums"]["route_direction"]
             | null
@@ -351,6 +903,10 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      accept_emergency_token: {
+        Args: { p_bed_type: string; p_eta_seconds: number; p_token_id: string }
+        Returns: undefined
+      }
       calculate_distance: {
         Args: { lat1: number; lat2: number; lng1: number; lng2: number }
         Returns: number
@@ -366,6 +922,10 @@ export type Database = {
         Args: { _user_id: string }
         Returns: boolean
       }
+      release_expired_signal_leases: {
+        Args: never
+        Returns: number
+      }
     }
     Enums: {
       emergency_status: "inactive" | "active" | "responding"
@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useEmergencyTokens } from '@/hooks/useEmergencyTokens';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -14,7 +15,9 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { AlertTriangle, LogOut, UserPlus, Ambulance, Shield, CheckCircle, XCircle, Link2, RefreshCw, Eye, MapPin, Clock, Mail, User, Trash2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { Profile, Ambulance as AmbulanceType } from '@/types/database';
+import EmergencyTypeCatalogManager from '@/components/EmergencyTypeCatalogManager';
+import { Profile, Ambulance as AmbulanceType, CareLevel } from '@/types/database';
+import { CARE_LEVEL_LABELS } from '@/services/triage';
 
 interface DriverWithAmbulance extends Profile {
   ambulance?: AmbulanceType | null;
@@ -24,6 +27,7 @@ export default function AdminDashboard() {
   const navigate = useNavigate();
   const { user, profile, loading, signOut } = useAuth();
   const { toast } = useToast();
+  const { tokens } = useEmergencyTokens();
   
   const [drivers, setDrivers] = useState<DriverWithAmbulance[]>([]);
   const [ambulances, setAmbulances] = useState<AmbulanceType[]>([]);
@@ -95,13 +99,14 @@ export default function AdminDashboard() {
         const ambulance = ambulancesData?.find(a => a.driver_id === driver.id);
         return {
           ...driver,
-          ambulance: ambulance ? { ...ambulance, vehicle_health: (ambulance as any).vehicle_health || 'good' } : null
+          ambulance: ambulance ? { ...ambulance, care_level: ambulance.care_level as CareLevel, vehicle_health: (ambulance as any).vehicle_health || 'good' } : null
         };
       });
 
       setDrivers(driversWithAmbulances);
       setAmbulances((ambulancesData || []).map(ambulance => ({ 
         ...ambulance, 
+        care_level: ambulance.care_level as CareLevel,
         vehicle_health: (ambulance as any).vehicle_health || 'good' 
       })));
     } catch (error) {
@@ -354,6 +359,31 @@ export default function AdminDashboard() {
     }
   };
 
+  // Crew level decides which emergencies dispatchers send the ambulance to first
+  const handleSetCareLevel = async (ambulance: AmbulanceType, careLevel: CareLevel) => {
+    try {
+      const { error } = await supabase
+        .from('ambulances')
+        .update({ care_level: careLevel })
+        .eq('id', ambulance.id);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Care Level Updated',
+        description: `${ambulance.vehicle_number} is now ${CARE_LEVEL_LABELS[careLevel]}.`,
+      });
+
+      fetchData();
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update care level',
+        variant: 'destructive',
+      });
+    }
+  };
+
   const handleDeleteDriver = async (driver: DriverWithAmbulance) => {
     if (!confirm(`Are you sure you want to delete ${driver.full_name || driver.email}? This action cannot be undone.`)) {
       return;
@@ -444,6 +474,10 @@ export default function AdminDashboard() {
   // Get ambulances that are not assigned to any driver (driver_id is null or undefined)
   const unassignedAmbulances = ambulances.filter(a => !a.driver_id);
   const driversWithoutAmbulance = drivers.filter(d => !d.ambulance);
+  // Emergencies no hospital took: flagged by the acceptance SLA (routed ones included) or out of re-dispatches
+  const flaggedTokens = tokens.filter(t =>
+    (t.escalated_at || (t.sla_stage === 'admin' && t.awaiting_since)) && !['completed', 'cancelled', 'declined'].includes(t.status)
+  );
 
   return (
     <div className="min-h-screen bg-slate-900">
@@ -549,6 +583,12 @@ export default function AdminDashboard() {
             <TabsTrigger value="ambulances" className="data-[state=active]:bg-amber-600">
               Ambulances ({ambulances.length})
             </TabsTrigger>
+            <TabsTrigger value="flagged" className="data-[state=active]:bg-amber-600">
+              Flagged Emergencies ({flaggedTokens.length})
+            </TabsTrigger>
+            <TabsTrigger value="emergency-types" className="data-[state=active]:bg-amber-600">
+              Emergency Types
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="drivers">
@@ -731,6 +771,7 @@ export default function AdminDashboard() {
                       <TableRow className="border-slate-700">
                         <TableHead className="text-slate-300">Vehicle Number</TableHead>
                         <TableHead className="text-slate-300">Assigned Driver</TableHead>
+                        <TableHead className="text-slate-300">Care Level</TableHead>
                         <TableHead className="text-slate-300">Status</TableHead>
                         <TableHead className="text-slate-300">Actions</TableHead>
                       </TableRow>
@@ -760,6 +801,21 @@ export default function AdminDashboard() {
                                 </Badge>
                               )}
                             </TableCell>
+                            <TableCell onClick={(e) => e.stopPropagation()}>
+                              <Select
+                                value={ambulance.care_level}
+                                onValueChange={(value) => handleSetCareLevel(ambulance, value as CareLevel)}
+                              >
+                                <SelectTrigger className="w-24 bg-slate-700/50 border-slate-600 text-white">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {(Object.keys(CARE_LEVEL_LABELS) as CareLevel[]).map(level => (
+                                    <SelectItem key={level} value={level}>{level.toUpperCase()}</SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
                             <TableCell>
                               <Badge 
                                 className={
@@ -823,6 +879,64 @@ export default function AdminDashboard() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="flagged">
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="text-white">Flagged Emergencies</CardTitle>
+                <CardDescription className="text-slate-400">
+                  Emergencies no hospital accepted in time, waiting for a dispatcher
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {flaggedTokens.length === 0 ? (
+                  <div className="text-center py-8 text-slate-400">
+                    No flagged emergencies.
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="border-slate-700">
+                        <TableHead className="text-slate-300">Token</TableHead>
+                        <TableHead className="text-slate-300">Emergency</TableHead>
+                        <TableHead className="text-slate-300">Pickup</TableHead>
+                        <TableHead className="text-slate-300">Waiting Since</TableHead>
+                        <TableHead className="text-slate-300">Reason</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {flaggedTokens.map((token) => (
+                        <TableRow key={token.id} className="border-slate-700">
+                          <TableCell className="font-mono text-white">{token.token_code}</TableCell>
+                          <TableCell className="text-slate-300">{token.medical_keyword || token.emergency_type || 'Unknown'}</TableCell>
+                          <TableCell className="text-slate-300">
+                            {token.pickup_address || `${token.pickup_lat.toFixed(4)}, ${token.pickup_lng.toFixed(4)}`}
+                          </TableCell>
+                          <TableCell className="text-slate-300">
+                            <span className="flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {new Date(token.awaiting_since ?? token.created_at).toLocaleTimeString()}
+                            </span>
+                          </TableCell>
+                          <TableCell>
+                            <Badge className="bg-red-500/20 text-red-400 border-red-500/50">
+                              {token.escalated_at
+                                ? `Declined by ${token.declined_hospital_ids.length} hospital(s)`
+                                : 'Not accepted in time'}
+                            </Badge>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="emergency-types">
+            <EmergencyTypeCatalogManager />
+          </TabsContent>
         </Tabs>
 
         {/* Link Ambulance Dialog */}
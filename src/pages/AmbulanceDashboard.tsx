@@ -12,6 +12,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { AlertTriangle, MapPin, Navigation, LogOut, Power, Radio, Ticket, Play, CheckCircle, X, Route, ExternalLink, User, Building2, Heart } from 'lucide-react';
 import Map from '@/components/Map';
 import TrafficSignalStatusPanel from '@/components/TrafficSignalStatusPanel';
+import RouteSimulatorControls from '@/components/RouteSimulatorControls';
+import PatientCareReportForm from '@/components/PatientCareReportForm';
+import TriageQuestionnaire from '@/components/TriageQuestionnaire';
+import TriageBadge from '@/components/TriageBadge';
+import { useRouteSimulator } from '@/hooks/useRouteSimulator';
+import { useRouteReroutes } from '@/hooks/useRouteReroutes';
+import { useTokenTransitions } from '@/hooks/useTokenTransitions';
+import { useEmergencyTypes } from '@/hooks/useEmergencyTypes';
+import { TokenAction, TriageAnswers } from '@/types/database';
+import { CARE_LEVEL_LABELS, askedTriageAnswers, requiredCareLevel, triagePriority } from '@/services/triage';
+import { FALLBACK_KEYWORD } from '@/services/emergencyTypes';
 import { toast } from 'sonner';
 import MediBot from "@/components/medibot";
 
@@ -41,8 +52,8 @@ export interface Ambulance {
 export default function AmbulanceDashboard() {
   const navigate = useNavigate();
   const { user, profile, loading: authLoading, signOut } = useAuth();
-  const { ambulance, loading: ambLoading, updateLocation, isSimulating, startSimulation, stopSimulation } = useAmbulance();
-  const { signals, checkSignalsForAmbulance } = useTrafficSignals();
+  const { ambulance, loading: ambLoading, updateLocation } = useAmbulance();
+  const { signals } = useTrafficSignals();
   
   const { 
     activeToken, 
@@ -51,30 +62,26 @@ export default function AmbulanceDashboard() {
     arrivedAtPatient, 
     startToHospital, 
     completeEmergency, 
-    cancelEmergency
+    cancelEmergency,
+    dismissArrivalProposal
   } = useEmergencyTokens();
+  const { can } = useTokenTransitions();
   
   const [watchId, setWatchId] = useState<number | null>(null);
   const lastPositionRef = useRef<{ lat: number; lng: number; time: number } | null>(null);
+  // While the route simulator drives, real GPS fixes are ignored
+  const simulatingRef = useRef(false);
   
   // Emergency creation state
   const [showLocationPicker, setShowLocationPicker] = useState(false);
   const [pickupLocation, setPickupLocation] = useState<{ lat: number; lng: number; address?: string } | null>(null);
   const [emergencyType, setEmergencyType] = useState<string>('');
   const [customEmergencyType, setCustomEmergencyType] = useState<string>('');
+  const [triageAnswers, setTriageAnswers] = useState<TriageAnswers>({});
   const [isCreatingToken, setIsCreatingToken] = useState(false);
 
-  const emergencyTypes = [
-    { id: 'cardiac', label: 'Cardiac Emergency (Heart Attack)', keyword: 'Cardiac', icon: '❤️' },
-    { id: 'accident', label: 'Accident / Trauma', keyword: 'Trauma', icon: '🚗' },
-    { id: 'stroke', label: 'Stroke / Neurological Emergency', keyword: 'Neuro', icon: '🧠' },
-    { id: 'cancer', label: 'Cancer-related Emergency', keyword: 'Oncology', icon: '🎗️' },
-    { id: 'pregnancy', label: 'Pregnancy / Delivery', keyword: 'Maternity', icon: '👶' },
-    { id: 'respiratory', label: 'Respiratory Distress', keyword: 'Pulmonary', icon: '🫁' },
-    { id: 'pediatric', label: 'Pediatric Emergency', keyword: 'Pediatric', icon: '👶' },
-    { id: 'general', label: 'General Emergency', keyword: 'General', icon: '🏥' },
-    { id: 'custom', label: 'Custom Emergency Type', keyword: 'Custom', icon: '✏️' }
-  ];
+  const { types: allEmergencyTypes, activeTypes: emergencyTypes } = useEmergencyTypes();
+  const selectedType = emergencyTypes.find(t => t.id === emergencyType);
 
   // Auth redirect
   useEffect(() => {
@@ -92,6 +99,7 @@ export default function AmbulanceDashboard() {
     if (isJourneyActive && !watchId) {
       const id = navigator.geolocation.watchPosition(
         (position) => {
+          if (simulatingRef.current) return;
           const now = Date.now();
           let speed = (position.coords.speed ?? 0) * 3.6;
 
@@ -151,32 +159,46 @@ export default function AmbulanceDashboard() {
     };
   }, [activeToken?.status]);
 
-  // Check signals when ambulance moves during active journey
+  // Reroutes are only visible to this ambulance's driver; the new route arrives with the token
+  const { latestReroute } = useRouteReroutes();
   useEffect(() => {
-    if (ambulance && (activeToken?.status === 'in_progress' || activeToken?.status === 'to_hospital')) {
-      checkSignalsForAmbulance(ambulance);
-    }
-  }, [ambulance?.current_lat, ambulance?.current_lng, activeToken?.status]);
-
-  // Simulated movement
+    if (!latestReroute) return;
+    toast.info('New route calculated', {
+      description: 'You left the planned route. Follow the updated route on the map.'
+    });
+  }, [latestReroute]);
+
+  // A declining hospital hands the emergency on; the new hospital and route come with the token
+  const redispatchCountRef = useRef<number | null>(null);
   useEffect(() => {
-    if (!isSimulating || !ambulance) return;
+    const count = activeToken?.redispatch_count ?? null;
+    if (count !== null && redispatchCountRef.current !== null && count > redispatchCountRef.current) {
+      toast.info('Destination hospital changed', {
+        description: `${activeToken?.hospital_name ?? 'Another hospital'} will receive the patient.`
+      });
+    }
+    redispatchCountRef.current = count;
+  }, [activeToken?.redispatch_count, activeToken?.hospital_name]);
 
-    const interval = setInterval(() => {
-      const newLat = ambulance.current_lat + (Math.random() - 0.3) * 0.001;
-      const newLng = ambulance.current_lng + (Math.random() - 0.3) * 0.001;
-      const heading = Math.random() * 360;
-      const speed = 40 + Math.random() * 30;
-      updateLocation(newLat, newLng, heading, speed);
-    }, 2000);
+  // Leg the ambulance is currently driving: to the patient, then to the hospital.
+  // Signal preemption itself runs in the server-side controller from our position updates.
+  const activeRoute = activeToken?.status === 'in_progress'
+    ? activeToken.route_to_patient
+    : activeToken?.status === 'to_hospital'
+      ? activeToken.route_to_hospital
+      : null;
 
-    return () => clearInterval(interval);
-  }, [isSimulating, ambulance]);
+  // Simulated GPS that drives the active leg's route
+  const simulator = useRouteSimulator(activeRoute?.coordinates ?? null, updateLocation);
+  simulatingRef.current = simulator.isRunning;
 
   const handleLocationSelect = (lat: number, lng: number, address?: string) => {
     setPickupLocation({ lat, lng, address });
   };
 
+  const newTokenPriority = triagePriority(triageAnswers);
+  const needsAls = newTokenPriority !== null && requiredCareLevel(newTokenPriority, selectedType?.care_level ?? null) === 'als';
+
   const handleCreateToken = async () => {
     if (!ambulance || !pickupLocation || !emergencyType) {
       toast.error('Please select emergency type and pickup location');
@@ -188,6 +210,16 @@ export default function AmbulanceDashboard() {
       return;
     }
 
+    const priority = triagePriority(triageAnswers);
+    if (!priority) {
+      toast.error('Please complete the triage questions');
+      return;
+    }
+
+    // Hand-typed emergencies are matched to hospitals as general ones
+    const displayType = emergencyType === 'custom' ? customEmergencyType.trim() : selectedType?.label;
+    const displayKeyword = emergencyType === 'custom' ? FALLBACK_KEYWORD : selectedType?.keyword;
+
     setIsCreatingToken(true);
     try {
       const token = await createToken(
@@ -196,14 +228,13 @@ export default function AmbulanceDashboard() {
         pickupLocation.lng,
         pickupLocation.address,
         ambulance.current_lat,
-        ambulance.current_lng
+        ambulance.current_lng,
+        displayType,
+        displayKeyword,
+        { priority, answers: askedTriageAnswers(triageAnswers) }
       );
 
       if (token) {
-        const selectedType = emergencyTypes.find(t => t.id === emergencyType);
-        const displayType = emergencyType === 'custom' ? customEmergencyType : selectedType?.label;
-        const displayKeyword = emergencyType === 'custom' ? customEmergencyType : selectedType?.keyword;
-        
         toast.success(`Emergency Created: ${token.token_code}`, {
           description: `${displayType} - ${displayKeyword}`
         });
@@ -211,6 +242,7 @@ export default function AmbulanceDashboard() {
         setPickupLocation(null);
         setEmergencyType('');
         setCustomEmergencyType('');
+        setTriageAnswers({});
       } else {
         toast.error('Failed to create emergency token');
       }
@@ -236,7 +268,11 @@ export default function AmbulanceDashboard() {
   const handleArrivedAtPatient = async () => {
     if (!activeToken) return;
 
-    const success = await arrivedAtPatient(activeToken.id);
+    const proposal = activeToken.arrival_proposal;
+    const success = await arrivedAtPatient(
+      activeToken.id,
+      proposal?.stop === 'patient' ? proposal.entered_at : undefined
+    );
     if (success) {
       toast.success('Arrived at Patient Location!', {
         description: 'Patient pickup confirmed.'
@@ -258,12 +294,22 @@ export default function AmbulanceDashboard() {
   const handleCompleteEmergency = async () => {
     if (!activeToken || !ambulance) return;
 
-    const success = await completeEmergency(activeToken.id, ambulance.id);
+    const proposal = activeToken.arrival_proposal;
+    const success = await completeEmergency(
+      activeToken.id,
+      ambulance.id,
+      proposal?.stop === 'hospital' ? proposal.entered_at : undefined
+    );
     if (success) {
       toast.success('Arrived at Hospital - Emergency Completed!');
     }
   };
 
+  const handleDismissArrival = async () => {
+    if (!activeToken) return;
+    await dismissArrivalProposal(activeToken.id);
+  };
+
   const handleCancelEmergency = async () => {
     if (!activeToken || !ambulance) return;
 
@@ -302,6 +348,8 @@ export default function AmbulanceDashboard() {
   }
 
   const hasActiveEmergency = !!activeToken;
+  // Buttons follow token_status_transitions, the same table the database enforces
+  const canAct = (action: TokenAction) => !!activeToken && can(activeToken.status, action);
   const isPendingAssignment = activeToken?.status === 'pending';
   const isAccepted = activeToken?.status === 'assigned';
   const hasRouteSelected = activeToken?.status === 'route_selected';
@@ -406,6 +454,7 @@ export default function AmbulanceDashboard() {
                   </CardDescription>
 
                   <div className="mt-2 flex flex-wrap gap-2">
+                    <TriageBadge token={activeToken} emergencyTypes={allEmergencyTypes} />
                     {isPendingAssignment && (
                       <Badge
                         variant="outline"
@@ -468,6 +517,11 @@ export default function AmbulanceDashboard() {
                       Destination Hospital
                     </p>
                     <p className="font-medium">{activeToken.hospital_name}</p>
+                    <p className={`text-xs ${activeToken.accepted_at ? 'text-success' : 'text-muted-foreground'}`}>
+                      {activeToken.accepted_at
+                        ? `✓ Accepted · ${activeToken.reserved_bed_type === 'icu' ? 'ICU' : 'General'} bed reserved`
+                        : 'Waiting for the hospital to accept'}
+                    </p>
                     {activeToken.route_to_hospital && (
                       <div className="flex gap-2 mt-1 text-xs text-muted-foreground">
                         <span>{((activeToken.route_to_hospital_distance_meters || 0) / 1000).toFixed(1)} km</span>
@@ -536,51 +590,87 @@ export default function AmbulanceDashboard() {
               </div>
 
 
+              {/* Geofence arrival awaiting confirmation */}
+              {activeToken.arrival_proposal && (isGoingToPatient || isGoingToHospital) && (
+                <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/30 flex flex-col sm:flex-row sm:items-center gap-3">
+                  <div className="flex-1">
+                    <p className="font-medium flex items-center gap-2">
+                      <MapPin className="w-4 h-4 text-green-600" />
+                      Looks like you have arrived at the {activeToken.arrival_proposal.stop === 'patient' ? 'patient' : 'hospital'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Inside the geofence since {new Date(activeToken.arrival_proposal.entered_at).toLocaleTimeString()}. Confirming records that time.
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      className="bg-green-600 hover:bg-green-700"
+                      onClick={activeToken.arrival_proposal.stop === 'patient' ? handleArrivedAtPatient : handleCompleteEmergency}
+                    >
+                      <CheckCircle className="w-4 h-4 mr-1" />
+                      Confirm
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={handleDismissArrival}>
+                      Not yet
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {/* Action Buttons */}
               <div className="flex flex-col sm:flex-row flex-wrap gap-2 sm:gap-3">
-                {hasRouteSelected && (
+                {canAct('start_journey') && (
                   <Button variant="emergency" size="lg" onClick={handleStartJourney} className="w-full sm:w-auto">
                     <Play className="w-5 h-5 mr-2" />
                     <span className="hidden sm:inline">START JOURNEY TO PATIENT</span>
                     <span className="sm:hidden">START JOURNEY</span>
                   </Button>
                 )}
-                {isGoingToPatient && (
+                {canAct('arrive_at_patient') && (
                   <Button variant="default" size="lg" onClick={handleArrivedAtPatient} className="bg-green-600 hover:bg-green-700 w-full sm:w-auto">
                     <CheckCircle className="w-5 h-5 mr-2" />
                     <span className="hidden sm:inline">ARRIVED AT PATIENT</span>
                     <span className="sm:hidden">ARRIVED</span>
                   </Button>
                 )}
-                {isAtPatient && (
+                {canAct('start_to_hospital') && (
                   <Button variant="emergency" size="lg" onClick={handleStartToHospital} className="w-full sm:w-auto">
                     <Play className="w-5 h-5 mr-2" />
                     <span className="hidden sm:inline">START TO HOSPITAL</span>
                     <span className="sm:hidden">TO HOSPITAL</span>
                   </Button>
                 )}
-                {isGoingToHospital && (
+                {canAct('complete') && (
                   <Button variant="default" size="lg" onClick={handleCompleteEmergency} className="bg-green-600 hover:bg-green-700 w-full sm:w-auto">
                     <CheckCircle className="w-5 h-5 mr-2" />
                     <span className="hidden sm:inline">ARRIVED AT HOSPITAL</span>
                     <span className="sm:hidden">ARRIVED</span>
                   </Button>
                 )}
-                <Button variant="outline" onClick={handleCancelEmergency} className="w-full sm:w-auto">
-                  <X className="w-4 h-4 mr-2" />
-                  Cancel
-                </Button>
+                {canAct('cancel') && (
+                  <Button variant="outline" onClick={handleCancelEmergency} className="w-full sm:w-auto">
+                    <X className="w-4 h-4 mr-2" />
+                    Cancel
+                  </Button>
+                )}
               </div>
             </CardContent>
           </Card>
         )}
 
+        {/* Patient care report, from first contact until handover at the hospital */}
+        {activeToken && (activeToken.status === 'at_patient' || activeToken.status === 'to_hospital') && (
+          <PatientCareReportForm key={activeToken.id} token={activeToken} />
+        )}
+
         {/* Traffic Signal Status Panel - Only show when driver is on duty (active emergency) */}
         {ambulance && hasActiveEmergency && (
           <TrafficSignalStatusPanel
             signals={signals}
             ambulance={ambulance}
             isActive={hasActiveEmergency}
+            route={activeRoute}
           />
         )}
 
@@ -628,6 +718,12 @@ export default function AmbulanceDashboard() {
                             </div>
                           </SelectItem>
                         ))}
+                        <SelectItem value="custom">
+                          <div className="flex items-center gap-2">
+                            <span>✏️</span>
+                            <span>Custom Emergency Type</span>
+                          </div>
+                        </SelectItem>
                       </SelectContent>
                     </Select>
                     
@@ -646,7 +742,7 @@ export default function AmbulanceDashboard() {
                     
                     {emergencyType && emergencyType !== 'custom' && (
                       <div className="text-xs text-muted-foreground">
-                        Medical Keyword: <Badge variant="outline">{emergencyTypes.find(t => t.id === emergencyType)?.keyword}</Badge>
+                        Medical Keyword: <Badge variant="outline">{selectedType?.keyword}</Badge>
                       </div>
                     )}
                     {emergencyType === 'custom' && customEmergencyType && (
@@ -656,10 +752,17 @@ export default function AmbulanceDashboard() {
                     )}
                   </div>
 
+                  <TriageQuestionnaire answers={triageAnswers} onChange={setTriageAnswers} />
+                  {needsAls && ambulance?.care_level === 'bls' && (
+                    <p className="text-xs text-warning">
+                      {selectedType?.care_level === 'als' ? selectedType.label : `P${newTokenPriority}`} calls for {CARE_LEVEL_LABELS.als}; this unit is {CARE_LEVEL_LABELS.bls}. Request ALS backup.
+                    </p>
+                  )}
+
                   <div className="flex gap-3">
                     <Button
                       onClick={handleCreateToken}
-                      disabled={!pickupLocation || !emergencyType || (emergencyType === 'custom' && !customEmergencyType.trim()) || isCreatingToken}
+                      disabled={!pickupLocation || !emergencyType || (emergencyType === 'custom' && !customEmergencyType.trim()) || !newTokenPriority || isCreatingToken}
                       className="flex-1"
                     >
                       <Ticket className="w-4 h-4 mr-2" />
@@ -672,6 +775,7 @@ export default function AmbulanceDashboard() {
                         setPickupLocation(null);
                         setEmergencyType('');
                         setCustomEmergencyType('');
+                        setTriageAnswers({});
                       }}
                     >
                       Cancel
@@ -713,14 +817,6 @@ export default function AmbulanceDashboard() {
               </div>
             
               <div className="flex gap-2">
-                <Button
-                  size="sm"
-                  variant={isSimulating ? 'destructive' : 'outline'}
-                  onClick={isSimulating ? stopSimulation : startSimulation}
-                  className="text-xs sm:text-sm"
-                >
-                  {isSimulating ? 'Stop Simulation' : 'Simulate Movement'}
-                </Button>
                 <Button
                   size="sm"
                   variant="outline"
@@ -750,6 +846,17 @@ export default function AmbulanceDashboard() {
                   📍 Share Location
                 </Button>
               </div>
+
+              <RouteSimulatorControls
+                simulator={simulator}
+                legLabel={
+                  activeToken?.status === 'in_progress'
+                    ? 'To patient'
+                    : activeToken?.status === 'to_hospital'
+                      ? 'To hospital'
+                      : null
+                }
+              />
               
               {/* Ambulance Health */}
               <Card>
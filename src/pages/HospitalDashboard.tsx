@@ -1,10 +1,18 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { useAmbulanceRealtime } from '@/hooks/useAmbulanceRealtime';
 import { useTrafficSignals } from '@/hooks/useTrafficSignals';
-import { useEmergencyTokens, RouteData } from '@/hooks/useEmergencyTokens';
+import { useEmergencyTokens, EmergencyToken, RouteData, HospitalEta, TokenTriage } from '@/hooks/useEmergencyTokens';
 import { useHospitals, Hospital } from '@/hooks/useHospitals';
+import { useLiveEtas } from '@/hooks/useLiveEtas';
+import { useRouteReroutes } from '@/hooks/useRouteReroutes';
+import { useTokenTransitions } from '@/hooks/useTokenTransitions';
+import { useRedispatch } from '@/hooks/useRedispatch';
+import { useEncounterExport } from '@/hooks/useEncounterExport';
+import { useEmergencyTypes } from '@/hooks/useEmergencyTypes';
+import { BedType, SlaStage, isCurrentEta, liveEtaSeconds } from '@/types/database';
+import { byTriagePriority } from '@/services/triage';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -13,6 +21,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { 
   Building2, 
   MapPin, 
@@ -37,15 +46,27 @@ import {
   Settings,
   Bed,
   Activity,
-  Heart
+  Heart,
+  History,
+  ListOrdered,
+  CheckCircle,
+  FileJson
 } from 'lucide-react';
 import Map from '@/components/Map';
 import TwoLegRouteMap from '@/components/TwoLegRouteMap';
 import HospitalEmergencyCreator from '@/components/HospitalEmergencyCreator';
 import EmergencyDisplay from '@/components/EmergencyDisplay';
 import AmbulanceFleetManagement from '@/components/AmbulanceFleetManagement';
+import TripReplay from '@/components/TripReplay';
+import LiveEtaBadge from '@/components/LiveEtaBadge';
+import TriageBadge from '@/components/TriageBadge';
+import PatientCareReportCard from '@/components/PatientCareReportCard';
+import TokenTimeline from '@/components/TokenTimeline';
 import { toast } from 'sonner';
 
+// Most recent completed trips listed for replay
+const COMPLETED_TRIPS_SHOWN = 20;
+
 type NavItem = 'dashboard' | 'ambulances' | 'tokens' | 'livemap' | 'create-emergency' | 'hospitals' | 'network';
 
 export default function HospitalDashboard() {
@@ -53,13 +74,22 @@ export default function HospitalDashboard() {
   const { user, profile, loading: authLoading, signOut } = useAuth();
   const { ambulances, activeEmergencies, loading: ambLoading } = useAmbulanceRealtime();
   const { signals } = useTrafficSignals();
-  const { pendingTokens, assignedTokens, activeTokens, assignHospitalWithRoutes, declineEmergency, createHospitalEmergency, releaseAmbulance } = useEmergencyTokens();
-  const { hospitals, loading: hospitalsLoading } = useHospitals();
+  const { tokens, pendingTokens, assignedTokens, activeTokens, assignHospitalWithRoutes, acceptEmergency, declineEmergency, redispatchEmergency, escalateEmergency, createHospitalEmergency, releaseAmbulance } = useEmergencyTokens();
+  const { can } = useTokenTransitions();
+  const { planRedispatch } = useRedispatch();
+  const { exportEncounter, exportingTokenId } = useEncounterExport();
+  const { hospitals, loading: hospitalsLoading, demoMode, refreshCapacities, reportCapacity } = useHospitals();
+  const { etas } = useLiveEtas();
+  const { latestReroute } = useRouteReroutes();
+  const { types: emergencyTypes } = useEmergencyTypes();
   const [currentTime, setCurrentTime] = useState(new Date());
   const [activeNav, setActiveNav] = useState<NavItem>('dashboard');
   const [selectedTokenForRoute, setSelectedTokenForRoute] = useState<string | null>(null);
   const [selectedTokenForDisplay, setSelectedTokenForDisplay] = useState<string | null>(null);
   const [declineTokenId, setDeclineTokenId] = useState<string | null>(null);
+  const [acceptingTokenId, setAcceptingTokenId] = useState<string | null>(null);
+  const [replayTokenId, setReplayTokenId] = useState<string | null>(null);
+  const [timelineTokenId, setTimelineTokenId] = useState<string | null>(null);
   const [declineReason, setDeclineReason] = useState('');
   const [selectedRegion, setSelectedRegion] = useState<string>('all');
   const [showAddHospital, setShowAddHospital] = useState(false);
@@ -72,6 +102,16 @@ export default function HospitalDashboard() {
   });
   const [selectedHospitalId, setSelectedHospitalId] = useState<string | null>(null);
   const [selectedAmbulanceId, setSelectedAmbulanceId] = useState<string | null>(null);
+  const [capacityForm, setCapacityForm] = useState({
+    total_beds: '',
+    available_beds: '',
+    icu_beds: '',
+    icu_available: ''
+  });
+  const [savingCapacity, setSavingCapacity] = useState(false);
+
+  const completedTokens = tokens.filter(t => t.status === 'completed');
+  const replayToken = tokens.find(t => t.id === replayTokenId) ?? null;
 
   const navItems = [
     { id: 'dashboard' as NavItem, icon: LayoutDashboard, label: 'Dashboard' },
@@ -94,6 +134,43 @@ export default function HospitalDashboard() {
     return () => clearInterval(interval);
   }, []);
 
+  // Tell staff when the backend gave an ambulance a new route; token updates must not re-announce it
+  const tokensRef = useRef(tokens);
+  tokensRef.current = tokens;
+  useEffect(() => {
+    if (!latestReroute) return;
+    const token = tokensRef.current.find(t => t.id === latestReroute.token_id);
+    toast.warning(`${token?.token_code ?? 'Ambulance'} rerouted`, {
+      description: `Left the planned route ${latestReroute.leg === 'to_patient' ? 'to the patient' : 'to the hospital'}. New route: ${(latestReroute.new_distance_meters / 1000).toFixed(1)} km, ${Math.round(latestReroute.new_duration_seconds / 60)} min`
+    });
+  }, [latestReroute]);
+
+  // The backend's SLA monitor escalates tokens no hospital took in time; alert on every new step
+  const slaStagesRef = useRef<Record<string, SlaStage | null>>({});
+  useEffect(() => {
+    const previous = slaStagesRef.current;
+    slaStagesRef.current = Object.fromEntries(tokens.map(t => [t.id, t.sla_stage]));
+
+    tokens.forEach(token => {
+      if (!token.sla_stage || !(token.id in previous) || previous[token.id] === token.sla_stage) return;
+      const waiting = `${token.emergency_type || 'Emergency'} waiting since ${new Date(token.awaiting_since ?? token.created_at).toLocaleTimeString()}`;
+
+      if (token.sla_stage === 'admin') {
+        toast.error(`${token.token_code} escalated to the admins`, { description: waiting });
+      } else if (token.sla_stage === 'widened' && token.status === 'pending') {
+        toast.error(`${token.token_code} opened to every hospital`, { description: `${waiting}. Any hospital can take it now.` });
+      } else {
+        // A token held by another hospital is theirs to act on; routed tokens are never widened
+        if (token.hospital_id && token.hospital_id !== user?.id) return;
+        toast.warning(`${token.token_code} is still waiting for a hospital`, { description: waiting });
+      }
+    });
+  }, [tokens, user?.id]);
+
+  // Minutes a token has been waiting for a hospital, for overdue badges
+  const waitingMinutes = (token: { awaiting_since: string | null; created_at: string }) =>
+    Math.floor((currentTime.getTime() - Date.parse(token.awaiting_since ?? token.created_at)) / 60000);
+
   if (authLoading || ambLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -154,10 +231,44 @@ export default function HospitalDashboard() {
       return;
     }
     
-    const success = await declineEmergency(declineTokenId, declineReason);
-    if (success) {
-      toast.success('Emergency request declined', {
-        description: 'The ambulance has been notified.'
+    const token = tokens.find(t => t.id === declineTokenId);
+    if (!token || !user) return;
+
+    // Once re-dispatch gave up, a decline is the dispatcher's final word and frees the ambulance.
+    // Tokens the acceptance SLA flagged still go on to the next hospital.
+    if (token.escalated_at) {
+      const success = await declineEmergency(token.id, declineReason);
+      if (success) {
+        toast.success('Emergency request declined', {
+          description: 'The ambulance has been notified.'
+        });
+        setDeclineTokenId(null);
+        setDeclineReason('');
+      } else {
+        toast.error('Failed to decline request');
+      }
+      return;
+    }
+
+    const plan = await planRedispatch(token, user.id);
+    if (plan.type === 'redispatch') {
+      if (await redispatchEmergency(token, declineReason, plan.target)) {
+        toast.success(`${token.token_code} re-dispatched`, {
+          description: `Sent on to ${plan.target.hospitalName}; the ambulance has the new route.`
+        });
+        setDeclineTokenId(null);
+        setDeclineReason('');
+      } else {
+        toast.error('Failed to decline request');
+      }
+      return;
+    }
+
+    if (await escalateEmergency(token, declineReason)) {
+      toast.warning(`${token.token_code} needs a dispatcher`, {
+        description: plan.why === 'limit'
+          ? 'Declined too many times to re-dispatch automatically.'
+          : 'No other hospital could be routed to. Assign it by hand.'
       });
       setDeclineTokenId(null);
       setDeclineReason('');
@@ -166,6 +277,35 @@ export default function HospitalDashboard() {
     }
   };
 
+  // Seconds until the ambulance reaches this hospital: the live ETA while a leg is driven,
+  // otherwise the planned legs still ahead
+  const expectedEtaSeconds = (token: EmergencyToken) => {
+    const toHospital = token.route_to_hospital_duration_seconds ?? token.hospital_eta_seconds ?? 0;
+    const live = etas.get(token.id);
+    if (isCurrentEta(live, token.status)) {
+      return live.leg === 'to_hospital' ? liveEtaSeconds(live) : liveEtaSeconds(live) + toHospital;
+    }
+    if (token.status === 'at_patient' || token.status === 'to_hospital') return toHospital;
+    return (token.route_to_patient_duration_seconds ?? 0) + toHospital;
+  };
+
+  const handleAcceptToken = async (token: EmergencyToken, bedType: BedType) => {
+    setAcceptingTokenId(token.id);
+    const success = await acceptEmergency(token, bedType, expectedEtaSeconds(token));
+    setAcceptingTokenId(null);
+
+    if (success) {
+      toast.success(`${token.token_code} accepted`, {
+        description: `${bedType === 'icu' ? 'ICU' : 'General'} bed reserved for the incoming patient.`
+      });
+    }
+  };
+
+  const handleExportEncounter = async (token: EmergencyToken) => {
+    const success = await exportEncounter(token, hospitals.find(h => h.id === token.hospital_id) ?? null);
+    if (!success) toast.error('Failed to export encounter');
+  };
+
   // Handle hospital-initiated emergency creation
   const handleCreateHospitalEmergency = async (
     ambulance: { id: string; vehicle_number: string; current_lat: number | null; current_lng: number | null },
@@ -176,7 +316,9 @@ export default function HospitalDashboard() {
     routeToPatient: RouteData,
     routeToHospital: RouteData,
     emergencyType?: string,
-    medicalKeyword?: string
+    medicalKeyword?: string,
+    hospitalEta?: HospitalEta,
+    triage?: TokenTriage
   ) => {
     if (!ambulance.current_lat || !ambulance.current_lng) {
       toast.error('Ambulance location not available');
@@ -201,7 +343,9 @@ export default function HospitalDashboard() {
       routeToPatient,
       routeToHospital,
       emergencyType || 'General Emergency',
-      medicalKeyword || 'General'
+      medicalKeyword || 'General',
+      hospitalEta,
+      triage
     );
 
     if (token) {
@@ -238,29 +382,7 @@ export default function HospitalDashboard() {
     ? hospitals 
     : hospitals.filter(h => h.address?.includes(selectedRegion));
 
-  // Mock hospital capacity data (in real app, this would come from API)
-  const getHospitalCapacity = (hospitalId: string) => {
-    const mockData = {
-      totalBeds: Math.floor(Math.random() * 200) + 50,
-      icuBeds: Math.floor(Math.random() * 30) + 10,
-    };
-    const occupiedBeds = Math.floor(mockData.totalBeds * (0.3 + Math.random() * 0.6));
-    const occupiedICU = Math.floor(mockData.icuBeds * (0.2 + Math.random() * 0.7));
-    const occupancyRate = Math.round((occupiedBeds / mockData.totalBeds) * 100);
-    
-    return {
-      ...mockData,
-      occupiedBeds,
-      availableBeds: mockData.totalBeds - occupiedBeds,
-      occupiedICU,
-      availableICU: mockData.icuBeds - occupiedICU,
-      occupancyRate,
-      loadLevel: occupancyRate < 60 ? 'low' : occupancyRate < 85 ? 'moderate' : 'critical',
-      incomingAmbulances: Math.random() > 0.7 ? Math.floor(Math.random() * 3) + 1 : 0
-    };
-  };
-
-  // Calculate network totals using capacity engine data
+  // Calculate network totals from reported capacity
   const networkStats = hospitals.reduce((acc, hospital) => {
     const capacity = hospital.capacity;
     if (!capacity) return acc;
@@ -270,9 +392,11 @@ export default function HospitalDashboard() {
       availableBeds: acc.availableBeds + capacity.available_beds,
       totalICU: acc.totalICU + capacity.icu_beds,
       availableICU: acc.availableICU + capacity.icu_available,
+      reservedBeds: acc.reservedBeds + capacity.reserved_beds,
+      reservedICU: acc.reservedICU + capacity.reserved_icu,
       incomingAmbulances: acc.incomingAmbulances + capacity.incoming_ambulances
     };
-  }, { totalBeds: 0, availableBeds: 0, totalICU: 0, availableICU: 0, incomingAmbulances: 0 });
+  }, { totalBeds: 0, availableBeds: 0, totalICU: 0, availableICU: 0, reservedBeds: 0, reservedICU: 0, incomingAmbulances: 0 });
 
   const networkOccupancyRate = networkStats.totalBeds > 0 
     ? Math.round(((networkStats.totalBeds - networkStats.availableBeds) / networkStats.totalBeds) * 100)
@@ -303,6 +427,42 @@ export default function HospitalDashboard() {
     setShowAddHospital(false);
   };
 
+  const ownCapacity = hospitals.find(h => h.id === user?.id)?.capacity;
+
+  const handleReportCapacity = async () => {
+    const report = {
+      total_beds: parseInt(capacityForm.total_beds || String(ownCapacity?.total_beds ?? ''), 10),
+      available_beds: parseInt(capacityForm.available_beds || String(ownCapacity?.available_beds ?? ''), 10),
+      icu_beds: parseInt(capacityForm.icu_beds || String(ownCapacity?.icu_beds ?? ''), 10),
+      icu_available: parseInt(capacityForm.icu_available || String(ownCapacity?.icu_available ?? ''), 10)
+    };
+
+    if (Object.values(report).some(value => isNaN(value) || value < 0)) {
+      toast.error('Please enter valid bed counts');
+      return;
+    }
+    if (report.available_beds > report.total_beds || report.icu_available > report.icu_beds) {
+      toast.error('Available beds cannot exceed total beds');
+      return;
+    }
+
+    setSavingCapacity(true);
+    const success = await reportCapacity(report);
+    setSavingCapacity(false);
+
+    if (success) {
+      toast.success('Capacity updated', {
+        description: 'All dispatchers now see your latest bed inventory.'
+      });
+      setCapacityForm({ total_beds: '', available_beds: '', icu_beds: '', icu_available: '' });
+    } else {
+      toast.error('Failed to update capacity');
+    }
+  };
+
+  const formatReportedAt = (updatedAt: string | null) =>
+    updatedAt ? new Date(updatedAt).toLocaleString() : 'Never';
+
   const selectedToken = [...pendingTokens, ...assignedTokens].find(t => t.id === selectedTokenForRoute);
 
   // Get ambulance location for the selected token
@@ -312,6 +472,103 @@ export default function HospitalDashboard() {
     return ambulances.find(a => a.id === token.ambulance_id);
   };
 
+  const toggleTimeline = (tokenId: string) =>
+    setTimelineTokenId(current => (current === tokenId ? null : tokenId));
+
+  const renderTimelineButton = (tokenId: string) => (
+    <Button size="sm" variant="ghost" onClick={() => toggleTimeline(tokenId)}>
+      <ListOrdered className="w-4 h-4 mr-1" />
+      {timelineTokenId === tokenId ? 'Hide history' : 'History'}
+    </Button>
+  );
+
+  const renderTimeline = (tokenId: string) => timelineTokenId === tokenId && (
+    <div className="mt-3 pt-3 border-t border-border">
+      <TokenTimeline tokenId={tokenId} />
+    </div>
+  );
+
+  // Acceptance state of a token routed to a hospital; the receiving hospital accepts here
+  const renderAcceptance = (token: EmergencyToken) => {
+    if (token.accepted_at) {
+      return (
+        <p className="text-success text-sm mt-2 flex items-center gap-1">
+          <CheckCircle className="w-4 h-4" />
+          Accepted · {token.reserved_bed_type === 'icu' ? 'ICU' : 'General'} bed reserved
+          {token.expected_arrival_at && ` · expected ${new Date(token.expected_arrival_at).toLocaleTimeString()}`}
+        </p>
+      );
+    }
+
+    if (!token.hospital_id || token.hospital_id !== user?.id) {
+      return (
+        <p className="text-muted-foreground text-sm mt-2">
+          Awaiting acceptance by {token.hospital_name || 'the hospital'}
+        </p>
+      );
+    }
+
+    const freeBeds = ownCapacity ? ownCapacity.available_beds - ownCapacity.reserved_beds : 0;
+    const freeIcu = ownCapacity ? ownCapacity.icu_available - ownCapacity.reserved_icu : 0;
+    return (
+      <div className="mt-3 p-3 rounded-lg border border-primary/30 bg-primary/5 space-y-2">
+        <p className="text-sm font-medium">Accept this patient and reserve a bed</p>
+        <div className="flex flex-wrap gap-2">
+          <Button
+            size="sm"
+            onClick={() => handleAcceptToken(token, 'general')}
+            disabled={acceptingTokenId === token.id || freeBeds < 1}
+          >
+            <Bed className="w-4 h-4 mr-1" />
+            General bed ({Math.max(0, freeBeds)} free)
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => handleAcceptToken(token, 'icu')}
+            disabled={acceptingTokenId === token.id || freeIcu < 1}
+          >
+            <Heart className="w-4 h-4 mr-1" />
+            ICU ({Math.max(0, freeIcu)} free)
+          </Button>
+        </div>
+        {!ownCapacity && (
+          <p className="text-xs text-muted-foreground">Report your bed inventory in the Network tab to accept patients.</p>
+        )}
+      </div>
+    );
+  };
+
+  const renderDeclineForm = () => (
+    <div className="space-y-3">
+      <Textarea
+        placeholder="Please provide a reason for declining this emergency request..."
+        value={declineReason}
+        onChange={(e) => setDeclineReason(e.target.value)}
+        className="min-h-[80px]"
+      />
+      <div className="flex gap-2">
+        <Button 
+          variant="destructive" 
+          onClick={handleDeclineToken}
+          disabled={!declineReason.trim()}
+          className="flex-1"
+        >
+          Confirm Decline
+        </Button>
+        <Button 
+          variant="outline" 
+          onClick={() => {
+            setDeclineTokenId(null);
+            setDeclineReason('');
+          }}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+
   const renderContent = () => {
 
     // Route Selection View (shows Emergency Analysis & Assignment)
@@ -362,17 +619,38 @@ export default function HospitalDashboard() {
               ) : (
                 <div className="grid gap-4">
                   {pendingTokens.map(token => (
-                    <Card key={token.id} className="border-emergency/30">
+                    <Card key={token.id} className={token.sla_stage ? 'border-destructive ring-2 ring-destructive/40' : 'border-emergency/30'}>
                       <CardContent className="p-4">
                         <div className="flex justify-between items-start mb-3">
                           <div>
                             <Badge variant="outline" className="text-lg font-mono">{token.token_code}</Badge>
+                            <TriageBadge token={token} emergencyTypes={emergencyTypes} className="ml-2" />
                             <p className="text-sm text-muted-foreground mt-1">
                               Created: {new Date(token.created_at).toLocaleTimeString()}
                             </p>
                           </div>
-                          <Badge variant="destructive">PENDING</Badge>
+                          <div className="flex items-center gap-2">
+                            {renderTimelineButton(token.id)}
+                            {token.sla_stage && (
+                              <Badge variant="outline" className="text-destructive border-destructive/40 animate-pulse">
+                                <Clock className="w-3 h-3 mr-1" />
+                                Overdue · {waitingMinutes(token)} min
+                              </Badge>
+                            )}
+                            <Badge variant="destructive">PENDING</Badge>
+                          </div>
                         </div>
+                        {(token.escalated_at || token.sla_stage === 'admin') && (
+                          <div className="mb-3 p-2 rounded-md bg-warning/10 border border-warning/30 text-sm">
+                            <p className="font-medium text-warning">Needs dispatcher</p>
+                            <p className="text-xs text-muted-foreground">
+                              {token.declined_hospital_ids.length > 0
+                                ? `Declined by ${token.declined_hospital_ids.length} hospital${token.declined_hospital_ids.length === 1 ? '' : 's'}`
+                                : 'No hospital accepted in time'}
+                              {token.decline_reason && ` · last reason: ${token.decline_reason}`}
+                            </p>
+                          </div>
+                        )}
                         <div className="mb-3">
                           <p className="text-sm text-muted-foreground">Patient Pickup Location:</p>
                           <p className="font-medium text-sm">{token.pickup_address || `${token.pickup_lat.toFixed(4)}, ${token.pickup_lng.toFixed(4)}`}</p>
@@ -391,50 +669,27 @@ export default function HospitalDashboard() {
                         </div>
                         
                         {/* Decline reason input */}
-                        {declineTokenId === token.id ? (
-                          <div className="space-y-3">
-                            <Textarea
-                              placeholder="Please provide a reason for declining this emergency request..."
-                              value={declineReason}
-                              onChange={(e) => setDeclineReason(e.target.value)}
-                              className="min-h-[80px]"
-                            />
-                            <div className="flex gap-2">
-                              <Button 
-                                variant="destructive" 
-                                onClick={handleDeclineToken}
-                                disabled={!declineReason.trim()}
-                                className="flex-1"
-                              >
-                                Confirm Decline
+                        {declineTokenId === token.id ? renderDeclineForm() : (
+                          <div className="flex gap-2">
+                            {can(token.status, 'share_routes') && (
+                              <Button onClick={() => setSelectedTokenForRoute(token.id)} variant="secondary" className="flex-1">
+                                <AlertTriangle className="w-4 h-4 mr-2" />
+                                Assign Hospital & Route
                               </Button>
+                            )}
+                            {can(token.status, 'decline') && (
                               <Button 
                                 variant="outline" 
-                                onClick={() => {
-                                  setDeclineTokenId(null);
-                                  setDeclineReason('');
-                                }}
+                                onClick={() => setDeclineTokenId(token.id)}
+                                className="text-destructive hover:text-destructive"
                               >
-                                Cancel
+                                <XCircle className="w-4 h-4 mr-1" />
+                                Decline
                               </Button>
-                            </div>
-                          </div>
-                        ) : (
-                          <div className="flex gap-2">
-                            <Button onClick={() => setSelectedTokenForRoute(token.id)} variant="secondary" className="flex-1">
-                              <AlertTriangle className="w-4 h-4 mr-2" />
-                              Assign Hospital & Route
-                            </Button>
-                            <Button 
-                              variant="outline" 
-                              onClick={() => setDeclineTokenId(token.id)}
-                              className="text-destructive hover:text-destructive"
-                            >
-                              <XCircle className="w-4 h-4 mr-1" />
-                              Decline
-                            </Button>
+                            )}
                           </div>
                         )}
+                        {renderTimeline(token.id)}
                       </CardContent>
                     </Card>
                   ))}
@@ -449,11 +704,23 @@ export default function HospitalDashboard() {
                 Route Assigned
               </h3>
               {assignedTokens.map(token => (
-                <Card key={token.id} className="border-primary/30">
+                <Card key={token.id} className={token.sla_stage && token.awaiting_since ? 'border-destructive ring-2 ring-destructive/40' : 'border-primary/30'}>
                   <CardContent className="p-4">
                     <div className="flex justify-between items-start mb-3">
-                      <Badge variant="outline" className="text-lg font-mono">{token.token_code}</Badge>
-                      <Badge className="bg-green-500">{token.status.replace(/_/g, ' ')}</Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-lg font-mono">{token.token_code}</Badge>
+                        <TriageBadge token={token} emergencyTypes={emergencyTypes} />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {renderTimelineButton(token.id)}
+                        {token.sla_stage && token.awaiting_since && (
+                          <Badge variant="outline" className="text-destructive border-destructive/40 animate-pulse">
+                            <Clock className="w-3 h-3 mr-1" />
+                            Overdue · {waitingMinutes(token)} min
+                          </Badge>
+                        )}
+                        <Badge className="bg-green-500">{token.status.replace(/_/g, ' ')}</Badge>
+                      </div>
                     </div>
                     <div className="grid gap-2 text-sm">
                       <div className="flex items-center gap-2">
@@ -475,6 +742,29 @@ export default function HospitalDashboard() {
                       )}
                     </div>
                     <p className="text-success text-sm mt-2">✓ Routes shared with ambulance</p>
+                    {token.status === 'route_selected' && renderAcceptance(token)}
+                    {token.redispatch_count > 0 && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        Re-dispatched after {token.redispatch_count} decline{token.redispatch_count === 1 ? '' : 's'}
+                        {token.decline_reason && ` · ${token.decline_reason}`}
+                      </p>
+                    )}
+                    {can(token.status, 'decline') && (
+                      <div className="mt-3">
+                        {declineTokenId === token.id ? renderDeclineForm() : (
+                          <Button 
+                            size="sm"
+                            variant="outline" 
+                            onClick={() => setDeclineTokenId(token.id)}
+                            className="text-destructive hover:text-destructive"
+                          >
+                            <XCircle className="w-4 h-4 mr-1" />
+                            Decline
+                          </Button>
+                        )}
+                      </div>
+                    )}
+                    {renderTimeline(token.id)}
                   </CardContent>
                 </Card>
               ))}
@@ -490,8 +780,23 @@ export default function HospitalDashboard() {
                 <Card key={token.id}>
                   <CardContent className="p-4">
                     <div className="flex justify-between items-start mb-3">
-                      <Badge variant="outline" className="text-lg font-mono">{token.token_code}</Badge>
-                      <Badge variant="destructive">{token.status.replace(/_/g, ' ').toUpperCase()}</Badge>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline" className="text-lg font-mono">{token.token_code}</Badge>
+                        <TriageBadge token={token} emergencyTypes={emergencyTypes} />
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {token.reroute_count > 0 && (
+                          <Badge variant="outline" className="text-warning border-warning/30">
+                            Rerouted{token.reroute_count > 1 && ` ×${token.reroute_count}`}
+                          </Badge>
+                        )}
+                        <Button size="sm" variant="outline" onClick={() => setReplayTokenId(token.id)}>
+                          <History className="w-4 h-4 mr-1" />
+                          Track
+                        </Button>
+                        {renderTimelineButton(token.id)}
+                        <Badge variant="destructive">{token.status.replace(/_/g, ' ').toUpperCase()}</Badge>
+                      </div>
                     </div>
                     <div className="grid gap-2 text-sm">
                       {token.status === 'in_progress' && (
@@ -503,6 +808,9 @@ export default function HospitalDashboard() {
                       {token.status === 'to_hospital' && (
                         <p className="text-blue-500">🏥 Ambulance heading to {token.hospital_name}...</p>
                       )}
+                      {isCurrentEta(etas.get(token.id), token.status) && (
+                        <LiveEtaBadge eta={etas.get(token.id)!} className="w-fit" />
+                      )}
                       {token.emergency_type && (
                         <div className="flex items-center gap-2">
                           <AlertTriangle className="w-4 h-4 text-muted-foreground" />
@@ -513,10 +821,63 @@ export default function HospitalDashboard() {
                         </div>
                       )}
                     </div>
+                    {renderAcceptance(token)}
+                    {token.status !== 'in_progress' && token.hospital_id === user?.id && <PatientCareReportCard token={token} />}
+                    {renderTimeline(token.id)}
                   </CardContent>
                 </Card>
               ))}
             </div>
+
+            {/* Completed trips, replayable for incident review */}
+            <div>
+              <h3 className="text-lg font-semibold mb-3 flex items-center gap-2">
+                <Badge variant="outline">{completedTokens.length}</Badge>
+                Completed Trips
+              </h3>
+              {completedTokens.length === 0 ? (
+                <p className="text-muted-foreground text-sm">No completed trips yet</p>
+              ) : (
+                <div className="grid gap-2">
+                  {completedTokens.slice(0, COMPLETED_TRIPS_SHOWN).map(token => (
+                    <div key={token.id} className="p-3 rounded-lg border border-border">
+                      <div className="flex items-center justify-between gap-3">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <span className="font-mono font-medium">{token.token_code}</span>
+                            {token.medical_keyword && (
+                              <Badge variant="outline" className="text-xs">{token.medical_keyword}</Badge>
+                            )}
+                          </div>
+                          <p className="text-xs text-muted-foreground truncate">
+                            {token.pickup_address || `${token.pickup_lat.toFixed(4)}, ${token.pickup_lng.toFixed(4)}`} → {token.hospital_name || 'Hospital'}
+                            {(token.arrived_at_hospital_at || token.completed_at) && ` · arrived ${new Date(token.arrived_at_hospital_at || token.completed_at!).toLocaleString()}`}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          {renderTimelineButton(token.id)}
+                          <Button size="sm" variant="outline" onClick={() => setReplayTokenId(token.id)}>
+                            <History className="w-4 h-4 mr-1" />
+                            Replay
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleExportEncounter(token)}
+                            disabled={exportingTokenId === token.id}
+                          >
+                            <FileJson className="w-4 h-4 mr-1" />
+                            FHIR
+                          </Button>
+                        </div>
+                      </div>
+                      {timelineTokenId === token.id && token.hospital_id === user?.id && <PatientCareReportCard token={token} />}
+                      {renderTimeline(token.id)}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
         );
 
@@ -524,12 +885,56 @@ export default function HospitalDashboard() {
         return (
           <div className="space-y-6">
             <div className="flex items-center justify-between">
-              <h2 className="text-xl font-bold">Hospital Network Capacity</h2>
-              <Button variant="outline" size="sm">
+              <div className="flex items-center gap-2">
+                <h2 className="text-xl font-bold">Hospital Network Capacity</h2>
+                {demoMode && <Badge variant="outline" className="text-xs">Demo Data</Badge>}
+              </div>
+              <Button variant="outline" size="sm" onClick={() => refreshCapacities()}>
                 <RefreshCw className="w-4 h-4 mr-2" />
                 Refresh Network
               </Button>
             </div>
+
+            {/* Report own capacity (hospital users only) */}
+            {profile?.role === 'hospital' && (
+              <Card className="border-primary/30 bg-primary/5">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2 text-lg">
+                    <Bed className="w-5 h-5" />
+                    Report Your Bed Inventory
+                  </CardTitle>
+                  <CardDescription>
+                    Last reported: {ownCapacity?.source === 'reported' ? formatReportedAt(ownCapacity.updated_at) : 'Never'}.
+                    Available counts include the beds reserved for patients you accepted.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {([
+                      { key: 'total_beds', label: 'Total Beds' },
+                      { key: 'available_beds', label: 'Available Beds' },
+                      { key: 'icu_beds', label: 'ICU Beds' },
+                      { key: 'icu_available', label: 'ICU Available' }
+                    ] as const).map(field => (
+                      <div key={field.key} className="space-y-2">
+                        <Label htmlFor={`capacity-${field.key}`}>{field.label}</Label>
+                        <Input
+                          id={`capacity-${field.key}`}
+                          type="number"
+                          min={0}
+                          placeholder={ownCapacity?.source === 'reported' ? String(ownCapacity[field.key]) : '0'}
+                          value={capacityForm[field.key]}
+                          onChange={(e) => setCapacityForm(prev => ({ ...prev, [field.key]: e.target.value }))}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <Button onClick={handleReportCapacity} disabled={savingCapacity}>
+                    {savingCapacity ? 'Saving...' : 'Update Capacity'}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
             
             {/* Network Summary Cards */}
             <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
@@ -547,9 +952,10 @@ export default function HospitalDashboard() {
                 <CardContent className="p-4">
                   <div className="flex items-center gap-2">
                     <Bed className="w-5 h-5 text-green-400" />
-                    <span className="text-sm text-muted-foreground">Available</span>
+                    <span className="text-sm text-muted-foreground">Free</span>
                   </div>
-                  <p className="text-2xl font-bold text-green-400">{networkStats.availableBeds}</p>
+                  <p className="text-2xl font-bold text-green-400">{networkStats.availableBeds - networkStats.reservedBeds}</p>
+                  <p className="text-xs text-muted-foreground">{networkStats.reservedBeds} reserved</p>
                 </CardContent>
               </Card>
               
@@ -579,9 +985,10 @@ export default function HospitalDashboard() {
                 <CardContent className="p-4">
                   <div className="flex items-center gap-2">
                     <Heart className="w-5 h-5 text-indigo-400" />
-                    <span className="text-sm text-muted-foreground">ICU Available</span>
+                    <span className="text-sm text-muted-foreground">ICU Free</span>
                   </div>
-                  <p className="text-2xl font-bold text-indigo-400">{networkStats.availableICU}</p>
+                  <p className="text-2xl font-bold text-indigo-400">{networkStats.availableICU - networkStats.reservedICU}</p>
+                  <p className="text-xs text-muted-foreground">{networkStats.reservedICU} reserved</p>
                 </CardContent>
               </Card>
               
@@ -603,7 +1010,19 @@ export default function HospitalDashboard() {
                 <div className="space-y-3">
                   {hospitals.map(hospital => {
                     const capacity = hospital.capacity;
-                    if (!capacity) return null;
+                    if (!capacity) {
+                      return (
+                        <Card key={hospital.id} className="border-dashed">
+                          <CardContent className="p-4 flex items-center justify-between">
+                            <div>
+                              <h4 className="font-semibold">{hospital.organization_name}</h4>
+                              <p className="text-sm text-muted-foreground">{hospital.address}</p>
+                            </div>
+                            <Badge variant="outline" className="text-xs">Capacity not reported</Badge>
+                          </CardContent>
+                        </Card>
+                      );
+                    }
                     
                     const loadLevel = capacity.occupancy_percentage < 60 ? 'low' : 
                                     capacity.occupancy_percentage < 85 ? 'moderate' : 'critical';
@@ -625,7 +1044,6 @@ export default function HospitalDashboard() {
                                 <span className="text-sm text-orange-400 font-medium">
                                   {capacity.incoming_ambulances} ambulance{capacity.incoming_ambulances > 1 ? 's' : ''} incoming
                                 </span>
-                                <Badge variant="outline" className="text-xs">ETA: 8-12 min</Badge>
                               </div>
                             </div>
                           )}
@@ -647,14 +1065,18 @@ export default function HospitalDashboard() {
                             </Badge>
                           </div>
                           
-                          <div className="grid grid-cols-3 gap-3 mb-3">
+                          <div className="grid grid-cols-4 gap-3 mb-3">
                             <div className="text-center">
                               <p className="text-sm text-muted-foreground">Total Beds</p>
                               <p className="font-semibold">{capacity.total_beds}</p>
                             </div>
                             <div className="text-center bg-green-500/10 rounded p-2">
-                              <p className="text-sm text-green-400">Available</p>
-                              <p className="font-semibold text-green-400">{capacity.available_beds}</p>
+                              <p className="text-sm text-green-400">Free</p>
+                              <p className="font-semibold text-green-400">{capacity.available_beds - capacity.reserved_beds}</p>
+                            </div>
+                            <div className="text-center bg-amber-500/10 rounded p-2">
+                              <p className="text-sm text-amber-400">Reserved</p>
+                              <p className="font-semibold text-amber-400">{capacity.reserved_beds + capacity.reserved_icu}</p>
                             </div>
                             <div className="text-center bg-purple-500/10 rounded p-2">
                               <p className="text-sm text-purple-400">ICU Beds</p>
@@ -667,6 +1089,9 @@ export default function HospitalDashboard() {
                               <span>Occupancy</span>
                               <span>{capacity.occupancy_percentage}%</span>
                             </div>
+                            <p className="text-xs text-muted-foreground">
+                              {capacity.source === 'simulated' ? 'Simulated (demo mode)' : `Reported ${formatReportedAt(capacity.updated_at)}`}
+                            </p>
                             <Progress 
                               value={capacity.occupancy_percentage} 
                               className={`h-2 ${
@@ -704,16 +1129,18 @@ export default function HospitalDashboard() {
                               <p className="text-xl font-bold text-blue-400">{capacity.total_beds}</p>
                             </div>
                             <div className="bg-green-500/10 rounded p-3">
-                              <p className="text-sm text-green-400">Available</p>
-                              <p className="text-xl font-bold text-green-400">{capacity.available_beds}</p>
+                              <p className="text-sm text-green-400">Free</p>
+                              <p className="text-xl font-bold text-green-400">{capacity.available_beds - capacity.reserved_beds}</p>
+                              <p className="text-xs text-muted-foreground">{capacity.reserved_beds} reserved</p>
                             </div>
                             <div className="bg-purple-500/10 rounded p-3">
                               <p className="text-sm text-purple-400">ICU Total</p>
                               <p className="text-xl font-bold text-purple-400">{capacity.icu_beds}</p>
                             </div>
                             <div className="bg-indigo-500/10 rounded p-3">
-                              <p className="text-sm text-indigo-400">ICU Available</p>
-                              <p className="text-xl font-bold text-indigo-400">{capacity.icu_available}</p>
+                              <p className="text-sm text-indigo-400">ICU Free</p>
+                              <p className="text-xl font-bold text-indigo-400">{capacity.icu_available - capacity.reserved_icu}</p>
+                              <p className="text-xs text-muted-foreground">{capacity.reserved_icu} reserved</p>
                             </div>
                           </div>
                           
@@ -1032,18 +1459,15 @@ export default function HospitalDashboard() {
                         No active emergency requests
                       </div>
                     ) : (
-                      [...pendingTokens, ...activeTokens].map((token) => {
+                      [...pendingTokens, ...activeTokens].sort(byTriagePriority(emergencyTypes)).map((token) => {
                         const ambulance = ambulances.find(a => a.id === token.ambulance_id);
                         const isPending = token.status === 'pending';
-                        const isCritical = token.status === 'in_progress' || token.status === 'to_hospital';
                         
                         return (
                           <div key={token.id} className="flex items-center justify-between p-4 bg-slate-800/50 rounded-lg border border-slate-700">
                             <div className="flex items-center gap-4">
                               <div className="flex gap-2">
-                                <Badge className={isCritical ? "bg-red-800 text-white animate-pulse" : "bg-red-600 text-white"}>
-                                  {isCritical ? 'CRITICAL' : 'HIGH'}
-                                </Badge>
+                                <TriageBadge token={token} emergencyTypes={emergencyTypes} />
                                 <Badge className={`${isPending ? 'bg-orange-600' : token.status === 'in_progress' ? 'bg-blue-600' : 'bg-green-600'} text-white`}>
                                   {token.status.replace('_', ' ').toUpperCase()}
                                 </Badge>
@@ -1240,6 +1664,9 @@ export default function HospitalDashboard() {
                         <div className="flex items-center gap-3">
                           <Badge variant="outline" className="font-mono">{token.token_code}</Badge>
                           <span className="text-sm">→ {token.hospital_name}</span>
+                          {isCurrentEta(etas.get(token.id), token.status) && (
+                            <LiveEtaBadge eta={etas.get(token.id)!} />
+                          )}
                         </div>
                         <Badge variant={token.status === 'at_patient' ? 'default' : 'destructive'}>
                           {token.status.replace(/_/g, ' ')}
@@ -1323,6 +1750,21 @@ export default function HospitalDashboard() {
         </header>
         <div className="p-3 sm:p-4 md:p-6">{renderContent()}</div>
       </main>
+
+      <Dialog open={!!replayToken} onOpenChange={(open) => !open && setReplayTokenId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Trip Replay {replayToken?.token_code}
+            </DialogTitle>
+            <DialogDescription>
+              Recorded GPS track (solid) against the planned routes (dashed)
+            </DialogDescription>
+          </DialogHeader>
+          {replayToken && <TripReplay key={replayToken.id} token={replayToken} />}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
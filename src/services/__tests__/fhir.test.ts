@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import type { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import type { Hospital } from '@/hooks/useHospitals';
+import { PatientCareReport } from '@/types/database';
+import {
+  FhirBundle,
+  FhirReference,
+  HOSPITAL_IDENTIFIER_SYSTEM,
+  TOKEN_IDENTIFIER_SYSTEM,
+  encounterBundle,
+  handoverBundle,
+  parseHospitalDirectory,
+} from '@/services/fhir';
+import directory from './fixtures/hospital-directory.json';
+import noOrganizations from './fixtures/no-organizations.json';
+
+const NOW = new Date('2025-12-29T10:00:00Z');
+
+const token = {
+  id: 'c0a8012e-0000-4000-8000-000000000001',
+  token_code: 'EMG-2412',
+  status: 'completed',
+  hospital_id: '00000000-0000-0000-0000-000000000001',
+  hospital_name: 'PGIMER Chandigarh',
+  hospital_lat: 30.7649,
+  hospital_lng: 76.7757,
+  pickup_lat: 30.7398,
+  pickup_lng: 76.7827,
+  pickup_address: 'Sector 17 Plaza, Chandigarh',
+  emergency_type: 'Cardiac Emergency (Heart Attack)',
+  medical_keyword: 'Cardiac',
+  created_at: '2025-12-29T09:00:00Z',
+  arrived_at_patient_at: '2025-12-29T09:08:00Z',
+  arrived_at_hospital_at: '2025-12-29T09:21:00Z',
+  completed_at: '2025-12-29T09:25:00Z',
+  route_to_patient_distance_meters: 3200,
+  route_to_hospital_distance_meters: 4100,
+} as EmergencyToken;
+
+const hospital: Hospital = {
+  id: '00000000-0000-0000-0000-000000000001',
+  organization_name: 'PGIMER Chandigarh',
+  email: 'er@pgimer.example',
+  full_name: null,
+  location_lat: 30.7649,
+  location_lng: 76.7757,
+  address: 'Sector 12, Chandigarh',
+  specialties: ['Cardiac', 'Neuro', 'Trauma', 'Pediatric'],
+};
+
+const report: PatientCareReport = {
+  token_id: token.id,
+  estimated_age: 58,
+  sex: 'male',
+  chief_complaint: 'Chest pain radiating to left arm',
+  vitals: [{
+    taken_at: '2025-12-29T09:10:00Z',
+    heart_rate: 104,
+    systolic_bp: 150,
+    diastolic_bp: 95,
+    respiratory_rate: 20,
+    spo2: 94,
+    temperature_c: null,
+    glucose_mg_dl: null,
+  }],
+  gcs_eye: 4,
+  gcs_verbal: 5,
+  gcs_motor: 6,
+  interventions: ['12-lead ECG'],
+  medications: [{ name: 'Aspirin', dose: '300 mg', route: 'oral', given_at: '2025-12-29T09:12:00Z' }],
+  allergies: [],
+  updated_by: null,
+  created_at: '2025-12-29T09:10:00Z',
+  updated_at: '2025-12-29T09:15:00Z',
+};
+
+// Exported bundles travel as JSON files
+const roundTrip = (bundle: FhirBundle): unknown => JSON.parse(JSON.stringify(bundle));
+
+const resourcesOf = (bundle: FhirBundle, resourceType: string) =>
+  bundle.entry.filter(item => item.resource.resourceType === resourceType);
+
+describe('encounterBundle', () => {
+  it('links the encounter to resources in the bundle', () => {
+    const bundle = encounterBundle(token, hospital, report, NOW);
+    const fullUrls = new Set(bundle.entry.map(item => item.fullUrl));
+    const [encounter] = resourcesOf(bundle, 'Encounter').map(item => item.resource);
+
+    expect(bundle.identifier).toEqual({ system: TOKEN_IDENTIFIER_SYSTEM, value: 'EMG-2412' });
+    expect(encounter.status).toBe('finished');
+    expect(encounter.class).toMatchObject({ code: 'EMER' });
+    expect(fullUrls.has((encounter.subject as FhirReference).reference)).toBe(true);
+    expect(fullUrls.has((encounter.serviceProvider as FhirReference).reference)).toBe(true);
+    expect(resourcesOf(bundle, 'HealthcareService')).toHaveLength(hospital.specialties!.length);
+    expect(resourcesOf(bundle, 'MedicationAdministration')).toHaveLength(1);
+  });
+
+  it('imports back as the same hospital with the same specialties', () => {
+    const [imported, ...rest] = parseHospitalDirectory(roundTrip(encounterBundle(token, hospital, report, NOW)));
+
+    expect(rest).toHaveLength(0);
+    expect(imported.name).toBe('PGIMER Chandigarh');
+    expect(imported.address).toBe('Sector 12, Chandigarh');
+    expect(imported.identifiers).toContainEqual({ system: HOSPITAL_IDENTIFIER_SYSTEM, value: hospital.id });
+    expect(imported.specialties).toEqual(expect.arrayContaining(hospital.specialties!));
+  });
+
+  it('exports a hospital without specialties as an Organization alone', () => {
+    const [imported] = parseHospitalDirectory(roundTrip(encounterBundle(token, { ...hospital, specialties: [] }, null, NOW)));
+
+    expect(imported.services).toEqual([]);
+    expect(imported.specialties).toEqual([]);
+  });
+});
+
+describe('handoverBundle', () => {
+  it('has no hospital to import', () => {
+    const bundle = handoverBundle(token, report, NOW);
+
+    expect(resourcesOf(bundle, 'Patient')).toHaveLength(1);
+    expect(() => parseHospitalDirectory(roundTrip(bundle))).toThrow('No Organization or HealthcareService');
+  });
+});
+
+describe('parseHospitalDirectory', () => {
+  const hospitals = parseHospitalDirectory(directory);
+  const byName = (name: string) => hospitals.find(h => h.name === name);
+
+  it('attaches services referenced by fullUrl', () => {
+    expect(byName('PGIMER Chandigarh')).toMatchObject({
+      address: 'Sector 12, Chandigarh, 160012',
+      identifiers: [{ system: 'urn:example:nhrr', value: 'IN0410001' }],
+      services: expect.arrayContaining(['Cath Lab', 'Cardiology', 'Stroke Unit', 'Neurology']),
+    });
+    expect(byName('PGIMER Chandigarh')!.specialties).toEqual(expect.arrayContaining(['Cardiac', 'Neuro']));
+  });
+
+  it('attaches services referenced as Organization/<id>', () => {
+    expect(byName('Fortis Hospital Mohali')!.services).toEqual(['Joint Replacement Centre', 'Orthopedic surgery']);
+    expect(byName('Fortis Hospital Mohali')!.specialties).toContain('Orthopedics');
+  });
+
+  it('attaches services referenced as urn:uuid:<id>', () => {
+    expect(byName('GMCH Sector 32')!.specialties).toEqual(['Maternity']);
+  });
+
+  it('keeps services of organizations missing from the file', () => {
+    expect(hospitals).toHaveLength(4);
+    expect(byName('Ivy Hospital')!.specialties).toEqual(['Pediatric']);
+  });
+
+  it('reads a single Organization resource', () => {
+    const [only] = parseHospitalDirectory(directory.entry[1].resource);
+    expect(only).toMatchObject({ name: 'Fortis Hospital Mohali', address: 'Sector 62, Phase VIII, Mohali', services: [] });
+  });
+
+  it('throws on bundles with no Organization or HealthcareService', () => {
+    expect(() => parseHospitalDirectory(noOrganizations)).toThrow('No Organization or HealthcareService');
+    expect(() => parseHospitalDirectory({ resourceType: 'Bundle', type: 'collection' })).toThrow('No Organization or HealthcareService');
+  });
+
+  it('throws on input that is not FHIR', () => {
+    expect(() => parseHospitalDirectory({ name: 'PGIMER' })).toThrow('Not a FHIR resource');
+    expect(() => parseHospitalDirectory(null)).toThrow('Not a FHIR resource');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { GEOFENCES, createDwellTracker } from '../../../server/geofence/arrivals.js';
+
+const fence = GEOFENCES.patient;
+const T0 = Date.parse('2025-12-29T10:00:00Z');
+const at = (seconds: number) => T0 + seconds * 1000;
+
+describe('createDwellTracker', () => {
+  it('ignores fixes outside the fence', () => {
+    const tracker = createDwellTracker(fence);
+    expect(tracker.push(fence.radius + 1, 0, at(0))).toBeNull();
+    expect(tracker.push(fence.radius + 1, 0, at(fence.dwellSeconds + 5))).toBeNull();
+  });
+
+  it('arrives once the ambulance has dwelt inside long enough, dated from entering', () => {
+    const tracker = createDwellTracker(fence);
+    expect(tracker.push(60, 25, at(0))).toBeNull();
+    expect(tracker.push(20, 0, at(5))).toBeNull();
+    expect(tracker.push(20, 0, at(5 + fence.dwellSeconds - 1))).toBeNull();
+    expect(tracker.push(20, 0, at(5 + fence.dwellSeconds))).toEqual({
+      type: 'arrived',
+      enteredAt: at(0),
+      dwellSeconds: fence.dwellSeconds,
+    });
+  });
+
+  it('reports an arrival only once per visit', () => {
+    const tracker = createDwellTracker(fence);
+    tracker.push(10, 0, at(0));
+    expect(tracker.push(10, 0, at(fence.dwellSeconds))?.type).toBe('arrived');
+    expect(tracker.push(10, 0, at(fence.dwellSeconds + 10))).toBeNull();
+  });
+
+  it('restarts the dwell when the ambulance moves on inside the fence', () => {
+    const tracker = createDwellTracker(fence);
+    tracker.push(10, 0, at(0));
+    expect(tracker.push(10, 30, at(fence.dwellSeconds - 5))).toBeNull();
+    expect(tracker.push(10, 0, at(fence.dwellSeconds))).toBeNull();
+    expect(tracker.push(10, 0, at(2 * fence.dwellSeconds))).toMatchObject({
+      type: 'arrived',
+      enteredAt: at(0),
+    });
+  });
+
+  it('does not count passing through the fence as an arrival', () => {
+    const tracker = createDwellTracker(fence);
+    tracker.push(40, 0, at(0));
+    expect(tracker.push(fence.radius * 2, 40, at(fence.dwellSeconds / 2))).toBeNull();
+    expect(tracker.push(fence.radius * 2, 40, at(fence.dwellSeconds * 2))).toBeNull();
+  });
+
+  it('keeps the visit while jitter stays within the exit margin', () => {
+    const tracker = createDwellTracker(fence);
+    tracker.push(10, 0, at(0));
+    tracker.push(10, 0, at(fence.dwellSeconds));
+    expect(tracker.push(fence.radius * 1.2, 0, at(fence.dwellSeconds + 5))).toBeNull();
+  });
+
+  it('reports leaving after an arrival and arrives again on re-entering', () => {
+    const tracker = createDwellTracker(fence);
+    tracker.push(10, 0, at(0));
+    tracker.push(10, 0, at(fence.dwellSeconds));
+    expect(tracker.push(fence.radius * 2, 40, at(60))).toEqual({ type: 'left' });
+    expect(tracker.push(fence.radius * 2, 40, at(70))).toBeNull();
+
+    expect(tracker.push(10, 0, at(100))).toBeNull();
+    expect(tracker.push(10, 0, at(100 + fence.dwellSeconds))).toEqual({
+      type: 'arrived',
+      enteredAt: at(100),
+      dwellSeconds: fence.dwellSeconds,
+    });
+  });
+});
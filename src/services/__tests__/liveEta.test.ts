@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import {
+  SMOOTHING_WINDOW_SECONDS,
+  cellKey,
+  createArrivalSmoother,
+  estimateRemaining,
+  foldSpeed,
+  locateOnRoute,
+  plannedSpeedKmh,
+} from '../../../server/eta/liveEta.js';
+import { segmentLength } from '../../../server/signals/routeGeometry.js';
+
+// Two straight segments due north, about 1.1 km each
+const route: [number, number][] = [
+  [30.72, 76.78],
+  [30.73, 76.78],
+  [30.74, 76.78],
+];
+const routeLength = segmentLength(route[0], route[1]) + segmentLength(route[1], route[2]);
+const noHistory = () => undefined;
+
+describe('plannedSpeedKmh', () => {
+  it("uses the leg's average speed, clamped to plausible driving speeds", () => {
+    expect(plannedSpeedKmh({ distance: 5000, duration: 600 })).toBeCloseTo(30);
+    expect(plannedSpeedKmh({ distance: 100, duration: 600 })).toBe(8);
+    expect(plannedSpeedKmh({ distance: 50000, duration: 600 })).toBe(90);
+  });
+
+  it('falls back to a city speed without a usable leg', () => {
+    expect(plannedSpeedKmh(null)).toBe(25);
+    expect(plannedSpeedKmh({ distance: 5000, duration: 0 })).toBe(25);
+  });
+});
+
+describe('cellKey', () => {
+  it('tells opposite directions through the same cell apart', () => {
+    expect(cellKey(route[0], route[1])).not.toBe(cellKey(route[1], route[0]));
+    expect(cellKey(route[0], route[1])).toBe(cellKey(route[0], route[1]));
+  });
+});
+
+describe('locateOnRoute', () => {
+  it('projects the ambulance onto the route', () => {
+    const projection = locateOnRoute(route, 30.73, 76.78);
+    expect(projection.offset).toBeLessThan(1);
+    expect(projection.distanceAlong).toBeCloseTo(segmentLength(route[0], route[1]), 0);
+  });
+
+  it('keeps progress next to the previous fix where the route doubles back', () => {
+    const outAndBack: [number, number][] = [...route, [30.73, 76.7801]];
+    const early = locateOnRoute(outAndBack, 30.73, 76.78005, 1000);
+    const late = locateOnRoute(outAndBack, 30.73, 76.78005, routeLength + 1000);
+    expect(early.distanceAlong).toBeLessThan(routeLength);
+    expect(late.distanceAlong).toBeGreaterThan(routeLength);
+  });
+
+  it('is null without a route', () => {
+    expect(locateOnRoute([], 30.73, 76.78)).toBeNull();
+  });
+});
+
+describe('estimateRemaining', () => {
+  it('drives the rest of the route at the planned speed without history', () => {
+    const projection = { distanceAlong: 0, offset: 0 };
+    const { remainingMeters, seconds } = estimateRemaining(route, projection, 36, noHistory);
+    expect(remainingMeters).toBeCloseTo(routeLength);
+    expect(seconds).toBeCloseTo(routeLength / 10);
+  });
+
+  it('counts only what is left of the current segment', () => {
+    const half = segmentLength(route[0], route[1]) / 2;
+    const { remainingMeters } = estimateRemaining(route, { distanceAlong: half, offset: 0 }, 36, noHistory);
+    expect(remainingMeters).toBeCloseTo(routeLength - half);
+  });
+
+  it('leans on learned speeds as their samples grow', () => {
+    const projection = { distanceAlong: 0, offset: 0 };
+    const slow = (samples: number) => () => ({ mean_speed_kmh: 18, samples });
+    const planned = estimateRemaining(route, projection, 36, noHistory).seconds;
+    const fewSamples = estimateRemaining(route, projection, 36, slow(1)).seconds;
+    const manySamples = estimateRemaining(route, projection, 36, slow(45)).seconds;
+    expect(fewSamples).toBeGreaterThan(planned);
+    expect(manySamples).toBeGreaterThan(fewSamples);
+    expect(manySamples).toBeLessThan(routeLength / 5);
+  });
+
+  it('charges an off-route ambulance its way back to the route', () => {
+    const onRoute = estimateRemaining(route, { distanceAlong: 0, offset: 0 }, 36, noHistory);
+    const offRoute = estimateRemaining(route, { distanceAlong: 0, offset: 200 }, 36, noHistory);
+    expect(offRoute.remainingMeters).toBeCloseTo(onRoute.remainingMeters + 200);
+    expect(offRoute.seconds).toBeCloseTo(onRoute.seconds + 20);
+  });
+});
+
+describe('createArrivalSmoother', () => {
+  it('averages the predicted arrivals within the window', () => {
+    const smoother = createArrivalSmoother();
+    expect(smoother.push(1_000_000, 0)).toBe(1_000_000);
+    expect(smoother.push(1_060_000, 10_000)).toBe(1_030_000);
+  });
+
+  it('drops predictions older than the window', () => {
+    const smoother = createArrivalSmoother();
+    smoother.push(1_000_000, 0);
+    expect(smoother.push(1_060_000, SMOOTHING_WINDOW_SECONDS * 1000 + 1)).toBe(1_060_000);
+  });
+});
+
+describe('foldSpeed', () => {
+  it('starts a cell from its first sample and keeps a running mean', () => {
+    const first = foldSpeed(undefined, 30);
+    expect(first).toEqual({ mean_speed_kmh: 30, samples: 1 });
+    expect(foldSpeed(first, 50)).toEqual({ mean_speed_kmh: 40, samples: 2 });
+  });
+
+  it('caps the sample count so the history keeps adapting', () => {
+    const cell = foldSpeed({ mean_speed_kmh: 30, samples: 50 }, 80);
+    expect(cell.samples).toBe(50);
+    expect(cell.mean_speed_kmh).toBeCloseTo(31);
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  OFF_ROUTE_METERS,
+  OFF_ROUTE_SECONDS,
+  createDeviationWatch,
+  nearDestination,
+  offsetFromRoute,
+} from '../../../server/reroute/offRoute.js';
+
+const T0 = Date.parse('2025-12-29T10:00:00Z');
+const at = (seconds: number) => T0 + seconds * 1000;
+const OFF = OFF_ROUTE_METERS + 50;
+
+// About 2.2 km due north
+const route: [number, number][] = [
+  [30.72, 76.78],
+  [30.73, 76.78],
+  [30.74, 76.78],
+];
+
+describe('offsetFromRoute', () => {
+  it('measures the distance to the nearest point of the route', () => {
+    expect(offsetFromRoute(route, 30.725, 76.78)).toBeLessThan(1);
+    // 0.001° of longitude is about 96 m at this latitude
+    expect(offsetFromRoute(route, 30.725, 76.781)).toBeCloseTo(96, -1);
+  });
+
+  it('has no offset without a route', () => {
+    expect(offsetFromRoute([], 30.725, 76.78)).toBeNull();
+  });
+});
+
+describe('nearDestination', () => {
+  it('is true close to the last point of the route only', () => {
+    expect(nearDestination(route, 30.7395, 76.78)).toBe(true);
+    expect(nearDestination(route, 30.72, 76.78)).toBe(false);
+    expect(nearDestination([], 30.74, 76.78)).toBe(false);
+  });
+});
+
+describe('createDeviationWatch', () => {
+  it('flags a deviation that lasts long enough over several fixes', () => {
+    const watch = createDeviationWatch();
+    expect(watch.push(OFF, at(0))).toBeNull();
+    expect(watch.push(OFF + 30, at(10))).toBeNull();
+    expect(watch.push(OFF, at(OFF_ROUTE_SECONDS))).toEqual({
+      offsetMeters: OFF,
+      maxOffsetMeters: OFF + 30,
+      seconds: OFF_ROUTE_SECONDS,
+    });
+  });
+
+  it('ignores a single stray fix', () => {
+    const watch = createDeviationWatch();
+    expect(watch.push(OFF, at(0))).toBeNull();
+    expect(watch.push(10, at(5))).toBeNull();
+    expect(watch.push(OFF, at(OFF_ROUTE_SECONDS + 30))).toBeNull();
+  });
+
+  it('waits for the minimum time even after enough fixes', () => {
+    const watch = createDeviationWatch();
+    [0, 1, 2, 3, 4].forEach(second => expect(watch.push(OFF, at(second))).toBeNull());
+  });
+
+  it('starts the count again once back on the route', () => {
+    const watch = createDeviationWatch();
+    watch.push(OFF, at(0));
+    watch.push(OFF, at(10));
+    expect(watch.push(OFF_ROUTE_METERS, at(15))).toBeNull();
+    expect(watch.push(OFF, at(OFF_ROUTE_SECONDS))).toBeNull();
+    expect(watch.push(OFF, at(OFF_ROUTE_SECONDS + 10))).toBeNull();
+    expect(watch.push(OFF, at(2 * OFF_ROUTE_SECONDS))).toMatchObject({ seconds: OFF_ROUTE_SECONDS });
+  });
+
+  it('treats a leg without a route as on route', () => {
+    const watch = createDeviationWatch();
+    watch.push(OFF, at(0));
+    watch.push(OFF, at(10));
+    expect(watch.push(null, at(15))).toBeNull();
+    expect(watch.push(OFF, at(OFF_ROUTE_SECONDS))).toBeNull();
+  });
+
+  it('can be reset after the route is replaced', () => {
+    const watch = createDeviationWatch();
+    watch.push(OFF, at(0));
+    watch.push(OFF, at(10));
+    watch.reset();
+    expect(watch.push(OFF, at(OFF_ROUTE_SECONDS))).toBeNull();
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { TrafficSignal, getRouteDirection } from '@/types/database';
+import * as geometry from '@/services/routeGeometry';
+import * as phases from '@/services/signalPhases';
+import * as simulator from '@/services/tripSimulator';
+import { planSignalPreemption } from '@/services/signalPreemption';
+import * as serverGeometry from '../../../server/signals/routeGeometry.js';
+import * as serverPhases from '../../../server/signals/phases.js';
+import * as serverPreemption from '../../../server/signals/preemption.js';
+import * as serverSimulator from '../../../server/scenarios/tripSimulator.js';
+import corridor from './fixtures/signal-corridor.json';
+
+// The signal controller and the scenario runner keep plain-JS copies of these services.
+// Both copies run on the same corridor so the dashboards and the controller cannot drift.
+
+const route = corridor.route as geometry.RoutePoint[];
+const signals = corridor.signals as unknown as TrafficSignal[];
+
+// Float noise aside, both copies must give the same answer
+const rounded = (value: unknown): unknown => {
+  if (typeof value === 'number') return Math.round(value * 1e6) / 1e6;
+  if (Array.isArray(value)) return value.map(rounded);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rounded(item)]));
+  }
+  return value;
+};
+
+const expectSame = (client: unknown, server: unknown) => expect(rounded(server)).toEqual(rounded(client));
+
+// Plans without the signal row, which both sides pass through untouched
+const comparablePlans = (plans: { signal: { id: string } }[]) =>
+  plans.map(({ signal, ...plan }) => ({ id: signal.id, ...plan }));
+
+const probes = [
+  ...route,
+  ...signals.map(signal => [signal.location_lat, signal.location_lng]),
+  ...corridor.ambulances.map(ambulance => [ambulance.current_lat, ambulance.current_lng]),
+] as geometry.RoutePoint[];
+
+const bearings = Array.from({ length: 72 }, (_, i) => i * 5);
+
+describe('routeGeometry.js', () => {
+  it('measures the route the same way', () => {
+    expectSame(geometry.cumulativeDistances(route), serverGeometry.cumulativeDistances(route));
+    route.slice(1).forEach((point, i) => {
+      expectSame(geometry.segmentLength(route[i], point), serverGeometry.segmentLength(route[i], point));
+      expectSame(geometry.bearingBetween(route[i], point), serverGeometry.bearingBetween(route[i], point));
+    });
+  });
+
+  it('projects points onto the route the same way', () => {
+    probes.forEach(([lat, lng]) => {
+      expectSame(geometry.projectOntoRouteSegments(route, lat, lng), serverGeometry.projectOntoRouteSegments(route, lat, lng));
+    });
+  });
+
+  it('reads bearings along the route the same way', () => {
+    const length = geometry.routeLength(route);
+    for (let distance = -50; distance <= length + 50; distance += 25) {
+      expectSame(geometry.bearingAt(route, distance), serverGeometry.bearingAt(route, distance));
+    }
+  });
+});
+
+describe('phases.js', () => {
+  it('has the same default phase plan', () => {
+    expect(serverPhases.DEFAULT_PHASE_PLAN).toEqual(phases.DEFAULT_PHASE_PLAN);
+  });
+
+  it('classifies turns and approaches the same way', () => {
+    const plans = [phases.DEFAULT_PHASE_PLAN, ...signals.flatMap(signal => (signal.phase_plan ? [signal.phase_plan] : []))];
+    bearings.forEach(inbound => {
+      bearings.forEach(outbound => {
+        expect(serverPhases.classifyTurn(inbound, outbound)).toBe(phases.classifyTurn(inbound, outbound));
+      });
+      plans.forEach(plan => {
+        expect(serverPhases.matchApproach(plan, inbound)).toEqual(phases.matchApproach(plan, inbound));
+      });
+    });
+  });
+
+  it('matches route movements the same way', () => {
+    signals.forEach(signal => {
+      const plan = signal.phase_plan ?? phases.DEFAULT_PHASE_PLAN;
+      geometry.projectOntoRouteSegments(route, signal.location_lat, signal.location_lng).forEach(({ distanceAlong }) => {
+        expect(serverPhases.matchRouteMovement(plan, route, distanceAlong))
+          .toEqual(phases.matchRouteMovement(plan, route, distanceAlong));
+      });
+    });
+  });
+});
+
+describe('preemption.js', () => {
+  it('names route directions the same way', () => {
+    for (let heading = -90; heading <= 450; heading += 15) {
+      expect(serverPreemption.getRouteDirection(heading)).toBe(getRouteDirection(heading));
+    }
+  });
+
+  it('plans the same preemption along the corridor', () => {
+    corridor.ambulances.forEach(ambulance => {
+      const client = comparablePlans(planSignalPreemption(signals, route, ambulance));
+      expectSame(client, comparablePlans(serverPreemption.planSignalPreemption(signals, route, ambulance)));
+      // The fixture is only useful while it exercises every kind of plan
+      expect(client.map(plan => plan.id)).toHaveLength(signals.length);
+    });
+
+    const actions = new Set(corridor.ambulances.flatMap(ambulance =>
+      planSignalPreemption(signals, route, ambulance).map(plan => plan.action)
+    ));
+    expect([...actions].sort()).toEqual(['none', 'prepare', 'priority', 'release']);
+  });
+});
+
+describe('tripSimulator.js', () => {
+  it('prepares the same leg', () => {
+    expectSame(simulator.prepareLeg(route), serverSimulator.prepareLeg(route));
+  });
+
+  it('drives the leg the same way', () => {
+    const leg = simulator.prepareLeg(route);
+    const serverLeg = serverSimulator.prepareLeg(route);
+    let state: simulator.SimulationState = { distance: 0, speedMs: 0 };
+    let serverState = { distance: 0, speedMs: 0 };
+
+    for (let tick = 0; tick < 1000 && state.distance < leg.length; tick++) {
+      state = simulator.stepSimulation(leg, state, 1);
+      serverState = serverSimulator.stepSimulation(serverLeg, serverState, 1);
+      expectSame(state, serverState);
+      expectSame(simulator.positionOnLeg(leg, state.distance), serverSimulator.positionOnLeg(serverLeg, serverState.distance));
+    }
+    expect(state.distance).toBe(leg.length);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { dueStage, slaFor } from '../../../server/sla/ladder.js';
+
+const AWAITING_SINCE = '2025-12-29T10:00:00Z';
+const after = (seconds: number) => Date.parse(AWAITING_SINCE) + seconds * 1000;
+
+const cardiac = { realert_seconds: 30, widen_seconds: 60, admin_seconds: 120 };
+const standard = { realert_seconds: 90, widen_seconds: 180, admin_seconds: 300 };
+const slas = new Map([
+  ['Cardiac', cardiac],
+  ['*', standard],
+]);
+
+const waiting = (sla_stage: string | null) => ({ awaiting_since: AWAITING_SINCE, sla_stage });
+
+describe('slaFor', () => {
+  it("uses the emergency type's SLA, then the '*' row, then the built-in default", () => {
+    expect(slaFor(slas, 'Cardiac')).toBe(cardiac);
+    expect(slaFor(slas, 'Fracture')).toBe(standard);
+    expect(slaFor(new Map(), 'Fracture')).toEqual(standard);
+  });
+});
+
+describe('dueStage', () => {
+  it('is null while the token is within its SLA', () => {
+    expect(dueStage(waiting(null), cardiac, after(29))).toBeNull();
+  });
+
+  it('climbs one stage per threshold', () => {
+    expect(dueStage(waiting(null), cardiac, after(30))).toBe('realerted');
+    expect(dueStage(waiting('realerted'), cardiac, after(59))).toBeNull();
+    expect(dueStage(waiting('realerted'), cardiac, after(60))).toBe('widened');
+    expect(dueStage(waiting('widened'), cardiac, after(119))).toBeNull();
+    expect(dueStage(waiting('widened'), cardiac, after(120))).toBe('admin');
+  });
+
+  it('does not skip stages when the monitor falls behind', () => {
+    expect(dueStage(waiting(null), cardiac, after(600))).toBe('realerted');
+    expect(dueStage(waiting('realerted'), cardiac, after(600))).toBe('widened');
+  });
+
+  it('stops at the top of the ladder', () => {
+    expect(dueStage(waiting('admin'), cardiac, after(3600))).toBeNull();
+  });
+
+  it('is null for a token that is not waiting for a hospital', () => {
+    expect(dueStage({ awaiting_since: null, sla_stage: null }, cardiac, after(3600))).toBeNull();
+  });
+});
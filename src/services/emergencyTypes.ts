@@ -0,0 +1,49 @@
+import { EmergencyType, TriagePriority } from '@/types/database';
+
+// The emergency type catalog lives in the emergency_types table and is edited by admins.
+// These built-in entries match the migration's seed and are used until it loads (or offline).
+// Lookups take the catalog from useEmergencyTypes, so they follow admin edits.
+
+type BuiltInType = Pick<EmergencyType, 'id' | 'label' | 'icon' | 'keyword' | 'required_specialties' | 'care_level' | 'default_priority'>;
+
+const BUILT_IN_TYPES: BuiltInType[] = [
+  { id: 'cardiac', label: 'Cardiac Emergency (Heart Attack)', icon: '❤️', keyword: 'Cardiac', required_specialties: ['Cardiac'], care_level: 'als', default_priority: 2 },
+  { id: 'stroke', label: 'Stroke / Neurological Emergency', icon: '🧠', keyword: 'Neuro', required_specialties: ['Neuro'], care_level: 'als', default_priority: 2 },
+  { id: 'respiratory', label: 'Respiratory Distress', icon: '🫁', keyword: 'Respiratory', required_specialties: ['Respiratory'], care_level: 'als', default_priority: 2 },
+  { id: 'accident', label: 'Accident / Trauma', icon: '🚗', keyword: 'Trauma', required_specialties: ['Trauma'], care_level: null, default_priority: 3 },
+  { id: 'burns', label: 'Burns', icon: '🔥', keyword: 'Burns', required_specialties: ['Trauma'], care_level: null, default_priority: 3 },
+  { id: 'pediatric', label: 'Pediatric Emergency', icon: '🧒', keyword: 'Pediatric', required_specialties: ['Pediatric'], care_level: null, default_priority: 3 },
+  { id: 'pregnancy', label: 'Pregnancy / Delivery', icon: '🤰', keyword: 'Maternity', required_specialties: ['Maternity'], care_level: null, default_priority: 4 },
+  { id: 'fracture', label: 'Fracture / Bone Injury', icon: '🦴', keyword: 'Orthopedics', required_specialties: ['Orthopedics', 'Trauma'], care_level: 'bls', default_priority: 4 },
+  { id: 'cancer', label: 'Cancer-related Emergency', icon: '🎗️', keyword: 'Oncology', required_specialties: ['Oncology'], care_level: null, default_priority: 4 },
+  { id: 'general', label: 'General Emergency', icon: '🏥', keyword: 'General', required_specialties: [], care_level: null, default_priority: 4 },
+];
+
+export const DEFAULT_EMERGENCY_TYPES: EmergencyType[] = BUILT_IN_TYPES.map((type, index) => ({
+  ...type,
+  sort_order: (index + 1) * 10,
+  is_active: true,
+  created_at: '',
+  updated_at: '',
+}));
+
+// Keyword for emergencies typed in by hand rather than picked from the catalog
+export const FALLBACK_KEYWORD = 'General';
+
+// Catalog entry for a token's medical keyword (or emergency type label), inactive ones included
+export function findEmergencyType(keyword: string | null | undefined, types: EmergencyType[]): EmergencyType | null {
+  if (!keyword) return null;
+  const lower = keyword.toLowerCase();
+  return types.find(type => type.keyword.toLowerCase() === lower)
+    ?? types.find(type => type.label.toLowerCase() === lower)
+    ?? null;
+}
+
+export const defaultPriority = (keyword: string | null | undefined, types: EmergencyType[]): TriagePriority =>
+  findEmergencyType(keyword, types)?.default_priority ?? findEmergencyType(FALLBACK_KEYWORD, types)?.default_priority ?? 4;
+
+// Hospital specialties that fully match an emergency; unknown keywords match themselves
+export const requiredSpecialties = (keyword: string, types: EmergencyType[]): string[] => {
+  const type = findEmergencyType(keyword, types);
+  return type ? type.required_specialties : [keyword];
+};
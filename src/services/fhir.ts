@@ -0,0 +1,447 @@
+import type { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import type { Hospital } from '@/hooks/useHospitals';
+import { PatientCareReport, VitalSigns, gcsTotal } from '@/types/database';
+import { matchSpecialties } from '@/services/specialties';
+
+// HL7 FHIR R4 resources exchanged with hospitals: the handover and encounter bundles
+// we export and the hospital directories we import. Only the parts of each resource
+// this app uses are typed; see https://hl7.org/fhir/R4/
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirReference {
+  reference: string;
+  display?: string;
+}
+
+export interface FhirQuantity {
+  value: number;
+  unit: string;
+  system: string;
+  code: string;
+}
+
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  type: 'collection';
+  timestamp: string;
+  identifier?: { system: string; value: string };
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const LOINC = 'http://loinc.org';
+const UCUM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const ORGANIZATION_TYPE = 'http://terminology.hl7.org/CodeSystem/organization-type';
+const ACT_CODE = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+// Identifier system for token codes; hospitals use it to match the bundle to the incoming ambulance
+export const TOKEN_IDENTIFIER_SYSTEM = 'urn:mediroute:emergency-token';
+// Identifier system for hospital profile ids
+export const HOSPITAL_IDENTIFIER_SYSTEM = 'urn:mediroute:hospital';
+
+const loinc = (code: string, display: string): FhirCodeableConcept => ({
+  coding: [{ system: LOINC, code, display }],
+  text: display,
+});
+
+const category = (code: 'vital-signs' | 'survey' | 'exam' | 'activity') => [
+  { coding: [{ system: OBSERVATION_CATEGORY, code }] },
+];
+
+const quantity = (value: number, unit: string, code = unit): FhirQuantity => ({ value, unit, system: UCUM, code });
+
+// Vital sign readings with their LOINC code and UCUM unit
+const VITAL_OBSERVATIONS: {
+  key: Exclude<keyof VitalSigns, 'taken_at' | 'systolic_bp' | 'diastolic_bp'>;
+  code: string;
+  display: string;
+  unit: string;
+  ucum: string;
+}[] = [
+  { key: 'heart_rate', code: '8867-4', display: 'Heart rate', unit: 'beats/min', ucum: '/min' },
+  { key: 'respiratory_rate', code: '9279-1', display: 'Respiratory rate', unit: 'breaths/min', ucum: '/min' },
+  { key: 'spo2', code: '59408-5', display: 'Oxygen saturation in Arterial blood by Pulse oximetry', unit: '%', ucum: '%' },
+  { key: 'temperature_c', code: '8310-5', display: 'Body temperature', unit: 'Cel', ucum: 'Cel' },
+  { key: 'glucose_mg_dl', code: '2339-0', display: 'Glucose [Mass/volume] in Blood', unit: 'mg/dL', ucum: 'mg/dL' },
+];
+
+const GCS_COMPONENTS: { key: 'gcs_eye' | 'gcs_verbal' | 'gcs_motor'; code: string; display: string }[] = [
+  { key: 'gcs_eye', code: '9267-6', display: 'Glasgow coma score eye opening' },
+  { key: 'gcs_verbal', code: '9270-0', display: 'Glasgow coma score verbal' },
+  { key: 'gcs_motor', code: '9268-4', display: 'Glasgow coma score motor' },
+];
+
+type AddResource = (resource: FhirResource) => string;
+
+// Collects bundle entries; resources reference each other by urn:uuid full URLs
+function bundleEntries() {
+  const entry: FhirBundle['entry'] = [];
+  const add: AddResource = (resource) => {
+    const id = crypto.randomUUID();
+    entry.push({ fullUrl: `urn:uuid:${id}`, resource: { ...resource, id } });
+    return `urn:uuid:${id}`;
+  };
+  return { entry, add };
+}
+
+const collection = (token: EmergencyToken, entry: FhirBundle['entry'], now: Date): FhirBundle => ({
+  resourceType: 'Bundle',
+  type: 'collection',
+  timestamp: now.toISOString(),
+  identifier: { system: TOKEN_IDENTIFIER_SYSTEM, value: token.token_code },
+  entry,
+});
+
+// No identity is known or shared: the patient is who the token says they are
+const addPatient = (add: AddResource, token: EmergencyToken, report: PatientCareReport | null): FhirReference => ({
+  reference: add({
+    resourceType: 'Patient',
+    identifier: [{ system: TOKEN_IDENTIFIER_SYSTEM, value: token.token_code }],
+    gender: report?.sex ?? 'unknown',
+  }),
+  display: `Patient of ${token.token_code}`,
+});
+
+// Observations, medications, procedures and allergies from the crew's care report
+function addCareReport(add: AddResource, patient: FhirReference, report: PatientCareReport, encounter?: FhirReference) {
+  const observation = (
+    code: FhirCodeableConcept,
+    cat: 'vital-signs' | 'survey' | 'exam',
+    effective: string,
+    value: Record<string, unknown>
+  ) => add({
+    resourceType: 'Observation',
+    status: 'final',
+    category: category(cat),
+    code,
+    subject: patient,
+    ...(encounter && { encounter }),
+    effectiveDateTime: effective,
+    ...value,
+  });
+
+  const reportedAt = report.updated_at;
+
+  if (report.estimated_age != null) {
+    observation(loinc('30525-0', 'Age'), 'exam', reportedAt, { valueQuantity: quantity(report.estimated_age, 'a') });
+  }
+
+  if (report.chief_complaint) {
+    observation(loinc('8661-1', 'Chief complaint - Reported'), 'exam', reportedAt, { valueString: report.chief_complaint });
+  }
+
+  report.vitals.forEach(vitals => {
+    VITAL_OBSERVATIONS.forEach(({ key, code, display, unit, ucum }) => {
+      const value = vitals[key];
+      if (value == null) return;
+      observation(loinc(code, display), 'vital-signs', vitals.taken_at, { valueQuantity: quantity(value, unit, ucum) });
+    });
+
+    if (vitals.systolic_bp != null || vitals.diastolic_bp != null) {
+      observation(loinc('85354-9', 'Blood pressure panel with all children optional'), 'vital-signs', vitals.taken_at, {
+        component: [
+          vitals.systolic_bp != null && { code: loinc('8480-6', 'Systolic blood pressure'), valueQuantity: quantity(vitals.systolic_bp, 'mm[Hg]') },
+          vitals.diastolic_bp != null && { code: loinc('8462-4', 'Diastolic blood pressure'), valueQuantity: quantity(vitals.diastolic_bp, 'mm[Hg]') },
+        ].filter(Boolean),
+      });
+    }
+  });
+
+  const gcs = gcsTotal(report);
+  if (gcs != null) {
+    observation(loinc('9269-2', 'Glasgow coma score total'), 'survey', reportedAt, {
+      valueInteger: gcs,
+      component: GCS_COMPONENTS.map(({ key, code, display }) => ({ code: loinc(code, display), valueInteger: report[key] })),
+    });
+  }
+
+  report.medications.forEach(medication => add({
+    resourceType: 'MedicationAdministration',
+    status: 'completed',
+    medicationCodeableConcept: { text: medication.name },
+    subject: patient,
+    ...(encounter && { context: encounter }),
+    effectiveDateTime: medication.given_at,
+    dosage: {
+      text: [medication.dose, medication.route].filter(Boolean).join(' '),
+      ...(medication.route && { route: { text: medication.route } }),
+    },
+  }));
+
+  report.interventions.forEach(intervention => add({
+    resourceType: 'Procedure',
+    status: 'completed',
+    code: { text: intervention },
+    subject: patient,
+    ...(encounter && { encounter }),
+  }));
+
+  report.allergies.forEach(allergy => add({
+    resourceType: 'AllergyIntolerance',
+    code: { text: allergy },
+    patient,
+    ...(encounter && { encounter }),
+  }));
+}
+
+/**
+ * Pre-arrival handover as a FHIR collection Bundle: an anonymous Patient with the
+ * observations, medications, procedures and allergies from the crew's care report.
+ */
+export function handoverBundle(token: EmergencyToken, report: PatientCareReport, now = new Date()): FhirBundle {
+  const { entry, add } = bundleEntries();
+  addCareReport(add, addPatient(add, token, report), report);
+  return collection(token, entry, now);
+}
+
+// Trip durations and distances, measured by the app rather than a clinician
+const TRIP_METRIC_SYSTEM = 'urn:mediroute:trip-metric';
+
+const minutesBetween = (from: string | null, to: string | null) =>
+  from && to ? Math.round((Date.parse(to) - Date.parse(from)) / 6000) / 10 : null;
+
+const kilometres = (meters: number | null) => (meters == null ? null : Math.round(meters / 100) / 10);
+
+const ENCOUNTER_STATUS: Partial<Record<EmergencyToken['status'], string>> = {
+  completed: 'finished',
+  cancelled: 'cancelled',
+  declined: 'cancelled',
+};
+
+const period = (start: string | null, end: string | null) =>
+  start || end ? { ...(start && { start }), ...(end && { end }) } : undefined;
+
+/**
+ * A finished emergency as an Encounter of class EMER: the receiving hospital as an
+ * Organization with a HealthcareService per specialty, pickup and hospital
+ * Locations, an anonymous Patient, trip times and distances as Observations, and
+ * the crew's care report when there is one.
+ */
+export function encounterBundle(
+  token: EmergencyToken,
+  hospital: Hospital | null,
+  report: PatientCareReport | null,
+  now = new Date()
+): FhirBundle {
+  const { entry, add } = bundleEntries();
+  const hospitalName = hospital?.organization_name ?? token.hospital_name;
+
+  let organization: FhirReference | undefined;
+  if (hospital || token.hospital_id) {
+    organization = {
+      reference: add({
+        resourceType: 'Organization',
+        identifier: [{ system: HOSPITAL_IDENTIFIER_SYSTEM, value: hospital?.id ?? token.hospital_id }],
+        active: true,
+        type: [{ coding: [{ system: ORGANIZATION_TYPE, code: 'prov', display: 'Healthcare Provider' }] }],
+        name: hospitalName ?? undefined,
+        ...(hospital?.email && { telecom: [{ system: 'email', value: hospital.email }] }),
+        ...(hospital?.address && { address: [{ text: hospital.address }] }),
+      }),
+      display: hospitalName ?? undefined,
+    };
+
+    (hospital?.specialties ?? []).forEach(specialty => add({
+      resourceType: 'HealthcareService',
+      active: true,
+      providedBy: organization,
+      name: specialty,
+      specialty: [{ text: specialty }],
+    }));
+  }
+
+  const pickup: FhirReference = {
+    reference: add({
+      resourceType: 'Location',
+      status: 'active',
+      mode: 'instance',
+      name: 'Patient pickup',
+      ...(token.pickup_address && { address: { text: token.pickup_address } }),
+      position: { latitude: token.pickup_lat, longitude: token.pickup_lng },
+    }),
+    display: token.pickup_address ?? 'Patient pickup',
+  };
+
+  const hospitalLat = hospital?.location_lat ?? token.hospital_lat;
+  const hospitalLng = hospital?.location_lng ?? token.hospital_lng;
+  const destination: FhirReference | undefined = hospitalLat != null && hospitalLng != null ? {
+    reference: add({
+      resourceType: 'Location',
+      status: 'active',
+      mode: 'instance',
+      name: hospitalName ?? 'Receiving hospital',
+      ...(hospital?.address && { address: { text: hospital.address } }),
+      position: { latitude: hospitalLat, longitude: hospitalLng },
+      ...(organization && { managingOrganization: organization }),
+    }),
+    display: hospitalName ?? 'Receiving hospital',
+  } : undefined;
+
+  const patient = addPatient(add, token, report);
+  const end = token.arrived_at_hospital_at ?? token.completed_at;
+  const length = minutesBetween(token.created_at, end);
+  const reason = [token.emergency_type, token.medical_keyword].filter(Boolean).join(' · ');
+
+  const encounter: FhirReference = {
+    reference: add({
+      resourceType: 'Encounter',
+      identifier: [{ system: TOKEN_IDENTIFIER_SYSTEM, value: token.token_code }],
+      status: ENCOUNTER_STATUS[token.status] ?? 'in-progress',
+      class: { system: ACT_CODE, code: 'EMER', display: 'emergency' },
+      subject: patient,
+      period: period(token.created_at, end),
+      ...(length != null && { length: quantity(length, 'min') }),
+      ...(reason && { reasonCode: [{ text: reason }] }),
+      hospitalization: {
+        origin: pickup,
+        ...(destination && { destination }),
+      },
+      location: [
+        { location: pickup, status: 'completed', period: period(token.arrived_at_patient_at, null) },
+        ...(destination ? [{ location: destination, status: 'completed', period: period(token.arrived_at_hospital_at, null) }] : []),
+      ],
+      ...(organization && { serviceProvider: organization }),
+    }),
+    display: `Emergency ${token.token_code}`,
+  };
+
+  const tripMetrics: { code: string; display: string; value: number | null; unit: string }[] = [
+    { code: 'response-time', display: 'Time from dispatch to arrival at patient', value: minutesBetween(token.created_at, token.arrived_at_patient_at), unit: 'min' },
+    { code: 'transport-time', display: 'Time from patient to arrival at hospital', value: minutesBetween(token.arrived_at_patient_at, token.arrived_at_hospital_at), unit: 'min' },
+    { code: 'distance-to-patient', display: 'Route distance to patient', value: kilometres(token.route_to_patient_distance_meters), unit: 'km' },
+    { code: 'distance-to-hospital', display: 'Route distance to hospital', value: kilometres(token.route_to_hospital_distance_meters), unit: 'km' },
+  ];
+  tripMetrics.forEach(({ code, display, value, unit }) => {
+    if (value == null) return;
+    add({
+      resourceType: 'Observation',
+      status: 'final',
+      category: category('activity'),
+      code: { coding: [{ system: TRIP_METRIC_SYSTEM, code, display }], text: display },
+      subject: patient,
+      encounter,
+      effectiveDateTime: end ?? token.created_at,
+      valueQuantity: quantity(value, unit),
+    });
+  });
+
+  if (report) addCareReport(add, patient, report, encounter);
+
+  return collection(token, entry, now);
+}
+
+export function downloadFhirBundle(bundle: FhirBundle, filename: string) {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// A hospital read from an Organization and the HealthcareServices it provides
+export interface ImportedHospital {
+  name: string;
+  identifiers: { system?: string; value: string }[];
+  address: string | null;
+  services: string[];
+  specialties: string[];
+}
+
+const isResource = (value: unknown): value is FhirResource =>
+  typeof value === 'object' && value !== null && typeof (value as FhirResource).resourceType === 'string';
+
+const conceptTexts = (concepts: unknown): string[] =>
+  Array.isArray(concepts)
+    ? concepts.flatMap((concept: FhirCodeableConcept) => [
+        concept?.text,
+        ...(concept?.coding ?? []).map(coding => coding.display),
+      ]).filter((text): text is string => Boolean(text))
+    : [];
+
+const addressText = (address: unknown): string | null => {
+  const first = Array.isArray(address) ? address[0] : null;
+  if (!first) return null;
+  return first.text ?? ([...(first.line ?? []), first.city, first.state, first.postalCode].filter(Boolean).join(', ') || null);
+};
+
+/**
+ * Reads hospitals from a FHIR Organization, HealthcareService or a Bundle of them.
+ * Services are attached to their Organization through providedBy; specialties come
+ * from matching the organization and service names, categories, types and
+ * specialties against the specialty keywords. Throws when nothing usable is found.
+ */
+export function parseHospitalDirectory(json: unknown): ImportedHospital[] {
+  if (!isResource(json)) throw new Error('Not a FHIR resource');
+
+  const resources: { fullUrl?: string; resource: FhirResource }[] = json.resourceType === 'Bundle'
+    ? ((json.entry as { fullUrl?: string; resource?: unknown }[] | undefined) ?? [])
+        .filter(item => isResource(item?.resource))
+        .map(item => ({ fullUrl: item.fullUrl, resource: item.resource as FhirResource }))
+    : [{ resource: json }];
+
+  const hospitals = new Map<string, ImportedHospital>();
+  const keysOf = (fullUrl: string | undefined, resource: FhirResource) =>
+    [fullUrl, resource.id && `Organization/${resource.id}`, resource.id && `urn:uuid:${resource.id}`].filter(Boolean) as string[];
+
+  resources.forEach(({ fullUrl, resource }) => {
+    if (resource.resourceType !== 'Organization') return;
+    const hospital: ImportedHospital = {
+      name: (resource.name as string | undefined) ?? 'Unnamed organization',
+      identifiers: ((resource.identifier as { system?: string; value?: string }[] | undefined) ?? [])
+        .filter(identifier => identifier.value)
+        .map(identifier => ({ system: identifier.system, value: identifier.value! })),
+      address: addressText(resource.address),
+      services: [],
+      specialties: [],
+    };
+    const keys = keysOf(fullUrl, resource);
+    keys.forEach(key => hospitals.set(key, hospital));
+    if (keys.length === 0) hospitals.set(crypto.randomUUID(), hospital);
+  });
+
+  resources.forEach(({ resource }) => {
+    if (resource.resourceType !== 'HealthcareService') return;
+    const provider = resource.providedBy as FhirReference | undefined;
+    const key = provider?.reference ?? provider?.display ?? 'unknown';
+
+    // Services whose Organization is not in the file still make a hospital of their own
+    let hospital = hospitals.get(key);
+    if (!hospital) {
+      hospital = { name: provider?.display ?? 'Unnamed organization', identifiers: [], address: null, services: [], specialties: [] };
+      hospitals.set(key, hospital);
+    }
+
+    hospital.services.push(...[
+      resource.name as string | undefined,
+      resource.comment as string | undefined,
+      ...conceptTexts(resource.category),
+      ...conceptTexts(resource.type),
+      ...conceptTexts(resource.specialty),
+    ].filter((text): text is string => Boolean(text)));
+  });
+
+  const unique = [...new Set(hospitals.values())];
+  if (unique.length === 0) throw new Error('No Organization or HealthcareService resources found');
+
+  return unique.map(hospital => {
+    const services = [...new Set(hospital.services)];
+    return { ...hospital, services, specialties: matchSpecialties([hospital.name, ...services].join(' ')) };
+  });
+}
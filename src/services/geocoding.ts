@@ -0,0 +1,243 @@
+export type GeocodeSource = 'nominatim' | 'gazetteer';
+
+export interface GeocodeResult {
+  label: string;
+  lat: number;
+  lng: number;
+  source: GeocodeSource;
+}
+
+export interface GazetteerPlace {
+  name: string;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export interface GeocodingProvider {
+  name: string;
+  search(query: string, limit: number): Promise<GeocodeResult[]>;
+  reverse(lat: number, lng: number): Promise<string | null>;
+}
+
+export type GeocodingProviderId = 'nominatim' | 'gazetteer';
+
+const PUBLIC_NOMINATIM_URL = 'https://nominatim.openstreetmap.org';
+const REQUEST_TIMEOUT_MS = 6000;
+// Nominatim usage policy: at most one request per second
+const MIN_REQUEST_INTERVAL_MS = 1000;
+const CACHE_TTL_MS = 30 * 60 * 1000;
+const MAX_CACHE_ENTRIES = 200;
+// Reverse lookups snap to ~10 m so small map jitters reuse the cache
+const REVERSE_PRECISION = 4;
+// Gazetteer reverse lookups only describe a point as "near" a place within this radius
+const GAZETTEER_REVERSE_RADIUS_M = 2000;
+
+// Landmarks in our service areas, used when the online geocoder is unavailable
+const LANDMARKS: GazetteerPlace[] = [
+  // Chandigarh / Mohali
+  { name: 'Sector 17 Plaza, Chandigarh', lat: 30.7398, lng: 76.7827, aliases: ['sector 17'] },
+  { name: 'Chandigarh Railway Station', lat: 30.7023, lng: 76.8206 },
+  { name: 'ISBT Sector 43, Chandigarh', lat: 30.7196, lng: 76.7505, aliases: ['isbt 43'] },
+  { name: 'Elante Mall, Industrial Area Phase 1', lat: 30.7056, lng: 76.8013, aliases: ['elante'] },
+  { name: 'Sukhna Lake, Chandigarh', lat: 30.7421, lng: 76.8188 },
+  { name: 'Rock Garden, Chandigarh', lat: 30.7525, lng: 76.8101 },
+  { name: 'Panjab University, Sector 14', lat: 30.7600, lng: 76.7680, aliases: ['pu campus'] },
+  { name: 'Mohali Phase 7', lat: 30.7046, lng: 76.7179 },
+  { name: 'Chandigarh International Airport', lat: 30.6735, lng: 76.7885 },
+  // Delhi
+  { name: 'Connaught Place, New Delhi', lat: 28.6315, lng: 77.2167, aliases: ['cp', 'rajiv chowk'] },
+  { name: 'India Gate, New Delhi', lat: 28.6129, lng: 77.2295 },
+  { name: 'New Delhi Railway Station', lat: 28.6430, lng: 77.2194, aliases: ['ndls'] },
+  { name: 'Kashmere Gate ISBT, Delhi', lat: 28.6677, lng: 77.2281, aliases: ['isbt kashmere gate'] },
+  { name: 'AIIMS Metro Station, Delhi', lat: 28.5687, lng: 77.2079 },
+  { name: 'Saket, New Delhi', lat: 28.5245, lng: 77.2066 },
+  { name: 'Karol Bagh, New Delhi', lat: 28.6519, lng: 77.1909 },
+  { name: 'Lajpat Nagar, New Delhi', lat: 28.5677, lng: 77.2433 },
+  { name: 'Indira Gandhi International Airport', lat: 28.5562, lng: 77.1000, aliases: ['igi airport', 'delhi airport'] },
+  // Jaipur
+  { name: 'Hawa Mahal, Jaipur', lat: 26.9239, lng: 75.8267 },
+  { name: 'Jaipur Junction Railway Station', lat: 26.9196, lng: 75.7878, aliases: ['jaipur station'] },
+  { name: 'Sindhi Camp Bus Stand, Jaipur', lat: 26.9227, lng: 75.8003 },
+  { name: 'MI Road, Jaipur', lat: 26.9157, lng: 75.8069 },
+  { name: 'Malviya Nagar, Jaipur', lat: 26.8549, lng: 75.8243 },
+  { name: 'Vaishali Nagar, Jaipur', lat: 26.9115, lng: 75.7430 },
+  { name: 'Jaipur International Airport', lat: 26.8242, lng: 75.8122 },
+];
+
+const gazetteer = new Map<string, GazetteerPlace>(LANDMARKS.map(place => [place.name.toLowerCase(), place]));
+
+// Add or refresh gazetteer entries (e.g. hospitals loaded from the database)
+export function registerGazetteerPlaces(places: GazetteerPlace[]) {
+  places.forEach(place => {
+    if (!place.name || isNaN(place.lat) || isNaN(place.lng)) return;
+    gazetteer.set(place.name.toLowerCase(), place);
+  });
+}
+
+const distanceMeters = (lat1: number, lng1: number, lat2: number, lng2: number) => {
+  const R = 6371000;
+  const dLat = (lat2 - lat1) * (Math.PI / 180);
+  const dLng = (lng2 - lng1) * (Math.PI / 180);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(lat1 * (Math.PI / 180)) * Math.cos(lat2 * (Math.PI / 180)) *
+    Math.sin(dLng / 2) ** 2;
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const gazetteerProvider: GeocodingProvider = {
+  name: 'gazetteer',
+  async search(query, limit) {
+    const terms = query.toLowerCase().split(/[\s,]+/).filter(Boolean);
+    if (terms.length === 0) return [];
+
+    return [...gazetteer.values()]
+      .map(place => {
+        const text = [place.name, ...(place.aliases || [])].join(' ').toLowerCase();
+        const matched = terms.filter(term => text.includes(term)).length;
+        return { place, matched };
+      })
+      .filter(({ matched }) => matched === terms.length)
+      .sort((a, b) => a.place.name.length - b.place.name.length)
+      .slice(0, limit)
+      .map(({ place }) => ({ label: place.name, lat: place.lat, lng: place.lng, source: 'gazetteer' as const }));
+  },
+  async reverse(lat, lng) {
+    let nearest: { place: GazetteerPlace; distance: number } | null = null;
+    for (const place of gazetteer.values()) {
+      const distance = distanceMeters(lat, lng, place.lat, place.lng);
+      if (!nearest || distance < nearest.distance) nearest = { place, distance };
+    }
+
+    if (!nearest || nearest.distance > GAZETTEER_REVERSE_RADIUS_M) return null;
+    return nearest.distance < 100
+      ? nearest.place.name
+      : `Near ${nearest.place.name} (${(nearest.distance / 1000).toFixed(1)} km)`;
+  },
+};
+
+export function createNominatimProvider(baseUrl: string): GeocodingProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+  let lastRequestAt = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const request = async (url: string) => {
+    const wait = lastRequestAt + MIN_REQUEST_INTERVAL_MS - Date.now();
+    if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+    lastRequestAt = Date.now();
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+    try {
+      const response = await fetch(url, { signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`Geocoding request failed with status ${response.status}`);
+      }
+      return await response.json();
+    } finally {
+      clearTimeout(timeout);
+    }
+  };
+
+  // One request at a time, spaced out to respect the usage policy instead of getting throttled
+  const fetchJson = (url: string) => {
+    const result = queue.then(() => request(url));
+    queue = result.catch(() => undefined);
+    return result;
+  };
+
+  return {
+    name: 'nominatim',
+    async search(query, limit) {
+      const data: { display_name: string; lat: string; lon: string }[] = await fetchJson(
+        `${root}/search?format=json&q=${encodeURIComponent(query)}&limit=${limit}`
+      );
+      return data.map(result => ({
+        label: result.display_name,
+        lat: parseFloat(result.lat),
+        lng: parseFloat(result.lon),
+        source: 'nominatim' as const,
+      }));
+    },
+    async reverse(lat, lng) {
+      const data = await fetchJson(`${root}/reverse?format=json&lat=${lat}&lon=${lng}`);
+      return data.display_name || null;
+    },
+  };
+}
+
+let activeProvider: GeocodingProvider | null = null;
+
+/**
+ * Geocoder selected by VITE_GEOCODER_PROVIDER ('nominatim' | 'gazetteer').
+ * VITE_NOMINATIM_URL points at a self-hosted Nominatim instead of the public one.
+ */
+export function getGeocodingProvider(): GeocodingProvider {
+  if (!activeProvider) {
+    const id = (import.meta.env.VITE_GEOCODER_PROVIDER || 'nominatim') as GeocodingProviderId;
+    activeProvider = id === 'gazetteer'
+      ? gazetteerProvider
+      : createNominatimProvider(import.meta.env.VITE_NOMINATIM_URL || PUBLIC_NOMINATIM_URL);
+  }
+  return activeProvider;
+}
+
+// Override the provider (e.g. the gazetteer in tests and scenario replays)
+export function setGeocodingProvider(provider: GeocodingProvider | null) {
+  activeProvider = provider;
+  cache.clear();
+}
+
+const cache = new Map<string, { value: unknown; expiresAt: number }>();
+
+const cached = async <T>(key: string, load: () => Promise<T>): Promise<T> => {
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) {
+    return hit.value as T;
+  }
+
+  const value = await load();
+  cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+  // Evict the oldest entry once the cache is full
+  if (cache.size > MAX_CACHE_ENTRIES) {
+    const oldestKey = cache.keys().next().value;
+    if (oldestKey !== undefined) cache.delete(oldestKey);
+  }
+  return value;
+};
+
+// Search places by name or address, falling back to the gazetteer if the provider fails
+export async function searchPlaces(query: string, limit = 5): Promise<GeocodeResult[]> {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const provider = getGeocodingProvider();
+  try {
+    return await cached(`search:${provider.name}:${trimmed.toLowerCase()}:${limit}`, async () => {
+      const results = await provider.search(trimmed, limit);
+      // Nothing online? Offer known landmarks and hospitals instead of an empty list
+      return results.length > 0 || provider === gazetteerProvider
+        ? results
+        : gazetteerProvider.search(trimmed, limit);
+    });
+  } catch (error) {
+    console.warn('Geocoder search failed, using local gazetteer:', error);
+    return gazetteerProvider.search(trimmed, limit);
+  }
+}
+
+// Human-readable address for a point; falls back to a landmark or raw coordinates
+export async function reverseGeocode(lat: number, lng: number): Promise<string> {
+  const coordinates = `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
+  const provider = getGeocodingProvider();
+  const key = `reverse:${provider.name}:${lat.toFixed(REVERSE_PRECISION)},${lng.toFixed(REVERSE_PRECISION)}`;
+
+  try {
+    const address = await cached(key, () => provider.reverse(lat, lng));
+    if (address) return address;
+  } catch (error) {
+    console.warn('Reverse geocoding failed, using local gazetteer:', error);
+  }
+
+  return (await gazetteerProvider.reverse(lat, lng)) || coordinates;
+}
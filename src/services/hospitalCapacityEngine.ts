@@ -1,12 +1,11 @@
-export interface HospitalCapacity {
-  total_beds: number;
-  available_beds: number;
-  icu_beds: number;
-  icu_available: number;
-  occupied_beds: number;
-  incoming_ambulances: number;
-  occupancy_percentage: number;
-}
+import { HospitalCapacity } from '@/types/database';
+
+export type { HospitalCapacity };
+
+// The simulator only runs when explicitly enabled (VITE_CAPACITY_DEMO_MODE=true).
+// Real deployments read hospital-reported inventory from the hospital_capacity table.
+export const isCapacityDemoMode = (): boolean =>
+  import.meta.env.VITE_CAPACITY_DEMO_MODE === 'true';
 
 class HospitalCapacityEngine {
   private capacityMap = new Map<string, HospitalCapacity>();
@@ -16,15 +15,16 @@ class HospitalCapacityEngine {
 
   constructor() {
     this.loadFromStorage();
-    this.startSimulation();
   }
 
   private loadFromStorage(): void {
     try {
       const stored = localStorage.getItem(this.STORAGE_KEY);
       if (stored) {
-        const data = JSON.parse(stored);
-        this.capacityMap = new Map(Object.entries(data));
+        const data: Record<string, HospitalCapacity> = JSON.parse(stored);
+        this.capacityMap = new Map(
+          Object.entries(data).map(([id, capacity]) => [id, { reserved_beds: 0, reserved_icu: 0, ...capacity, source: 'simulated' as const }])
+        );
       }
     } catch (error) {
       console.warn('Failed to load hospital capacity from storage:', error);
@@ -80,9 +80,13 @@ class HospitalCapacityEngine {
       available_beds: total_beds - occupied_beds,
       icu_beds,
       icu_available: icu_beds - occupied_icu,
+      reserved_beds: 0,
+      reserved_icu: 0,
       occupied_beds,
       incoming_ambulances: Math.random() > 0.7 ? Math.floor(Math.random() * 3) + 1 : 0,
-      occupancy_percentage: Math.round((occupied_beds / total_beds) * 100)
+      occupancy_percentage: Math.round((occupied_beds / total_beds) * 100),
+      source: 'simulated',
+      updated_at: new Date().toISOString()
     };
 
     this.capacityMap.set(hospitalId, capacity);
@@ -118,7 +122,8 @@ class HospitalCapacityEngine {
       icu_available: newIcuAvailable,
       occupied_beds,
       incoming_ambulances: newIncomingAmbulances,
-      occupancy_percentage
+      occupancy_percentage,
+      updated_at: new Date().toISOString()
     };
 
     this.capacityMap.set(hospitalId, updated);
@@ -138,6 +143,10 @@ class HospitalCapacityEngine {
   }
 
   public getCapacity(hospitalId: string, hospitalName: string): HospitalCapacity {
+    // Simulation starts lazily so importing the module has no side effects
+    if (!this.intervalId) {
+      this.startSimulation();
+    }
     if (!this.capacityMap.has(hospitalId)) {
       return this.initializeHospitalCapacity(hospitalId, hospitalName);
     }
@@ -156,5 +165,5 @@ class HospitalCapacityEngine {
   }
 }
 
-// Singleton instance
+// Singleton instance (demo mode only)
 export const hospitalCapacityEngine = new HospitalCapacityEngine();
\ No newline at end of file
@@ -0,0 +1,110 @@
+import type { EmergencyToken } from '@/hooks/useEmergencyTokens';
+import { PatientCareReport, VitalSigns, gcsTotal } from '@/types/database';
+import { downloadFhirBundle, handoverBundle } from '@/services/fhir';
+
+// Handover exports of a patient care report: a printable sheet (saved as PDF from the
+// browser's print dialog) and a FHIR R4 Bundle for hospital systems
+
+export const SEX_LABELS: Record<NonNullable<PatientCareReport['sex']>, string> = {
+  male: 'Male',
+  female: 'Female',
+  other: 'Other',
+  unknown: 'Unknown',
+};
+
+export const emptyVitals = (takenAt = new Date().toISOString()): VitalSigns => ({
+  taken_at: takenAt,
+  heart_rate: null,
+  systolic_bp: null,
+  diastolic_bp: null,
+  respiratory_rate: null,
+  spo2: null,
+  temperature_c: null,
+  glucose_mg_dl: null,
+});
+
+// "HR 92 · BP 130/85 · RR 18 · SpO₂ 96% · 37.2 °C · BGL 110", skipping what was not measured
+export function formatVitals(vitals: VitalSigns): string {
+  const parts = [
+    vitals.heart_rate != null && `HR ${vitals.heart_rate}`,
+    (vitals.systolic_bp != null || vitals.diastolic_bp != null) && `BP ${vitals.systolic_bp ?? '?'}/${vitals.diastolic_bp ?? '?'}`,
+    vitals.respiratory_rate != null && `RR ${vitals.respiratory_rate}`,
+    vitals.spo2 != null && `SpO₂ ${vitals.spo2}%`,
+    vitals.temperature_c != null && `${vitals.temperature_c} °C`,
+    vitals.glucose_mg_dl != null && `BGL ${vitals.glucose_mg_dl}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(' · ') : 'No readings';
+}
+
+export function formatGcs(report: PatientCareReport): string | null {
+  const total = gcsTotal(report);
+  return total == null ? null : `${total} (E${report.gcs_eye} V${report.gcs_verbal} M${report.gcs_motor})`;
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char]!);
+
+const time = (iso: string) => new Date(iso).toLocaleTimeString();
+
+function handoverHtml(token: EmergencyToken, report: PatientCareReport): string {
+  const row = (label: string, value: string | null) =>
+    `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value || '—')}</td></tr>`;
+  const list = (items: string[]) =>
+    items.length > 0 ? `<ul>${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>` : '<p>None recorded</p>';
+
+  return `<!doctype html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>Handover ${escapeHtml(token.token_code)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2rem; color: #111; }
+  h1 { font-size: 1.4rem; margin-bottom: 0; }
+  h2 { font-size: 1.05rem; margin: 1.5rem 0 0.5rem; border-bottom: 1px solid #ccc; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { text-align: left; padding: 0.25rem 0.5rem; vertical-align: top; }
+  th { width: 30%; color: #555; font-weight: 500; }
+  .muted { color: #666; font-size: 0.85rem; }
+</style>
+</head>
+<body>
+<h1>Patient handover · ${escapeHtml(token.token_code)}</h1>
+<p class="muted">${escapeHtml(token.hospital_name || 'Receiving hospital')} · report updated ${escapeHtml(new Date(report.updated_at).toLocaleString())}</p>
+<h2>Patient</h2>
+<table>
+  ${row('Estimated age', report.estimated_age != null ? `${report.estimated_age} years` : null)}
+  ${row('Sex', report.sex ? SEX_LABELS[report.sex] : null)}
+  ${row('Emergency', [token.emergency_type, token.medical_keyword].filter(Boolean).join(' · ') || null)}
+  ${row('Pickup', token.pickup_address)}
+  ${row('Chief complaint', report.chief_complaint)}
+  ${row('GCS', formatGcs(report))}
+</table>
+<h2>Vitals</h2>
+${report.vitals.length > 0
+    ? `<table>${report.vitals.map(vitals => row(time(vitals.taken_at), formatVitals(vitals))).join('')}</table>`
+    : '<p>None recorded</p>'}
+<h2>Medications given</h2>
+${list(report.medications.map(m => `${time(m.given_at)} ${m.name} ${m.dose} ${m.route}`.trim()))}
+<h2>Interventions</h2>
+${list(report.interventions)}
+<h2>Allergies</h2>
+${list(report.allergies)}
+</body>
+</html>`;
+}
+
+// Opens the handover sheet in the print dialog, where it can be saved as a PDF
+export function printHandoverReport(token: EmergencyToken, report: PatientCareReport): boolean {
+  const sheet = window.open('', '_blank', 'width=800,height=900');
+  if (!sheet) return false;
+
+  sheet.document.write(handoverHtml(token, report));
+  sheet.document.close();
+  sheet.focus();
+  sheet.print();
+  return true;
+}
+
+export function downloadHandoverBundle(token: EmergencyToken, report: PatientCareReport) {
+  downloadFhirBundle(handoverBundle(token, report), `handover-${token.token_code}.fhir.json`);
+}
@@ -0,0 +1,97 @@
+// Geometry helpers for route polylines stored as [lat, lng] pairs
+
+export type RoutePoint = [number, number];
+
+export interface RouteProjection {
+  distanceAlong: number; // meters from the start of the route to the projected point
+  offset: number; // perpendicular distance from the route in meters
+  segmentIndex: number;
+  bearing: number; // travel bearing of the segment, degrees clockwise from north
+}
+
+const EARTH_RADIUS = 6371000;
+const toRadians = (degrees: number) => degrees * (Math.PI / 180);
+
+// Local flat projection (meters) around a reference latitude; accurate at city scale
+const toLocal = (lat: number, lng: number, refLat: number) => ({
+  x: toRadians(lng) * EARTH_RADIUS * Math.cos(toRadians(refLat)),
+  y: toRadians(lat) * EARTH_RADIUS,
+});
+
+export function bearingBetween(from: RoutePoint, to: RoutePoint): number {
+  const [lat1, lng1] = from.map(toRadians);
+  const [lat2, lng2] = to.map(toRadians);
+  const y = Math.sin(lng2 - lng1) * Math.cos(lat2);
+  const x = Math.cos(lat1) * Math.sin(lat2) - Math.sin(lat1) * Math.cos(lat2) * Math.cos(lng2 - lng1);
+  return (Math.atan2(y, x) * (180 / Math.PI) + 360) % 360;
+}
+
+export function segmentLength(from: RoutePoint, to: RoutePoint): number {
+  const a = toLocal(from[0], from[1], from[0]);
+  const b = toLocal(to[0], to[1], from[0]);
+  return Math.hypot(b.x - a.x, b.y - a.y);
+}
+
+// Cumulative distance at each vertex of the route
+export function cumulativeDistances(coordinates: RoutePoint[]): number[] {
+  const distances = [0];
+  for (let i = 1; i < coordinates.length; i++) {
+    distances.push(distances[i - 1] + segmentLength(coordinates[i - 1], coordinates[i]));
+  }
+  return distances;
+}
+
+export function routeLength(coordinates: RoutePoint[]): number {
+  const distances = cumulativeDistances(coordinates);
+  return distances[distances.length - 1] ?? 0;
+}
+
+/**
+ * Every segment of the route the point projects onto, nearest first.
+ * Routes that pass the same junction twice produce one projection per pass.
+ */
+export function projectOntoRouteSegments(coordinates: RoutePoint[], lat: number, lng: number): RouteProjection[] {
+  if (coordinates.length < 2) return [];
+
+  const distances = cumulativeDistances(coordinates);
+  const projections: RouteProjection[] = [];
+
+  for (let i = 0; i < coordinates.length - 1; i++) {
+    const [startLat, startLng] = coordinates[i];
+    const [endLat, endLng] = coordinates[i + 1];
+    const a = toLocal(startLat, startLng, startLat);
+    const b = toLocal(endLat, endLng, startLat);
+    const p = toLocal(lat, lng, startLat);
+
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+
+    projections.push({
+      distanceAlong: distances[i] + t * Math.sqrt(lengthSquared),
+      offset: Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy)),
+      segmentIndex: i,
+      bearing: bearingBetween(coordinates[i], coordinates[i + 1]),
+    });
+  }
+
+  return projections.sort((x, y) => x.offset - y.offset);
+}
+
+// Closest point on the route to the given position
+export function projectOntoRoute(coordinates: RoutePoint[], lat: number, lng: number): RouteProjection | null {
+  return projectOntoRouteSegments(coordinates, lat, lng)[0] ?? null;
+}
+
+// Travel bearing of the segment at a distance along the route (clamped to the first/last segment)
+export function bearingAt(coordinates: RoutePoint[], distanceAlong: number): number | null {
+  if (coordinates.length < 2) return null;
+
+  const distances = cumulativeDistances(coordinates);
+  let index = 0;
+  while (index < coordinates.length - 2 && distances[index + 1] <= distanceAlong) {
+    index++;
+  }
+  return bearingBetween(coordinates[index], coordinates[index + 1]);
+}
@@ -0,0 +1,284 @@
+export type EtaSource = 'route' | 'straight_line';
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface TravelEstimate {
+  duration: number; // seconds
+  distance: number; // meters
+  source: EtaSource;
+}
+
+export interface RouteResult {
+  coordinates: [number, number][]; // [lat, lng]
+  distance: number; // meters
+  duration: number; // seconds
+  type: 'fastest' | 'shortest' | 'alternative';
+}
+
+export interface RoutingProvider {
+  name: string;
+  route(from: LatLng, to: LatLng): Promise<RouteResult | null>;
+  alternatives(from: LatLng, to: LatLng): Promise<RouteResult[]>;
+  table(sources: LatLng[], destinations: LatLng[]): Promise<TravelEstimate[][]>;
+}
+
+export type RoutingProviderId = 'osrm-public' | 'osrm' | 'offline';
+
+const PUBLIC_OSRM_URL = 'https://router.project-osrm.org';
+const REQUEST_TIMEOUT_MS = 8000;
+
+// Average urban ambulance speed used when no road ETA is available (25 km/h)
+const FALLBACK_SPEED_MPS = 25 / 3.6;
+
+// Great-circle distance in meters
+export const haversineDistance = (from: LatLng, to: LatLng): number => {
+  const R = 6371000;
+  const dLat = (to.lat - from.lat) * (Math.PI / 180);
+  const dLng = (to.lng - from.lng) * (Math.PI / 180);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(from.lat * (Math.PI / 180)) * Math.cos(to.lat * (Math.PI / 180)) *
+    Math.sin(dLng / 2) ** 2;
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+};
+
+// Straight-line estimate used when the routing service is unavailable
+export const estimateTravel = (from: LatLng, to: LatLng): TravelEstimate => {
+  const distance = haversineDistance(from, to);
+  return {
+    duration: Math.round(distance / FALLBACK_SPEED_MPS),
+    distance,
+    source: 'straight_line',
+  };
+};
+
+const fetchJson = async (url: string) => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, { signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`Routing request failed with status ${response.status}`);
+    }
+    return await response.json();
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+// Label the quickest route 'fastest' and, if a slower one is shorter, the shortest by distance
+// 'shortest'; every other route is an 'alternative'
+const labelRoutes = (routes: RouteResult[]): RouteResult[] => {
+  const sorted = [...routes].sort((a, b) => a.duration - b.duration);
+  if (sorted.length === 0) return sorted;
+
+  const [fastest, ...others] = sorted;
+  const shortest = others.reduce<RouteResult | null>(
+    (best, route) => (route.distance < (best?.distance ?? fastest.distance) ? route : best),
+    null
+  );
+  fastest.type = 'fastest';
+  others.forEach(route => { route.type = route === shortest ? 'shortest' : 'alternative'; });
+  return sorted;
+};
+
+interface OsrmRoute {
+  geometry: { coordinates: [number, number][] };
+  distance: number;
+  duration: number;
+}
+
+export function createOsrmProvider(baseUrl: string, name = 'osrm'): RoutingProvider {
+  const root = baseUrl.replace(/\/+$/, '');
+  const toCoords = (points: LatLng[]) => points.map(p => `${p.lng},${p.lat}`).join(';');
+
+  const fetchRoutes = async (from: LatLng, to: LatLng, alternatives: boolean): Promise<RouteResult[]> => {
+    const data = await fetchJson(
+      `${root}/route/v1/driving/${toCoords([from, to])}?overview=full&geometries=geojson&alternatives=${alternatives}`
+    );
+
+    if (data.code !== 'Ok' || !data.routes?.length) {
+      throw new Error(data.message || 'No routes found');
+    }
+
+    return data.routes.map((route: OsrmRoute) => ({
+      // OSRM returns [lng, lat]
+      coordinates: route.geometry.coordinates.map(([lng, lat]) => [lat, lng] as [number, number]),
+      distance: route.distance,
+      duration: route.duration,
+      type: 'fastest' as const,
+    }));
+  };
+
+  return {
+    name,
+    async route(from, to) {
+      const routes = await fetchRoutes(from, to, false);
+      return routes[0] || null;
+    },
+    async alternatives(from, to) {
+      return labelRoutes(await fetchRoutes(from, to, true));
+    },
+    async table(sources, destinations) {
+      if (sources.length === 0 || destinations.length === 0) return [];
+
+      const sourceIndexes = sources.map((_, i) => i).join(';');
+      const destinationIndexes = destinations.map((_, i) => sources.length + i).join(';');
+      const data = await fetchJson(
+        `${root}/table/v1/driving/${toCoords([...sources, ...destinations])}?sources=${sourceIndexes}&destinations=${destinationIndexes}&annotations=duration,distance`
+      );
+
+      if (data.code !== 'Ok' || !data.durations) {
+        throw new Error(data.message || 'Routing matrix unavailable');
+      }
+
+      return sources.map((source, i) =>
+        destinations.map((destination, j) => {
+          const duration = data.durations[i]?.[j];
+          const distance = data.distances?.[i]?.[j];
+          if (typeof duration !== 'number') {
+            return estimateTravel(source, destination);
+          }
+          return {
+            duration,
+            distance: typeof distance === 'number' ? distance : haversineDistance(source, destination),
+            source: 'route' as const,
+          };
+        })
+      );
+    },
+  };
+}
+
+// Deterministic offline stub: straight polylines with a fixed road-detour factor.
+// Same inputs always give the same routes, so tests and demos never hit the network.
+const OFFLINE_DETOUR_FACTOR = 1.3;
+const OFFLINE_SEGMENTS = 20;
+
+const interpolate = (from: LatLng, to: LatLng, bend = 0): [number, number][] => {
+  const points: [number, number][] = [];
+  for (let i = 0; i <= OFFLINE_SEGMENTS; i++) {
+    const t = i / OFFLINE_SEGMENTS;
+    // Offset perpendicular to the straight line, peaking at the midpoint
+    const offset = bend * Math.sin(Math.PI * t);
+    points.push([
+      from.lat + (to.lat - from.lat) * t - (to.lng - from.lng) * offset,
+      from.lng + (to.lng - from.lng) * t + (to.lat - from.lat) * offset,
+    ]);
+  }
+  return points;
+};
+
+const pathDistance = (coordinates: [number, number][]) =>
+  coordinates.slice(1).reduce((sum, [lat, lng], i) => {
+    const [prevLat, prevLng] = coordinates[i];
+    return sum + haversineDistance({ lat: prevLat, lng: prevLng }, { lat, lng });
+  }, 0);
+
+const offlineRoute = (from: LatLng, to: LatLng, bend: number, speedFactor: number): RouteResult => {
+  const coordinates = interpolate(from, to, bend);
+  const distance = pathDistance(coordinates) * OFFLINE_DETOUR_FACTOR;
+  return {
+    coordinates,
+    distance,
+    duration: Math.round(distance / (FALLBACK_SPEED_MPS * speedFactor)),
+    type: 'fastest',
+  };
+};
+
+export const offlineProvider: RoutingProvider = {
+  name: 'offline',
+  async route(from, to) {
+    return offlineRoute(from, to, 0, 1);
+  },
+  async alternatives(from, to) {
+    // A longer but faster "ring road" alternative alongside the direct route
+    return labelRoutes([
+      offlineRoute(from, to, 0, 1),
+      offlineRoute(from, to, 0.15, 1.4),
+    ]);
+  },
+  async table(sources, destinations) {
+    return sources.map(source =>
+      destinations.map(destination => {
+        const route = offlineRoute(source, destination, 0, 1);
+        return { duration: route.duration, distance: route.distance, source: 'route' as const };
+      })
+    );
+  },
+};
+
+let activeProvider: RoutingProvider | null = null;
+
+const createProvider = (id: RoutingProviderId, osrmUrl?: string): RoutingProvider => {
+  switch (id) {
+    case 'offline':
+      return offlineProvider;
+    case 'osrm':
+      if (osrmUrl) return createOsrmProvider(osrmUrl, 'osrm');
+      console.warn('VITE_ROUTING_PROVIDER=osrm requires VITE_OSRM_URL; falling back to the public OSRM server');
+      return createOsrmProvider(PUBLIC_OSRM_URL, 'osrm-public');
+    default:
+      return createOsrmProvider(PUBLIC_OSRM_URL, 'osrm-public');
+  }
+};
+
+/**
+ * Routing provider selected by VITE_ROUTING_PROVIDER ('osrm-public' | 'osrm' | 'offline').
+ * 'osrm' points at a self-hosted server via VITE_OSRM_URL. The public demo server
+ * is rate-limited and only meant for development.
+ */
+export function getRoutingProvider(): RoutingProvider {
+  if (!activeProvider) {
+    const id = (import.meta.env.VITE_ROUTING_PROVIDER || 'osrm-public') as RoutingProviderId;
+    activeProvider = createProvider(id, import.meta.env.VITE_OSRM_URL);
+
+    if (activeProvider.name === 'osrm-public' && import.meta.env.PROD) {
+      console.warn('Using the rate-limited public OSRM demo server; configure VITE_OSRM_URL for production dispatch');
+    }
+  }
+  return activeProvider;
+}
+
+// Override the provider (e.g. the offline stub in tests and scenario replays)
+export function setRoutingProvider(provider: RoutingProvider | null) {
+  activeProvider = provider;
+}
+
+// Single best route between two points, or null if routing fails
+export async function fetchRoute(from: LatLng, to: LatLng): Promise<RouteResult | null> {
+  try {
+    return await getRoutingProvider().route(from, to);
+  } catch (error) {
+    console.error('Route fetch error:', error);
+    return null;
+  }
+}
+
+// Fastest route plus any alternatives, sorted by duration
+export async function fetchRouteAlternatives(from: LatLng, to: LatLng): Promise<RouteResult[]> {
+  try {
+    return await getRoutingProvider().alternatives(from, to);
+  } catch (error) {
+    console.error('Route fetch error:', error);
+    return [];
+  }
+}
+
+/**
+ * Travel time and distance from every source to every destination in a single
+ * table request. Falls back to straight-line estimates if the provider fails.
+ */
+export async function fetchTravelMatrix(sources: LatLng[], destinations: LatLng[]): Promise<TravelEstimate[][]> {
+  if (sources.length === 0 || destinations.length === 0) return [];
+
+  try {
+    return await getRoutingProvider().table(sources, destinations);
+  } catch (error) {
+    console.warn('Routing matrix failed, using straight-line estimates:', error);
+    return sources.map(source => destinations.map(destination => estimateTravel(source, destination)));
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  RouteDirection,
+  SignalApproach,
+  SignalPhase,
+  SignalPhasePlan,
+  TurnType,
+  getRouteDirection,
+} from '@/types/database';
+import { RoutePoint, bearingAt } from '@/services/routeGeometry';
+
+// Movement an ambulance will make through a junction and the phase that serves it
+export interface SignalMovementMatch {
+  approach: SignalApproach;
+  turn: TurnType;
+  phase: SignalPhase | null;
+}
+
+// Distance before/after the junction used to measure the inbound and outbound headings,
+// long enough to step over the short connector segments routers put inside junctions
+const TURN_MEASURE_DISTANCE = 30; // meters
+const THROUGH_TOLERANCE = 30; // degrees either side of straight ahead
+const U_TURN_THRESHOLD = 150; // degrees
+
+// Mirrors the default plan in the phase model migration: four legs, through and left
+// together (left turns do not cross opposing traffic), right turns protected
+export const DEFAULT_PHASE_PLAN: SignalPhasePlan = {
+  approaches: [
+    { id: 'N', name: 'From north', bearing: 180 },
+    { id: 'E', name: 'From east', bearing: 270 },
+    { id: 'S', name: 'From south', bearing: 0 },
+    { id: 'W', name: 'From west', bearing: 90 },
+  ],
+  phases: [
+    {
+      id: 1,
+      name: 'North-South through',
+      movements: [
+        { approach: 'N', turn: 'through' }, { approach: 'N', turn: 'left' },
+        { approach: 'S', turn: 'through' }, { approach: 'S', turn: 'left' },
+      ],
+    },
+    {
+      id: 2,
+      name: 'North-South right turns',
+      movements: [
+        { approach: 'N', turn: 'right' }, { approach: 'N', turn: 'u_turn' },
+        { approach: 'S', turn: 'right' }, { approach: 'S', turn: 'u_turn' },
+      ],
+    },
+    {
+      id: 3,
+      name: 'East-West through',
+      movements: [
+        { approach: 'E', turn: 'through' }, { approach: 'E', turn: 'left' },
+        { approach: 'W', turn: 'through' }, { approach: 'W', turn: 'left' },
+      ],
+    },
+    {
+      id: 4,
+      name: 'East-West right turns',
+      movements: [
+        { approach: 'E', turn: 'right' }, { approach: 'E', turn: 'u_turn' },
+        { approach: 'W', turn: 'right' }, { approach: 'W', turn: 'u_turn' },
+      ],
+    },
+  ],
+  clearance: { yellow_seconds: 3, all_red_seconds: 2 },
+};
+
+// Signed difference b - a in degrees, in (-180, 180]
+const angleDelta = (a: number, b: number) => {
+  const delta = (((b - a) % 360) + 360) % 360;
+  return delta > 180 ? delta - 360 : delta;
+};
+
+export function classifyTurn(inboundBearing: number, outboundBearing: number): TurnType {
+  const delta = angleDelta(inboundBearing, outboundBearing);
+  if (Math.abs(delta) <= THROUGH_TOLERANCE) return 'through';
+  if (Math.abs(delta) >= U_TURN_THRESHOLD) return 'u_turn';
+  return delta > 0 ? 'right' : 'left';
+}
+
+// Leg whose entry heading is closest to the ambulance's heading into the junction
+export function matchApproach(plan: SignalPhasePlan, inboundBearing: number): SignalApproach | null {
+  let best: SignalApproach | null = null;
+  let bestDelta = Infinity;
+  for (const approach of plan.approaches) {
+    const delta = Math.abs(angleDelta(approach.bearing, inboundBearing));
+    if (delta < bestDelta) {
+      best = approach;
+      bestDelta = delta;
+    }
+  }
+  return best;
+}
+
+// First phase that serves the movement; a phase serving any movement from the leg is the fallback
+export function findPhase(plan: SignalPhasePlan, approachId: string, turn: TurnType): SignalPhase | null {
+  return plan.phases.find(phase =>
+    phase.movements.some(movement => movement.approach === approachId && movement.turn === turn)
+  ) ?? plan.phases.find(phase => phase.movements.some(movement => movement.approach === approachId)) ?? null;
+}
+
+/**
+ * Work out how a route passes through a junction crossed at `distanceAlong`:
+ * the approach it enters on, the turn it makes next and the phase that serves it.
+ */
+export function matchRouteMovement(
+  plan: SignalPhasePlan,
+  route: RoutePoint[],
+  distanceAlong: number
+): SignalMovementMatch | null {
+  const inbound = bearingAt(route, distanceAlong - TURN_MEASURE_DISTANCE);
+  const outbound = bearingAt(route, distanceAlong + TURN_MEASURE_DISTANCE);
+  if (inbound === null || outbound === null) return null;
+
+  const approach = matchApproach(plan, inbound);
+  if (!approach) return null;
+
+  const turn = classifyTurn(inbound, outbound);
+  return { approach, turn, phase: findPhase(plan, approach.id, turn) };
+}
+
+// Legacy direction label for a leg, matching getRouteDirection on its entry heading
+export const getApproachDirection = (approach: SignalApproach): RouteDirection =>
+  getRouteDirection(approach.bearing);
+
+export const getPhase = (plan: SignalPhasePlan, phaseId: number | null): SignalPhase | null =>
+  phaseId === null ? null : plan.phases.find(phase => phase.id === phaseId) ?? null;
+
+export const TURN_LABELS: Record<TurnType, string> = {
+  left: 'Left turn',
+  through: 'Straight through',
+  right: 'Right turn',
+  u_turn: 'U-turn',
+};
@@ -0,0 +1,111 @@
+import { TrafficSignal, RouteDirection, SignalStatus, getRouteDirection } from '@/types/database';
+import { RoutePoint, projectOntoRoute, projectOntoRouteSegments } from '@/services/routeGeometry';
+import {
+  DEFAULT_PHASE_PLAN,
+  SignalMovementMatch,
+  getApproachDirection,
+  matchRouteMovement,
+} from '@/services/signalPhases';
+
+// Signals further than this from the route polyline are on other streets
+export const CORRIDOR_WIDTH = 35; // meters
+export const PREPARE_DISTANCE = 1000; // 1 km ahead along the route
+export const ACTIVATE_DISTANCE = 250; // 250 meters ahead along the route
+const PREPARE_ETA = 90; // seconds
+const ACTIVATE_ETA = 20; // seconds
+// A signal counts as passed once the ambulance is this far beyond it
+const PASSED_MARGIN = 15; // meters
+// Planning speed floor so a stopped ambulance still has finite ETAs
+const MIN_PLANNING_SPEED_KMH = 20;
+
+export type PreemptionAction = SignalStatus | 'release' | 'none';
+
+export interface SignalPreemption {
+  signal: TrafficSignal;
+  action: PreemptionAction;
+  onCorridor: boolean;
+  passed: boolean;
+  distanceAhead: number; // meters along the route, 0 once reached
+  etaSeconds: number;
+  direction: RouteDirection | null; // approach direction along the route
+  movement: SignalMovementMatch | null; // approach, next turn and the phase that serves it
+}
+
+interface PreemptionAmbulance {
+  id: string;
+  current_lat: number;
+  current_lng: number;
+  speed: number | null; // km/h
+}
+
+/**
+ * Decide the state of every signal for an ambulance following a route polyline.
+ * Only signals inside the corridor ahead of the ambulance are preempted; signals it has
+ * passed (or that are off the route) are released if this ambulance holds them.
+ * Each upcoming signal is matched to the phase serving the ambulance's next turn there.
+ * Corridor signals come first, ordered by projected arrival time.
+ */
+export function planSignalPreemption(
+  signals: TrafficSignal[],
+  route: RoutePoint[],
+  ambulance: PreemptionAmbulance
+): SignalPreemption[] {
+  const position = projectOntoRoute(route, ambulance.current_lat, ambulance.current_lng);
+  const progress = position?.distanceAlong ?? 0;
+  const speedMs = Math.max(ambulance.speed || 0, MIN_PLANNING_SPEED_KMH) / 3.6;
+
+  const plans = signals.map(signal => {
+    const crossings = projectOntoRouteSegments(route, signal.location_lat, signal.location_lng)
+      .filter(projection => projection.offset <= CORRIDOR_WIDTH);
+    // Next time the route crosses this signal, if at all
+    const upcoming = crossings
+      .filter(projection => projection.distanceAlong >= progress - PASSED_MARGIN)
+      .sort((a, b) => a.distanceAlong - b.distanceAlong)[0];
+
+    const holdsSignal = signal.activated_by === ambulance.id && signal.current_status !== 'normal';
+
+    if (!upcoming) {
+      return {
+        signal,
+        action: holdsSignal ? 'release' : 'none',
+        onCorridor: crossings.length > 0,
+        passed: crossings.length > 0,
+        distanceAhead: 0,
+        etaSeconds: 0,
+        direction: null,
+        movement: null,
+      } as SignalPreemption;
+    }
+
+    const movement = matchRouteMovement(signal.phase_plan ?? DEFAULT_PHASE_PLAN, route, upcoming.distanceAlong);
+    const distanceAhead = Math.max(0, upcoming.distanceAlong - progress);
+    const etaSeconds = distanceAhead / speedMs;
+
+    let action: PreemptionAction = 'none';
+    if (distanceAhead <= ACTIVATE_DISTANCE || etaSeconds <= ACTIVATE_ETA) {
+      action = 'priority';
+    } else if (distanceAhead <= PREPARE_DISTANCE || etaSeconds <= PREPARE_ETA) {
+      action = 'prepare';
+    } else if (holdsSignal) {
+      action = 'release';
+    }
+
+    return {
+      signal,
+      action,
+      onCorridor: true,
+      passed: false,
+      distanceAhead,
+      etaSeconds,
+      direction: movement ? getApproachDirection(movement.approach) : getRouteDirection(upcoming.bearing),
+      movement,
+    } as SignalPreemption;
+  });
+
+  return plans.sort((a, b) => {
+    const aAhead = a.onCorridor && !a.passed;
+    const bAhead = b.onCorridor && !b.passed;
+    if (aAhead !== bAhead) return aAhead ? -1 : 1;
+    return a.etaSeconds - b.etaSeconds;
+  });
+}
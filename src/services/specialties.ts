@@ -0,0 +1,20 @@
+// Hospital specialties the dispatcher matches emergencies against, with the words that
+// reveal them in hospital names, reported updates and imported service directories
+export const SPECIALTY_KEYWORDS: Record<string, string[]> = {
+  'Cardiac': ['cardiology', 'heart', 'cardiac', 'cath lab', 'cardiovascular'],
+  'Oncology': ['cancer', 'oncology', 'chemotherapy', 'radiation', 'tumor'],
+  'Neuro': ['neurology', 'stroke', 'brain', 'neurological', 'neuro'],
+  'Trauma': ['trauma', 'emergency', 'accident', 'surgery', 'icu'],
+  'Maternity': ['maternity', 'obstetrics', 'gynecology', 'neonatal', 'delivery'],
+  'Orthopedics': ['orthopedic', 'bone', 'joint', 'fracture', 'spine'],
+  'Pediatric': ['pediatric', 'children', 'nicu', 'child', 'infant'],
+  'Respiratory': ['pulmonary', 'respiratory', 'lung', 'breathing', 'ventilator']
+};
+
+// Specialties whose keywords appear in the text
+export const matchSpecialties = (text: string): string[] => {
+  const lower = text.toLowerCase();
+  return Object.entries(SPECIALTY_KEYWORDS)
+    .filter(([, keywords]) => keywords.some(keyword => lower.includes(keyword)))
+    .map(([specialty]) => specialty);
+};
@@ -0,0 +1,90 @@
+import { CareLevel, EmergencyType, TriageAnswers, TriagePriority, TriageQuestionId } from '@/types/database';
+import { defaultPriority } from '@/services/emergencyTypes';
+
+// Pre-hospital triage: a short ESI/START-like questionnaire asked in order. The first answer
+// that decides the priority ends it; the last question always decides.
+
+export interface TriageQuestion {
+  id: TriageQuestionId;
+  text: string;
+  // Answer that decides the priority, and the priority it gives
+  decidesWhen: boolean;
+  priority: TriagePriority;
+  // Priority for the other answer, on the last question
+  otherwise?: TriagePriority;
+}
+
+export const TRIAGE_QUESTIONS: TriageQuestion[] = [
+  { id: 'unresponsive', text: 'Unresponsive, or not breathing normally?', decidesWhen: true, priority: 1 },
+  { id: 'severe_bleeding', text: 'Severe bleeding, or no / very weak pulse?', decidesWhen: true, priority: 1 },
+  { id: 'breathing_difficulty', text: 'Struggling to breathe, or cannot speak in full sentences?', decidesWhen: true, priority: 2 },
+  { id: 'altered_mental_status', text: 'Confused, drowsy, or showing stroke signs (face droop, arm weakness, slurred speech)?', decidesWhen: true, priority: 2 },
+  { id: 'severe_pain', text: 'Severe pain, e.g. chest pain or a major injury?', decidesWhen: true, priority: 2 },
+  { id: 'can_walk', text: 'Can the patient walk?', decidesWhen: false, priority: 3 },
+  { id: 'needs_treatment', text: 'Needs treatment beyond first aid (stitches, X-ray, medication)?', decidesWhen: true, priority: 4, otherwise: 5 },
+];
+
+export const TRIAGE_LEVELS: Record<TriagePriority, { label: string; className: string }> = {
+  1: { label: 'Resuscitation', className: 'bg-red-600 text-white border-red-600' },
+  2: { label: 'Emergent', className: 'bg-orange-500 text-white border-orange-500' },
+  3: { label: 'Urgent', className: 'bg-yellow-400 text-black border-yellow-400' },
+  4: { label: 'Less urgent', className: 'bg-green-600 text-white border-green-600' },
+  5: { label: 'Non-urgent', className: 'bg-blue-600 text-white border-blue-600' },
+};
+
+// Questions to show: every one answered so far plus the next, until one decides
+export function visibleTriageQuestions(answers: TriageAnswers): TriageQuestion[] {
+  const visible: TriageQuestion[] = [];
+  for (const question of TRIAGE_QUESTIONS) {
+    visible.push(question);
+    const answer = answers[question.id];
+    if (answer === undefined || answer === question.decidesWhen) break;
+  }
+  return visible;
+}
+
+// Priority from the answers, or null while the questionnaire is unfinished
+export function triagePriority(answers: TriageAnswers): TriagePriority | null {
+  for (const question of TRIAGE_QUESTIONS) {
+    const answer = answers[question.id];
+    if (answer === undefined) return null;
+    if (answer === question.decidesWhen) return question.priority;
+    if (question.otherwise) return question.otherwise;
+  }
+  return null;
+}
+
+// Answers of the questions that were actually asked, for storing on the token
+export const askedTriageAnswers = (answers: TriageAnswers): TriageAnswers =>
+  Object.fromEntries(visibleTriageQuestions(answers).map(q => [q.id, answers[q.id]]));
+
+// Tokens created without triage take their emergency type's default priority from the catalog
+export const tokenPriority = (
+  token: { triage_priority: TriagePriority | null; medical_keyword: string | null },
+  emergencyTypes: EmergencyType[]
+): TriagePriority =>
+  token.triage_priority ?? defaultPriority(token.medical_keyword, emergencyTypes);
+
+// Queue order: most urgent first, then longest waiting
+export const byTriagePriority = (emergencyTypes: EmergencyType[]) =>
+  <T extends { triage_priority: TriagePriority | null; medical_keyword: string | null; created_at: string }>(a: T, b: T) =>
+    tokenPriority(a, emergencyTypes) - tokenPriority(b, emergencyTypes) || Date.parse(a.created_at) - Date.parse(b.created_at);
+
+export const CARE_LEVEL_LABELS: Record<CareLevel, string> = {
+  als: 'Advanced Life Support',
+  bls: 'Basic Life Support',
+};
+
+// Crew level to send: priorities 1-2 need ALS, 4-5 leave the ALS units free, 3 takes either
+export function preferredCareLevel(priority: TriagePriority): CareLevel | null {
+  if (priority <= 2) return 'als';
+  if (priority >= 4) return 'bls';
+  return null;
+}
+
+// Crew level for an emergency: ALS if either the triage priority or the emergency type needs it
+export function requiredCareLevel(priority: TriagePriority, typeCareLevel: CareLevel | null): CareLevel | null {
+  const preferred = preferredCareLevel(priority);
+  if (preferred === 'als' || typeCareLevel === 'als') return 'als';
+  return typeCareLevel ?? preferred;
+}
@@ -0,0 +1,133 @@
+import { RoutePoint, bearingBetween, cumulativeDistances } from '@/services/routeGeometry';
+
+// Simulated driving along a route polyline. Deterministic, so demos and tests replay exactly.
+
+export interface SpeedProfile {
+  cruiseKmh: number;
+  accelerationMs2: number;
+  brakingMs2: number;
+  cornerKmh: number; // speed through sharp turns
+  sharpTurnDegrees: number; // heading change at a vertex that counts as a sharp turn
+}
+
+export const DEFAULT_SPEED_PROFILE: SpeedProfile = {
+  cruiseKmh: 50,
+  accelerationMs2: 1.5,
+  brakingMs2: 2.5,
+  cornerKmh: 20,
+  sharpTurnDegrees: 45,
+};
+
+// Never crawl slower than this while short of the destination, so a leg always finishes
+const MIN_ROLLING_SPEED_MS = 1;
+
+export interface SimulatedLeg {
+  coordinates: RoutePoint[];
+  distances: number[]; // cumulative distance at each vertex
+  length: number;
+  // Speed caps at points along the leg (sharp corners and the final stop)
+  speedLimits: { distance: number; speedMs: number }[];
+}
+
+export interface SimulationState {
+  distance: number; // meters along the leg
+  speedMs: number;
+}
+
+export interface SimulatedPosition {
+  lat: number;
+  lng: number;
+  heading: number;
+  speedKmh: number;
+  distance: number;
+  progress: number; // 0..1 along the leg
+  finished: boolean;
+}
+
+const kmhToMs = (kmh: number) => kmh / 3.6;
+
+const turnAngle = (before: number, after: number) => {
+  const delta = Math.abs(after - before) % 360;
+  return delta > 180 ? 360 - delta : delta;
+};
+
+export function prepareLeg(coordinates: RoutePoint[], profile: SpeedProfile = DEFAULT_SPEED_PROFILE): SimulatedLeg {
+  const distances = cumulativeDistances(coordinates);
+  const length = distances[distances.length - 1] ?? 0;
+  const speedLimits: SimulatedLeg['speedLimits'] = [];
+
+  for (let i = 1; i < coordinates.length - 1; i++) {
+    const angle = turnAngle(
+      bearingBetween(coordinates[i - 1], coordinates[i]),
+      bearingBetween(coordinates[i], coordinates[i + 1])
+    );
+    if (angle >= profile.sharpTurnDegrees) {
+      speedLimits.push({ distance: distances[i], speedMs: kmhToMs(profile.cornerKmh) });
+    }
+  }
+  speedLimits.push({ distance: length, speedMs: 0 });
+
+  return { coordinates, distances, length, speedLimits };
+}
+
+// Point and travel heading at a distance along the leg
+export function positionOnLeg(leg: SimulatedLeg, distance: number): { lat: number; lng: number; heading: number } {
+  const { coordinates, distances } = leg;
+  if (coordinates.length === 1) return { lat: coordinates[0][0], lng: coordinates[0][1], heading: 0 };
+
+  const clamped = Math.max(0, Math.min(leg.length, distance));
+  let index = 0;
+  while (index < coordinates.length - 2 && distances[index + 1] <= clamped) {
+    index++;
+  }
+
+  const [startLat, startLng] = coordinates[index];
+  const [endLat, endLng] = coordinates[index + 1];
+  const segment = distances[index + 1] - distances[index];
+  const t = segment > 0 ? (clamped - distances[index]) / segment : 0;
+
+  return {
+    lat: startLat + (endLat - startLat) * t,
+    lng: startLng + (endLng - startLng) * t,
+    heading: bearingBetween(coordinates[index], coordinates[index + 1]),
+  };
+}
+
+/**
+ * Advance the simulation by dt seconds: accelerate towards cruise speed, but never
+ * faster than allows braking down to the next corner limit or the stop at the end.
+ */
+export function stepSimulation(
+  leg: SimulatedLeg,
+  state: SimulationState,
+  dt: number,
+  profile: SpeedProfile = DEFAULT_SPEED_PROFILE
+): SimulationState {
+  if (state.distance >= leg.length) return { distance: leg.length, speedMs: 0 };
+
+  let allowed = kmhToMs(profile.cruiseKmh);
+  for (const limit of leg.speedLimits) {
+    const ahead = limit.distance - state.distance;
+    if (ahead < 0) continue;
+    allowed = Math.min(allowed, Math.sqrt(limit.speedMs ** 2 + 2 * profile.brakingMs2 * ahead));
+  }
+
+  const speedMs = state.speedMs < allowed
+    ? Math.min(allowed, state.speedMs + profile.accelerationMs2 * dt)
+    : allowed;
+  const rolling = Math.max(speedMs, MIN_ROLLING_SPEED_MS);
+  const distance = Math.min(leg.length, state.distance + rolling * dt);
+
+  return { distance, speedMs: distance >= leg.length ? 0 : rolling };
+}
+
+export function describeState(leg: SimulatedLeg, state: SimulationState): SimulatedPosition {
+  const point = positionOnLeg(leg, state.distance);
+  return {
+    ...point,
+    speedKmh: state.speedMs * 3.6,
+    distance: state.distance,
+    progress: leg.length > 0 ? state.distance / leg.length : 1,
+    finished: state.distance >= leg.length,
+  };
+}
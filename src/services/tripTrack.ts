@@ -0,0 +1,112 @@
+import { AmbulancePosition } from '@/types/database';
+import { RoutePoint, projectOntoRoute, segmentLength } from '@/services/routeGeometry';
+
+// Analysis of a recorded GPS track against the routes that were planned for the trip
+
+export type TripLeg = 'to_patient' | 'to_hospital' | 'other';
+
+export interface LegStats {
+  fixes: number;
+  drivenDistance: number; // meters along the recorded breadcrumbs
+  plannedDistance: number | null;
+  durationSeconds: number;
+  maxSpeedKmh: number;
+  // Distance of the fixes from the planned polyline
+  meanDeviation: number | null;
+  maxDeviation: number | null;
+}
+
+export interface ReplayPoint {
+  lat: number;
+  lng: number;
+  heading: number | null;
+  speed: number | null;
+  leg: TripLeg;
+  recordedAt: number; // epoch ms
+}
+
+export const TRIP_LEG_LABELS: Record<TripLeg, string> = {
+  to_patient: 'To patient',
+  to_hospital: 'To hospital',
+  other: 'Stationary / on scene',
+};
+
+export const legForStatus = (status: string): TripLeg =>
+  status === 'in_progress' ? 'to_patient' : status === 'to_hospital' ? 'to_hospital' : 'other';
+
+// Consecutive runs of fixes on the same leg, so the map can colour each stretch
+export function splitTrack(positions: AmbulancePosition[]): { leg: TripLeg; points: RoutePoint[] }[] {
+  const runs: { leg: TripLeg; points: RoutePoint[] }[] = [];
+  for (const position of positions) {
+    const leg = legForStatus(position.token_status);
+    const last = runs[runs.length - 1];
+    const point: RoutePoint = [position.lat, position.lng];
+    if (last && last.leg === leg) {
+      last.points.push(point);
+    } else {
+      // Start the new run where the previous one ended so the line stays continuous
+      runs.push({ leg, points: last ? [last.points[last.points.length - 1], point] : [point] });
+    }
+  }
+  return runs;
+}
+
+export function legStats(positions: AmbulancePosition[], leg: TripLeg, planned: RoutePoint[] | null): LegStats {
+  const fixes = positions.filter(position => legForStatus(position.token_status) === leg);
+  let drivenDistance = 0;
+  for (let i = 1; i < fixes.length; i++) {
+    drivenDistance += segmentLength([fixes[i - 1].lat, fixes[i - 1].lng], [fixes[i].lat, fixes[i].lng]);
+  }
+
+  const deviations = planned && planned.length >= 2
+    ? fixes.map(fix => projectOntoRoute(planned, fix.lat, fix.lng)?.offset ?? 0)
+    : [];
+
+  return {
+    fixes: fixes.length,
+    drivenDistance,
+    plannedDistance: planned && planned.length >= 2
+      ? planned.slice(1).reduce((sum, point, i) => sum + segmentLength(planned[i], point), 0)
+      : null,
+    durationSeconds: fixes.length >= 2
+      ? (Date.parse(fixes[fixes.length - 1].recorded_at) - Date.parse(fixes[0].recorded_at)) / 1000
+      : 0,
+    maxSpeedKmh: fixes.reduce((max, fix) => Math.max(max, fix.speed ?? 0), 0),
+    meanDeviation: deviations.length > 0 ? deviations.reduce((sum, value) => sum + value, 0) / deviations.length : null,
+    maxDeviation: deviations.length > 0 ? Math.max(...deviations) : null,
+  };
+}
+
+/**
+ * Where the ambulance was at a moment of the trip, interpolated between the
+ * surrounding fixes. Heading, speed and leg come from the earlier fix.
+ */
+export function replayPointAt(positions: AmbulancePosition[], time: number): ReplayPoint | null {
+  if (positions.length === 0) return null;
+
+  const toPoint = (position: AmbulancePosition): ReplayPoint => ({
+    lat: position.lat,
+    lng: position.lng,
+    heading: position.heading,
+    speed: position.speed,
+    leg: legForStatus(position.token_status),
+    recordedAt: Date.parse(position.recorded_at),
+  });
+
+  let index = 0;
+  while (index < positions.length - 1 && Date.parse(positions[index + 1].recorded_at) <= time) {
+    index++;
+  }
+
+  const current = toPoint(positions[index]);
+  if (index === positions.length - 1 || time <= current.recordedAt) return current;
+
+  const next = toPoint(positions[index + 1]);
+  const t = (time - current.recordedAt) / (next.recordedAt - current.recordedAt);
+  return {
+    ...current,
+    lat: current.lat + (next.lat - current.lat) * t,
+    lng: current.lng + (next.lng - current.lng) * t,
+    recordedAt: time,
+  };
+}
@@ -4,6 +4,51 @@ export type UserRole = 'ambulance' | 'hospital' | 'admin';
 export type EmergencyStatus = 'inactive' | 'active' | 'responding';
 export type RouteDirection = 'N_S' | 'S_N' | 'E_W' | 'W_E';
 export type SignalStatus = 'normal' | 'prepare' | 'priority';
+// Rule that decided which ambulance gets a contested signal
+export type ArbitrationReason = 'uncontested' | 'imminent' | 'severity' | 'eta' | 'first_come';
+export type TurnType = 'left' | 'through' | 'right' | 'u_turn';
+// 'normal' means the controller runs its own timing plan; the rest are preemption states
+export type PhaseState = 'normal' | 'green' | 'yellow' | 'all_red';
+export type TokenStatus =
+  | 'pending'
+  | 'assigned'
+  | 'route_selected'
+  | 'in_progress'
+  | 'at_patient'
+  | 'to_hospital'
+  | 'completed'
+  | 'cancelled'
+  | 'declined';
+// Escalation steps of a token no hospital accepted in time
+export type SlaStage = 'realerted' | 'widened' | 'admin';
+// Kind of bed a hospital reserves when it accepts an emergency
+export type BedType = 'general' | 'icu';
+// ESI-like triage level: 1 resuscitation, 2 emergent, 3 urgent, 4 less urgent, 5 non-urgent
+export type TriagePriority = 1 | 2 | 3 | 4 | 5;
+export type TriageQuestionId =
+  | 'unresponsive'
+  | 'severe_bleeding'
+  | 'breathing_difficulty'
+  | 'altered_mental_status'
+  | 'severe_pain'
+  | 'can_walk'
+  | 'needs_treatment';
+// Questions not reached (the priority was decided earlier) are left out
+export type TriageAnswers = Partial<Record<TriageQuestionId, boolean>>;
+// Advanced (paramedic) or basic life support crew
+export type CareLevel = 'als' | 'bls';
+// Named moves between token statuses, as listed in token_status_transitions
+export type TokenAction =
+  | 'create'
+  | 'assign'
+  | 'share_routes'
+  | 'decline'
+  | 'start_journey'
+  | 'arrive_at_patient'
+  | 'start_to_hospital'
+  | 'complete'
+  | 'cancel'
+  | 'escalate';
 
 export interface Profile {
   id: string;
@@ -33,6 +78,7 @@ export interface Ambulance {
   destination_name: string | null;
   last_updated: string;
   created_at: string;
+  care_level: CareLevel;
   // Driver details (joined from profiles)
   driver_name?: string | null;
   driver_email?: string | null;
@@ -41,6 +87,165 @@ export interface Ambulance {
   active_token_id?: string | null;
 }
 
+// Entry of the admin-maintained emergency type catalog both creators pick from
+export interface EmergencyType {
+  id: string;
+  label: string;
+  icon: string;
+  keyword: string; // stored on the token as medical_keyword
+  required_specialties: string[]; // any one is a full specialty match
+  care_level: CareLevel | null; // null: decided by the triage priority
+  default_priority: TriagePriority; // assumed when a token has no triage
+  sort_order: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+// One GPS fix recorded while the ambulance was working an emergency token
+export interface AmbulancePosition {
+  id: string;
+  ambulance_id: string;
+  token_id: string;
+  token_status: string; // leg being driven: in_progress (to patient), to_hospital, ...
+  lat: number;
+  lng: number;
+  heading: number | null;
+  speed: number | null; // km/h
+  recorded_at: string;
+}
+
+// One allowed move of the token lifecycle; the database rejects every status change without one
+export interface TokenStatusTransition {
+  id: string;
+  from_status: TokenStatus | null; // null: status a token may be created with
+  to_status: TokenStatus;
+  action: TokenAction;
+  roles: UserRole[];
+  service_allowed: boolean; // the backend (service role) may make this move
+}
+
+// How long a token of one emergency type may wait for a hospital before each escalation step
+export interface AcceptanceSla {
+  medical_keyword: string; // '*': every type without its own row
+  realert_seconds: number;
+  widen_seconds: number;
+  admin_seconds: number;
+  updated_at: string;
+}
+
+// Arrival detected by a geofence around the pickup or the hospital, awaiting the driver
+export interface ArrivalProposal {
+  stop: 'patient' | 'hospital';
+  entered_at: string; // when the ambulance entered the geofence; recorded as the arrival time
+  detected_at: string;
+}
+
+// Route of a leg replaced by the backend after the ambulance stayed off it
+export interface RouteReroute {
+  id: string;
+  token_id: string;
+  ambulance_id: string;
+  leg: 'to_patient' | 'to_hospital';
+  lat: number;
+  lng: number;
+  off_route_meters: number; // furthest the ambulance got from the old route
+  off_route_seconds: number;
+  previous_distance_meters: number | null;
+  previous_duration_seconds: number | null;
+  new_distance_meters: number;
+  new_duration_seconds: number;
+  created_at: string;
+}
+
+// One entry of a token's audit trail, appended by the database on every change
+export interface EmergencyTokenEvent {
+  id: string;
+  token_id: string;
+  event_type: TokenAction | 'change_status' | 'sla_escalate' | 'redispatch' | 'accept' | 'reroute'
+    | 'reassign_hospital' | 'change_route' | 'propose_arrival' | 'withdraw_arrival' | 'update';
+  actor_id: string | null; // null: the backend
+  actor_role: UserRole | 'system' | null;
+  from_status: TokenStatus | null;
+  to_status: TokenStatus | null;
+  old_values: Record<string, unknown>; // changed columns only
+  new_values: Record<string, unknown>;
+  reason: string | null;
+  created_at: string;
+}
+
+export type PatientSex = 'male' | 'female' | 'other' | 'unknown';
+
+// One set of vital signs; any reading the crew could not take is null
+export interface VitalSigns {
+  taken_at: string;
+  heart_rate: number | null; // beats/min
+  systolic_bp: number | null; // mmHg
+  diastolic_bp: number | null;
+  respiratory_rate: number | null; // breaths/min
+  spo2: number | null; // %
+  temperature_c: number | null;
+  glucose_mg_dl: number | null;
+}
+
+export interface MedicationGiven {
+  name: string;
+  dose: string; // as given, e.g. "300 mg"
+  route: string; // e.g. "oral", "IV"
+  given_at: string;
+}
+
+// Pre-arrival handover report the crew fills in for the receiving ER
+export interface PatientCareReport {
+  token_id: string;
+  estimated_age: number | null;
+  sex: PatientSex | null;
+  chief_complaint: string | null;
+  vitals: VitalSigns[]; // oldest first
+  gcs_eye: number | null; // 1-4
+  gcs_verbal: number | null; // 1-5
+  gcs_motor: number | null; // 1-6
+  interventions: string[];
+  medications: MedicationGiven[];
+  allergies: string[];
+  updated_by: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Glasgow coma scale total (3-15), or null until all three components are scored
+export function gcsTotal(report: Pick<PatientCareReport, 'gcs_eye' | 'gcs_verbal' | 'gcs_motor'>): number | null {
+  const { gcs_eye, gcs_verbal, gcs_motor } = report;
+  return gcs_eye != null && gcs_verbal != null && gcs_motor != null ? gcs_eye + gcs_verbal + gcs_motor : null;
+}
+
+// Intersection layout: the legs traffic enters on and the phases that give them green
+export interface SignalApproach {
+  id: string;
+  name: string;
+  bearing: number; // heading of traffic entering the junction on this leg, degrees from north
+}
+
+export interface SignalMovement {
+  approach: string;
+  turn: TurnType;
+}
+
+export interface SignalPhase {
+  id: number;
+  name: string;
+  movements: SignalMovement[];
+}
+
+export interface SignalPhasePlan {
+  approaches: SignalApproach[];
+  phases: SignalPhase[];
+  clearance: {
+    yellow_seconds: number;
+    all_red_seconds: number;
+  };
+}
+
 export interface TrafficSignal {
   id: string;
   signal_name: string;
@@ -53,16 +258,96 @@ export interface TrafficSignal {
   direction_we: string;
   priority_direction: RouteDirection | null;
   activated_by: string | null;
+  // Preemption lease held by activated_by; the signal controller reverts the signal once it lapses
+  lease_expires_at: string | null;
+  // Set while ambulances needing different phases contend for this signal
+  arbitration: SignalArbitration | null;
+  phase_plan: SignalPhasePlan;
+  // Phase held for preemption and where it is in its clearance sequence
+  active_phase: number | null;
+  phase_state: PhaseState;
+  phase_changed_at: string | null;
+  // Physical controller this signal drives and the state it last reported
+  controller_address: string | null;
+  controller_state: FieldControllerState | null;
   last_updated: string;
   created_at: string;
 }
 
+// NTCIP 1202 preempt states as reported by the field controller
+export type PreemptState =
+  | 'other'
+  | 'notActive'
+  | 'notActiveWithCall'
+  | 'entryStarted'
+  | 'trackService'
+  | 'dwell'
+  | 'linkActive'
+  | 'exitStarted'
+  | 'maximumPresence';
+
+export interface FieldControllerState {
+  protocol: 'ntcip1202';
+  transport: 'simulator' | 'snmp';
+  online: boolean;
+  requested_preempt: number | null;
+  active_preempt: number | null;
+  preempt_state: PreemptState | null;
+  greens: number[]; // phases showing green
+  yellows: number[];
+  commanded_at: string | null;
+  acknowledged_at: string | null;
+  reported_at: string;
+  error: string | null;
+}
+
+export interface SignalContender {
+  ambulance_id: string;
+  vehicle_number: string | null;
+  action: SignalStatus;
+  direction: RouteDirection;
+  phase: number | null;
+  turn: TurnType | null;
+  eta_seconds: number;
+  severity: number; // 6 - triage priority: 5 for P1 down to 1 for P5
+}
+
+export interface SignalArbitration {
+  winner_id: string;
+  reason: ArbitrationReason;
+  decided_at: string;
+  contenders: SignalContender[]; // ranked, winner first
+}
+
+export interface HospitalCapacity {
+  total_beds: number;
+  available_beds: number;
+  icu_beds: number;
+  icu_available: number;
+  // Held for accepted emergencies, still counted in available_beds / icu_available
+  reserved_beds: number;
+  reserved_icu: number;
+  occupied_beds: number;
+  incoming_ambulances: number;
+  occupancy_percentage: number;
+  // 'reported' rows come from hospital_capacity, 'simulated' from the demo engine
+  source: 'reported' | 'simulated';
+  updated_at: string | null;
+}
+
 export interface SignalActivation {
   id: string;
   signal_id: string;
   ambulance_id: string;
   activation_type: string;
   distance_meters: number;
+  direction: RouteDirection | null;
+  phase: number | null;
+  turn: TurnType | null;
+  eta_seconds: number | null;
+  severity: number | null;
+  arbitration_reason: ArbitrationReason | null;
+  contenders: SignalContender[] | null;
   activated_at: string;
 }
 
@@ -90,15 +375,35 @@ function toRadians(degrees: number): number {
   return degrees * (Math.PI / 180);
 }
 
-// Calculate ETA based on distance and speed
-export function calculateETA(distanceMeters: number, speedKmh: number): number {
-  if (speedKmh <= 0) return 0;
-  const speedMs = speedKmh * (1000 / 3600); // Convert km/h to m/s
-  return distanceMeters / speedMs; // Time in seconds
+// Live ETA for the leg an ambulance is driving, published by the backend ETA tracker
+export interface LiveEta {
+  token_id: string;
+  ambulance_id: string;
+  leg: 'to_patient' | 'to_hospital';
+  eta_seconds: number;
+  arrival_at: string;
+  remaining_meters: number;
+  computed_at: string;
+}
+
+const LIVE_ETA_LEG_STATUS: Record<LiveEta['leg'], string> = {
+  to_patient: 'in_progress',
+  to_hospital: 'to_hospital',
+};
+
+// An ETA row only applies while its token is still driving that leg
+export function isCurrentEta(eta: LiveEta | undefined, tokenStatus: string): eta is LiveEta {
+  return !!eta && LIVE_ETA_LEG_STATUS[eta.leg] === tokenStatus;
+}
+
+// Seconds left until the predicted arrival, counting down between tracker updates
+export function liveEtaSeconds(eta: LiveEta, now: number = Date.now()): number {
+  return Math.max(0, (Date.parse(eta.arrival_at) - now) / 1000);
 }
 
-export function formatETA(seconds: number): string {
-  if (seconds <= 0) return 'Calculating...';
+export function formatETA(seconds: number | null): string {
+  if (seconds === null) return 'Calculating...';
+  if (seconds < 30) return 'Arriving';
   const mins = Math.floor(seconds / 60);
   const secs = Math.floor(seconds % 60);
   if (mins < 1) return `${secs} sec`;
@@ -0,0 +1,44 @@
+-- Hospital-reported bed inventory (replaces the client-side capacity simulation)
+CREATE TABLE public.hospital_capacity (
+  hospital_id uuid PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  total_beds integer NOT NULL DEFAULT 0 CHECK (total_beds >= 0),
+  available_beds integer NOT NULL DEFAULT 0 CHECK (available_beds >= 0 AND available_beds <= total_beds),
+  icu_beds integer NOT NULL DEFAULT 0 CHECK (icu_beds >= 0),
+  icu_available integer NOT NULL DEFAULT 0 CHECK (icu_available >= 0 AND icu_available <= icu_beds),
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.hospital_capacity ENABLE ROW LEVEL SECURITY;
+
+-- Every signed-in user (dispatchers, drivers, admins) sees the same numbers
+CREATE POLICY "Authenticated users can view hospital capacity"
+ON public.hospital_capacity
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Only the hospital itself may report its inventory
+CREATE POLICY "Hospital users can insert own capacity"
+ON public.hospital_capacity
+FOR INSERT
+WITH CHECK (
+  hospital_id = auth.uid()
+  AND has_role(auth.uid(), 'hospital'::user_role)
+);
+
+CREATE POLICY "Hospital users can update own capacity"
+ON public.hospital_capacity
+FOR UPDATE
+USING (
+  hospital_id = auth.uid()
+  AND has_role(auth.uid(), 'hospital'::user_role)
+);
+
+CREATE TRIGGER update_hospital_capacity_updated_at
+  BEFORE UPDATE ON public.hospital_capacity
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Fan out capacity changes to every connected client
+ALTER PUBLICATION supabase_realtime ADD TABLE public.hospital_capacity;
@@ -0,0 +1,5 @@
+-- Travel time from the pickup point to the chosen hospital, as used when ranking hospitals.
+-- 'route' = road ETA from the routing matrix, 'straight_line' = Haversine fallback estimate.
+ALTER TABLE public.emergency_tokens
+ADD COLUMN IF NOT EXISTS hospital_eta_seconds integer CHECK (hospital_eta_seconds >= 0),
+ADD COLUMN IF NOT EXISTS hospital_eta_source text CHECK (hospital_eta_source IN ('route', 'straight_line'));
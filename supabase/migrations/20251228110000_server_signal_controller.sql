@@ -0,0 +1,56 @@
+-- Traffic signals are now driven only by the server-side signal controller (service role).
+-- Browser clients keep read access but can no longer change signal state or forge activations.
+DROP POLICY IF EXISTS "Authenticated users can update signals" ON public.traffic_signals;
+DROP POLICY IF EXISTS "Authenticated users can insert signals" ON public.traffic_signals;
+DROP POLICY IF EXISTS "Authenticated users can insert activations" ON public.signal_activations;
+
+-- Preemption lease: the controller renews it on every position update from the holding ambulance
+ALTER TABLE public.traffic_signals
+ADD COLUMN IF NOT EXISTS lease_expires_at timestamp with time zone;
+
+CREATE INDEX IF NOT EXISTS idx_traffic_signals_lease
+ON public.traffic_signals (lease_expires_at)
+WHERE current_status <> 'normal';
+
+-- Safety net for when the controller itself is down: revert signals whose lease lapsed
+CREATE OR REPLACE FUNCTION public.release_expired_signal_leases()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+BEGIN
+  UPDATE public.traffic_signals
+  SET current_status = 'normal',
+      direction_ns = 'GREEN',
+      direction_sn = 'GREEN',
+      direction_ew = 'RED',
+      direction_we = 'RED',
+      priority_direction = NULL,
+      activated_by = NULL,
+      lease_expires_at = NULL,
+      last_updated = now()
+  WHERE current_status <> 'normal'
+    AND (lease_expires_at IS NULL OR lease_expires_at < now());
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_signal_leases() FROM PUBLIC, anon, authenticated;
+
+-- Run the sweep every minute where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'release-expired-signal-leases',
+      '* * * * *',
+      'SELECT public.release_expired_signal_leases()'
+    );
+  END IF;
+END;
+$$;
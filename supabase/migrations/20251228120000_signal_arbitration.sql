@@ -0,0 +1,46 @@
+-- Arbitration between ambulances that claim the same signal from different directions.
+-- traffic_signals.arbitration holds the current outcome; signal_activations logs every decision.
+ALTER TABLE public.traffic_signals
+ADD COLUMN IF NOT EXISTS arbitration jsonb;
+
+ALTER TABLE public.signal_activations
+ADD COLUMN IF NOT EXISTS direction public.route_direction,
+ADD COLUMN IF NOT EXISTS eta_seconds double precision,
+ADD COLUMN IF NOT EXISTS severity smallint,
+ADD COLUMN IF NOT EXISTS arbitration_reason text
+  CHECK (arbitration_reason IN ('uncontested', 'imminent', 'severity', 'eta', 'first_come')),
+ADD COLUMN IF NOT EXISTS contenders jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_signal_activations_signal_time
+ON public.signal_activations (signal_id, activated_at DESC);
+
+-- Expired leases also drop any arbitration outcome
+CREATE OR REPLACE FUNCTION public.release_expired_signal_leases()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+BEGIN
+  UPDATE public.traffic_signals
+  SET current_status = 'normal',
+      direction_ns = 'GREEN',
+      direction_sn = 'GREEN',
+      direction_ew = 'RED',
+      direction_we = 'RED',
+      priority_direction = NULL,
+      activated_by = NULL,
+      lease_expires_at = NULL,
+      arbitration = NULL,
+      last_updated = now()
+  WHERE current_status <> 'normal'
+    AND (lease_expires_at IS NULL OR lease_expires_at < now());
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_signal_leases() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,95 @@
+-- Intersection phase model. Each signal carries a phase plan describing its approaches (legs,
+-- by the heading of traffic entering the junction) and the phases that serve each movement.
+-- The default is a four-leg junction with protected right turns; edit phase_plan per signal
+-- for T-junctions or other layouts, e.g. a T with no southern leg:
+--   {"approaches": [{"id": "N", "name": "From north", "bearing": 180},
+--                   {"id": "E", "name": "From east", "bearing": 270},
+--                   {"id": "W", "name": "From west", "bearing": 90}],
+--    "phases": [{"id": 1, "name": "Main road", "movements": [{"approach": "E", "turn": "through"},
+--                                                           {"approach": "W", "turn": "through"},
+--                                                           {"approach": "W", "turn": "left"}]},
+--               {"id": 2, "name": "Side road and right turns", "movements": [{"approach": "N", "turn": "left"},
+--                                                                           {"approach": "N", "turn": "right"},
+--                                                                           {"approach": "E", "turn": "right"}]}],
+--    "clearance": {"yellow_seconds": 3, "all_red_seconds": 2}}
+ALTER TABLE public.traffic_signals
+ADD COLUMN IF NOT EXISTS phase_plan jsonb NOT NULL DEFAULT '{
+  "approaches": [
+    {"id": "N", "name": "From north", "bearing": 180},
+    {"id": "E", "name": "From east", "bearing": 270},
+    {"id": "S", "name": "From south", "bearing": 0},
+    {"id": "W", "name": "From west", "bearing": 90}
+  ],
+  "phases": [
+    {"id": 1, "name": "North-South through", "movements": [
+      {"approach": "N", "turn": "through"}, {"approach": "N", "turn": "left"},
+      {"approach": "S", "turn": "through"}, {"approach": "S", "turn": "left"}
+    ]},
+    {"id": 2, "name": "North-South right turns", "movements": [
+      {"approach": "N", "turn": "right"}, {"approach": "N", "turn": "u_turn"},
+      {"approach": "S", "turn": "right"}, {"approach": "S", "turn": "u_turn"}
+    ]},
+    {"id": 3, "name": "East-West through", "movements": [
+      {"approach": "E", "turn": "through"}, {"approach": "E", "turn": "left"},
+      {"approach": "W", "turn": "through"}, {"approach": "W", "turn": "left"}
+    ]},
+    {"id": 4, "name": "East-West right turns", "movements": [
+      {"approach": "E", "turn": "right"}, {"approach": "E", "turn": "u_turn"},
+      {"approach": "W", "turn": "right"}, {"approach": "W", "turn": "u_turn"}
+    ]}
+  ],
+  "clearance": {"yellow_seconds": 3, "all_red_seconds": 2}
+}'::jsonb,
+ADD COLUMN IF NOT EXISTS active_phase smallint,
+ADD COLUMN IF NOT EXISTS phase_state text NOT NULL DEFAULT 'normal'
+  CHECK (phase_state IN ('normal', 'green', 'yellow', 'all_red')),
+ADD COLUMN IF NOT EXISTS phase_changed_at timestamp with time zone;
+
+-- Reject plans the controller cannot use
+ALTER TABLE public.traffic_signals
+ADD CONSTRAINT traffic_signals_phase_plan_shape CHECK (
+  jsonb_typeof(phase_plan -> 'approaches') = 'array'
+  AND jsonb_array_length(phase_plan -> 'approaches') > 0
+  AND jsonb_typeof(phase_plan -> 'phases') = 'array'
+  AND jsonb_array_length(phase_plan -> 'phases') > 0
+  AND (phase_plan #>> '{clearance,yellow_seconds}')::numeric >= 0
+  AND (phase_plan #>> '{clearance,all_red_seconds}')::numeric >= 0
+);
+
+ALTER TABLE public.signal_activations
+ADD COLUMN IF NOT EXISTS phase smallint,
+ADD COLUMN IF NOT EXISTS turn text CHECK (turn IN ('left', 'through', 'right', 'u_turn'));
+
+CREATE OR REPLACE FUNCTION public.release_expired_signal_leases()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  released integer;
+BEGIN
+  -- No clearance interval here: this only runs when the controller is down
+  UPDATE public.traffic_signals
+  SET current_status = 'normal',
+      direction_ns = 'GREEN',
+      direction_sn = 'GREEN',
+      direction_ew = 'RED',
+      direction_we = 'RED',
+      priority_direction = NULL,
+      activated_by = NULL,
+      lease_expires_at = NULL,
+      arbitration = NULL,
+      active_phase = NULL,
+      phase_state = 'normal',
+      phase_changed_at = now(),
+      last_updated = now()
+  WHERE current_status <> 'normal'
+    AND (lease_expires_at IS NULL OR lease_expires_at < now());
+
+  GET DIAGNOSTICS released = ROW_COUNT;
+  RETURN released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_expired_signal_leases() FROM PUBLIC, anon, authenticated;
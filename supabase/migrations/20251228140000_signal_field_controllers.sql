@@ -0,0 +1,10 @@
+-- Field controller link for each signal. The signal controller commands the physical
+-- controller over NTCIP 1202 (or the built-in simulator) and stores what it reports back.
+ALTER TABLE public.traffic_signals
+ADD COLUMN IF NOT EXISTS controller_address text,
+ADD COLUMN IF NOT EXISTS controller_state jsonb;
+
+COMMENT ON COLUMN public.traffic_signals.controller_address IS
+  'SNMP address (host or host:port) of the NTCIP 1202 field controller; preempt n must dwell in phase n';
+COMMENT ON COLUMN public.traffic_signals.controller_state IS
+  'Last state reported by the field controller: preempt state, green/yellow phases and command acknowledgement';
@@ -0,0 +1,65 @@
+-- GPS breadcrumbs for every emergency: ambulances.current_lat/lng only hold the latest fix,
+-- so each position reported while a token is active is also appended here for trip replay.
+CREATE TABLE public.ambulance_positions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ambulance_id uuid NOT NULL REFERENCES public.ambulances(id) ON DELETE CASCADE,
+  token_id uuid NOT NULL REFERENCES public.emergency_tokens(id) ON DELETE CASCADE,
+  -- Token status when the fix was taken, i.e. which leg was being driven
+  token_status text NOT NULL,
+  lat double precision NOT NULL,
+  lng double precision NOT NULL,
+  heading double precision,
+  speed double precision,
+  recorded_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ambulance_positions_token ON public.ambulance_positions (token_id, recorded_at);
+
+ALTER TABLE public.ambulance_positions ENABLE ROW LEVEL SECURITY;
+
+-- The track is evidence for incident review: nobody writes it directly, the trigger below does
+CREATE POLICY "Hospital users can view positions"
+ON public.ambulance_positions
+FOR SELECT
+USING (has_role(auth.uid(), 'hospital'::user_role) OR has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Ambulance drivers can view own positions"
+ON public.ambulance_positions
+FOR SELECT
+USING (
+  ambulance_id IN (SELECT id FROM public.ambulances WHERE driver_id = auth.uid())
+);
+
+-- Record a breadcrumb whenever an ambulance with an active token reports a new position
+CREATE OR REPLACE FUNCTION public.record_ambulance_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  leg text;
+BEGIN
+  IF NEW.active_token_id IS NULL OR NEW.current_lat IS NULL OR NEW.current_lng IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT status INTO leg FROM public.emergency_tokens WHERE id = NEW.active_token_id;
+  IF leg IS NULL OR leg IN ('completed', 'cancelled', 'declined') THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.ambulance_positions (ambulance_id, token_id, token_status, lat, lng, heading, speed, recorded_at)
+  VALUES (NEW.id, NEW.active_token_id, leg, NEW.current_lat, NEW.current_lng, NEW.heading, NEW.speed, now());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_ambulance_position
+  AFTER UPDATE OF current_lat, current_lng ON public.ambulances
+  FOR EACH ROW
+  WHEN (OLD.current_lat IS DISTINCT FROM NEW.current_lat OR OLD.current_lng IS DISTINCT FROM NEW.current_lng)
+  EXECUTE FUNCTION public.record_ambulance_position();
+
+-- Lets an open replay follow a trip that is still being driven
+ALTER PUBLICATION supabase_realtime ADD TABLE public.ambulance_positions;
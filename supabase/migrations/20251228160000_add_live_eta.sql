@@ -0,0 +1,40 @@
+-- Live ETA for the leg each dispatched ambulance is driving, published by the backend's
+-- ETA tracker. Kept out of emergency_tokens so frequent ETA refreshes do not fan out
+-- as token changes to every subscriber.
+CREATE TABLE public.token_live_eta (
+  token_id uuid PRIMARY KEY REFERENCES public.emergency_tokens(id) ON DELETE CASCADE,
+  ambulance_id uuid NOT NULL REFERENCES public.ambulances(id) ON DELETE CASCADE,
+  leg text NOT NULL CHECK (leg IN ('to_patient', 'to_hospital')),
+  eta_seconds integer NOT NULL CHECK (eta_seconds >= 0),
+  arrival_at timestamp with time zone NOT NULL,
+  remaining_meters integer NOT NULL CHECK (remaining_meters >= 0),
+  computed_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.token_live_eta ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only; every signed-in user may read
+CREATE POLICY "Authenticated users can view live ETAs"
+ON public.token_live_eta
+FOR SELECT
+TO authenticated
+USING (true);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.token_live_eta;
+
+-- Observed traversal speeds per ~200 m grid cell and travel direction (0-3 = N/E/S/W),
+-- learned from ambulance GPS and used to time the remaining route
+CREATE TABLE public.road_segment_speeds (
+  cell_key text PRIMARY KEY,
+  mean_speed_kmh double precision NOT NULL CHECK (mean_speed_kmh >= 0),
+  samples integer NOT NULL DEFAULT 0 CHECK (samples >= 0),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.road_segment_speeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view segment speeds"
+ON public.road_segment_speeds
+FOR SELECT
+TO authenticated
+USING (true);
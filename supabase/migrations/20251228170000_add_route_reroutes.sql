@@ -0,0 +1,41 @@
+-- Automatic rerouting: when an ambulance stays off its planned leg, the backend's reroute
+-- monitor replaces the leg's route on the token and logs the change here for the hospital.
+ALTER TABLE public.emergency_tokens
+  ADD COLUMN reroute_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN last_rerouted_at timestamp with time zone;
+
+CREATE TABLE public.route_reroutes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_id uuid NOT NULL REFERENCES public.emergency_tokens(id) ON DELETE CASCADE,
+  ambulance_id uuid NOT NULL REFERENCES public.ambulances(id) ON DELETE CASCADE,
+  leg text NOT NULL CHECK (leg IN ('to_patient', 'to_hospital')),
+  -- Where the ambulance was when the new route was requested, and how far off it had gone
+  lat double precision NOT NULL,
+  lng double precision NOT NULL,
+  off_route_meters integer NOT NULL,
+  off_route_seconds integer NOT NULL,
+  previous_distance_meters integer,
+  previous_duration_seconds integer,
+  new_distance_meters integer NOT NULL,
+  new_duration_seconds integer NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_route_reroutes_token ON public.route_reroutes (token_id, created_at);
+
+ALTER TABLE public.route_reroutes ENABLE ROW LEVEL SECURITY;
+
+-- Written by the service role only
+CREATE POLICY "Hospital users can view reroutes"
+ON public.route_reroutes
+FOR SELECT
+USING (has_role(auth.uid(), 'hospital'::user_role) OR has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Ambulance drivers can view own reroutes"
+ON public.route_reroutes
+FOR SELECT
+USING (
+  ambulance_id IN (SELECT id FROM public.ambulances WHERE driver_id = auth.uid())
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.route_reroutes;
@@ -0,0 +1,8 @@
+-- Geofence arrival detection. The backend's arrival monitor proposes (or, with
+-- GEOFENCE_ARRIVALS=auto, applies) the at_patient / completed transitions once an ambulance
+-- has dwelt at the pickup or hospital, and stamps the time it entered the geofence.
+ALTER TABLE public.emergency_tokens
+  -- completed_at is when the token was closed; this is when the ambulance reached the hospital
+  ADD COLUMN arrived_at_hospital_at timestamp with time zone,
+  -- { stop: 'patient' | 'hospital', entered_at, detected_at } awaiting the driver's confirmation
+  ADD COLUMN arrival_proposal jsonb;
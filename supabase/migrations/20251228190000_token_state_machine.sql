@@ -0,0 +1,97 @@
+-- Emergency token lifecycle as data. Every new token's status and every status change must
+-- match a row of token_status_transitions and be made by one of the row's roles. The
+-- backend (service role, no auth.uid()) is exempt from the role check, not from the
+-- transitions. The web app reads the same table to decide which actions to offer.
+CREATE TABLE public.token_status_transitions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- NULL: a status a token may be created with
+  from_status text,
+  to_status text NOT NULL,
+  action text NOT NULL,
+  roles public.user_role[] NOT NULL
+);
+
+CREATE UNIQUE INDEX idx_token_status_transitions_move
+ON public.token_status_transitions (coalesce(from_status, ''), to_status);
+
+INSERT INTO public.token_status_transitions (from_status, to_status, action, roles) VALUES
+  -- Drivers report emergencies; hospitals dispatch with routes already chosen
+  (NULL, 'pending', 'create', '{ambulance}'),
+  (NULL, 'route_selected', 'create', '{hospital,admin}'),
+  ('pending', 'assigned', 'assign', '{hospital,admin}'),
+  ('pending', 'route_selected', 'share_routes', '{hospital,admin}'),
+  ('assigned', 'route_selected', 'share_routes', '{hospital,admin}'),
+  ('pending', 'declined', 'decline', '{hospital,admin}'),
+  ('assigned', 'declined', 'decline', '{hospital,admin}'),
+  ('route_selected', 'in_progress', 'start_journey', '{ambulance}'),
+  ('in_progress', 'at_patient', 'arrive_at_patient', '{ambulance}'),
+  ('at_patient', 'to_hospital', 'start_to_hospital', '{ambulance}'),
+  ('to_hospital', 'completed', 'complete', '{ambulance,admin}'),
+  -- Drivers cancel their own emergency; hospitals cancel by releasing the ambulance
+  ('pending', 'cancelled', 'cancel', '{ambulance,hospital,admin}'),
+  ('assigned', 'cancelled', 'cancel', '{ambulance,hospital,admin}'),
+  ('route_selected', 'cancelled', 'cancel', '{ambulance,hospital,admin}'),
+  ('in_progress', 'cancelled', 'cancel', '{ambulance,hospital,admin}'),
+  ('at_patient', 'cancelled', 'cancel', '{ambulance,hospital,admin}'),
+  ('to_hospital', 'cancelled', 'cancel', '{ambulance,hospital,admin}');
+
+ALTER TABLE public.token_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view token transitions"
+ON public.token_status_transitions
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE OR REPLACE FUNCTION public.enforce_token_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous text;
+  transition public.token_status_transitions%ROWTYPE;
+  allowed text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+    previous := OLD.status;
+  END IF;
+
+  SELECT * INTO transition
+  FROM public.token_status_transitions
+  WHERE from_status IS NOT DISTINCT FROM previous
+    AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    SELECT string_agg(to_status, ', ' ORDER BY to_status) INTO allowed
+    FROM public.token_status_transitions
+    WHERE from_status IS NOT DISTINCT FROM previous;
+
+    RAISE EXCEPTION 'Emergency token % cannot move from % to %',
+      NEW.token_code, coalesce(previous, '(new)'), NEW.status
+      USING ERRCODE = 'check_violation',
+            HINT = CASE
+              WHEN allowed IS NULL THEN format('%s is a final status', previous)
+              ELSE format('Allowed from %s: %s', coalesce(previous, '(new)'), allowed)
+            END;
+  END IF;
+
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = ANY (transition.roles)
+  ) THEN
+    RAISE EXCEPTION 'Your role may not % emergency token %', replace(transition.action, '_', ' '), NEW.token_code
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_token_transition
+BEFORE INSERT OR UPDATE OF status ON public.emergency_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_token_transition();
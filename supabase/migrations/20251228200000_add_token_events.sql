@@ -0,0 +1,141 @@
+-- Audit trail of emergency tokens. A trigger appends one event per insert or update of a
+-- token, whoever makes it (web app, backend monitors, scenario runner): the actor and their
+-- role, the columns that changed with their old and new values, and a reason where known.
+CREATE TABLE public.emergency_token_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  token_id uuid NOT NULL REFERENCES public.emergency_tokens(id) ON DELETE CASCADE,
+  -- The token_status_transitions action for status changes, otherwise what changed
+  event_type text NOT NULL,
+  -- NULL actor: the backend (service role)
+  actor_id uuid,
+  actor_role text,
+  from_status text,
+  to_status text,
+  old_values jsonb NOT NULL DEFAULT '{}'::jsonb,
+  new_values jsonb NOT NULL DEFAULT '{}'::jsonb,
+  reason text,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_emergency_token_events_token ON public.emergency_token_events (token_id, created_at);
+
+ALTER TABLE public.emergency_token_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the trigger only
+CREATE POLICY "Hospital users can view token events"
+ON public.emergency_token_events
+FOR SELECT
+USING (has_role(auth.uid(), 'hospital'::user_role) OR has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Ambulance drivers can view own token events"
+ON public.emergency_token_events
+FOR SELECT
+USING (
+  token_id IN (
+    SELECT t.id FROM public.emergency_tokens t
+    JOIN public.ambulances a ON a.id = t.ambulance_id
+    WHERE a.driver_id = auth.uid()
+  )
+);
+
+CREATE OR REPLACE FUNCTION public.log_emergency_token_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_values jsonb := '{}'::jsonb;
+  new_values jsonb;
+  event text;
+  reason text;
+  actor_role text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    new_values := to_jsonb(NEW);
+    event := 'create';
+  ELSE
+    SELECT coalesce(jsonb_object_agg(n.key, o.value), '{}'::jsonb),
+           coalesce(jsonb_object_agg(n.key, n.value), '{}'::jsonb)
+    INTO old_values, new_values
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    IF new_values = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+
+    IF NEW.status IS DISTINCT FROM OLD.status THEN
+      SELECT action INTO event
+      FROM public.token_status_transitions
+      WHERE from_status = OLD.status AND to_status = NEW.status;
+      event := coalesce(event, 'change_status');
+      IF NEW.status = 'declined' THEN
+        reason := NEW.decline_reason;
+      END IF;
+    ELSIF NEW.reroute_count IS DISTINCT FROM OLD.reroute_count THEN
+      event := 'reroute';
+      reason := 'Ambulance stayed off the planned route';
+    ELSIF NEW.hospital_id IS DISTINCT FROM OLD.hospital_id THEN
+      event := 'reassign_hospital';
+    ELSIF new_values ?| ARRAY['selected_route', 'route_to_patient', 'route_to_hospital'] THEN
+      event := 'change_route';
+    ELSIF NEW.arrival_proposal IS DISTINCT FROM OLD.arrival_proposal THEN
+      event := CASE WHEN NEW.arrival_proposal IS NULL THEN 'withdraw_arrival' ELSE 'propose_arrival' END;
+    ELSE
+      event := 'update';
+    END IF;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    actor_role := 'system';
+  ELSE
+    SELECT role::text INTO actor_role FROM public.profiles WHERE id = auth.uid();
+  END IF;
+
+  INSERT INTO public.emergency_token_events (
+    token_id, event_type, actor_id, actor_role, from_status, to_status, old_values, new_values, reason
+  ) VALUES (
+    NEW.id,
+    event,
+    auth.uid(),
+    actor_role,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    old_values,
+    new_values,
+    reason
+  );
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER log_emergency_token_event
+AFTER INSERT OR UPDATE ON public.emergency_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.log_emergency_token_event();
+
+-- Append-only: events are never edited, and only go away with their token
+CREATE OR REPLACE FUNCTION public.protect_emergency_token_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- Deleting a token cascades from inside the foreign key's own trigger
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+
+  RAISE EXCEPTION 'Emergency token events are append-only'
+    USING ERRCODE = 'insufficient_privilege';
+END;
+$$;
+
+CREATE TRIGGER protect_emergency_token_events
+BEFORE UPDATE OR DELETE ON public.emergency_token_events
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_emergency_token_events();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.emergency_token_events;
@@ -0,0 +1,101 @@
+-- Re-dispatch on decline: when a hospital declines an emergency, the web app hands it
+-- straight to the next best hospital that has not declined it yet, keeping the ambulance
+-- on the job. After VITE_REDISPATCH_LIMIT re-dispatches, or with no hospital left, the
+-- token goes back to pending and is flagged for a human dispatcher.
+ALTER TABLE public.emergency_tokens
+  ADD COLUMN declined_hospital_ids uuid[] NOT NULL DEFAULT '{}',
+  ADD COLUMN redispatch_count integer NOT NULL DEFAULT 0,
+  ADD COLUMN escalated_at timestamp with time zone;
+
+CREATE INDEX idx_emergency_tokens_escalated
+ON public.emergency_tokens (escalated_at)
+WHERE escalated_at IS NOT NULL;
+
+-- A re-dispatched token arrives as route_selected, so the next hospital must be able to
+-- decline it too until the journey starts. Escalating returns a token to the pending queue.
+INSERT INTO public.token_status_transitions (from_status, to_status, action, roles) VALUES
+  ('route_selected', 'declined', 'decline', '{hospital,admin}'),
+  ('assigned', 'pending', 'escalate', '{hospital,admin}'),
+  ('route_selected', 'pending', 'escalate', '{hospital,admin}');
+
+-- Same as in the token events migration, plus re-dispatch and escalation events, which
+-- carry the decline reason that caused them
+CREATE OR REPLACE FUNCTION public.log_emergency_token_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_values jsonb := '{}'::jsonb;
+  new_values jsonb;
+  event text;
+  reason text;
+  actor_role text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    new_values := to_jsonb(NEW);
+    event := 'create';
+  ELSE
+    SELECT coalesce(jsonb_object_agg(n.key, o.value), '{}'::jsonb),
+           coalesce(jsonb_object_agg(n.key, n.value), '{}'::jsonb)
+    INTO old_values, new_values
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    IF new_values = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+
+    IF NEW.redispatch_count > OLD.redispatch_count THEN
+      event := 'redispatch';
+      reason := NEW.decline_reason;
+    ELSIF NEW.escalated_at IS NOT NULL AND OLD.escalated_at IS NULL THEN
+      event := 'escalate';
+      reason := NEW.decline_reason;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+      SELECT action INTO event
+      FROM public.token_status_transitions
+      WHERE from_status = OLD.status AND to_status = NEW.status;
+      event := coalesce(event, 'change_status');
+      IF NEW.status = 'declined' THEN
+        reason := NEW.decline_reason;
+      END IF;
+    ELSIF NEW.reroute_count IS DISTINCT FROM OLD.reroute_count THEN
+      event := 'reroute';
+      reason := 'Ambulance stayed off the planned route';
+    ELSIF NEW.hospital_id IS DISTINCT FROM OLD.hospital_id THEN
+      event := 'reassign_hospital';
+    ELSIF new_values ?| ARRAY['selected_route', 'route_to_patient', 'route_to_hospital'] THEN
+      event := 'change_route';
+    ELSIF NEW.arrival_proposal IS DISTINCT FROM OLD.arrival_proposal THEN
+      event := CASE WHEN NEW.arrival_proposal IS NULL THEN 'withdraw_arrival' ELSE 'propose_arrival' END;
+    ELSE
+      event := 'update';
+    END IF;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    actor_role := 'system';
+  ELSE
+    SELECT role::text INTO actor_role FROM public.profiles WHERE id = auth.uid();
+  END IF;
+
+  INSERT INTO public.emergency_token_events (
+    token_id, event_type, actor_id, actor_role, from_status, to_status, old_values, new_values, reason
+  ) VALUES (
+    NEW.id,
+    event,
+    auth.uid(),
+    actor_role,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    old_values,
+    new_values,
+    reason
+  );
+
+  RETURN NULL;
+END;
+$$;
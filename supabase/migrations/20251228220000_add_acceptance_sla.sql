@@ -0,0 +1,183 @@
+-- Acceptance SLAs: how long an emergency may wait in pending / assigned for a hospital to
+-- take it, per emergency type. The backend's SLA monitor walks overdue tokens up the
+-- ladder: alert the hospitals again, open the token to every hospital, then flag it for
+-- the admins (escalated_at, the same "needs dispatcher" flag re-dispatch uses).
+CREATE TABLE public.acceptance_slas (
+  -- emergency_tokens.medical_keyword; '*' covers every type without a row of its own
+  medical_keyword text PRIMARY KEY,
+  realert_seconds integer NOT NULL,
+  widen_seconds integer NOT NULL,
+  admin_seconds integer NOT NULL,
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT acceptance_slas_ladder CHECK (0 < realert_seconds AND realert_seconds < widen_seconds AND widen_seconds < admin_seconds)
+);
+
+INSERT INTO public.acceptance_slas (medical_keyword, realert_seconds, widen_seconds, admin_seconds) VALUES
+  ('*', 90, 180, 300),
+  ('Cardiac', 30, 60, 120),
+  ('Neuro', 30, 60, 120),
+  ('Respiratory', 30, 60, 120),
+  ('Trauma', 45, 90, 180),
+  ('Burns', 45, 90, 180),
+  ('Pediatric', 60, 120, 240),
+  ('Maternity', 60, 120, 240);
+
+ALTER TABLE public.acceptance_slas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view acceptance SLAs"
+ON public.acceptance_slas
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage acceptance SLAs"
+ON public.acceptance_slas
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::user_role));
+
+-- awaiting_since: when the token started waiting for a hospital. sla_stage: furthest
+-- escalation step taken while it waited ('realerted', 'widened', 'admin').
+ALTER TABLE public.emergency_tokens
+  ADD COLUMN awaiting_since timestamp with time zone,
+  ADD COLUMN sla_stage text CHECK (sla_stage IN ('realerted', 'widened', 'admin')),
+  ADD COLUMN sla_stage_at timestamp with time zone;
+
+UPDATE public.emergency_tokens
+SET awaiting_since = coalesce(assigned_at, created_at)
+WHERE status IN ('pending', 'assigned');
+
+CREATE INDEX idx_emergency_tokens_awaiting
+ON public.emergency_tokens (awaiting_since)
+WHERE status IN ('pending', 'assigned');
+
+-- The clock starts when a token begins waiting and keeps running while it only moves
+-- between pending and assigned
+CREATE OR REPLACE FUNCTION public.start_acceptance_clock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IN ('pending', 'assigned') THEN
+    IF TG_OP = 'INSERT' OR OLD.status NOT IN ('pending', 'assigned') THEN
+      NEW.awaiting_since := now();
+      NEW.sla_stage := NULL;
+      NEW.sla_stage_at := NULL;
+    END IF;
+  ELSE
+    NEW.awaiting_since := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER start_acceptance_clock
+BEFORE INSERT OR UPDATE OF status ON public.emergency_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.start_acceptance_clock();
+
+-- Flagged tokens are for admins to follow up
+CREATE POLICY "Admins can view all tokens"
+ON public.emergency_tokens
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::user_role));
+
+-- Event classification moves into its own function so later changes only replace this part
+CREATE OR REPLACE FUNCTION public.classify_token_event(
+  old_token public.emergency_tokens,
+  new_token public.emergency_tokens,
+  changed jsonb,
+  OUT event text,
+  OUT reason text
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF old_token IS NULL THEN
+    event := 'create';
+  ELSIF new_token.sla_stage IS DISTINCT FROM old_token.sla_stage AND new_token.sla_stage IS NOT NULL THEN
+    event := 'sla_escalate';
+    reason := format('No hospital accepted in time (%s)', new_token.sla_stage);
+  ELSIF new_token.redispatch_count > old_token.redispatch_count THEN
+    event := 'redispatch';
+    reason := new_token.decline_reason;
+  ELSIF new_token.escalated_at IS NOT NULL AND old_token.escalated_at IS NULL THEN
+    event := 'escalate';
+    reason := new_token.decline_reason;
+  ELSIF new_token.status IS DISTINCT FROM old_token.status THEN
+    SELECT action INTO event
+    FROM public.token_status_transitions
+    WHERE from_status = old_token.status AND to_status = new_token.status;
+    event := coalesce(event, 'change_status');
+    IF new_token.status = 'declined' THEN
+      reason := new_token.decline_reason;
+    END IF;
+  ELSIF new_token.reroute_count IS DISTINCT FROM old_token.reroute_count THEN
+    event := 'reroute';
+    reason := 'Ambulance stayed off the planned route';
+  ELSIF new_token.hospital_id IS DISTINCT FROM old_token.hospital_id THEN
+    event := 'reassign_hospital';
+  ELSIF changed ?| ARRAY['selected_route', 'route_to_patient', 'route_to_hospital'] THEN
+    event := 'change_route';
+  ELSIF new_token.arrival_proposal IS DISTINCT FROM old_token.arrival_proposal THEN
+    event := CASE WHEN new_token.arrival_proposal IS NULL THEN 'withdraw_arrival' ELSE 'propose_arrival' END;
+  ELSE
+    event := 'update';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.log_emergency_token_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_values jsonb := '{}'::jsonb;
+  new_values jsonb;
+  classified record;
+  actor_role text;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    new_values := to_jsonb(NEW);
+    SELECT * INTO classified FROM public.classify_token_event(NULL, NEW, new_values);
+  ELSE
+    SELECT coalesce(jsonb_object_agg(n.key, o.value), '{}'::jsonb),
+           coalesce(jsonb_object_agg(n.key, n.value), '{}'::jsonb)
+    INTO old_values, new_values
+    FROM jsonb_each(to_jsonb(NEW)) n
+    JOIN jsonb_each(to_jsonb(OLD)) o ON o.key = n.key
+    WHERE n.value IS DISTINCT FROM o.value;
+
+    IF new_values = '{}'::jsonb THEN
+      RETURN NULL;
+    END IF;
+    SELECT * INTO classified FROM public.classify_token_event(OLD, NEW, new_values);
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    actor_role := 'system';
+  ELSE
+    SELECT role::text INTO actor_role FROM public.profiles WHERE id = auth.uid();
+  END IF;
+
+  INSERT INTO public.emergency_token_events (
+    token_id, event_type, actor_id, actor_role, from_status, to_status, old_values, new_values, reason
+  ) VALUES (
+    NEW.id,
+    classified.event,
+    auth.uid(),
+    actor_role,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    old_values,
+    new_values,
+    classified.reason
+  );
+
+  RETURN NULL;
+END;
+$$;
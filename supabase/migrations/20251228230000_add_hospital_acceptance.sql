@@ -0,0 +1,198 @@
+-- Acceptance handshake: the receiving hospital explicitly accepts an emergency routed to
+-- it. Accepting reserves a general or ICU bed against its hospital_capacity row and records
+-- when the ambulance is expected. The reservation is released when the token is cancelled,
+-- declined or handed to another hospital, and turns into an occupied bed on completion.
+ALTER TABLE public.emergency_tokens
+  ADD COLUMN accepted_at timestamp with time zone,
+  ADD COLUMN accepted_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN reserved_bed_type text CHECK (reserved_bed_type IN ('general', 'icu')),
+  ADD COLUMN expected_eta_seconds integer CHECK (expected_eta_seconds >= 0),
+  ADD COLUMN expected_arrival_at timestamp with time zone;
+
+-- Reserved beds are part of available_beds / icu_available until the patient arrives;
+-- free = available - reserved
+ALTER TABLE public.hospital_capacity
+  ADD COLUMN reserved_beds integer NOT NULL DEFAULT 0 CHECK (reserved_beds >= 0),
+  ADD COLUMN reserved_icu integer NOT NULL DEFAULT 0 CHECK (reserved_icu >= 0);
+
+-- updated_at is when the hospital last reported its inventory, not when a reservation moved
+DROP TRIGGER update_hospital_capacity_updated_at ON public.hospital_capacity;
+
+CREATE TRIGGER update_hospital_capacity_updated_at
+  BEFORE UPDATE ON public.hospital_capacity
+  FOR EACH ROW
+  WHEN (OLD.reserved_beds = NEW.reserved_beds AND OLD.reserved_icu = NEW.reserved_icu)
+  EXECUTE FUNCTION public.update_updated_at();
+
+CREATE OR REPLACE FUNCTION public.accept_emergency_token(
+  p_token_id uuid,
+  p_bed_type text,
+  p_eta_seconds integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  token public.emergency_tokens%ROWTYPE;
+  capacity public.hospital_capacity%ROWTYPE;
+  free integer;
+BEGIN
+  IF p_bed_type NOT IN ('general', 'icu') THEN
+    RAISE EXCEPTION 'Unknown bed type %', p_bed_type
+      USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  SELECT * INTO token FROM public.emergency_tokens WHERE id = p_token_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Emergency token not found'
+      USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF token.hospital_id IS DISTINCT FROM auth.uid() OR NOT has_role(auth.uid(), 'hospital'::user_role) THEN
+    RAISE EXCEPTION 'Only the receiving hospital may accept emergency token %', token.token_code
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF token.status NOT IN ('assigned', 'route_selected', 'in_progress', 'at_patient', 'to_hospital') THEN
+    RAISE EXCEPTION 'Emergency token % cannot be accepted while %', token.token_code, token.status
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF token.accepted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Emergency token % is already accepted', token.token_code
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  SELECT * INTO capacity FROM public.hospital_capacity WHERE hospital_id = token.hospital_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No bed inventory to reserve against'
+      USING ERRCODE = 'check_violation',
+            HINT = 'Report your bed inventory in the Hospital Network tab first';
+  END IF;
+
+  free := CASE p_bed_type
+    WHEN 'icu' THEN capacity.icu_available - capacity.reserved_icu
+    ELSE capacity.available_beds - capacity.reserved_beds
+  END;
+  IF free < 1 THEN
+    RAISE EXCEPTION 'No free % bed to reserve', CASE p_bed_type WHEN 'icu' THEN 'ICU' ELSE 'general' END
+      USING ERRCODE = 'check_violation',
+            HINT = 'Update your bed inventory or decline the emergency';
+  END IF;
+
+  UPDATE public.hospital_capacity
+  SET reserved_beds = reserved_beds + CASE WHEN p_bed_type = 'general' THEN 1 ELSE 0 END,
+      reserved_icu = reserved_icu + CASE WHEN p_bed_type = 'icu' THEN 1 ELSE 0 END
+  WHERE hospital_id = token.hospital_id;
+
+  UPDATE public.emergency_tokens
+  SET accepted_at = now(),
+      accepted_by = auth.uid(),
+      reserved_bed_type = p_bed_type,
+      expected_eta_seconds = greatest(p_eta_seconds, 0),
+      expected_arrival_at = now() + make_interval(secs => greatest(p_eta_seconds, 0))
+  WHERE id = p_token_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_emergency_token(uuid, text, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_emergency_token(uuid, text, integer) TO authenticated;
+
+-- Settles the reservation whoever moves the token: drivers complete, hospitals decline,
+-- the SLA monitor takes tokens back
+CREATE OR REPLACE FUNCTION public.settle_bed_reservation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  general integer := CASE WHEN OLD.reserved_bed_type = 'general' THEN 1 ELSE 0 END;
+  icu integer := CASE WHEN OLD.reserved_bed_type = 'icu' THEN 1 ELSE 0 END;
+BEGIN
+  IF OLD.reserved_bed_type IS NULL OR OLD.status IN ('completed', 'cancelled', 'declined') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.hospital_id IS NOT DISTINCT FROM OLD.hospital_id THEN
+    -- The patient now occupies the reserved bed
+    UPDATE public.hospital_capacity
+    SET reserved_beds = greatest(reserved_beds - general, 0),
+        reserved_icu = greatest(reserved_icu - icu, 0),
+        available_beds = greatest(available_beds - general, 0),
+        icu_available = greatest(icu_available - icu, 0)
+    WHERE hospital_id = OLD.hospital_id;
+  ELSIF NEW.status IN ('cancelled', 'declined') OR NEW.hospital_id IS DISTINCT FROM OLD.hospital_id THEN
+    UPDATE public.hospital_capacity
+    SET reserved_beds = greatest(reserved_beds - general, 0),
+        reserved_icu = greatest(reserved_icu - icu, 0)
+    WHERE hospital_id = OLD.hospital_id;
+
+    -- The audit trail keeps the released acceptance
+    NEW.accepted_at := NULL;
+    NEW.accepted_by := NULL;
+    NEW.reserved_bed_type := NULL;
+    NEW.expected_eta_seconds := NULL;
+    NEW.expected_arrival_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER settle_bed_reservation
+BEFORE UPDATE OF status, hospital_id ON public.emergency_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.settle_bed_reservation();
+
+-- Same as in the acceptance SLA migration, plus the accept event
+CREATE OR REPLACE FUNCTION public.classify_token_event(
+  old_token public.emergency_tokens,
+  new_token public.emergency_tokens,
+  changed jsonb,
+  OUT event text,
+  OUT reason text
+)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF old_token IS NULL THEN
+    event := 'create';
+  ELSIF new_token.sla_stage IS DISTINCT FROM old_token.sla_stage AND new_token.sla_stage IS NOT NULL THEN
+    event := 'sla_escalate';
+    reason := format('No hospital accepted in time (%s)', new_token.sla_stage);
+  ELSIF new_token.redispatch_count > old_token.redispatch_count THEN
+    event := 'redispatch';
+    reason := new_token.decline_reason;
+  ELSIF new_token.escalated_at IS NOT NULL AND old_token.escalated_at IS NULL THEN
+    event := 'escalate';
+    reason := new_token.decline_reason;
+  ELSIF new_token.status IS DISTINCT FROM old_token.status THEN
+    SELECT action INTO event
+    FROM public.token_status_transitions
+    WHERE from_status = old_token.status AND to_status = new_token.status;
+    event := coalesce(event, 'change_status');
+    IF new_token.status = 'declined' THEN
+      reason := new_token.decline_reason;
+    END IF;
+  ELSIF new_token.accepted_at IS NOT NULL AND old_token.accepted_at IS NULL THEN
+    event := 'accept';
+    reason := format('%s bed reserved', CASE new_token.reserved_bed_type WHEN 'icu' THEN 'ICU' ELSE 'General' END);
+  ELSIF new_token.reroute_count IS DISTINCT FROM old_token.reroute_count THEN
+    event := 'reroute';
+    reason := 'Ambulance stayed off the planned route';
+  ELSIF new_token.hospital_id IS DISTINCT FROM old_token.hospital_id THEN
+    event := 'reassign_hospital';
+  ELSIF changed ?| ARRAY['selected_route', 'route_to_patient', 'route_to_hospital'] THEN
+    event := 'change_route';
+  ELSIF new_token.arrival_proposal IS DISTINCT FROM old_token.arrival_proposal THEN
+    event := CASE WHEN new_token.arrival_proposal IS NULL THEN 'withdraw_arrival' ELSE 'propose_arrival' END;
+  ELSE
+    event := 'update';
+  END IF;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- Patient care report (ePCR): what the crew found and did, filled in on scene and on the way
+-- to the hospital so the receiving ER sees it before the ambulance arrives. One per token.
+CREATE TABLE public.patient_care_reports (
+  token_id uuid PRIMARY KEY REFERENCES public.emergency_tokens(id) ON DELETE CASCADE,
+  estimated_age integer CHECK (estimated_age BETWEEN 0 AND 130),
+  sex text CHECK (sex IN ('male', 'female', 'other', 'unknown')),
+  chief_complaint text,
+  -- Readings, oldest first: [{ taken_at, heart_rate, systolic_bp, diastolic_bp,
+  -- respiratory_rate, spo2, temperature_c, glucose_mg_dl }]
+  vitals jsonb NOT NULL DEFAULT '[]'::jsonb,
+  gcs_eye integer CHECK (gcs_eye BETWEEN 1 AND 4),
+  gcs_verbal integer CHECK (gcs_verbal BETWEEN 1 AND 5),
+  gcs_motor integer CHECK (gcs_motor BETWEEN 1 AND 6),
+  interventions text[] NOT NULL DEFAULT '{}',
+  -- [{ name, dose, route, given_at }]
+  medications jsonb NOT NULL DEFAULT '[]'::jsonb,
+  allergies text[] NOT NULL DEFAULT '{}',
+  updated_by uuid REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.patient_care_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hospital users can view patient care reports"
+ON public.patient_care_reports
+FOR SELECT
+USING (has_role(auth.uid(), 'hospital'::user_role) OR has_role(auth.uid(), 'admin'::user_role));
+
+CREATE POLICY "Ambulance drivers can view own patient care reports"
+ON public.patient_care_reports
+FOR SELECT
+USING (
+  token_id IN (
+    SELECT t.id FROM public.emergency_tokens t
+    JOIN public.ambulances a ON a.id = t.ambulance_id
+    WHERE a.driver_id = auth.uid()
+  )
+);
+
+-- The crew writes the report from the patient's side until handover at the hospital
+CREATE POLICY "Ambulance drivers can insert own patient care reports"
+ON public.patient_care_reports
+FOR INSERT
+WITH CHECK (
+  token_id IN (
+    SELECT t.id FROM public.emergency_tokens t
+    JOIN public.ambulances a ON a.id = t.ambulance_id
+    WHERE a.driver_id = auth.uid() AND t.status IN ('at_patient', 'to_hospital')
+  )
+);
+
+CREATE POLICY "Ambulance drivers can update own patient care reports"
+ON public.patient_care_reports
+FOR UPDATE
+USING (
+  token_id IN (
+    SELECT t.id FROM public.emergency_tokens t
+    JOIN public.ambulances a ON a.id = t.ambulance_id
+    WHERE a.driver_id = auth.uid() AND t.status IN ('at_patient', 'to_hospital')
+  )
+);
+
+CREATE TRIGGER update_patient_care_reports_updated_at
+  BEFORE UPDATE ON public.patient_care_reports
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- The receiving hospital's token card follows the report as the crew updates it
+ALTER PUBLICATION supabase_realtime ADD TABLE public.patient_care_reports;
@@ -0,0 +1,15 @@
+-- Triage: the creator of an emergency answers a short questionnaire that yields an ESI-like
+-- priority, 1 (resuscitation) to 5 (non-urgent). Lower numbers go first in the hospital queue,
+-- need an advanced life support crew and win contested traffic signals. Tokens created
+-- without triage keep a NULL priority and are ranked by their medical keyword instead.
+ALTER TABLE public.emergency_tokens
+  ADD COLUMN triage_priority smallint CHECK (triage_priority BETWEEN 1 AND 5),
+  ADD COLUMN triage_answers jsonb;
+
+-- Crew level of each ambulance: advanced (paramedic) or basic life support
+ALTER TABLE public.ambulances
+  ADD COLUMN care_level text NOT NULL DEFAULT 'als' CHECK (care_level IN ('als', 'bls'));
+
+CREATE INDEX idx_emergency_tokens_triage_priority
+  ON public.emergency_tokens(triage_priority, created_at)
+  WHERE status IN ('pending', 'assigned', 'route_selected');
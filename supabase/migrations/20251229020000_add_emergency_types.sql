@@ -0,0 +1,55 @@
+-- Emergency type catalog: what the ambulance crew and the hospital dispatcher pick from when
+-- creating an emergency. Admins maintain it; tokens keep a copy of the label (emergency_type)
+-- and keyword (medical_keyword), so editing or deleting a type never rewrites past emergencies.
+CREATE TABLE public.emergency_types (
+  id text PRIMARY KEY CHECK (id ~ '^[a-z0-9-]+$'),
+  label text NOT NULL,
+  icon text NOT NULL DEFAULT '🏥',
+  -- Stored on the token; drives ICU need and signal arbitration when there is no triage
+  keyword text NOT NULL,
+  -- Hospital specialties that can treat it; any one of them is a full specialty match
+  required_specialties text[] NOT NULL DEFAULT '{}',
+  -- Crew level the type always needs; NULL leaves it to the triage priority
+  care_level text CHECK (care_level IN ('als', 'bls')),
+  -- Priority assumed for tokens of this type created without triage
+  default_priority smallint NOT NULL DEFAULT 3 CHECK (default_priority BETWEEN 1 AND 5),
+  sort_order integer NOT NULL DEFAULT 0,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.emergency_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view emergency types"
+ON public.emergency_types
+FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Admins can manage emergency types"
+ON public.emergency_types
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::user_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::user_role));
+
+CREATE TRIGGER update_emergency_types_updated_at
+  BEFORE UPDATE ON public.emergency_types
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at();
+
+-- Replaces the lists hard-coded in the ambulance and hospital creators. Respiratory now uses
+-- the 'Respiratory' specialty key (the ambulance list said 'Pulmonary', which matched nothing).
+INSERT INTO public.emergency_types (id, label, icon, keyword, required_specialties, care_level, default_priority, sort_order) VALUES
+  ('cardiac', 'Cardiac Emergency (Heart Attack)', '❤️', 'Cardiac', '{Cardiac}', 'als', 2, 10),
+  ('stroke', 'Stroke / Neurological Emergency', '🧠', 'Neuro', '{Neuro}', 'als', 2, 20),
+  ('respiratory', 'Respiratory Distress', '🫁', 'Respiratory', '{Respiratory}', 'als', 2, 30),
+  ('accident', 'Accident / Trauma', '🚗', 'Trauma', '{Trauma}', NULL, 3, 40),
+  ('burns', 'Burns', '🔥', 'Burns', '{Trauma}', NULL, 3, 50),
+  ('pediatric', 'Pediatric Emergency', '🧒', 'Pediatric', '{Pediatric}', NULL, 3, 60),
+  ('pregnancy', 'Pregnancy / Delivery', '🤰', 'Maternity', '{Maternity}', NULL, 4, 70),
+  ('fracture', 'Fracture / Bone Injury', '🦴', 'Orthopedics', '{Orthopedics,Trauma}', 'bls', 4, 80),
+  ('cancer', 'Cancer-related Emergency', '🎗️', 'Oncology', '{Oncology}', NULL, 4, 90),
+  ('general', 'General Emergency', '🏥', 'General', '{}', NULL, 4, 100);
+
+-- Creators pick up catalog edits without a reload
+ALTER PUBLICATION supabase_realtime ADD TABLE public.emergency_types;
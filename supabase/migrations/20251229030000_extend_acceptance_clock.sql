@@ -0,0 +1,54 @@
+-- The acceptance clock used to stop once a token left pending / assigned, but a token the
+-- ambulance has already routed is still waiting for its hospital until that hospital
+-- accepts it. The clock now runs while a token is pending, or is with a hospital that has
+-- not accepted it yet (accepted_at is null).
+CREATE OR REPLACE FUNCTION public.awaiting_acceptance(token_status text, token_accepted_at timestamp with time zone)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT token_status = 'pending'
+    OR (token_status IN ('assigned', 'route_selected', 'in_progress', 'at_patient', 'to_hospital')
+        AND token_accepted_at IS NULL);
+$$;
+
+-- The clock starts when a token begins waiting and keeps running while it stays unaccepted,
+-- whichever status it moves through. Accepting or releasing the acceptance (a new hospital,
+-- see settle_bed_reservation) stops or restarts it.
+CREATE OR REPLACE FUNCTION public.start_acceptance_clock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF public.awaiting_acceptance(NEW.status, NEW.accepted_at) THEN
+    IF TG_OP = 'INSERT' OR NOT public.awaiting_acceptance(OLD.status, OLD.accepted_at) THEN
+      NEW.awaiting_since := now();
+      NEW.sla_stage := NULL;
+      NEW.sla_stage_at := NULL;
+    END IF;
+  ELSE
+    NEW.awaiting_since := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- accept_emergency_token only sets accepted_at, and settle_bed_reservation clears it when
+-- the hospital changes, so both columns have to wake the trigger too
+DROP TRIGGER start_acceptance_clock ON public.emergency_tokens;
+
+CREATE TRIGGER start_acceptance_clock
+BEFORE INSERT OR UPDATE OF status, hospital_id, accepted_at ON public.emergency_tokens
+FOR EACH ROW
+EXECUTE FUNCTION public.start_acceptance_clock();
+
+UPDATE public.emergency_tokens
+SET awaiting_since = coalesce(assigned_at, created_at)
+WHERE awaiting_since IS NULL
+  AND public.awaiting_acceptance(status, accepted_at);
+
+DROP INDEX public.idx_emergency_tokens_awaiting;
+
+CREATE INDEX idx_emergency_tokens_awaiting
+ON public.emergency_tokens (awaiting_since)
+WHERE awaiting_since IS NOT NULL;
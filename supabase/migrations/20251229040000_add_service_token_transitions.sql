@@ -0,0 +1,72 @@
+-- The backend (service role, no auth.uid()) used to be exempt from the role check of the
+-- token lifecycle. Its moves are now listed like everyone else's: service_allowed marks the
+-- transitions the backend makes, and it may not make any other.
+--   SLA monitor: takes an overdue assigned token back into the pending queue
+--   Arrival monitor: geofence arrivals at the patient and at the hospital
+--   Scenario runner: creates routed tokens and drives them through to completion
+ALTER TABLE public.token_status_transitions
+  ADD COLUMN service_allowed boolean NOT NULL DEFAULT false;
+
+UPDATE public.token_status_transitions
+SET service_allowed = true
+WHERE (from_status IS NULL AND to_status = 'route_selected')
+   OR (from_status, to_status) IN (
+     ('assigned', 'pending'),
+     ('route_selected', 'in_progress'),
+     ('in_progress', 'at_patient'),
+     ('at_patient', 'to_hospital'),
+     ('to_hospital', 'completed')
+   );
+
+CREATE OR REPLACE FUNCTION public.enforce_token_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  previous text;
+  transition public.token_status_transitions%ROWTYPE;
+  allowed text;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+      RETURN NEW;
+    END IF;
+    previous := OLD.status;
+  END IF;
+
+  SELECT * INTO transition
+  FROM public.token_status_transitions
+  WHERE from_status IS NOT DISTINCT FROM previous
+    AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    SELECT string_agg(to_status, ', ' ORDER BY to_status) INTO allowed
+    FROM public.token_status_transitions
+    WHERE from_status IS NOT DISTINCT FROM previous;
+
+    RAISE EXCEPTION 'Emergency token % cannot move from % to %',
+      NEW.token_code, coalesce(previous, '(new)'), NEW.status
+      USING ERRCODE = 'check_violation',
+            HINT = CASE
+              WHEN allowed IS NULL THEN format('%s is a final status', previous)
+              ELSE format('Allowed from %s: %s', coalesce(previous, '(new)'), allowed)
+            END;
+  END IF;
+
+  IF auth.uid() IS NULL THEN
+    IF NOT transition.service_allowed THEN
+      RAISE EXCEPTION 'The backend may not % emergency token %', replace(transition.action, '_', ' '), NEW.token_code
+        USING ERRCODE = 'insufficient_privilege';
+    END IF;
+  ELSIF NOT EXISTS (
+    SELECT 1 FROM public.profiles WHERE id = auth.uid() AND role = ANY (transition.roles)
+  ) THEN
+    RAISE EXCEPTION 'Your role may not % emergency token %', replace(transition.action, '_', ' '), NEW.token_code
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,23 @@
+-- A token handed to another hospital before anyone accepted it kept the first hospital's
+-- clock and SLA stage, so the new hospital could be flagged the moment it was assigned.
+-- The clock now restarts whenever a waiting token gets a different hospital. Widening the
+-- search (the hospital is cleared) still keeps it running so the ladder can reach admin.
+CREATE OR REPLACE FUNCTION public.start_acceptance_clock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF public.awaiting_acceptance(NEW.status, NEW.accepted_at) THEN
+    IF TG_OP = 'INSERT'
+       OR NOT public.awaiting_acceptance(OLD.status, OLD.accepted_at)
+       OR (NEW.hospital_id IS NOT NULL AND NEW.hospital_id IS DISTINCT FROM OLD.hospital_id) THEN
+      NEW.awaiting_since := now();
+      NEW.sla_stage := NULL;
+      NEW.sla_stage_at := NULL;
+    END IF;
+  ELSE
+    NEW.awaiting_since := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
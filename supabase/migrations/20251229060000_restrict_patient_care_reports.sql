@@ -0,0 +1,14 @@
+-- Every hospital user could read every patient care report. A report is now readable only
+-- by the hospital receiving the token (and admins), besides the crew that writes it.
+DROP POLICY "Hospital users can view patient care reports" ON public.patient_care_reports;
+
+CREATE POLICY "Receiving hospitals can view patient care reports"
+ON public.patient_care_reports
+FOR SELECT
+USING (
+  has_role(auth.uid(), 'admin'::user_role)
+  OR token_id IN (
+    SELECT t.id FROM public.emergency_tokens t
+    WHERE t.hospital_id = auth.uid()
+  )
+);